@@ -1,12 +1,61 @@
 import { NextResponse } from "next/server";
-import { getOnboardingConfig } from "@/lib/onboarding/service";
+import { auth } from "@/lib/auth/user";
+import { loadUserProfile } from "@/lib/auth/access";
+import {
+  findUsableWindowExtension,
+  getOnboardingConfig,
+  getOnboardingProgram,
+  getProgramApplicationWindow,
+} from "@/lib/onboarding/service";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+import { getFormLocales, parseAcceptLanguage, resolveFormLocale } from "@/lib/onboarding/locales";
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const config = await getOnboardingConfig();
-    return NextResponse.json({ ok: true, form: config });
+    const params = new URL(request.url).searchParams;
+    const program = await getOnboardingProgram(params.get("program") ?? DEFAULT_PROGRAM_ID);
+    if (!program || program.archived) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    const config = await getOnboardingConfig(program.id);
+    const applicationWindow = await getProgramApplicationWindow(program, config);
+    const session = await auth();
+    const userLocale = session?.user?.id
+      ? await loadUserProfile(session.user.id)
+          .then((profile) => profile.locale)
+          .catch(() => null)
+      : null;
+    const locale = resolveFormLocale(config, [
+      params.get("locale"),
+      userLocale,
+      ...parseAcceptLanguage(request.headers.get("accept-language")),
+    ]);
+    const extensionToken = params.get("extension")?.trim();
+    const extension =
+      applicationWindow.state !== "open" && extensionToken
+        ? await findUsableWindowExtension(program.id, extensionToken)
+        : null;
+
+    return NextResponse.json({
+      ok: true,
+      form: config,
+      locale,
+      locales: getFormLocales(config),
+      program: {
+        id: program.id,
+        slug: program.slug,
+        name: program.name,
+        summary: program.summary,
+        opensAt: applicationWindow.opensAt,
+        closesAt: applicationWindow.closesAt,
+        remaining: applicationWindow.remaining,
+        state: extension ? "open" : applicationWindow.state,
+      },
+      extension: extension ? { expiresAt: extension.expiresAt } : undefined,
+    });
   } catch (error) {
     console.error("GET /api/onboarding/config failed", error);
     return NextResponse.json(
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getOnboardingDraft } from "@/lib/onboarding/service";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token?: string | string[] }> }
+) {
+  const { token: tokenValue } = await params;
+  const token = Array.isArray(tokenValue) ? tokenValue[0] : tokenValue;
+  if (!token) {
+    return NextResponse.json({ ok: false, error: "Resume token is required" }, { status: 400 });
+  }
+
+  try {
+    const draft = await getOnboardingDraft(token);
+    if (!draft) {
+      return NextResponse.json({ ok: false, error: "Draft not found" }, { status: 404 });
+    }
+    if (draft.submittedAt) {
+      return NextResponse.json(
+        { ok: false, error: "Draft already submitted", submissionId: draft.submissionId },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      draft: {
+        programId: draft.programId,
+        formId: draft.formId,
+        formVersion: draft.formVersion,
+        applicantId: draft.applicantId,
+        resumeToken: draft.resumeToken,
+        responses: draft.responses,
+        updatedAt: draft.updatedAt,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/onboarding/drafts/[token] failed", error);
+    return NextResponse.json({ ok: false, error: "Unable to load draft" }, { status: 500 });
+  }
+}
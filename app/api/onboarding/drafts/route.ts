@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { getOnboardingProgram, saveOnboardingDraft } from "@/lib/onboarding/service";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+import { OnboardingFieldResponse } from "@/lib/onboarding/types";
+
+export const dynamic = "force-dynamic";
+
+type DraftPayload = {
+  program?: string;
+  resumeToken?: string;
+  formId: string;
+  formVersion?: number;
+  applicantId: string;
+  responses: OnboardingFieldResponse[];
+};
+
+export async function POST(request: Request) {
+  let payload: DraftPayload;
+
+  try {
+    payload = (await request.json()) as DraftPayload;
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  if (!payload.formId) {
+    return NextResponse.json({ ok: false, error: "Form ID missing" }, { status: 400 });
+  }
+
+  if (!payload.applicantId?.trim()) {
+    return NextResponse.json({ ok: false, error: "Applicant ID missing" }, { status: 400 });
+  }
+
+  if (!Array.isArray(payload.responses)) {
+    return NextResponse.json({ ok: false, error: "Responses missing" }, { status: 400 });
+  }
+
+  try {
+    const program = await getOnboardingProgram(payload.program?.trim() || DEFAULT_PROGRAM_ID);
+    if (!program || program.archived) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    const draft = await saveOnboardingDraft(
+      program.id,
+      {
+        formId: payload.formId,
+        formVersion: typeof payload.formVersion === "number" ? payload.formVersion : undefined,
+        applicantId: payload.applicantId.trim(),
+        responses: payload.responses.filter(
+          (response) => response && typeof response.fieldId === "string",
+        ),
+      },
+      payload.resumeToken?.trim() || undefined,
+    );
+
+    return NextResponse.json({
+      ok: true,
+      draft: { resumeToken: draft.resumeToken, updatedAt: draft.updatedAt },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Draft not found") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === "Draft already submitted") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error("POST /api/onboarding/drafts failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to save draft" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { dispatchMilestoneNotifications } from "@/lib/onboarding/service";
+
+export const dynamic = "force-dynamic";
+
+// Called by the scheduler with `Authorization: Bearer $CRON_SECRET`.
+export async function POST(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ ok: false, error: "Milestone dispatch is not configured" }, { status: 503 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await dispatchMilestoneNotifications();
+    return NextResponse.json({ ok: true, result });
+  } catch (error) {
+    console.error("POST /api/onboarding/milestones/dispatch failed", error);
+    return NextResponse.json({ ok: false, error: "Unable to dispatch milestone notifications" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getProgramApplicationWindow, listOnboardingPrograms } from "@/lib/onboarding/service";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const programs = await listOnboardingPrograms();
+    const listings = await Promise.all(
+      programs.map(async (program) => {
+        const applicationWindow = await getProgramApplicationWindow(program);
+        return {
+          id: program.id,
+          slug: program.slug,
+          name: program.name,
+          summary: program.summary,
+          opensAt: applicationWindow.opensAt,
+          closesAt: applicationWindow.closesAt,
+          state: applicationWindow.state,
+        };
+      }),
+    );
+    return NextResponse.json({ ok: true, programs: listings });
+  } catch (error) {
+    console.error("GET /api/onboarding/programs failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to load onboarding programs" },
+      { status: 500 },
+    );
+  }
+}
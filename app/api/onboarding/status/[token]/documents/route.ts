@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { fulfilDocumentRequest } from "@/lib/onboarding/service";
+import type { OnboardingAttachment } from "@/lib/onboarding/types";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token?: string | string[] }> }
+) {
+  const { token: tokenValue } = await params;
+  const token = Array.isArray(tokenValue) ? tokenValue[0] : tokenValue;
+  if (!token) {
+    return NextResponse.json({ ok: false, error: "Status token is required" }, { status: 400 });
+  }
+
+  let payload: { requestId?: unknown; attachments?: unknown };
+  try {
+    payload = (await request.json()) as { requestId?: unknown; attachments?: unknown };
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  if (typeof payload.requestId !== "string" || !payload.requestId) {
+    return NextResponse.json({ ok: false, error: "Document request id is required" }, { status: 400 });
+  }
+  const attachments = Array.isArray(payload.attachments) ? (payload.attachments as OnboardingAttachment[]) : [];
+
+  try {
+    const status = await fulfilDocumentRequest(token, payload.requestId, attachments);
+    return NextResponse.json({ ok: true, status });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "Submission not found" || error.message === "Document request not found") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+      }
+      if (error.message === "Document request is no longer open") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+      }
+      if (
+        error.message === "Attach at least one file" ||
+        error.message === "Attachments must be uploaded for this application" ||
+        error.message === "Uploaded file not found"
+      ) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+      }
+    }
+    console.error("POST /api/onboarding/status/[token]/documents failed", error);
+    return NextResponse.json({ ok: false, error: "Unable to upload documents" }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { Buffer } from "node:buffer";
+import { createHash, randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { PutObjectCommand } from "@aws-sdk/client-s3";
+import s3 from "@/lib/storage/storage";
+import { getDocumentUploadPrefix } from "@/lib/onboarding/service";
+
+const getBucketName = () => {
+  const bucket = process.env.S3_ONBOARDING_BUCKET;
+  if (!bucket) {
+    throw new Error("S3_ONBOARDING_BUCKET is not configured");
+  }
+  return bucket;
+};
+
+export const dynamic = "force-dynamic";
+
+// Uploads land under the submission's own prefix, which is the only place document requests accept files from.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token?: string | string[] }> }
+) {
+  const { token: tokenValue } = await params;
+  const token = Array.isArray(tokenValue) ? tokenValue[0] : tokenValue;
+  if (!token) {
+    return NextResponse.json({ ok: false, error: "Status token is required" }, { status: 400 });
+  }
+
+  const formData = await request.formData();
+  const file = formData.get("file");
+
+  if (!file || !(file instanceof File)) {
+    return NextResponse.json({ ok: false, error: "File missing" }, { status: 400 });
+  }
+
+  try {
+    const prefix = await getDocumentUploadPrefix(token);
+    const fileId = randomUUID();
+    const extension = file.name.includes(".") ? `.${file.name.split(".").pop()}` : "";
+    const key = `${prefix}${fileId}${extension}`;
+    const body = Buffer.from(await file.arrayBuffer());
+    const sha256 = createHash("sha256").update(body).digest("hex");
+
+    await s3.send(
+      new PutObjectCommand({
+        Bucket: getBucketName(),
+        Key: key,
+        Body: body,
+        ContentType: file.type || "application/octet-stream",
+        Metadata: {
+          originalName: file.name,
+          sha256,
+        },
+        ACL: "public-read",
+      }),
+    );
+
+    return NextResponse.json({
+      ok: true,
+      attachment: {
+        key,
+        name: file.name,
+        size: file.size,
+        contentType: file.type || "application/octet-stream",
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Submission not found") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    console.error("POST /api/onboarding/status/[token]/documents/upload failed", error);
+    return NextResponse.json({ ok: false, error: "Upload failed" }, { status: 500 });
+  }
+}
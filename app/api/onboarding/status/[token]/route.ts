@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { getApplicantStatus } from "@/lib/onboarding/service";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token?: string | string[] }> }
+) {
+  const { token: tokenValue } = await params;
+  const token = Array.isArray(tokenValue) ? tokenValue[0] : tokenValue;
+  if (!token) {
+    return NextResponse.json({ ok: false, error: "Status token is required" }, { status: 400 });
+  }
+
+  try {
+    const status = await getApplicantStatus(token);
+    if (!status) {
+      return NextResponse.json({ ok: false, error: "Application not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, status });
+  } catch (error) {
+    console.error("GET /api/onboarding/status/[token] failed", error);
+    return NextResponse.json({ ok: false, error: "Unable to load application status" }, { status: 500 });
+  }
+}
@@ -1,56 +1,35 @@
 import { NextResponse } from "next/server";
-import {
-  enrichAttachment,
-  evaluateSubmissionScore,
-  getOnboardingConfig,
-  saveOnboardingSubmission,
-} from "@/lib/onboarding/service";
-import { OnboardingFieldResponse } from "@/lib/onboarding/types";
+import { markOnboardingDraftSubmitted } from "@/lib/onboarding/service";
+import { parseSubmissionPayload, submitOnboardingApplication } from "@/lib/onboarding/submit";
 
 export const dynamic = "force-dynamic";
 
-type SubmissionPayload = {
-  formId: string;
-  responses: OnboardingFieldResponse[];
-  applicantId?: string;
-};
-
 export async function POST(request: Request) {
-  let payload: SubmissionPayload;
+  let body: unknown;
 
   try {
-    payload = (await request.json()) as SubmissionPayload;
+    body = await request.json();
   } catch (error) {
     return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
   }
 
-  if (!payload.formId) {
-    return NextResponse.json({ ok: false, error: "Form ID missing" }, { status: 400 });
-  }
-
-  if (!Array.isArray(payload.responses)) {
-    return NextResponse.json({ ok: false, error: "Responses missing" }, { status: 400 });
+  const { payload, error: payloadError } = parseSubmissionPayload(body);
+  if (!payload) {
+    return NextResponse.json({ ok: false, error: payloadError }, { status: 400 });
   }
 
-  const userId = payload.applicantId?.trim() || "public";
-
   try {
-    const enrichedResponses = payload.responses.map((response) => ({
-      ...response,
-      attachments: response.attachments?.map(enrichAttachment),
-    }));
-
-    const form = await getOnboardingConfig();
-    const score = form.id === payload.formId ? evaluateSubmissionScore(form, enrichedResponses) : undefined;
+    const outcome = await submitOnboardingApplication(
+      payload,
+      { userId: payload.applicantId ?? "public" },
+      "POST /api/onboarding/submit",
+    );
 
-    const record = await saveOnboardingSubmission({
-      userId,
-      formId: payload.formId,
-      responses: enrichedResponses,
-      score,
-    });
+    if (outcome.body.ok && payload.draftToken) {
+      await markOnboardingDraftSubmitted(payload.draftToken, outcome.body.submission.id);
+    }
 
-    return NextResponse.json({ ok: true, submission: record });
+    return NextResponse.json(outcome.body, { status: outcome.status });
   } catch (error) {
     console.error("POST /api/onboarding/submit failed", error);
     return NextResponse.json(
@@ -1,5 +1,5 @@
 import { Buffer } from "node:buffer";
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
 import { NextResponse } from "next/server";
 import { PutObjectCommand } from "@aws-sdk/client-s3";
 import s3 from "@/lib/storage/storage";
@@ -28,15 +28,18 @@ export async function POST(request: Request) {
   const extension = file.name.includes(".") ? `.${file.name.split(".").pop()}` : "";
   const key = `uploads/${applicantId || "public"}/${fileId}${extension}`;
   const arrayBuffer = await file.arrayBuffer();
+  const body = Buffer.from(arrayBuffer);
+  const sha256 = createHash("sha256").update(body).digest("hex");
 
   await s3.send(
     new PutObjectCommand({
       Bucket: bucket,
       Key: key,
-      Body: Buffer.from(arrayBuffer),
+      Body: body,
       ContentType: file.type || "application/octet-stream",
       Metadata: {
         originalName: file.name,
+        sha256,
       },
       ACL: "public-read",
     }),
@@ -49,6 +52,7 @@ export async function POST(request: Request) {
       name: file.name,
       size: file.size,
       contentType: file.type || "application/octet-stream",
+      sha256,
     },
   });
 }
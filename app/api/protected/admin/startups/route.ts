@@ -2,7 +2,11 @@ import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth/user";
 import { canManageUsers, loadUserProfile } from "@/lib/auth/access";
 import { listUserProfiles } from "@/lib/db/auth/user";
-import { getOnboardingConfig, listOnboardingSubmissions } from "@/lib/onboarding/service";
+import {
+  getOnboardingConfig,
+  listOnboardingPrograms,
+  listOnboardingSubmissions,
+} from "@/lib/onboarding/service";
 
 export const dynamic = "force-dynamic";
 
@@ -26,15 +30,19 @@ export async function GET() {
   }
 
   try {
-    const [form, users] = await Promise.all([
-      getOnboardingConfig(),
+    const [programs, users] = await Promise.all([
+      listOnboardingPrograms({ includeArchived: true }),
       listUserProfiles(),
     ]);
 
-    const submissions = await listOnboardingSubmissions(form);
+    const submissionLists = await Promise.all(
+      programs.map(async (program) =>
+        listOnboardingSubmissions(await getOnboardingConfig(program.id), { programId: program.id }),
+      ),
+    );
     const optionMap = new Map<string, { id: string; label: string; stage?: string | null; status?: string | null; submittedAt?: string | null }>();
 
-    submissions.entries.forEach((entry) => {
+    submissionLists.flatMap((submissions) => submissions.entries).forEach((entry) => {
       optionMap.set(entry.id, {
         id: entry.id,
         label: entry.companyName ?? entry.id,
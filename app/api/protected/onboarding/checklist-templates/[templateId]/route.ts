@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { canConfigureOnboarding, loadUserProfile } from "@/lib/auth/access";
+import { deleteChecklistTemplate, updateChecklistTemplate } from "@/lib/onboarding/service";
+import type { OnboardingChecklistTemplateInput } from "@/lib/onboarding/types";
+
+export const dynamic = "force-dynamic";
+
+const TEMPLATE_INPUT_ERRORS = new Set(["Template name is required", "Template needs at least one item"]);
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId?: string | string[] }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("PATCH /protected/onboarding/checklist-templates profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { templateId: templateIdValue } = await params;
+  const templateId = Array.isArray(templateIdValue) ? templateIdValue[0] : templateIdValue;
+  if (!templateId) {
+    return NextResponse.json({ ok: false, error: "Template id is required" }, { status: 400 });
+  }
+
+  let payload: OnboardingChecklistTemplateInput;
+  try {
+    payload = (await request.json()) as OnboardingChecklistTemplateInput;
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const template = await updateChecklistTemplate(templateId, payload);
+    return NextResponse.json({ ok: true, template });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Checklist template not found") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && TEMPLATE_INPUT_ERRORS.has(error.message)) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    console.error(`PATCH /protected/onboarding/checklist-templates/${templateId} failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to update checklist template" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ templateId?: string | string[] }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("DELETE /protected/onboarding/checklist-templates profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { templateId: templateIdValue } = await params;
+  const templateId = Array.isArray(templateIdValue) ? templateIdValue[0] : templateIdValue;
+  if (!templateId) {
+    return NextResponse.json({ ok: false, error: "Template id is required" }, { status: 400 });
+  }
+
+  try {
+    await deleteChecklistTemplate(templateId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Checklist template not found") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    console.error(`DELETE /protected/onboarding/checklist-templates/${templateId} failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to delete checklist template" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { canConfigureOnboarding, loadUserProfile } from "@/lib/auth/access";
+import { syncChecklistTemplate } from "@/lib/onboarding/service";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ templateId?: string | string[] }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/checklist-templates/sync profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { templateId: templateIdValue } = await params;
+  const templateId = Array.isArray(templateIdValue) ? templateIdValue[0] : templateIdValue;
+  if (!templateId) {
+    return NextResponse.json({ ok: false, error: "Template id is required" }, { status: 400 });
+  }
+
+  try {
+    const updated = await syncChecklistTemplate(templateId);
+    return NextResponse.json({ ok: true, updated });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Checklist template not found") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === "Checklist was updated while the template was being applied") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error(`POST /protected/onboarding/checklist-templates/${templateId}/sync failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to update checklists from template" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { canConfigureOnboarding, loadUserProfile } from "@/lib/auth/access";
+import { createChecklistTemplate, listChecklistTemplates } from "@/lib/onboarding/service";
+import type { OnboardingChecklistTemplateInput } from "@/lib/onboarding/types";
+
+export const dynamic = "force-dynamic";
+
+const TEMPLATE_INPUT_ERRORS = new Set(["Template name is required", "Template needs at least one item"]);
+
+export async function GET() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("GET /protected/onboarding/checklist-templates profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const templates = await listChecklistTemplates();
+    return NextResponse.json({ ok: true, templates });
+  } catch (error) {
+    console.error("GET /protected/onboarding/checklist-templates failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to load checklist templates" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/checklist-templates profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  let payload: OnboardingChecklistTemplateInput;
+  try {
+    payload = (await request.json()) as OnboardingChecklistTemplateInput;
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const template = await createChecklistTemplate(payload);
+    return NextResponse.json({ ok: true, template });
+  } catch (error) {
+    if (error instanceof Error && TEMPLATE_INPUT_ERRORS.has(error.message)) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    console.error("POST /protected/onboarding/checklist-templates failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to create checklist template" },
+      { status: 500 },
+    );
+  }
+}
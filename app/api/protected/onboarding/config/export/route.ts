@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { canConfigureOnboarding, loadUserProfile } from "@/lib/auth/access";
+import { exportOnboardingFormSchema, getOnboardingProgram } from "@/lib/onboarding/service";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("GET /onboarding/config/export profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const program = await getOnboardingProgram(
+      new URL(request.url).searchParams.get("program") ?? DEFAULT_PROGRAM_ID,
+    );
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    const document = await exportOnboardingFormSchema(program);
+    const fileName = `${program.slug}-form-v${document.source?.formVersion ?? 1}.json`;
+
+    return new NextResponse(JSON.stringify(document, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("GET /onboarding/config/export failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to export onboarding configuration" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,15 +1,21 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth/user";
+import { canConfigureOnboarding, loadUserProfile } from "@/lib/auth/access";
 import {
   getOnboardingConfig,
+  getOnboardingProgram,
   normalizeConfig,
+  parseOnboardingFormSchema,
+  previewOnboardingFormImport,
   saveOnboardingConfig,
 } from "@/lib/onboarding/service";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+import { parseAcceptLanguage, resolveFormLocale } from "@/lib/onboarding/locales";
 import { OnboardingForm } from "@/lib/onboarding/types";
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+export async function GET(request: Request) {
   const session = await auth();
 
   if (!session?.user?.id) {
@@ -17,8 +23,20 @@ export async function GET() {
   }
 
   try {
-    const config = await getOnboardingConfig();
-    return NextResponse.json({ ok: true, form: config });
+    const program = await getOnboardingProgram(
+      new URL(request.url).searchParams.get("program") ?? DEFAULT_PROGRAM_ID,
+    );
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    const config = await getOnboardingConfig(program.id);
+    const profile = await loadUserProfile(session.user.id).catch(() => null);
+    const locale = resolveFormLocale(config, [
+      profile?.locale,
+      ...parseAcceptLanguage(request.headers.get("accept-language")),
+    ]);
+    return NextResponse.json({ ok: true, form: config, program, locale });
   } catch (error) {
     console.error("GET /onboarding/config failed", error);
     return NextResponse.json(
@@ -35,6 +53,18 @@ export async function PUT(request: Request) {
     return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
   }
 
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("PUT /onboarding/config profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
   let payload: unknown;
 
   try {
@@ -47,17 +77,56 @@ export async function PUT(request: Request) {
     return NextResponse.json({ ok: false, error: "Invalid payload" }, { status: 400 });
   }
 
-  const form = (payload as { form: OnboardingForm }).form;
+  const { form, schema, preview } = payload as {
+    form?: OnboardingForm;
+    schema?: unknown;
+    preview?: boolean;
+  };
 
-  if (!form) {
+  if (!form && schema === undefined) {
     return NextResponse.json({ ok: false, error: "Form payload missing" }, { status: 400 });
   }
 
+  let imported: ReturnType<typeof parseOnboardingFormSchema> | null = null;
+  if (!form) {
+    try {
+      imported = parseOnboardingFormSchema(schema);
+    } catch (error) {
+      return NextResponse.json(
+        { ok: false, error: error instanceof Error ? error.message : "Invalid form schema" },
+        { status: 400 },
+      );
+    }
+  }
+
   try {
-    const normalized = normalizeConfig(form);
-    await saveOnboardingConfig(normalized);
+    const program = await getOnboardingProgram(
+      new URL(request.url).searchParams.get("program") ?? DEFAULT_PROGRAM_ID,
+    );
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    let normalized: OnboardingForm;
+    if (imported) {
+      const importPreview = await previewOnboardingFormImport(imported, program.id);
+      if (preview) {
+        return NextResponse.json({ ok: true, preview: importPreview });
+      }
+      normalized = importPreview.form;
+    } else {
+      normalized = normalizeConfig(form!);
+    }
+
+    if (normalized.opensAt && normalized.closesAt && normalized.closesAt < normalized.opensAt) {
+      return NextResponse.json(
+        { ok: false, error: "Application window closes before it opens" },
+        { status: 400 },
+      );
+    }
+    const saved = await saveOnboardingConfig(normalized, session.user.id, program.id);
 
-    return NextResponse.json({ ok: true, form: normalized });
+    return NextResponse.json({ ok: true, form: saved });
   } catch (error) {
     console.error("PUT /onboarding/config failed", error);
     return NextResponse.json(
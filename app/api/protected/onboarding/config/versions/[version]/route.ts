@@ -0,0 +1,136 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { canConfigureOnboarding, loadUserProfile } from "@/lib/auth/access";
+import {
+  diffOnboardingForms,
+  getOnboardingConfig,
+  getOnboardingConfigVersion,
+  getOnboardingProgram,
+  rollbackOnboardingConfig,
+} from "@/lib/onboarding/service";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+
+export const dynamic = "force-dynamic";
+
+const parseVersion = (value: string | null | undefined): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const resolveVersion = async (params: Promise<{ version?: string | string[] }>) => {
+  const { version } = await params;
+  return parseVersion(Array.isArray(version) ? version[0] : version);
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ version?: string | string[] }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("GET /onboarding/config/versions profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const version = await resolveVersion(params);
+  if (version === undefined) {
+    return NextResponse.json({ ok: false, error: "Invalid form version" }, { status: 400 });
+  }
+
+  try {
+    const program = await getOnboardingProgram(
+      new URL(request.url).searchParams.get("program") ?? DEFAULT_PROGRAM_ID,
+    );
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    const target = await getOnboardingConfigVersion(version, program.id);
+    if (!target) {
+      return NextResponse.json({ ok: false, error: "Form version not found" }, { status: 404 });
+    }
+
+    const compareParam = parseVersion(new URL(request.url).searchParams.get("compare"));
+    const baseline = compareParam
+      ? (await getOnboardingConfigVersion(compareParam, program.id))?.form
+      : await getOnboardingConfig(program.id);
+
+    if (!baseline) {
+      return NextResponse.json({ ok: false, error: "Comparison version not found" }, { status: 404 });
+    }
+
+    const diff = diffOnboardingForms(baseline, target.form);
+    return NextResponse.json({ ok: true, version: target, diff });
+  } catch (error) {
+    console.error(`GET /onboarding/config/versions/${version} failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to load form version" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ version?: string | string[] }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /onboarding/config/versions profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const version = await resolveVersion(params);
+  if (version === undefined) {
+    return NextResponse.json({ ok: false, error: "Invalid form version" }, { status: 400 });
+  }
+
+  try {
+    const program = await getOnboardingProgram(
+      new URL(request.url).searchParams.get("program") ?? DEFAULT_PROGRAM_ID,
+    );
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    const form = await rollbackOnboardingConfig(version, session.user.id, program.id);
+    return NextResponse.json({ ok: true, form });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Form version not found") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    console.error(`POST /onboarding/config/versions/${version} failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to restore form version" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { canConfigureOnboarding, loadUserProfile } from "@/lib/auth/access";
+import { getOnboardingProgram, listOnboardingConfigVersions } from "@/lib/onboarding/service";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("GET /onboarding/config/versions profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const program = await getOnboardingProgram(
+      new URL(request.url).searchParams.get("program") ?? DEFAULT_PROGRAM_ID,
+    );
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    const versions = await listOnboardingConfigVersions(program.id);
+    return NextResponse.json({ ok: true, versions });
+  } catch (error) {
+    console.error("GET /onboarding/config/versions failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to load form version history" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { canReviewOnboarding, canReviewProgram, loadUserProfile } from "@/lib/auth/access";
+import {
+  getOnboardingConfig,
+  getOnboardingProgram,
+  listAbandonedOnboardingDrafts,
+} from "@/lib/onboarding/service";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("GET /protected/onboarding/drafts profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const idleHoursParam = Number(params.get("idleHours"));
+  const idleHours = Number.isFinite(idleHoursParam) && idleHoursParam > 0 ? idleHoursParam : 24;
+
+  try {
+    const program = await getOnboardingProgram(params.get("program") ?? DEFAULT_PROGRAM_ID);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const form = await getOnboardingConfig(program.id);
+    const result = await listAbandonedOnboardingDrafts(form, program.id, idleHours);
+
+    return NextResponse.json({ ok: true, ...result, idleHours });
+  } catch (error) {
+    console.error("GET /protected/onboarding/drafts failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to load abandoned drafts" },
+      { status: 500 },
+    );
+  }
+}
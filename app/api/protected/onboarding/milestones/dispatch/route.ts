@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { canConfigureOnboarding, loadUserProfile } from "@/lib/auth/access";
+import { dispatchMilestoneNotifications } from "@/lib/onboarding/service";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/milestones/dispatch profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = (await request.json().catch(() => ({}))) as { dryRun?: boolean };
+
+  try {
+    const result = await dispatchMilestoneNotifications({ dryRun: body.dryRun === true });
+    return NextResponse.json({ ok: true, result });
+  } catch (error) {
+    console.error("POST /protected/onboarding/milestones/dispatch failed", error);
+    return NextResponse.json({ ok: false, error: "Unable to dispatch milestone notifications" }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { canConfigureOnboarding, loadUserProfile } from "@/lib/auth/access";
+import { getOnboardingProgram, revokeOnboardingWindowExtension } from "@/lib/onboarding/service";
+
+export const dynamic = "force-dynamic";
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ programId?: string | string[]; extensionId?: string | string[] }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("DELETE /protected/onboarding/programs/extensions profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { programId: programIdValue, extensionId: extensionIdValue } = await params;
+  const programId = Array.isArray(programIdValue) ? programIdValue[0] : programIdValue;
+  const extensionId = Array.isArray(extensionIdValue) ? extensionIdValue[0] : extensionIdValue;
+  if (!programId || !extensionId) {
+    return NextResponse.json({ ok: false, error: "Extension id is required" }, { status: 400 });
+  }
+
+  try {
+    const program = await getOnboardingProgram(programId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    await revokeOnboardingWindowExtension(program.id, extensionId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Extension not found") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === "Extension already used") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error(`DELETE /protected/onboarding/programs/${programId}/extensions/${extensionId} failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to revoke extension" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { canConfigureOnboarding, loadUserProfile } from "@/lib/auth/access";
+import {
+  createOnboardingWindowExtension,
+  getOnboardingProgram,
+  listOnboardingWindowExtensions,
+} from "@/lib/onboarding/service";
+import type { OnboardingWindowExtensionInput } from "@/lib/onboarding/types";
+
+export const dynamic = "force-dynamic";
+
+const EXTENSION_INPUT_ERRORS = new Set([
+  "Applicant is required",
+  "Applicant email is invalid",
+  "Extension expiry is required",
+  "Extension expiry must be in the future",
+]);
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ programId?: string | string[] }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("GET /protected/onboarding/programs/extensions profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { programId: programIdValue } = await params;
+  const programId = Array.isArray(programIdValue) ? programIdValue[0] : programIdValue;
+  if (!programId) {
+    return NextResponse.json({ ok: false, error: "Program id is required" }, { status: 400 });
+  }
+
+  try {
+    const program = await getOnboardingProgram(programId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    const extensions = await listOnboardingWindowExtensions(program.id);
+    return NextResponse.json({ ok: true, extensions });
+  } catch (error) {
+    console.error(`GET /protected/onboarding/programs/${programId}/extensions failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to load extensions" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ programId?: string | string[] }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/programs/extensions profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { programId: programIdValue } = await params;
+  const programId = Array.isArray(programIdValue) ? programIdValue[0] : programIdValue;
+  if (!programId) {
+    return NextResponse.json({ ok: false, error: "Program id is required" }, { status: 400 });
+  }
+
+  let payload: OnboardingWindowExtensionInput;
+  try {
+    payload = (await request.json()) as OnboardingWindowExtensionInput;
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const program = await getOnboardingProgram(programId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    const extension = await createOnboardingWindowExtension(program.id, payload, session.user.id);
+    return NextResponse.json({ ok: true, extension }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && EXTENSION_INPUT_ERRORS.has(error.message)) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    console.error(`POST /protected/onboarding/programs/${programId}/extensions failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to issue extension" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { canConfigureOnboarding, loadUserProfile } from "@/lib/auth/access";
+import { updateOnboardingProgram } from "@/lib/onboarding/service";
+import type { OnboardingProgramInput } from "@/lib/onboarding/types";
+
+export const dynamic = "force-dynamic";
+
+const PROGRAM_INPUT_ERRORS = new Set([
+  "Program name is required",
+  "Program slug is required",
+  "Program closes before it opens",
+  "Panel chair must be in the reviewer pool",
+  "Rubric needs at least one criterion",
+  "Rubric scale maximum must exceed the minimum",
+  "Lifecycle needs at least one state",
+  "The default program cannot be archived",
+]);
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ programId?: string | string[] }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("PATCH /protected/onboarding/programs profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { programId: programIdValue } = await params;
+  const programId = Array.isArray(programIdValue) ? programIdValue[0] : programIdValue;
+  if (!programId) {
+    return NextResponse.json({ ok: false, error: "Program id is required" }, { status: 400 });
+  }
+
+  let payload: OnboardingProgramInput;
+  try {
+    payload = (await request.json()) as OnboardingProgramInput;
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const program = await updateOnboardingProgram(programId, payload);
+    return NextResponse.json({ ok: true, program });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Program not found") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === "Program slug already in use") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof Error && PROGRAM_INPUT_ERRORS.has(error.message)) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    console.error(`PATCH /protected/onboarding/programs/${programId} failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to update onboarding program" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  canConfigureOnboarding,
+  canReviewOnboarding,
+  canReviewProgram,
+  loadUserProfile,
+} from "@/lib/auth/access";
+import { listUserProfiles } from "@/lib/db/auth/user";
+import { createOnboardingProgram, listOnboardingPrograms } from "@/lib/onboarding/service";
+import type { OnboardingProgramInput } from "@/lib/onboarding/types";
+
+export const dynamic = "force-dynamic";
+
+const PROGRAM_INPUT_ERRORS = new Set([
+  "Program name is required",
+  "Program slug is required",
+  "Program closes before it opens",
+  "Panel chair must be in the reviewer pool",
+  "Rubric needs at least one criterion",
+  "Rubric scale maximum must exceed the minimum",
+  "Lifecycle needs at least one state",
+]);
+
+export async function GET() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("GET /protected/onboarding/programs profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const canConfigure = canConfigureOnboarding(profile);
+    const programs = await listOnboardingPrograms({ includeArchived: canConfigure });
+    const visible = canReviewOnboarding(profile)
+      ? programs.filter((program) => canReviewProgram(profile, program))
+      : programs;
+
+    const reviewers = canConfigure
+      ? (await listUserProfiles())
+          .filter((user) => user.isActive && canReviewOnboarding(user))
+          .map((user) => ({ id: user.id, name: user.name, email: user.email }))
+      : [];
+
+    return NextResponse.json({ ok: true, programs: visible, reviewers });
+  } catch (error) {
+    console.error("GET /protected/onboarding/programs failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to load onboarding programs" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/programs profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  let payload: OnboardingProgramInput;
+  try {
+    payload = (await request.json()) as OnboardingProgramInput;
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const program = await createOnboardingProgram(payload, session.user.id);
+    return NextResponse.json({ ok: true, program });
+  } catch (error) {
+    if (error instanceof Error && PROGRAM_INPUT_ERRORS.has(error.message)) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    if (error instanceof Error && error.message === "Program slug already in use") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error("POST /protected/onboarding/programs failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to create onboarding program" },
+      { status: 500 },
+    );
+  }
+}
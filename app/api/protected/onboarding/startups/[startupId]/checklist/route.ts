@@ -1,11 +1,19 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { auth } from "@/lib/auth/user";
+import { canAccessStartup, canReviewOnboarding, loadUserProfile } from "@/lib/auth/access";
 import { getOnboardingChecklist, saveOnboardingChecklist } from "@/lib/onboarding/service";
 import { OnboardingChecklist } from "@/lib/onboarding/types";
 
 export const dynamic = "force-dynamic";
 
+const CHECKLIST_RULE_ERRORS = new Set([
+  "Checklist dependencies cannot form a cycle",
+  "Blocked items cannot be completed",
+  "Upload the required evidence before completing this item",
+  "Only staff can remove items that other items depend on",
+]);
+
 const resolveStartupId = async (
   params: Promise<{ startupId?: string | string[] }>
 ) => {
@@ -22,11 +30,22 @@ export async function GET(
     return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
   }
 
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("GET /protected/onboarding/startups/[id]/checklist profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
   try {
     const startupId = await resolveStartupId(params);
     if (!startupId) {
       return NextResponse.json({ ok: false, error: "Startup id is required" }, { status: 400 });
     }
+    if (!(await canAccessStartup(profile, startupId))) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
 
     const checklist = await getOnboardingChecklist(startupId);
     return NextResponse.json({ ok: true, checklist });
@@ -48,10 +67,21 @@ export async function PUT(
     return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
   }
 
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("PUT /protected/onboarding/startups/[id]/checklist profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
   const startupId = await resolveStartupId(params);
   if (!startupId) {
     return NextResponse.json({ ok: false, error: "Startup id is required" }, { status: 400 });
   }
+  if (!(await canAccessStartup(profile, startupId))) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
 
   let payload: unknown;
   try {
@@ -72,16 +102,26 @@ export async function PUT(
   }
 
   try {
-    const updated = await saveOnboardingChecklist(startupId, {
+    const updated = await saveOnboardingChecklist(
       startupId,
-      createdAt: checklist?.createdAt ?? new Date().toISOString(),
-      updatedAt: checklist?.updatedAt ?? new Date().toISOString(),
-      notes: checklist?.notes,
-      items: checklist?.items ?? items ?? [],
-    });
+      {
+        startupId,
+        createdAt: checklist?.createdAt ?? new Date().toISOString(),
+        updatedAt: checklist?.updatedAt ?? new Date().toISOString(),
+        notes: checklist?.notes,
+        items: checklist?.items ?? items ?? [],
+        templateId: checklist?.templateId,
+        templateVersion: checklist?.templateVersion,
+        anchorAt: checklist?.anchorAt,
+      },
+      { canEditRequirements: canReviewOnboarding(profile) },
+    );
 
     return NextResponse.json({ ok: true, checklist: updated });
   } catch (error) {
+    if (error instanceof Error && CHECKLIST_RULE_ERRORS.has(error.message)) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
     console.error("PUT /protected/onboarding/startups/[id]/checklist failed", error);
     return NextResponse.json(
       { ok: false, error: "Unable to save onboarding checklist" },
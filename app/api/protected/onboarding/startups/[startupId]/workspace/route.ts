@@ -3,12 +3,12 @@ import type { NextRequest } from "next/server";
 import { auth } from "@/lib/auth/user";
 import {
   getOnboardingChecklist,
-  getOnboardingConfig,
   getOnboardingSubmissionDetail,
   getOnboardingMilestones,
   getOnboardingAlumniRecord,
   listOnboardingDocuments,
   getOnboardingGrantCatalog,
+  listChecklistAssignees,
 } from "@/lib/onboarding/service";
 
 export const dynamic = "force-dynamic";
@@ -41,8 +41,7 @@ export async function GET(
   }
 
   try {
-    const form = await getOnboardingConfig();
-    const submission = await getOnboardingSubmissionDetail(form, startupId, userId);
+    const submission = await getOnboardingSubmissionDetail(startupId, userId);
 
     if (!submission) {
       return NextResponse.json(
@@ -51,12 +50,13 @@ export async function GET(
       );
     }
 
-    const [checklist, documents, milestones, alumni, grants] = await Promise.all([
+    const [checklist, documents, milestones, alumni, grants, assignees] = await Promise.all([
       getOnboardingChecklist(startupId),
       listOnboardingDocuments(startupId),
       getOnboardingMilestones(startupId),
       getOnboardingAlumniRecord(startupId),
       getOnboardingGrantCatalog(startupId),
+      listChecklistAssignees(startupId),
     ]);
 
     return NextResponse.json({
@@ -67,6 +67,7 @@ export async function GET(
       milestones,
       alumni,
       grants,
+      assignees,
     });
   } catch (error) {
     console.error("GET /protected/onboarding/startups/[id]/workspace failed", error);
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  admitStartup,
+  getSubmissionProgram,
+  resolveSubmissionForm,
+  summarizeOnboardingSubmission,
+} from "@/lib/onboarding/service";
+import { loadUserProfile, canChairProgram, canReviewOnboarding } from "@/lib/auth/access";
+
+export const dynamic = "force-dynamic";
+
+const VALIDATION_ERRORS = new Set(["Cohort is required", "Founder email is required", "Founder email is invalid"]);
+
+const CONFLICT_ERRORS = new Set([
+  "Startup has already been admitted",
+  "Submission cannot be accepted from its current state",
+  "Founder email belongs to a staff account",
+  "Checklist was updated while the template was being applied",
+]);
+
+type AdmitPayload = {
+  cohort?: unknown;
+  founderEmail?: unknown;
+  founderName?: unknown;
+  programStartAt?: unknown;
+  welcomeMessage?: unknown;
+};
+
+const optionalString = (value: unknown) => (typeof value === "string" ? value : undefined);
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/submissions/admit profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  if (!submissionId) {
+    return NextResponse.json({ ok: false, error: "Submission id is required" }, { status: 400 });
+  }
+
+  let payload: AdmitPayload;
+  try {
+    payload = (await request.json()) as AdmitPayload;
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canChairProgram(profile, program)) {
+      return NextResponse.json(
+        { ok: false, error: "Only the panel chair can admit a startup" },
+        { status: 403 },
+      );
+    }
+
+    const updated = await admitStartup(
+      submissionId,
+      program,
+      { id: profile.id, name: profile.name ?? profile.email },
+      {
+        cohort: optionalString(payload.cohort) ?? "",
+        founderEmail: optionalString(payload.founderEmail) ?? "",
+        founderName: optionalString(payload.founderName),
+        programStartAt: optionalString(payload.programStartAt),
+        welcomeMessage: optionalString(payload.welcomeMessage),
+      },
+    );
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "Submission not found") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+      }
+      if (VALIDATION_ERRORS.has(error.message)) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+      }
+      if (CONFLICT_ERRORS.has(error.message)) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+      }
+    }
+    console.error(`POST /protected/onboarding/submissions/${submissionId}/admit failed`, error);
+    return NextResponse.json({ ok: false, error: "Unable to admit startup" }, { status: 500 });
+  }
+}
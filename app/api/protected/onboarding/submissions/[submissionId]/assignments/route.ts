@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  getSubmissionProgram,
+  resolveSubmissionForm,
+  setSubmissionAssignments,
+  summarizeOnboardingSubmission,
+} from "@/lib/onboarding/service";
+import { loadUserProfile, canChairProgram, canReviewOnboarding } from "@/lib/auth/access";
+
+export const dynamic = "force-dynamic";
+
+const ASSIGNMENT_INPUT_ERRORS = new Set([
+  "Reviewer is not in the program pool",
+  "Reviewer declared a conflict of interest",
+]);
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("PUT /protected/onboarding/submissions/assignments profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  if (!submissionId) {
+    return NextResponse.json({ ok: false, error: "Submission id is required" }, { status: 400 });
+  }
+
+  let payload: { reviewerIds?: unknown };
+  try {
+    payload = (await request.json()) as { reviewerIds?: unknown };
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  if (!Array.isArray(payload.reviewerIds) || payload.reviewerIds.some((id) => typeof id !== "string")) {
+    return NextResponse.json({ ok: false, error: "Reviewer ids are required" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canChairProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const updated = await setSubmissionAssignments(
+      submissionId,
+      program,
+      payload.reviewerIds as string[],
+      profile.id,
+    );
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error && ASSIGNMENT_INPUT_ERRORS.has(error.message)) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    if (error instanceof Error && error.message === "Submission was updated while the change was being saved") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error(`PUT /protected/onboarding/submissions/${submissionId}/assignments failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to update reviewer assignments" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  getSubmissionProgram,
+  resolveSubmissionForm,
+  setCommentThreadResolved,
+  summarizeOnboardingSubmission,
+} from "@/lib/onboarding/service";
+import { loadUserProfile, canReviewOnboarding, canReviewProgram } from "@/lib/auth/access";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[]; commentId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/submissions/comments/resolve profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue, commentId: commentIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  const commentId = Array.isArray(commentIdValue) ? commentIdValue[0] : commentIdValue;
+  if (!submissionId || !commentId) {
+    return NextResponse.json({ ok: false, error: "Submission and comment ids are required" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const updated = await setCommentThreadResolved(
+      submissionId,
+      { id: profile.id, name: profile.name ?? profile.email },
+      commentId,
+      true,
+    );
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error && (error.message === "Submission not found" || error.message === "Comment not found")) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === "Submission was updated while the change was being saved") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error(`POST /protected/onboarding/submissions/${submissionId}/comments/${commentId}/resolve failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to resolve thread" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[]; commentId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("DELETE /protected/onboarding/submissions/comments/resolve profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue, commentId: commentIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  const commentId = Array.isArray(commentIdValue) ? commentIdValue[0] : commentIdValue;
+  if (!submissionId || !commentId) {
+    return NextResponse.json({ ok: false, error: "Submission and comment ids are required" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const updated = await setCommentThreadResolved(
+      submissionId,
+      { id: profile.id, name: profile.name ?? profile.email },
+      commentId,
+      false,
+    );
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error && (error.message === "Submission not found" || error.message === "Comment not found")) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === "Submission was updated while the change was being saved") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error(`DELETE /protected/onboarding/submissions/${submissionId}/comments/${commentId}/resolve failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to reopen thread" },
+      { status: 500 },
+    );
+  }
+}
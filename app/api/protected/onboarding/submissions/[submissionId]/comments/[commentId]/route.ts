@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  editSubmissionComment,
+  getSubmissionProgram,
+  resolveSubmissionForm,
+  summarizeOnboardingSubmission,
+} from "@/lib/onboarding/service";
+import { loadUserProfile, canReviewOnboarding, canReviewProgram } from "@/lib/auth/access";
+
+export const dynamic = "force-dynamic";
+
+const COMMENT_ERRORS = new Set(["Comment cannot be empty", "Only program reviewers can be mentioned"]);
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[]; commentId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("PATCH /protected/onboarding/submissions/comments profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue, commentId: commentIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  const commentId = Array.isArray(commentIdValue) ? commentIdValue[0] : commentIdValue;
+  if (!submissionId || !commentId) {
+    return NextResponse.json({ ok: false, error: "Submission and comment ids are required" }, { status: 400 });
+  }
+
+  let payload: { body?: unknown; parentId?: unknown; fieldId?: unknown; mentionIds?: unknown };
+  try {
+    payload = (await request.json()) as { body?: unknown; parentId?: unknown; fieldId?: unknown; mentionIds?: unknown };
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+  const mentionIds = Array.isArray(payload.mentionIds)
+    ? payload.mentionIds.filter((id): id is string => typeof id === "string")
+    : [];
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const updated = await editSubmissionComment(submissionId, program, profile.id, commentId, {
+      body: typeof payload.body === "string" ? payload.body : "",
+      mentionIds,
+    });
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "Submission not found" || error.message === "Comment not found") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+      }
+      if (error.message === "Only the author can edit a comment") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 403 });
+      }
+      if (COMMENT_ERRORS.has(error.message)) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+      }
+      if (error.message === "Submission was updated while the change was being saved") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+      }
+    }
+    console.error(`PATCH /protected/onboarding/submissions/${submissionId}/comments/${commentId} failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to edit comment" },
+      { status: 500 },
+    );
+  }
+}
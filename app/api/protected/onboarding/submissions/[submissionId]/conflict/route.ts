@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  declareReviewerConflict,
+  getSubmissionProgram,
+  resolveSubmissionForm,
+  summarizeOnboardingSubmission,
+  withdrawReviewerConflict,
+} from "@/lib/onboarding/service";
+import { loadUserProfile, canReviewOnboarding, canReviewProgram } from "@/lib/auth/access";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/submissions/conflict profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  if (!submissionId) {
+    return NextResponse.json({ ok: false, error: "Submission id is required" }, { status: 400 });
+  }
+
+  let payload: { reason?: unknown };
+  try {
+    payload = (await request.json()) as { reason?: unknown };
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const updated = await declareReviewerConflict(
+      submissionId,
+      program,
+      { id: profile.id, name: profile.name ?? profile.email },
+      typeof payload.reason === "string" ? payload.reason : undefined,
+    );
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Withdraw your scorecard before declaring a conflict") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof Error && error.message === "Submission was updated while the change was being saved") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error(`POST /protected/onboarding/submissions/${submissionId}/conflict failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to declare conflict of interest" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("DELETE /protected/onboarding/submissions/conflict profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  if (!submissionId) {
+    return NextResponse.json({ ok: false, error: "Submission id is required" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const updated = await withdrawReviewerConflict(submissionId, profile.id);
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Submission was updated while the change was being saved") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error(`DELETE /protected/onboarding/submissions/${submissionId}/conflict failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to withdraw conflict of interest" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  finalizePanelDecision,
+  getSubmissionProgram,
+  reopenPanelDecision,
+  resolveSubmissionForm,
+  summarizeOnboardingSubmission,
+} from "@/lib/onboarding/service";
+import { loadUserProfile, canChairProgram, canReviewOnboarding } from "@/lib/auth/access";
+import type { OnboardingPanelDecisionInput } from "@/lib/onboarding/types";
+
+export const dynamic = "force-dynamic";
+
+const DECISION_INPUT_ERRORS = new Set(["Unknown decision status", "No reviewer scorecards to finalise"]);
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/submissions/decision profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  if (!submissionId) {
+    return NextResponse.json({ ok: false, error: "Submission id is required" }, { status: 400 });
+  }
+
+  let payload: OnboardingPanelDecisionInput;
+  try {
+    payload = (await request.json()) as OnboardingPanelDecisionInput;
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canChairProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Only the panel chair can finalise decisions" }, { status: 403 });
+    }
+
+    const updated = await finalizePanelDecision(
+      submissionId,
+      program,
+      { id: profile.id, name: profile.name ?? profile.email },
+      payload,
+    );
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error && DECISION_INPUT_ERRORS.has(error.message)) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    if (error instanceof Error && error.message === "Submission was updated while the change was being saved") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error(`POST /protected/onboarding/submissions/${submissionId}/decision failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to finalise panel decision" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("DELETE /protected/onboarding/submissions/decision profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  if (!submissionId) {
+    return NextResponse.json({ ok: false, error: "Submission id is required" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canChairProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Only the panel chair can reopen decisions" }, { status: 403 });
+    }
+
+    const updated = await reopenPanelDecision(submissionId);
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Panel decision not finalised") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    if (error instanceof Error && error.message === "Submission was updated while the change was being saved") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error(`DELETE /protected/onboarding/submissions/${submissionId}/decision failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to reopen panel decision" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  cancelDocumentRequest,
+  getSubmissionProgram,
+  requestApplicantDocuments,
+  resolveSubmissionForm,
+  summarizeOnboardingSubmission,
+} from "@/lib/onboarding/service";
+import { loadUserProfile, canReviewOnboarding, canReviewProgram } from "@/lib/auth/access";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/submissions/document-requests profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  if (!submissionId) {
+    return NextResponse.json({ ok: false, error: "Submission id is required" }, { status: 400 });
+  }
+
+  let payload: { title?: unknown; description?: unknown; dueAt?: unknown };
+  try {
+    payload = (await request.json()) as { title?: unknown; description?: unknown; dueAt?: unknown };
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const updated = await requestApplicantDocuments(
+      submissionId,
+      { id: profile.id, name: profile.name ?? profile.email },
+      {
+        title: typeof payload.title === "string" ? payload.title : "",
+        description: typeof payload.description === "string" ? payload.description : undefined,
+        dueAt: typeof payload.dueAt === "string" ? payload.dueAt : undefined,
+      },
+    );
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "Submission not found") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+      }
+      if (error.message === "Document request needs a title") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+      }
+    }
+    console.error(`POST /protected/onboarding/submissions/${submissionId}/document-requests failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to request documents" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("DELETE /protected/onboarding/submissions/document-requests profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  const requestId = request.nextUrl.searchParams.get("requestId")?.trim();
+  if (!submissionId || !requestId) {
+    return NextResponse.json({ ok: false, error: "Submission and request ids are required" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const updated = await cancelDocumentRequest(submissionId, requestId);
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "Submission not found" || error.message === "Document request not found") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+      }
+      if (error.message === "Fulfilled requests cannot be cancelled") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+      }
+    }
+    console.error(`DELETE /protected/onboarding/submissions/${submissionId}/document-requests failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to cancel document request" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  clearDuplicateResolution,
+  getSubmissionProgram,
+  resolveDuplicateFlag,
+  resolveSubmissionForm,
+  summarizeOnboardingSubmission,
+} from "@/lib/onboarding/service";
+import { loadUserProfile, canReviewOnboarding, canReviewProgram } from "@/lib/auth/access";
+
+export const dynamic = "force-dynamic";
+
+const DUPLICATE_INPUT_ERRORS = new Set([
+  "A submission cannot duplicate itself",
+  "Duplicate submissions must belong to the same program",
+]);
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/submissions/duplicates profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  if (!submissionId) {
+    return NextResponse.json({ ok: false, error: "Submission id is required" }, { status: 400 });
+  }
+
+  let payload: { otherId?: unknown; action?: unknown };
+  try {
+    payload = (await request.json()) as { otherId?: unknown; action?: unknown };
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  const otherId = typeof payload.otherId === "string" ? payload.otherId.trim() : "";
+  if (!otherId) {
+    return NextResponse.json({ ok: false, error: "Duplicate submission id is required" }, { status: 400 });
+  }
+  if (payload.action !== "dismissed" && payload.action !== "merged") {
+    return NextResponse.json({ ok: false, error: "Action must be dismissed or merged" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const updated = await resolveDuplicateFlag(submissionId, otherId, payload.action, {
+      id: profile.id,
+      name: profile.name ?? profile.email,
+    });
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "Submission not found") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+      }
+      if (DUPLICATE_INPUT_ERRORS.has(error.message)) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+      }
+      if (error.message === "Reopen the panel decision before merging this submission") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+      }
+    }
+    console.error(`POST /protected/onboarding/submissions/${submissionId}/duplicates failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to resolve duplicate flag" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("DELETE /protected/onboarding/submissions/duplicates profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  const otherId = request.nextUrl.searchParams.get("otherId")?.trim();
+  if (!submissionId || !otherId) {
+    return NextResponse.json({ ok: false, error: "Submission ids are required" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const updated = await clearDuplicateResolution(submissionId, otherId);
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Submission not found") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    console.error(`DELETE /protected/onboarding/submissions/${submissionId}/duplicates failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to reopen duplicate flag" },
+      { status: 500 },
+    );
+  }
+}
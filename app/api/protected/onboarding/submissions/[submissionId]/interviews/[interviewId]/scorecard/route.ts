@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  getSubmissionProgram,
+  resolveSubmissionForm,
+  saveInterviewScorecard,
+  summarizeOnboardingSubmission,
+} from "@/lib/onboarding/service";
+import { loadUserProfile, canReviewOnboarding, canReviewProgram } from "@/lib/auth/access";
+import type { OnboardingScorecardInput } from "@/lib/onboarding/types";
+
+export const dynamic = "force-dynamic";
+
+const SCORECARD_INPUT_ERRORS = new Set([
+  "Every rubric criterion needs a score",
+  "Rubric score out of range",
+  "Unknown recommendation",
+]);
+
+const SCORECARD_STATE_ERRORS = new Set([
+  "Interview was cancelled",
+  "Interview has not taken place yet",
+]);
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[]; interviewId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("PUT /protected/onboarding/submissions/interviews/scorecard profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue, interviewId: interviewIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  const interviewId = Array.isArray(interviewIdValue) ? interviewIdValue[0] : interviewIdValue;
+  if (!submissionId || !interviewId) {
+    return NextResponse.json({ ok: false, error: "Submission and interview ids are required" }, { status: 400 });
+  }
+
+  let payload: OnboardingScorecardInput;
+  try {
+    payload = (await request.json()) as OnboardingScorecardInput;
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const updated = await saveInterviewScorecard(
+      submissionId,
+      interviewId,
+      program,
+      { id: profile.id, name: profile.name ?? profile.email },
+      payload,
+    );
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "Interview not found") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+      }
+      if (error.message === "Only panel members can score this interview") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 403 });
+      }
+      if (SCORECARD_STATE_ERRORS.has(error.message)) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+      }
+      if (SCORECARD_INPUT_ERRORS.has(error.message)) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+      }
+    }
+    console.error(
+      `PUT /protected/onboarding/submissions/${submissionId}/interviews/${interviewId}/scorecard failed`,
+      error,
+    );
+    return NextResponse.json(
+      { ok: false, error: "Unable to save interview scorecard" },
+      { status: 500 },
+    );
+  }
+}
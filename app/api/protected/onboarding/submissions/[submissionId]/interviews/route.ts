@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  getSubmissionProgram,
+  resolveSubmissionForm,
+  scheduleSubmissionInterview,
+  summarizeOnboardingSubmission,
+} from "@/lib/onboarding/service";
+import { loadUserProfile, canReviewOnboarding, canReviewProgram } from "@/lib/auth/access";
+import type { OnboardingInterviewInput } from "@/lib/onboarding/types";
+
+export const dynamic = "force-dynamic";
+
+const INTERVIEW_INPUT_ERRORS = new Set([
+  "Propose at least one interview slot",
+  "Interview panel needs at least one reviewer",
+  "Interview panel must come from the reviewer pool",
+  "Conflicted reviewers cannot sit on the interview panel",
+]);
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/submissions/interviews profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  if (!submissionId) {
+    return NextResponse.json({ ok: false, error: "Submission id is required" }, { status: 400 });
+  }
+
+  let payload: OnboardingInterviewInput;
+  try {
+    payload = (await request.json()) as OnboardingInterviewInput;
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const updated = await scheduleSubmissionInterview(
+      submissionId,
+      program,
+      { id: profile.id, name: profile.name ?? undefined, email: profile.email },
+      payload,
+    );
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (INTERVIEW_INPUT_ERRORS.has(error.message)) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+      }
+      if (error.message.startsWith("No proposed slot is available")) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+      }
+    }
+    console.error(`POST /protected/onboarding/submissions/${submissionId}/interviews failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to schedule interview" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  getSubmissionProgram,
+  resolveSubmissionForm,
+  summarizeOnboardingSubmission,
+  transitionSubmissionLifecycle,
+} from "@/lib/onboarding/service";
+import { findLifecycleState, getProgramLifecycle } from "@/lib/onboarding/lifecycle";
+import { loadUserProfile, canChairProgram, canReviewOnboarding, canReviewProgram } from "@/lib/auth/access";
+
+export const dynamic = "force-dynamic";
+
+const TRANSITION_ERRORS = new Set([
+  "Submission is already in that state",
+  "Transition is not allowed from the current state",
+]);
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ submissionId?: string | string[] }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/submissions/lifecycle profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { submissionId: submissionIdValue } = await params;
+  const submissionId = Array.isArray(submissionIdValue) ? submissionIdValue[0] : submissionIdValue;
+  if (!submissionId) {
+    return NextResponse.json({ ok: false, error: "Submission id is required" }, { status: 400 });
+  }
+
+  let payload: { to?: unknown; note?: unknown };
+  try {
+    payload = (await request.json()) as { to?: unknown; note?: unknown };
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  if (typeof payload.to !== "string" || !payload.to.trim()) {
+    return NextResponse.json({ ok: false, error: "Target state is required" }, { status: 400 });
+  }
+  const to = payload.to.trim();
+
+  try {
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+    if (findLifecycleState(getProgramLifecycle(program), to)?.terminal && !canChairProgram(profile, program)) {
+      return NextResponse.json(
+        { ok: false, error: "Only the panel chair can move a submission into a final state" },
+        { status: 403 },
+      );
+    }
+
+    const updated = await transitionSubmissionLifecycle(
+      submissionId,
+      program,
+      { id: profile.id, name: profile.name ?? profile.email },
+      { to, note: typeof payload.note === "string" ? payload.note : undefined },
+    );
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
+    return NextResponse.json({ ok: true, submission: summary });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "Submission not found") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+      }
+      if (error.message === "Unknown lifecycle state") {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+      }
+      if (TRANSITION_ERRORS.has(error.message)) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+      }
+    }
+    console.error(`POST /protected/onboarding/submissions/${submissionId}/lifecycle failed`, error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to update application status" },
+      { status: 500 },
+    );
+  }
+}
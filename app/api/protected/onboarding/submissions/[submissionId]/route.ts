@@ -3,11 +3,12 @@ import type { NextRequest } from "next/server";
 import { auth } from "@/lib/auth/user";
 import {
   clearManualSubmissionScore,
-  getOnboardingConfig,
+  getSubmissionProgram,
+  resolveSubmissionForm,
   setManualSubmissionScore,
   summarizeOnboardingSubmission,
 } from "@/lib/onboarding/service";
-import { loadUserProfile, canReviewOnboarding } from "@/lib/auth/access";
+import { loadUserProfile, canReviewOnboarding, canReviewProgram } from "@/lib/auth/access";
 import type { OnboardingSubmissionScore } from "@/lib/onboarding/types";
 
 export const dynamic = "force-dynamic";
@@ -64,11 +65,17 @@ export async function PATCH(
   const clearOverride = payload.clearOverride === true;
 
   try {
-    const form = await getOnboardingConfig();
+    const program = await getSubmissionProgram(submissionId);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Submission not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
 
     if (clearOverride) {
       const updated = await clearManualSubmissionScore(submissionId);
-      const summary = summarizeOnboardingSubmission(form, updated);
+      const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
       return NextResponse.json({ ok: true, submission: summary });
     }
 
@@ -96,9 +103,12 @@ export async function PATCH(
       note,
     });
 
-    const summary = summarizeOnboardingSubmission(form, updated);
+    const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(updated), updated);
     return NextResponse.json({ ok: true, submission: summary });
   } catch (error) {
+    if (error instanceof Error && error.message === "Submission was updated while the change was being saved") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
     console.error(`PATCH /protected/onboarding/submissions/${submissionId} failed`, error);
     return NextResponse.json(
       { ok: false, error: "Unable to update submission score" },
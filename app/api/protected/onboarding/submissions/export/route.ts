@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { loadUserProfile, canReviewOnboarding, canReviewProgram } from "@/lib/auth/access";
+import { exportOnboardingSubmissions, getOnboardingConfig, getOnboardingProgram } from "@/lib/onboarding/service";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+import { parseSubmissionFilters, parseSubmissionSort } from "@/lib/onboarding/filters";
+import { EXPORT_CONTENT_TYPES, encodeCsv, encodeXlsx } from "@/lib/onboarding/export";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("GET /protected/onboarding/submissions/export profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const format = params.get("format") ?? "csv";
+  if (format !== "csv" && format !== "xlsx") {
+    return NextResponse.json({ ok: false, error: "Format must be csv or xlsx" }, { status: 400 });
+  }
+
+  const filters = parseSubmissionFilters(params);
+  if (params.get("queue") === "mine") {
+    filters.assignedTo = profile.id;
+  }
+  if (params.get("queue") === "mentions") {
+    filters.mentioned = profile.id;
+  }
+
+  try {
+    const program = await getOnboardingProgram(params.get("program") ?? DEFAULT_PROGRAM_ID);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const table = await exportOnboardingSubmissions(
+      await getOnboardingConfig(program.id),
+      { ...filters, programId: program.id },
+      parseSubmissionSort(params.get("sort")),
+    );
+    const body = format === "xlsx" ? encodeXlsx(table, program.name) : encodeCsv(table);
+    const fileName = `${program.slug}-submissions-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("GET /protected/onboarding/submissions/export failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to export onboarding submissions" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/user";
+import { canConfigureOnboarding, loadUserProfile } from "@/lib/auth/access";
+import { getOnboardingProgram, rescoreOnboardingSubmissions } from "@/lib/onboarding/service";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+
+export const dynamic = "force-dynamic";
+
+type RescorePayload = {
+  program?: string;
+  dryRun?: boolean;
+  formVersion?: number;
+};
+
+export async function POST(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/submissions/rescore profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  let payload: RescorePayload;
+  try {
+    payload = (await request.json()) as RescorePayload;
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const program = await getOnboardingProgram(payload.program ?? DEFAULT_PROGRAM_ID);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    const result = await rescoreOnboardingSubmissions(program.id, {
+      dryRun: payload.dryRun !== false,
+      formVersion: typeof payload.formVersion === "number" ? payload.formVersion : undefined,
+    });
+    return NextResponse.json({ ok: true, result });
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message === "Scoring rules changed since the preview" ||
+        error.message === "Submission was updated while the change was being saved")
+    ) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error("POST /protected/onboarding/submissions/rescore failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to re-evaluate submissions" },
+      { status: 500 },
+    );
+  }
+}
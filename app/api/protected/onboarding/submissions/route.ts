@@ -1,22 +1,43 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth/user";
-import { loadUserProfile, canReviewOnboarding, canViewOwnOnboarding, getAccessibleStartupIds } from "@/lib/auth/access";
-import { getOnboardingConfig, listOnboardingSubmissions } from "@/lib/onboarding/service";
-import { OnboardingSubmissionFilters } from "@/lib/onboarding/types";
+import {
+  loadUserProfile,
+  canReviewOnboarding,
+  canReviewProgram,
+  canViewOwnOnboarding,
+  getAccessibleStartupIds,
+} from "@/lib/auth/access";
+import {
+  getOnboardingConfig,
+  getOnboardingProgram,
+  listOnboardingPrograms,
+  listOnboardingSubmissions,
+} from "@/lib/onboarding/service";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+import { parseSubmissionFilters, parseSubmissionPage } from "@/lib/onboarding/filters";
+import { OnboardingProgram, OnboardingSubmissionSummary } from "@/lib/onboarding/types";
 
 export const dynamic = "force-dynamic";
 
-const parseNumber = (value: string | null): number | undefined => {
-  if (value === null) {
-    return undefined;
-  }
-  const trimmed = value.trim();
-  if (!trimmed.length) {
-    return undefined;
-  }
-  const parsed = Number(trimmed);
-  return Number.isFinite(parsed) ? parsed : undefined;
-};
+// Applicants get an allow-listed view of their own submissions so new reviewer-only fields never leak by default.
+const toApplicantSubmission = (submission: OnboardingSubmissionSummary): OnboardingSubmissionSummary => ({
+  id: submission.id,
+  programId: submission.programId,
+  formId: submission.formId,
+  formVersion: submission.formVersion,
+  locale: submission.locale,
+  userId: submission.userId,
+  submittedAt: submission.submittedAt,
+  score: submission.score,
+  status: submission.status,
+  lifecycleState: submission.lifecycleState,
+  applicantFeedback: submission.applicantFeedback,
+  documentRequests: submission.documentRequests,
+  statusToken: submission.statusToken,
+  companyName: submission.companyName,
+  companyStage: submission.companyStage,
+  responses: submission.responses,
+});
 
 export async function GET(request: Request) {
   const session = await auth();
@@ -39,59 +60,86 @@ export async function GET(request: Request) {
 
   const url = new URL(request.url);
   const params = url.searchParams;
-  const filters: OnboardingSubmissionFilters = {};
+  const filters = parseSubmissionFilters(params);
 
-  const statusParam = params.get("status");
-  if (statusParam === "advance" || statusParam === "review" || statusParam === "reject") {
-    filters.status = statusParam;
-  }
+  const programParam = params.get("program");
+  const isReviewer = canReviewOnboarding(profile);
 
-  const stageParam = params.get("stage");
-  if (stageParam) {
-    filters.stage = stageParam;
+  if (isReviewer && params.get("queue") === "mine") {
+    filters.assignedTo = profile.id;
   }
-
-  const minScore = parseNumber(params.get("minScore"));
-  const maxScore = parseNumber(params.get("maxScore"));
-  if (minScore !== undefined) {
-    filters.minScore = minScore;
-  }
-  if (maxScore !== undefined) {
-    filters.maxScore = maxScore;
-  }
-
-  const queryParam = params.get("query");
-  if (queryParam) {
-    filters.query = queryParam;
+  if (isReviewer && params.get("queue") === "mentions") {
+    filters.mentioned = profile.id;
   }
 
   try {
-    const form = await getOnboardingConfig();
-    const result = await listOnboardingSubmissions(form, filters);
+    if (!isReviewer) {
+      const ownedSubmissionIds = await getAccessibleStartupIds(profile);
+      filters.visibleTo = {
+        userId: profile.id,
+        submissionIds: Array.from(new Set([...profile.startupIds, ...ownedSubmissionIds])),
+      };
+    }
 
-    let entries = result.entries;
+    let programs: OnboardingProgram[];
+    if (programParam || isReviewer) {
+      const program = await getOnboardingProgram(programParam ?? DEFAULT_PROGRAM_ID);
+      if (!program) {
+        return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+      }
+      if (isReviewer && !canReviewProgram(profile, program)) {
+        return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+      }
+      programs = [program];
+    } else {
+      programs = await listOnboardingPrograms({ includeArchived: true });
+    }
 
-    if (!canReviewOnboarding(profile)) {
-      const ownedSubmissionIds = await getAccessibleStartupIds(profile);
-      const accessibleIds = new Set<string>([...profile.startupIds, ...ownedSubmissionIds]);
+    // Reviewers page through one program; applicants only ever see a handful of their own submissions.
+    const page = isReviewer ? parseSubmissionPage(params) : {};
+    const results = await Promise.all(
+      programs.map(async (program) =>
+        listOnboardingSubmissions(
+          await getOnboardingConfig(program.id),
+          { ...filters, programId: program.id },
+          page,
+        ),
+      ),
+    );
+    let entries = results.flatMap((entry) => entry.entries);
 
-      entries = entries.filter((submission) => {
-        if (submission.userId === profile.id) {
-          return true;
-        }
-        return accessibleIds.has(submission.id);
-      });
+    if (!isReviewer) {
+      entries = entries
+        .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime())
+        .map(toApplicantSubmission);
     }
 
+    // Counts and score bounds add up across programs; cursors, stages and lifecycle states are per program,
+    // so they are only returned when a single program was listed.
+    const stateCounts: Record<string, number> = {};
+    results.forEach((result) =>
+      Object.entries(result.stateCounts).forEach(([state, count]) => {
+        stateCounts[state] = (stateCounts[state] ?? 0) + count;
+      }),
+    );
+    const scored = results.filter((result) => result.total > 0);
+    const single = results.length === 1 ? results[0] : undefined;
+
     return NextResponse.json({
       ok: true,
       submissions: entries,
       meta: {
-        total: entries.length,
-        stageFieldId: result.stageFieldId,
-        stageOptions: result.stageOptions,
-        scoreRange: result.scoreRange,
+        total: results.reduce((sum, result) => sum + result.total, 0),
+        nextCursor: single?.nextCursor,
+        stateCounts,
+        stageFieldId: single?.stageFieldId,
+        stageOptions: single?.stageOptions,
+        scoreRange: {
+          min: scored.length ? Math.min(...scored.map((result) => result.scoreRange.min)) : 0,
+          max: scored.length ? Math.max(...scored.map((result) => result.scoreRange.max)) : 0,
+        },
         statusOptions: ["advance", "review", "reject"],
+        lifecycleStates: single?.lifecycleStates,
       },
     });
   } catch (error) {
@@ -1,20 +1,9 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth/user";
-import {
-  enrichAttachment,
-  evaluateSubmissionScore,
-  getOnboardingConfig,
-  saveOnboardingSubmission,
-} from "@/lib/onboarding/service";
-import { OnboardingFieldResponse } from "@/lib/onboarding/types";
+import { parseSubmissionPayload, submitOnboardingApplication } from "@/lib/onboarding/submit";
 
 export const dynamic = "force-dynamic";
 
-type SubmissionPayload = {
-  formId: string;
-  responses: OnboardingFieldResponse[];
-};
-
 export async function POST(request: Request) {
   const session = await auth();
 
@@ -22,39 +11,26 @@ export async function POST(request: Request) {
     return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
   }
 
-  let payload: SubmissionPayload;
+  let body: unknown;
 
   try {
-    payload = (await request.json()) as SubmissionPayload;
+    body = await request.json();
   } catch (error) {
     return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
   }
 
-  if (!payload.formId) {
-    return NextResponse.json({ ok: false, error: "Form ID missing" }, { status: 400 });
-  }
-
-  if (!Array.isArray(payload.responses)) {
-    return NextResponse.json({ ok: false, error: "Responses missing" }, { status: 400 });
+  const { payload, error: payloadError } = parseSubmissionPayload(body);
+  if (!payload) {
+    return NextResponse.json({ ok: false, error: payloadError }, { status: 400 });
   }
 
   try {
-    const enrichedResponses = payload.responses.map((response) => ({
-      ...response,
-      attachments: response.attachments?.map(enrichAttachment),
-    }));
-
-    const form = await getOnboardingConfig();
-    const score = form.id === payload.formId ? evaluateSubmissionScore(form, enrichedResponses) : undefined;
-
-    const record = await saveOnboardingSubmission({
-      userId: session.user.id,
-      formId: payload.formId,
-      responses: enrichedResponses,
-      score,
-    });
-
-    return NextResponse.json({ ok: true, submission: record });
+    const outcome = await submitOnboardingApplication(
+      payload,
+      { userId: session.user.id, email: session.user.email ?? undefined },
+      "POST /onboarding/submit",
+    );
+    return NextResponse.json(outcome.body, { status: outcome.status });
   } catch (error) {
     console.error("POST /onboarding/submit failed", error);
     return NextResponse.json(
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/user";
+import {
+  canConfigureOnboarding,
+  canReviewOnboarding,
+  canReviewProgram,
+  loadUserProfile,
+} from "@/lib/auth/access";
+import {
+  autoAssignOnboardingSubmissions,
+  getOnboardingProgram,
+  getReviewerWorkload,
+} from "@/lib/onboarding/service";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+
+export const dynamic = "force-dynamic";
+
+const ASSIGNMENT_ERRORS = new Set([
+  "Automatic assignment is disabled for this program",
+  "No reviewers available for assignment",
+]);
+
+export async function GET(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("GET /protected/onboarding/workload profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canReviewOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const params = new URL(request.url).searchParams;
+
+  try {
+    const program = await getOnboardingProgram(params.get("program") ?? DEFAULT_PROGRAM_ID);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+    if (!canReviewProgram(profile, program)) {
+      return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+    }
+
+    const workload = await getReviewerWorkload(program);
+    return NextResponse.json({ ok: true, workload });
+  } catch (error) {
+    console.error("GET /protected/onboarding/workload failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to load reviewer workload" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  let profile;
+  try {
+    profile = await loadUserProfile(session.user.id);
+  } catch (error) {
+    console.error("POST /protected/onboarding/workload profile load failed", error);
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!canConfigureOnboarding(profile)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  let payload: { program?: string };
+  try {
+    payload = (await request.json()) as { program?: string };
+  } catch (error) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  try {
+    const program = await getOnboardingProgram(payload.program ?? DEFAULT_PROGRAM_ID);
+    if (!program) {
+      return NextResponse.json({ ok: false, error: "Program not found" }, { status: 404 });
+    }
+
+    const { assigned } = await autoAssignOnboardingSubmissions(program);
+    const workload = await getReviewerWorkload(program);
+    return NextResponse.json({ ok: true, assigned, workload });
+  } catch (error) {
+    if (error instanceof Error && ASSIGNMENT_ERRORS.has(error.message)) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    if (error instanceof Error && error.message === "Submission was updated while the change was being saved") {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error("POST /protected/onboarding/workload failed", error);
+    return NextResponse.json(
+      { ok: false, error: "Unable to assign submissions" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,966 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import Link from "next/link";
+import { useParams, useSearchParams } from "next/navigation";
+import {
+  OnboardingAttachment,
+  OnboardingField,
+  OnboardingFieldError,
+  OnboardingFieldResponse,
+  OnboardingFieldType,
+  OnboardingForm,
+  OnboardingSection,
+} from "@/lib/onboarding/types";
+import { resolveFormVisibility, type OnboardingResponseValues } from "@/lib/onboarding/visibility";
+import {
+  RATING_MAX,
+  RATING_MIN,
+  groupEntryErrorKey,
+  toFieldErrorMap,
+  validateSubmissionResponses,
+} from "@/lib/onboarding/validation";
+import { APPLICATION_WINDOW_MESSAGES, type OnboardingWindowState } from "@/lib/onboarding/programs";
+import { localeLabel, localizeForm } from "@/lib/onboarding/locales";
+
+type FieldState = {
+  value: string | string[] | null;
+  attachments: OnboardingAttachment[];
+  entryIds?: string[];
+};
+
+type ProgramInfo = {
+  id: string;
+  slug: string;
+  name: string;
+  summary?: string;
+  opensAt?: string;
+  closesAt?: string;
+  remaining?: number;
+  state: OnboardingWindowState;
+};
+
+type DraftResponse = {
+  ok: boolean;
+  error?: string;
+  draft?: {
+    programId: string;
+    applicantId: string;
+    resumeToken: string;
+    responses: OnboardingFieldResponse[];
+    updatedAt: string;
+  };
+};
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+const draftStorageKey = (programSlug: string) => `onboarding-draft:${programSlug}`;
+
+const LOCALE_STORAGE_KEY = "onboarding-locale";
+
+const formatCountdown = (target: string, now: number) => {
+  const remaining = Math.max(0, new Date(target).getTime() - now);
+  const days = Math.floor(remaining / 86_400_000);
+  const hours = Math.floor((remaining % 86_400_000) / 3_600_000);
+  const minutes = Math.floor((remaining % 3_600_000) / 60_000);
+  const seconds = Math.floor((remaining % 60_000) / 1000);
+  return days > 0 ? `${days}d ${hours}h ${minutes}m` : `${hours}h ${minutes}m ${seconds}s`;
+};
+
+const formatWindowDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const emptyFieldState = (field: OnboardingField): FieldState => ({
+  value: field.type === "file" || field.type === "group" ? null : field.type === "multiselect" ? [] : "",
+  attachments: [],
+});
+
+// Group entry answers live in the same state map, keyed by their error key.
+const groupEntryState = (field: OnboardingField, entryId: string) => {
+  const state: Record<string, FieldState> = {};
+  (field.fields ?? []).forEach((subField) => {
+    state[groupEntryErrorKey(field.id, entryId, subField.id)] = emptyFieldState(subField);
+  });
+  return state;
+};
+
+const initialFieldState = (form: OnboardingForm) => {
+  const state: Record<string, FieldState> = {};
+  form.sections.forEach((section) => {
+    section.fields.forEach((field) => {
+      state[field.id] = emptyFieldState(field);
+      if (field.type === "group") {
+        const count = Math.max(field.minEntries ?? 0, field.required ? 1 : 0);
+        const entryIds = Array.from({ length: count }, () => crypto.randomUUID());
+        state[field.id].entryIds = entryIds;
+        entryIds.forEach((entryId) => Object.assign(state, groupEntryState(field, entryId)));
+      }
+    });
+  });
+  return state;
+};
+
+export default function PublicOnboardingPage() {
+  const params = useParams();
+  const programParam = params?.program;
+  const programSlug = Array.isArray(programParam) ? programParam[0] : programParam;
+  const searchParams = useSearchParams();
+  const resumeParam = searchParams.get("resume");
+  const extensionParam = searchParams.get("extension");
+  const langParam = searchParams.get("lang");
+
+  const [sourceForm, setSourceForm] = useState<OnboardingForm | null>(null);
+  const [locales, setLocales] = useState<string[]>([]);
+  const [locale, setLocale] = useState<string | null>(null);
+  const [program, setProgram] = useState<ProgramInfo | null>(null);
+  const [fieldState, setFieldState] = useState<Record<string, FieldState>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [uploading, setUploading] = useState<Record<string, boolean>>({});
+  const [uploadErrors, setUploadErrors] = useState<Record<string, string | null>>({});
+  const [submittedId, setSubmittedId] = useState<string | null>(null);
+  const [statusToken, setStatusToken] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [applicantId, setApplicantId] = useState(() => crypto.randomUUID());
+  const [draftToken, setDraftToken] = useState<string | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [editCount, setEditCount] = useState(0);
+  const [savedEditCount, setSavedEditCount] = useState(0);
+  const [extensionExpiresAt, setExtensionExpiresAt] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const markEdited = () => setEditCount((count) => count + 1);
+
+  const form = useMemo(
+    () => (sourceForm && locale ? localizeForm(sourceForm, locale) : sourceForm),
+    [sourceForm, locale],
+  );
+
+  const handleLocaleChange = (next: string) => {
+    setLocale(next);
+    localStorage.setItem(LOCALE_STORAGE_KEY, next);
+  };
+
+  useEffect(() => {
+    if (!programSlug) return;
+    let active = true;
+    const configParams = new URLSearchParams({ program: programSlug });
+    if (extensionParam) {
+      configParams.set("extension", extensionParam);
+    }
+    const requestedLocale = langParam ?? localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (requestedLocale) {
+      configParams.set("locale", requestedLocale);
+    }
+    fetch(`/api/onboarding/config?${configParams.toString()}`)
+      .then(async (res) => {
+        if (res.status === 404) {
+          throw new Error("This program is not accepting applications");
+        }
+        if (!res.ok) {
+          throw new Error("Failed to load onboarding form");
+        }
+        return (await res.json()) as {
+          ok: boolean;
+          form: OnboardingForm;
+          locale: string;
+          locales: string[];
+          program: ProgramInfo;
+          extension?: { expiresAt: string };
+        };
+      })
+      .then((payload) => {
+        if (!active) return;
+        if (!payload.ok) {
+          throw new Error("Form unavailable");
+        }
+        setSourceForm(payload.form);
+        setLocale(payload.locale);
+        setLocales(payload.locales);
+        setProgram(payload.program);
+        setExtensionExpiresAt(payload.extension?.expiresAt ?? null);
+        const baseState = initialFieldState(payload.form);
+        setFieldState(baseState);
+
+        const token = resumeParam ?? localStorage.getItem(draftStorageKey(programSlug));
+        if (!token) return;
+        return fetch(`/api/onboarding/drafts/${encodeURIComponent(token)}`)
+          .then(async (res) => (await res.json()) as DraftResponse)
+          .then((draftPayload) => {
+            if (!active) return;
+            if (!draftPayload.ok || !draftPayload.draft || draftPayload.draft.programId !== payload.program.id) {
+              localStorage.removeItem(draftStorageKey(programSlug));
+              if (resumeParam) {
+                setDraftError(draftPayload.error ?? "Saved draft could not be restored");
+              }
+              return;
+            }
+            const restored = { ...baseState };
+            const fields = new Map(
+              payload.form.sections.flatMap((section) => section.fields.map((field) => [field.id, field] as const)),
+            );
+            draftPayload.draft.responses.forEach((response) => {
+              const field = fields.get(response.fieldId);
+              if (!field) return;
+              restored[response.fieldId] = {
+                value: response.value,
+                attachments: response.attachments ?? [],
+              };
+              if (field.type === "group") {
+                const entries = response.entries ?? [];
+                restored[field.id].entryIds = entries.map((entry) => entry.id);
+                entries.forEach((entry) => {
+                  entry.responses.forEach((entryResponse) => {
+                    restored[groupEntryErrorKey(field.id, entry.id, entryResponse.fieldId)] = {
+                      value: entryResponse.value,
+                      attachments: entryResponse.attachments ?? [],
+                    };
+                  });
+                });
+              }
+            });
+            setFieldState(restored);
+            setApplicantId(draftPayload.draft.applicantId);
+            setDraftToken(draftPayload.draft.resumeToken);
+            setDraftSavedAt(draftPayload.draft.updatedAt);
+          });
+      })
+      .catch((err) => {
+        if (!active) return;
+        setError(err instanceof Error ? err.message : "Unable to load onboarding form");
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [programSlug, resumeParam, extensionParam, langParam]);
+
+  const countdownTarget =
+    program?.state === "upcoming" ? program.opensAt : program?.state === "open" ? program.closesAt : undefined;
+
+  useEffect(() => {
+    if (!countdownTarget) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [countdownTarget]);
+
+  // The server decides the window; the client only flips state once a countdown runs out.
+  const windowState: OnboardingWindowState | undefined = (() => {
+    if (!program) return undefined;
+    if (program.state === "upcoming" && program.opensAt && now >= new Date(program.opensAt).getTime()) {
+      return "open";
+    }
+    if (
+      program.state === "open" &&
+      !extensionExpiresAt &&
+      program.closesAt &&
+      now > new Date(program.closesAt).getTime()
+    ) {
+      return "closed";
+    }
+    return program.state;
+  })();
+
+  const collectResponses = useCallback(
+    (fields: OnboardingField[]): OnboardingFieldResponse[] =>
+      fields.map((field) => ({
+        fieldId: field.id,
+        value: fieldState[field.id]?.value ?? null,
+        attachments: fieldState[field.id]?.attachments ?? [],
+        entries:
+          field.type === "group"
+            ? (fieldState[field.id]?.entryIds ?? []).map((entryId) => ({
+                id: entryId,
+                responses: (field.fields ?? []).map((subField) => {
+                  const key = groupEntryErrorKey(field.id, entryId, subField.id);
+                  return {
+                    fieldId: subField.id,
+                    value: fieldState[key]?.value ?? null,
+                    attachments: fieldState[key]?.attachments ?? [],
+                  };
+                }),
+              }))
+            : undefined,
+      })),
+    [fieldState],
+  );
+
+  // Autosave runs once edits settle; savedEditCount keeps a save from repeating when only its own results change.
+  useEffect(() => {
+    if (!form || !programSlug || editCount === savedEditCount || submittedId) return;
+
+    const timer = window.setTimeout(() => {
+      const responses = collectResponses(form.sections.flatMap((section) => section.fields));
+
+      fetch("/api/onboarding/drafts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          program: programSlug,
+          resumeToken: draftToken ?? undefined,
+          formId: form.id,
+          formVersion: form.version,
+          applicantId,
+          responses,
+        }),
+      })
+        .then(
+          async (res) =>
+            (await res.json()) as { ok: boolean; error?: string; draft?: { resumeToken: string; updatedAt: string } },
+        )
+        .then((payload) => {
+          if (!payload.ok || !payload.draft) {
+            throw new Error(payload.error ?? "Unable to save draft");
+          }
+          localStorage.setItem(draftStorageKey(programSlug), payload.draft.resumeToken);
+          setSavedEditCount(editCount);
+          setDraftToken(payload.draft.resumeToken);
+          setDraftSavedAt(payload.draft.updatedAt);
+          setDraftError(null);
+        })
+        .catch((err) => {
+          setDraftError(err instanceof Error ? err.message : "Unable to save draft");
+        });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [form, programSlug, editCount, savedEditCount, submittedId, draftToken, applicantId, collectResponses]);
+
+  const resumeLink =
+    draftToken && programSlug && typeof window !== "undefined"
+      ? `${window.location.origin}/onboarding/${programSlug}?resume=${encodeURIComponent(draftToken)}${
+          extensionParam ? `&extension=${encodeURIComponent(extensionParam)}` : ""
+        }`
+      : null;
+
+  const visibility = useMemo(() => {
+    if (!form) {
+      return { hiddenSectionIds: new Set<string>(), hiddenFieldIds: new Set<string>() };
+    }
+    const values: OnboardingResponseValues = {};
+    Object.entries(fieldState).forEach(([fieldId, state]) => {
+      values[fieldId] = state.value;
+    });
+    return resolveFormVisibility(form, values);
+  }, [form, fieldState]);
+
+  const isSectionShown = (section: OnboardingSection) => !visibility.hiddenSectionIds.has(section.id);
+  const isFieldShown = (field: OnboardingField) => !visibility.hiddenFieldIds.has(field.id);
+
+  const handleAddGroupEntry = (field: OnboardingField) => {
+    const entryId = crypto.randomUUID();
+    setFieldState((prev) => ({
+      ...prev,
+      ...groupEntryState(field, entryId),
+      [field.id]: {
+        ...(prev[field.id] ?? emptyFieldState(field)),
+        entryIds: [...(prev[field.id]?.entryIds ?? []), entryId],
+      },
+    }));
+    markEdited();
+  };
+
+  const handleRemoveGroupEntry = (field: OnboardingField, entryId: string) => {
+    setFieldState((prev) => {
+      const next = { ...prev };
+      (field.fields ?? []).forEach((subField) => {
+        delete next[groupEntryErrorKey(field.id, entryId, subField.id)];
+      });
+      next[field.id] = {
+        ...(prev[field.id] ?? emptyFieldState(field)),
+        entryIds: (prev[field.id]?.entryIds ?? []).filter((id) => id !== entryId),
+      };
+      return next;
+    });
+    markEdited();
+  };
+
+  const handleValueChange = (fieldId: string, value: string | string[] | null) => {
+    setFieldState((prev) => ({
+      ...prev,
+      [fieldId]: {
+        ...(prev[fieldId] ?? { value: "", attachments: [] }),
+        value,
+      },
+    }));
+    markEdited();
+  };
+
+  const handleFileUpload = async (field: OnboardingField, files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setUploading((prev) => ({ ...prev, [field.id]: true }));
+    setUploadErrors((prev) => ({ ...prev, [field.id]: null }));
+
+    const newAttachments: OnboardingAttachment[] = [];
+
+    try {
+      for (const file of Array.from(files)) {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("applicantId", applicantId);
+
+        const res = await fetch("/api/onboarding/upload", {
+          method: "POST",
+          body: formData,
+        });
+
+        if (!res.ok) {
+          throw new Error(`Upload failed: ${file.name}`);
+        }
+
+        const payload = (await res.json()) as {
+          ok: boolean;
+          attachment?: OnboardingAttachment;
+          error?: string;
+        };
+
+        if (!payload.ok || !payload.attachment) {
+          throw new Error(payload.error ?? "Upload failed");
+        }
+
+        newAttachments.push(payload.attachment);
+      }
+
+      setFieldState((prev) => ({
+        ...prev,
+        [field.id]: {
+          ...(prev[field.id] ?? { value: null, attachments: [] }),
+          attachments: field.multiple
+            ? [...(prev[field.id]?.attachments ?? []), ...newAttachments]
+            : newAttachments,
+          value: null,
+        },
+      }));
+      markEdited();
+    } catch (err) {
+      setUploadErrors((prev) => ({
+        ...prev,
+        [field.id]: err instanceof Error ? err.message : "Upload failed",
+      }));
+    } finally {
+      setUploading((prev) => ({ ...prev, [field.id]: false }));
+    }
+  };
+
+  const handleRemoveAttachment = (fieldId: string, key: string) => {
+    setFieldState((prev) => ({
+      ...prev,
+      [fieldId]: {
+        ...(prev[fieldId] ?? { value: null, attachments: [] }),
+        attachments: (prev[fieldId]?.attachments ?? []).filter((item) => item.key !== key),
+      },
+    }));
+    markEdited();
+  };
+
+  const submitApplication = () => {
+    if (!form) return;
+
+    const visibleFields = form.sections.flatMap((section) => section.fields.filter(isFieldShown));
+    const responses = collectResponses(visibleFields);
+    const issues = validateSubmissionResponses(form, responses);
+    setFieldErrors(toFieldErrorMap(issues));
+    if (issues.length > 0) {
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    fetch("/api/onboarding/submit", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        program: program?.slug ?? programSlug,
+        formId: form.id,
+        formVersion: form.version,
+        responses,
+        applicantId,
+        draftToken: draftToken ?? undefined,
+        extensionToken: extensionParam ?? undefined,
+        locale: locale ?? undefined,
+      }),
+    })
+      .then(
+        async (res) =>
+          (await res.json()) as {
+            ok: boolean;
+            submission?: { id: string; statusToken?: string };
+            error?: string;
+            fieldErrors?: OnboardingFieldError[];
+            windowState?: OnboardingWindowState;
+          },
+      )
+      .then((payload) => {
+        const closedState = payload.windowState;
+        if (closedState) {
+          setProgram((prev) => (prev ? { ...prev, state: closedState } : prev));
+          return;
+        }
+        if (payload.fieldErrors?.length) {
+          setFieldErrors(toFieldErrorMap(payload.fieldErrors));
+        }
+        if (!payload.ok || !payload.submission) {
+          throw new Error(payload.error ?? "Unable to submit application");
+        }
+        if (programSlug) {
+          localStorage.removeItem(draftStorageKey(programSlug));
+        }
+        setStatusToken(payload.submission.statusToken ?? null);
+        setSubmittedId(payload.submission.id);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Submission failed");
+      })
+      .finally(() => setSubmitting(false));
+  };
+
+  const renderFieldControl = (field: OnboardingField): ReactNode => {
+    const state = fieldState[field.id] ?? { value: "", attachments: [] };
+
+    switch (field.type) {
+      case "group": {
+        const entryIds = state.entryIds ?? [];
+        const entryLabel = field.entryLabel ?? "Entry";
+        const canAdd = field.maxEntries === undefined || entryIds.length < field.maxEntries;
+        const canRemove = entryIds.length > (field.minEntries ?? 0);
+        return (
+          <div className="space-y-4">
+            {entryIds.map((entryId, index) => (
+              <div key={entryId} className="space-y-4 rounded-xl border border-slate-800 bg-slate-950/40 p-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                    {entryLabel} {index + 1}
+                  </span>
+                  {canRemove && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveGroupEntry(field, entryId)}
+                      className="text-xs text-red-300 hover:text-red-200"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                {(field.fields ?? []).map((subField) => {
+                  const key = groupEntryErrorKey(field.id, entryId, subField.id);
+                  return (
+                    <div key={subField.id} className="space-y-2">
+                      <label className="flex items-center justify-between text-sm font-medium text-slate-200">
+                        <span>{subField.label}</span>
+                        {subField.required && <span className="text-xs text-red-300">Required</span>}
+                      </label>
+                      {renderFieldControl({ ...subField, id: key })}
+                      {fieldErrors[key] && <p className="text-xs text-red-300">{fieldErrors[key]}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+            {canAdd && (
+              <button
+                type="button"
+                onClick={() => handleAddGroupEntry(field)}
+                className="rounded-full border border-blue-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/10"
+              >
+                Add {entryLabel.toLowerCase()}
+              </button>
+            )}
+          </div>
+        );
+      }
+      case "textarea":
+        return (
+          <textarea
+            value={(state.value as string) ?? ""}
+            onChange={(event) => handleValueChange(field.id, event.target.value)}
+            className="w-full rounded-lg border border-slate-800 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+            placeholder={field.placeholder ?? ""}
+            rows={4}
+          />
+        );
+      case "date":
+        return (
+          <input
+            type="date"
+            value={(state.value as string) ?? ""}
+            onChange={(event) => handleValueChange(field.id, event.target.value)}
+            className="w-full rounded-lg border border-slate-800 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+          />
+        );
+      case "select":
+        return (
+          <select
+            value={(state.value as string) ?? ""}
+            onChange={(event) => handleValueChange(field.id, event.target.value)}
+            className="w-full rounded-lg border border-slate-800 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+          >
+            <option value="">Select an option</option>
+            {(field.options ?? []).map((option) => (
+              <option key={option.id} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        );
+      case "multiselect": {
+        const selected = Array.isArray(state.value) ? state.value : [];
+        return (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {(field.options ?? []).map((option) => (
+              <label
+                key={option.id}
+                className="flex items-center gap-3 rounded-lg border border-slate-800 bg-slate-950/70 px-4 py-3 text-sm text-slate-100"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option.value)}
+                  onChange={(event) =>
+                    handleValueChange(
+                      field.id,
+                      event.target.checked
+                        ? [...selected, option.value]
+                        : selected.filter((value) => value !== option.value),
+                    )
+                  }
+                  className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case "checkbox":
+        return (
+          <div className="flex gap-2">
+            {(["yes", "no"] as const).map((answer) => (
+              <button
+                key={answer}
+                type="button"
+                onClick={() => handleValueChange(field.id, answer)}
+                className={`rounded-lg border px-5 py-2 text-sm font-medium capitalize transition ${
+                  state.value === answer
+                    ? "border-blue-500 bg-blue-500/20 text-blue-100"
+                    : "border-slate-800 bg-slate-950/70 text-slate-300 hover:border-slate-600"
+                }`}
+              >
+                {answer}
+              </button>
+            ))}
+          </div>
+        );
+      case "rating":
+        return (
+          <div className="flex gap-2">
+            {Array.from({ length: RATING_MAX - RATING_MIN + 1 }, (_, index) => String(RATING_MIN + index)).map(
+              (rating) => (
+                <button
+                  key={rating}
+                  type="button"
+                  onClick={() => handleValueChange(field.id, rating)}
+                  className={`h-10 w-10 rounded-lg border text-sm font-semibold transition ${
+                    state.value === rating
+                      ? "border-amber-400 bg-amber-400/20 text-amber-100"
+                      : "border-slate-800 bg-slate-950/70 text-slate-300 hover:border-slate-600"
+                  }`}
+                >
+                  {rating}
+                </button>
+              ),
+            )}
+          </div>
+        );
+      case "number":
+      case "currency":
+        return (
+          <div className="flex items-center gap-2">
+            {field.type === "currency" && (
+              <span className="text-sm font-medium text-slate-400">{field.currency ?? "USD"}</span>
+            )}
+            <input
+              type="number"
+              inputMode="decimal"
+              value={(state.value as string) ?? ""}
+              min={field.min}
+              max={field.max}
+              onChange={(event) => handleValueChange(field.id, event.target.value)}
+              className="w-full rounded-lg border border-slate-800 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+              placeholder={field.placeholder ?? ""}
+            />
+          </div>
+        );
+      case "email":
+      case "url":
+      case "phone":
+        return (
+          <input
+            type={field.type === "phone" ? "tel" : field.type}
+            value={(state.value as string) ?? ""}
+            onChange={(event) => handleValueChange(field.id, event.target.value)}
+            className="w-full rounded-lg border border-slate-800 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+            placeholder={field.placeholder ?? ""}
+          />
+        );
+      case "file":
+        return (
+          <div className="space-y-3">
+            <label className="flex w-full cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border border-dashed border-blue-500/50 bg-slate-950/50 px-6 py-6 text-center text-sm text-blue-200 transition hover:border-blue-400">
+              <span className="font-medium">Upload supporting documents</span>
+              <span className="text-xs text-blue-200/70">
+                {field.multiple ? "You can add multiple files" : "Single file upload"}
+              </span>
+              <input
+                type="file"
+                className="hidden"
+                multiple={field.multiple}
+                onChange={(event) => handleFileUpload(field, event.target.files)}
+              />
+            </label>
+            {uploadErrors[field.id] && (
+              <p className="text-sm text-red-400">{uploadErrors[field.id]}</p>
+            )}
+            {uploading[field.id] && (
+              <p className="text-xs text-blue-200/80">Uploading…</p>
+            )}
+            <ul className="space-y-2">
+              {(state.attachments ?? []).map((attachment) => (
+                <li
+                  key={attachment.key}
+                  className="flex items-center justify-between rounded-md bg-slate-950/70 px-4 py-2 text-sm text-slate-200"
+                >
+                  <span className="truncate">{attachment.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveAttachment(field.id, attachment.key)}
+                    className="text-xs text-red-300 hover:text-red-200"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      default:
+        return (
+          <input
+            type="text"
+            value={(state.value as string) ?? ""}
+            onChange={(event) => handleValueChange(field.id, event.target.value)}
+            className="w-full rounded-lg border border-slate-800 bg-slate-950/70 px-4 py-3 text-sm text-slate-100 placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+            placeholder={field.placeholder ?? ""}
+          />
+        );
+    }
+  };
+
+  if (loading) {
+    return (
+      <main className="flex min-h-screen items-center justify-center text-sm text-blue-200/80">
+        Loading onboarding form…
+      </main>
+    );
+  }
+
+  if (error) {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center gap-4">
+        <p className="text-sm text-red-300">{error}</p>
+        <button
+          onClick={() => location.reload()}
+          className="rounded-full border border-blue-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/10"
+        >
+          Retry
+        </button>
+      </main>
+    );
+  }
+
+  if (!form) {
+    return null;
+  }
+
+  if (submittedId) {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center gap-6 px-6 text-center text-slate-100">
+        <div className="space-y-3">
+          <h1 className="text-3xl font-semibold">Thank you for applying!</h1>
+          <p className="text-sm text-slate-300">
+            Your submission reference is <span className="font-mono text-blue-200">{submittedId}</span>.
+            We’ll review your application and get back to you soon.
+          </p>
+          {statusToken && (
+            <p className="text-sm text-slate-300">
+              Bookmark your{" "}
+              <Link href={`/onboarding/status/${statusToken}`} className="text-blue-200 underline">
+                private status page
+              </Link>{" "}
+              to follow your application and upload any documents we request. Anyone with the link can see it.
+            </p>
+          )}
+        </div>
+        <Link
+          href="/"
+          className="rounded-full border border-blue-500/70 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/10"
+        >
+          Back to home
+        </Link>
+      </main>
+    );
+  }
+
+  if (program && windowState && windowState !== "open") {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center gap-6 px-6 text-center text-slate-100">
+        <div className="space-y-3">
+          <p className="text-xs font-semibold uppercase tracking-[0.4em] text-blue-400/80">{program.name}</p>
+          <h1 className="text-3xl font-semibold">{form.title}</h1>
+          <p className="text-sm text-slate-300">{APPLICATION_WINDOW_MESSAGES[windowState]}</p>
+          {windowState === "upcoming" && program.opensAt && (
+            <p className="space-x-2 text-sm text-slate-400">
+              <span>Opens {formatWindowDate(program.opensAt)}</span>
+              <span className="font-mono text-amber-200">{formatCountdown(program.opensAt, now)}</span>
+            </p>
+          )}
+          {windowState === "closed" && program.closesAt && (
+            <p className="text-sm text-slate-400">Closed {formatWindowDate(program.closesAt)}</p>
+          )}
+        </div>
+        <Link
+          href="/onboarding"
+          className="rounded-full border border-blue-500/70 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/10"
+        >
+          Browse programs
+        </Link>
+      </main>
+    );
+  }
+
+  return (
+    <main
+      lang={locale ?? undefined}
+      className="mx-auto flex min-h-screen w-full max-w-4xl flex-col gap-8 px-6 py-12 text-slate-100"
+    >
+      <header className="space-y-3 text-center">
+        {locales.length > 1 && (
+          <div className="flex justify-end">
+            <select
+              value={locale ?? locales[0]}
+              onChange={(event) => handleLocaleChange(event.target.value)}
+              aria-label="Language"
+              className="rounded-full border border-slate-700 bg-slate-950 px-3 py-1.5 text-xs text-slate-200 focus:border-blue-500 focus:outline-none"
+            >
+              {locales.map((entry) => (
+                <option key={entry} value={entry}>
+                  {localeLabel(entry)}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <p className="text-xs font-semibold uppercase tracking-[0.4em] text-blue-400/80">
+          {program?.name ?? "Startup Onboarding"}
+        </p>
+        <h1 className="text-4xl font-bold text-white">{form.title}</h1>
+        <p className="text-base text-slate-300/90">{form.summary}</p>
+        {(extensionExpiresAt || program?.closesAt || program?.remaining !== undefined) && (
+          <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-slate-400">
+            {extensionExpiresAt ? (
+              <span className="rounded-full border border-amber-400/40 bg-amber-400/10 px-3 py-1 text-amber-200">
+                Extension valid until {formatWindowDate(extensionExpiresAt)}
+              </span>
+            ) : (
+              program?.closesAt && (
+                <span className="rounded-full border border-slate-800 px-3 py-1">
+                  Closes in <span className="font-mono text-slate-200">{formatCountdown(program.closesAt, now)}</span>
+                </span>
+              )
+            )}
+            {program?.remaining !== undefined && !extensionExpiresAt && (
+              <span className="rounded-full border border-slate-800 px-3 py-1">
+                {program.remaining} place{program.remaining === 1 ? "" : "s"} left
+              </span>
+            )}
+          </div>
+        )}
+      </header>
+
+      <section className="space-y-8">
+        {form.sections.filter(isSectionShown).map((section) => (
+          <div key={section.id} className="space-y-6 rounded-2xl border border-slate-800/70 bg-slate-950/60 p-6 shadow-lg shadow-blue-950/10">
+            <div className="space-y-2">
+              <h2 className="text-xl font-semibold text-slate-100">{section.title}</h2>
+              {section.description && (
+                <p className="text-sm text-slate-400">{section.description}</p>
+              )}
+            </div>
+
+            <div className="space-y-5">
+              {section.fields.filter(isFieldShown).map((field) => (
+                <div key={field.id} className="space-y-2">
+                  <label className="flex items-center justify-between text-sm font-medium text-slate-200">
+                    <span>{field.label}</span>
+                    {field.required && <span className="text-xs text-red-300">Required</span>}
+                  </label>
+                  {renderFieldControl(field)}
+                  {fieldErrors[field.id] && (
+                    <p className="text-xs text-red-300">{fieldErrors[field.id]}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </section>
+
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="space-y-1 text-xs text-slate-400">
+          <p>By submitting you agree that we may contact you about the Unified Intelligence Platform.</p>
+          {draftError ? (
+            <p className="text-red-300">{draftError}</p>
+          ) : (
+            draftSavedAt && (
+              <p className="text-slate-500">
+                Draft saved {new Date(draftSavedAt).toLocaleTimeString()}
+                {resumeLink && (
+                  <>
+                    {" · "}
+                    <button
+                      type="button"
+                      onClick={() => navigator.clipboard?.writeText(resumeLink)}
+                      className="text-blue-300 hover:text-blue-200"
+                    >
+                      Copy resume link
+                    </button>
+                  </>
+                )}
+              </p>
+            )
+          )}
+        </div>
+        <button
+          onClick={submitApplication}
+          disabled={submitting}
+          className="rounded-full border border-emerald-500/70 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-emerald-100 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {submitting ? "Submitting…" : "Submit application"}
+        </button>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import type { OnboardingApplicantStatus, OnboardingAttachment } from "@/lib/onboarding/types";
+
+type StatusResponse = {
+  ok: boolean;
+  error?: string;
+  status?: OnboardingApplicantStatus;
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+export default function ApplicantStatusPage() {
+  const params = useParams();
+  const tokenParam = params?.token;
+  const token = Array.isArray(tokenParam) ? tokenParam[0] : tokenParam;
+
+  const [status, setStatus] = useState<OnboardingApplicantStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    setLoading(true);
+    fetch(`/api/onboarding/status/${encodeURIComponent(token)}`, { cache: "no-store" })
+      .then((res) => res.json() as Promise<StatusResponse>)
+      .then((payload) => {
+        if (!payload.ok || !payload.status) {
+          throw new Error(payload.error ?? "Unable to load application status");
+        }
+        setStatus(payload.status);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : "Unable to load application status");
+      })
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  if (loading) {
+    return (
+      <main className="flex min-h-screen items-center justify-center">
+        <p className="text-sm text-slate-400">Loading application status…</p>
+      </main>
+    );
+  }
+
+  if (error || !status || !token) {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center gap-4 px-6 text-center">
+        <p className="text-sm text-red-300">{error ?? "Application not found"}</p>
+        <Link
+          href="/onboarding"
+          className="rounded-full border border-blue-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/10"
+        >
+          Browse programs
+        </Link>
+      </main>
+    );
+  }
+
+  const openRequests = status.documentRequests.filter((request) => request.status === "open");
+  const fulfilledRequests = status.documentRequests.filter((request) => request.status === "fulfilled");
+
+  return (
+    <main className="mx-auto flex min-h-screen max-w-3xl flex-col gap-8 px-6 py-12 text-slate-100">
+      <header className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.4em] text-blue-400/80">{status.programName}</p>
+        <h1 className="text-3xl font-semibold">{status.companyName ?? "Your application"}</h1>
+        <p className="text-sm text-slate-400">
+          Submitted {formatDate(status.submittedAt)} · Reference{" "}
+          <span className="font-mono text-blue-200">{status.submissionId}</span>
+        </p>
+      </header>
+
+      <section className="rounded-2xl border border-slate-800 bg-slate-950/60 p-6">
+        <p className="text-xs uppercase tracking-wide text-slate-500">Current stage</p>
+        <p className="mt-1 text-2xl font-semibold text-blue-100">{status.stage.label}</p>
+        {status.decision && (
+          <p className="mt-2 text-sm text-slate-300">
+            A final decision was recorded on {formatDate(status.decision.decidedAt)}.
+          </p>
+        )}
+        <ol className="mt-4 space-y-2 border-l border-slate-800 pl-4">
+          {status.history.map((entry, index) => (
+            <li key={`${entry.state}-${index}`} className="text-sm">
+              <span className="text-slate-200">{entry.label}</span>
+              <span className="ml-2 text-xs text-slate-500">{formatDate(entry.at)}</span>
+            </li>
+          ))}
+        </ol>
+      </section>
+
+      {openRequests.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Documents requested</h2>
+          {openRequests.map((request) => (
+            <DocumentRequestCard
+              key={request.id}
+              token={token}
+              request={request}
+              onFulfilled={setStatus}
+            />
+          ))}
+        </section>
+      )}
+
+      {status.interviews.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Interviews</h2>
+          <ul className="space-y-2">
+            {status.interviews.map((interview) => (
+              <li
+                key={interview.id}
+                className="rounded-xl border border-slate-800 bg-slate-950/60 px-4 py-3 text-sm text-slate-300"
+              >
+                {formatDate(interview.startTime)} – {formatTime(interview.endTime)}
+                {interview.resourceName && <span className="text-slate-400"> · {interview.resourceName}</span>}
+                {interview.status === "completed" && <span className="ml-2 text-xs text-emerald-300">Completed</span>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {status.feedback.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Feedback from the team</h2>
+          {status.feedback.map((entry) => (
+            <article key={entry.id} className="rounded-xl border border-slate-800 bg-slate-950/60 px-4 py-3">
+              <p className="whitespace-pre-wrap text-sm text-slate-200">{entry.message}</p>
+              <p className="mt-2 text-xs text-slate-500">{formatDate(entry.sharedAt)}</p>
+            </article>
+          ))}
+        </section>
+      )}
+
+      {fulfilledRequests.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold">Documents provided</h2>
+          <ul className="space-y-1 text-sm text-slate-300">
+            {fulfilledRequests.map((request) => (
+              <li key={request.id}>
+                {request.title}
+                {request.fulfilledAt && (
+                  <span className="ml-2 text-xs text-slate-500">uploaded {formatDate(request.fulfilledAt)}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </main>
+  );
+}
+
+function DocumentRequestCard({
+  token,
+  request,
+  onFulfilled,
+}: {
+  token: string;
+  request: OnboardingApplicantStatus["documentRequests"][number];
+  onFulfilled: (status: OnboardingApplicantStatus) => void;
+}) {
+  const [attachments, setAttachments] = useState<OnboardingAttachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setUploading(true);
+    setError(null);
+    try {
+      const uploaded: OnboardingAttachment[] = [];
+      for (const file of Array.from(files)) {
+        const formData = new FormData();
+        formData.append("file", file);
+        const res = await fetch(`/api/onboarding/status/${encodeURIComponent(token)}/documents/upload`, {
+          method: "POST",
+          body: formData,
+        });
+        const payload = (await res.json()) as { ok: boolean; attachment?: OnboardingAttachment; error?: string };
+        if (!payload.ok || !payload.attachment) {
+          throw new Error(payload.error ?? `Upload failed: ${file.name}`);
+        }
+        uploaded.push(payload.attachment);
+      }
+      setAttachments((prev) => [...prev, ...uploaded]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    setSaving(true);
+    setError(null);
+    fetch(`/api/onboarding/status/${encodeURIComponent(token)}/documents`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ requestId: request.id, attachments }),
+    })
+      .then((res) => res.json() as Promise<StatusResponse>)
+      .then((payload) => {
+        if (!payload.ok || !payload.status) {
+          throw new Error(payload.error ?? "Unable to upload documents");
+        }
+        onFulfilled(payload.status);
+      })
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : "Unable to upload documents");
+      })
+      .finally(() => setSaving(false));
+  };
+
+  return (
+    <article className="space-y-3 rounded-xl border border-amber-500/40 bg-amber-500/5 px-4 py-3">
+      <div>
+        <p className="font-semibold text-amber-100">{request.title}</p>
+        {request.description && <p className="mt-1 text-sm text-slate-300">{request.description}</p>}
+        {request.dueAt && <p className="mt-1 text-xs text-amber-200/80">Due {formatDate(request.dueAt)}</p>}
+      </div>
+      <input
+        type="file"
+        multiple
+        disabled={uploading || saving}
+        onChange={(event) => {
+          void handleFiles(event.target.files);
+          event.target.value = "";
+        }}
+        className="block text-sm text-slate-300"
+      />
+      {attachments.length > 0 && (
+        <ul className="space-y-1 text-xs text-slate-400">
+          {attachments.map((attachment) => (
+            <li key={attachment.key}>{attachment.name}</li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      <button
+        type="button"
+        onClick={handleSubmit}
+        disabled={!attachments.length || uploading || saving}
+        className="rounded-full border border-blue-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/10 disabled:opacity-50"
+      >
+        {saving ? "Sending…" : "Send documents"}
+      </button>
+    </article>
+  );
+}
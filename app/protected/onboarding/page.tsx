@@ -1,85 +1,2396 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useState, type ReactNode } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import {
+  OnboardingAssignmentSettings,
+  OnboardingAssignmentStrategy,
   OnboardingAttachment,
+  OnboardingChecklistTemplate,
+  OnboardingChecklistTemplateItem,
   OnboardingField,
+  OnboardingFieldError,
   OnboardingFieldOption,
   OnboardingFieldResponse,
   OnboardingFieldType,
   OnboardingForm,
+  OnboardingFormDiff,
+  OnboardingFormImportPreview,
+  OnboardingFormVersionSummary,
+  OnboardingLifecycle,
+  OnboardingLifecycleState,
+  OnboardingPanelAggregation,
+  OnboardingProgram,
+  OnboardingReviewRubric,
+  OnboardingRubricCriterion,
   OnboardingSection,
+  OnboardingScoreOperator,
+  OnboardingScoringCondition,
+  OnboardingScoringMatch,
   OnboardingScoringRule,
+  OnboardingVisibilityCondition,
+  OnboardingVisibilityOperator,
+  OnboardingVisibilityRule,
+  OnboardingWindowExtension,
 } from "@/lib/onboarding/types";
+import {
+  DEFAULT_FORM_LOCALE,
+  FORM_LOCALE_LABELS,
+  findMissingTranslations,
+  getFormLocales,
+  localeLabel,
+  localizeForm,
+  normalizeLocaleTag,
+} from "@/lib/onboarding/locales";
+import {
+  SCORE_OPERATORS,
+  SCORE_OPERATOR_LABELS,
+  SCORING_MATCH_LABELS,
+  scoreOperatorNeedsTarget,
+  scoreOperatorTargetHint,
+} from "@/lib/onboarding/scoring";
+import { PANEL_AGGREGATION_LABELS, getProgramRubric } from "@/lib/onboarding/panel";
+import { ASSIGNMENT_STRATEGY_LABELS, getAssignmentSettings } from "@/lib/onboarding/assignments";
+import { getProgramLifecycle } from "@/lib/onboarding/lifecycle";
+import {
+  VISIBILITY_OPERATORS,
+  resolveFormVisibility,
+  type OnboardingResponseValues,
+} from "@/lib/onboarding/visibility";
+import {
+  FIELD_TYPES,
+  FIELD_TYPE_LABELS,
+  GROUP_ENTRY_FIELD_TYPES,
+  RATING_MAX,
+  RATING_MIN,
+  fieldTypeHasOptions,
+  groupEntryErrorKey,
+  toFieldErrorMap,
+  validateSubmissionResponses,
+} from "@/lib/onboarding/validation";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+
+const createOption = (): OnboardingFieldOption => ({
+  id: crypto.randomUUID(),
+  label: "New option",
+  value: "new-option",
+});
+
+const createField = (type: OnboardingFieldType = "text"): OnboardingField => ({
+  id: crypto.randomUUID(),
+  label: "New field",
+  type,
+  required: false,
+  description: "",
+  placeholder: "",
+  options: fieldTypeHasOptions(type) ? [createOption()] : undefined,
+  multiple: type === "file" ? false : undefined,
+  currency: type === "currency" ? "USD" : undefined,
+});
+
+const createSection = (): OnboardingSection => ({
+  id: crypto.randomUUID(),
+  title: "New section",
+  description: "",
+  fields: [createField()],
+});
+
+const defaultOperatorForType = (
+  type: OnboardingFieldType | undefined,
+): OnboardingScoreOperator => {
+  if (type === "text" || type === "textarea" || type === "multiselect") {
+    return "contains";
+  }
+  if (type === "number" || type === "currency" || type === "rating" || type === "group") {
+    return "gte";
+  }
+  if (type === "file") {
+    return "attachments_gte";
+  }
+  return "equals";
+};
+
+const operatorOptionsForType = (
+  type: OnboardingFieldType | undefined,
+): OnboardingScoreOperator[] => {
+  switch (type) {
+    case "select":
+    case "checkbox":
+      return ["equals", "not_equals", "in", "is_empty", "exists"];
+    case "multiselect":
+      return ["contains", "equals", "not_equals", "in", "is_empty", "exists"];
+    case "number":
+    case "currency":
+    case "rating":
+    case "group":
+      return ["gte", "lte", "between", "equals", "not_equals", "is_empty", "exists"];
+    case "email":
+    case "url":
+    case "phone":
+      return ["contains", "equals", "not_equals", "regex", "is_empty", "exists"];
+    case "date":
+      return ["equals", "gte", "lte", "between", "is_empty", "exists"];
+    case "file":
+      return ["attachments_gte", "exists", "is_empty"];
+    case "textarea":
+    case "text":
+      return ["contains", "equals", "not_equals", "in", "regex", "gte", "lte", "is_empty", "exists"];
+    default:
+      return SCORE_OPERATORS;
+  }
+};
+
+type ScoringFieldOption = {
+  id: string;
+  label: string;
+  type: OnboardingFieldType;
+  fields?: OnboardingField[];
+};
+
+type ScoringConditionEditorProps = {
+  condition: OnboardingScoringCondition;
+  fields: ScoringFieldOption[];
+  showWeight?: boolean;
+  onChange: (updates: Partial<OnboardingScoringCondition>) => void;
+};
+
+function ScoringConditionEditor({ condition, fields, showWeight, onChange }: ScoringConditionEditorProps) {
+  const fieldMeta = fields.find((item) => item.id === condition.fieldId);
+  const subFieldMeta = condition.subFieldId
+    ? fieldMeta?.fields?.find((item) => item.id === condition.subFieldId)
+    : undefined;
+  const operatorOptions = Array.from(
+    new Set([...operatorOptionsForType(subFieldMeta?.type ?? fieldMeta?.type), condition.operator].filter(Boolean)),
+  );
+  const operatorValue =
+    (condition.operator && operatorOptions.includes(condition.operator)
+      ? condition.operator
+      : operatorOptions[0]) ?? "equals";
+
+  return (
+    <div className="space-y-3">
+      <div className={`grid gap-3 ${showWeight ? "md:grid-cols-4" : "md:grid-cols-3"}`}>
+        <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-purple-200/80">
+          Field to evaluate
+          <select
+            value={condition.fieldId}
+            onChange={(event) => {
+              const selected = fields.find((item) => item.id === event.target.value);
+              onChange({
+                fieldId: selected?.id ?? "",
+                subFieldId: undefined,
+                entryMatch: undefined,
+                operator: defaultOperatorForType(selected?.type),
+                target: "",
+              });
+            }}
+            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-purple-500 focus:outline-none"
+          >
+            <option value="">Select a field</option>
+            {fields.map((field) => (
+              <option key={field.id} value={field.id}>
+                {field.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-purple-200/80">
+          Operator
+          <select
+            value={operatorValue}
+            onChange={(event) => {
+              const operator = event.target.value as OnboardingScoreOperator;
+              onChange({ operator, target: scoreOperatorNeedsTarget(operator) ? condition.target : "" });
+            }}
+            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-purple-500 focus:outline-none"
+          >
+            {operatorOptions.map((option) => (
+              <option key={option} value={option}>
+                {SCORE_OPERATOR_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-purple-200/80">
+          Target value
+          <input
+            type="text"
+            value={condition.target}
+            onChange={(event) => onChange({ target: event.target.value })}
+            disabled={!scoreOperatorNeedsTarget(operatorValue)}
+            placeholder={scoreOperatorTargetHint(operatorValue)}
+            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-purple-500 focus:outline-none disabled:opacity-50"
+          />
+        </label>
+
+        {showWeight && (
+          <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-purple-200/80">
+            Weight
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={condition.weight ?? 1}
+              onChange={(event) => onChange({ weight: Math.max(0, Number(event.target.value) || 0) })}
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-purple-500 focus:outline-none"
+            />
+          </label>
+        )}
+      </div>
+
+      {fieldMeta?.type === "group" && (
+        <div className="grid gap-3 md:grid-cols-2">
+          <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-purple-200/80">
+            Evaluate
+            <select
+              value={condition.subFieldId ?? ""}
+              onChange={(event) => {
+                const subField = fieldMeta.fields?.find((item) => item.id === event.target.value);
+                onChange({
+                  subFieldId: subField?.id,
+                  entryMatch: subField ? condition.entryMatch ?? "any" : undefined,
+                  operator: defaultOperatorForType(subField?.type ?? "group"),
+                  target: "",
+                });
+              }}
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-purple-500 focus:outline-none"
+            >
+              <option value="">Number of entries</option>
+              {(fieldMeta.fields ?? []).map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {condition.subFieldId && (
+            <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-purple-200/80">
+              Entries that must match
+              <select
+                value={condition.entryMatch ?? "any"}
+                onChange={(event) => onChange({ entryMatch: event.target.value === "all" ? "all" : "any" })}
+                className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-purple-500 focus:outline-none"
+              >
+                <option value="any">Any entry</option>
+                <option value="all">Every entry</option>
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type Mode = "configure" | "apply";
+
+type UploadState = {
+  uploading: boolean;
+  error: string | null;
+};
+
+type FieldState = {
+  value: string | string[] | null;
+  attachments: OnboardingAttachment[];
+  entryIds?: string[];
+};
+
+const emptyFieldState = (field: OnboardingField): FieldState => ({
+  value: field.type === "file" || field.type === "group" ? null : field.type === "multiselect" ? [] : "",
+  attachments: [],
+});
+
+// Group entry answers live in the same state map, keyed by their error key.
+const groupEntryState = (field: OnboardingField, entryId: string) => {
+  const state: Record<string, FieldState> = {};
+  (field.fields ?? []).forEach((subField) => {
+    state[groupEntryErrorKey(field.id, entryId, subField.id)] = emptyFieldState(subField);
+  });
+  return state;
+};
+
+const visibilityOperatorLabels: Record<OnboardingVisibilityOperator, string> = {
+  equals: "equals",
+  contains: "contains",
+  in: "is one of",
+};
+
+const yesNoOptions: OnboardingFieldOption[] = [
+  { id: "yes", label: "Yes", value: "yes" },
+  { id: "no", label: "No", value: "no" },
+];
+
+type VisibilitySourceField = {
+  id: string;
+  label: string;
+  options?: OnboardingFieldOption[];
+};
+
+const createVisibilityCondition = (source?: VisibilitySourceField): OnboardingVisibilityCondition => ({
+  id: crypto.randomUUID(),
+  fieldId: source?.id ?? "",
+  operator: source?.options?.length ? "in" : "equals",
+  values: [],
+});
+
+type VisibilityRuleEditorProps = {
+  title: string;
+  rule?: OnboardingVisibilityRule;
+  sources: VisibilitySourceField[];
+  onChange: (rule: OnboardingVisibilityRule | undefined) => void;
+};
+
+function VisibilityRuleEditor({ title, rule, sources, onChange }: VisibilityRuleEditorProps) {
+  if (!rule) {
+    return (
+      <button
+        type="button"
+        onClick={() => onChange({ match: "all", conditions: [createVisibilityCondition(sources[0])] })}
+        disabled={sources.length === 0}
+        className="self-start text-xs font-medium text-blue-300 hover:text-blue-200 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Add visibility condition
+      </button>
+    );
+  }
+
+  const updateCondition = (conditionId: string, updates: Partial<OnboardingVisibilityCondition>) => {
+    onChange({
+      ...rule,
+      conditions: rule.conditions.map((condition) =>
+        condition.id === conditionId ? { ...condition, ...updates } : condition,
+      ),
+    });
+  };
+
+  const removeCondition = (conditionId: string) => {
+    const conditions = rule.conditions.filter((condition) => condition.id !== conditionId);
+    onChange(conditions.length ? { ...rule, conditions } : undefined);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-blue-500/30 bg-blue-500/5 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-blue-200/80">
+          {title}
+          <select
+            value={rule.match}
+            onChange={(event) => onChange({ ...rule, match: event.target.value === "any" ? "any" : "all" })}
+            className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-blue-500 focus:outline-none"
+          >
+            <option value="all">all conditions match</option>
+            <option value="any">any condition matches</option>
+          </select>
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          className="text-xs text-slate-400 hover:text-slate-200"
+        >
+          Always show
+        </button>
+      </div>
+
+      {rule.conditions.map((condition) => {
+        const source = sources.find((item) => item.id === condition.fieldId);
+        const options = source?.options ?? [];
+
+        return (
+          <div key={condition.id} className="flex flex-col gap-2 md:flex-row md:items-start">
+            <select
+              value={condition.fieldId}
+              onChange={(event) => {
+                const next = sources.find((item) => item.id === event.target.value);
+                updateCondition(condition.id, {
+                  fieldId: event.target.value,
+                  operator: next?.options?.length ? "in" : "equals",
+                  values: [],
+                });
+              }}
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none md:w-1/3"
+            >
+              <option value="">Select a field</option>
+              {sources.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={condition.operator}
+              onChange={(event) =>
+                updateCondition(condition.id, {
+                  operator: event.target.value as OnboardingVisibilityOperator,
+                })
+              }
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+            >
+              {VISIBILITY_OPERATORS.map((operator) => (
+                <option key={operator} value={operator}>
+                  {visibilityOperatorLabels[operator]}
+                </option>
+              ))}
+            </select>
+            {options.length > 0 && condition.operator === "in" ? (
+              <div className="flex flex-1 flex-wrap gap-3 rounded-md border border-slate-700 bg-slate-950 px-3 py-2">
+                {options.map((option) => (
+                  <label key={option.id} className="flex items-center gap-2 text-xs text-slate-200">
+                    <input
+                      type="checkbox"
+                      checked={condition.values.includes(option.value)}
+                      onChange={(event) =>
+                        updateCondition(condition.id, {
+                          values: event.target.checked
+                            ? [...condition.values, option.value]
+                            : condition.values.filter((value) => value !== option.value),
+                        })
+                      }
+                      className="h-3.5 w-3.5 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            ) : options.length > 0 && condition.operator === "equals" ? (
+              <select
+                value={condition.values[0] ?? ""}
+                onChange={(event) => updateCondition(condition.id, { values: [event.target.value] })}
+                className="flex-1 rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+              >
+                <option value="">Select an option</option>
+                {options.map((option) => (
+                  <option key={option.id} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={condition.values.join(", ")}
+                onChange={(event) =>
+                  updateCondition(condition.id, {
+                    values:
+                      condition.operator === "in"
+                        ? event.target.value.split(",").map((value) => value.trimStart())
+                        : [event.target.value],
+                  })
+                }
+                placeholder={condition.operator === "in" ? "Comma separated values" : "Value"}
+                className="flex-1 rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => removeCondition(condition.id)}
+              className="text-xs text-red-300 hover:text-red-200 md:pt-2"
+            >
+              Remove
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() =>
+          onChange({
+            ...rule,
+            conditions: [...rule.conditions, createVisibilityCondition(sources[0])],
+          })
+        }
+        className="text-xs font-medium text-blue-300 hover:text-blue-200"
+      >
+        Add condition
+      </button>
+    </div>
+  );
+}
+
+const changeKindStyles: Record<OnboardingFormDiff["fields"][number]["kind"], string> = {
+  added: "text-emerald-300",
+  removed: "text-red-300",
+  changed: "text-amber-200",
+};
+
+type FormDiffChangeEntry = {
+  key: string;
+  label: string;
+  kind: OnboardingFormDiff["fields"][number]["kind"];
+  changes: string[];
+};
+
+function FormDiffChangeList({ title, entries }: { title: string; entries: FormDiffChangeEntry[] }) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-400">{title}</h4>
+      <ul className="space-y-1">
+        {entries.map((entry) => (
+          <li key={entry.key} className="text-xs text-slate-300">
+            <span className={`font-semibold uppercase ${changeKindStyles[entry.kind]}`}>{entry.kind}</span>{" "}
+            {entry.label}
+            {entry.changes.length > 0 && (
+              <span className="text-slate-500"> — {entry.changes.join("; ")}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function FormDiffDetails({ diff, caption }: { diff: OnboardingFormDiff; caption: string }) {
+  return (
+    <>
+      <p className="text-xs text-slate-500">{caption}</p>
+      {[...diff.form, ...diff.scoring].length > 0 && (
+        <ul className="space-y-1 text-xs text-slate-300">
+          {[...diff.form, ...diff.scoring].map((change) => (
+            <li key={change}>{change}</li>
+          ))}
+        </ul>
+      )}
+      <FormDiffChangeList
+        title="Sections"
+        entries={diff.sections.map((change) => ({ key: change.sectionId, label: change.title, kind: change.kind, changes: change.changes }))}
+      />
+      <FormDiffChangeList
+        title="Fields"
+        entries={diff.fields.map((change) => ({ key: change.fieldId, label: change.label, kind: change.kind, changes: change.changes }))}
+      />
+      <FormDiffChangeList
+        title="Scoring rules"
+        entries={diff.rules.map((change) => ({ key: change.ruleId, label: change.label, kind: change.kind, changes: change.changes }))}
+      />
+    </>
+  );
+}
+
+type VersionHistoryPanelProps = {
+  programId: string;
+  currentVersion: number;
+  onRestored: (form: OnboardingForm) => void;
+};
+
+function VersionHistoryPanel({ programId, currentVersion, onRestored }: VersionHistoryPanelProps) {
+  const [versions, setVersions] = useState<OnboardingFormVersionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<OnboardingFormDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+
+    fetch(`/api/protected/onboarding/config/versions?program=${encodeURIComponent(programId)}`, {
+      cache: "no-store",
+    })
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error("Failed to load version history");
+        }
+        return (await res.json()) as { ok: boolean; versions?: OnboardingFormVersionSummary[]; error?: string };
+      })
+      .then((payload) => {
+        if (!active) return;
+        if (!payload.ok) {
+          throw new Error(payload.error ?? "Version history unavailable");
+        }
+        setVersions(payload.versions ?? []);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!active) return;
+        setError(err instanceof Error ? err.message : "Unable to load version history");
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [programId, currentVersion]);
+
+  const handleCompare = (version: number) => {
+    if (selectedVersion === version) {
+      setSelectedVersion(null);
+      setDiff(null);
+      return;
+    }
+
+    setSelectedVersion(version);
+    setDiff(null);
+    setDiffLoading(true);
+
+    fetch(`/api/protected/onboarding/config/versions/${version}?program=${encodeURIComponent(programId)}`, {
+      cache: "no-store",
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; diff?: OnboardingFormDiff; error?: string };
+        if (!res.ok || !payload.ok || !payload.diff) {
+          throw new Error(payload.error ?? "Unable to compare versions");
+        }
+        setDiff(payload.diff);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to compare versions");
+      })
+      .finally(() => setDiffLoading(false));
+  };
+
+  const handleRestore = (version: number) => {
+    if (!window.confirm(`Restore version ${version}? It will be republished as a new version.`)) {
+      return;
+    }
+
+    setRestoring(true);
+    fetch(`/api/protected/onboarding/config/versions/${version}?program=${encodeURIComponent(programId)}`, {
+      method: "POST",
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; form?: OnboardingForm; error?: string };
+        if (!res.ok || !payload.ok || !payload.form) {
+          throw new Error(payload.error ?? "Unable to restore version");
+        }
+        setSelectedVersion(null);
+        setDiff(null);
+        onRestored(payload.form);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to restore version");
+      })
+      .finally(() => setRestoring(false));
+  };
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800/80 bg-slate-950/60 p-6">
+      <div>
+        <h2 className="text-xl font-semibold text-slate-100">Version history</h2>
+        <p className="text-sm text-slate-400">
+          Every saved configuration is kept. Submissions are reviewed against the version the applicant answered.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {loading ? (
+        <p className="text-sm text-slate-400">Loading versions…</p>
+      ) : versions.length === 0 ? (
+        <p className="rounded-lg border border-dashed border-slate-800 bg-slate-900/40 p-4 text-sm text-slate-400">
+          No saved versions yet. Save the configuration to start the history.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {versions.map((entry) => (
+            <li key={entry.version} className="space-y-3 rounded-lg border border-slate-800 bg-slate-900/40 p-4">
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <div className="space-y-1">
+                  <p className="text-sm font-semibold text-slate-100">
+                    Version {entry.version}
+                    {entry.isCurrent && (
+                      <span className="ml-2 rounded-full border border-emerald-500/60 px-2 py-0.5 text-[11px] uppercase tracking-wide text-emerald-200">
+                        Live
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {new Date(entry.createdAt).toLocaleString()}
+                    {entry.createdBy ? ` · ${entry.createdBy}` : ""}
+                    {entry.restoredFrom !== undefined ? ` · restored from v${entry.restoredFrom}` : ""}
+                    {` · ${entry.sectionCount} sections, ${entry.fieldCount} fields, ${entry.ruleCount} rules`}
+                  </p>
+                </div>
+                {!entry.isCurrent && (
+                  <div className="flex items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => handleCompare(entry.version)}
+                      className="rounded-full border border-blue-500/70 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-blue-200 transition hover:bg-blue-500/10"
+                    >
+                      {selectedVersion === entry.version ? "Hide diff" : "Compare with live"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(entry.version)}
+                      disabled={restoring}
+                      className="rounded-full border border-amber-500/70 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-amber-200 transition hover:bg-amber-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      Roll back
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {selectedVersion === entry.version && (
+                <div className="space-y-3 rounded-md border border-slate-800 bg-slate-950/70 p-4">
+                  {diffLoading ? (
+                    <p className="text-xs text-slate-400">Comparing…</p>
+                  ) : diff && !diff.hasChanges ? (
+                    <p className="text-xs text-slate-400">No differences from the live version.</p>
+                  ) : diff ? (
+                    <FormDiffDetails
+                      diff={diff}
+                      caption={`Changes from live v${diff.fromVersion} to v${diff.toVersion}`}
+                    />
+                  ) : null}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+type FormSchemaTransferPanelProps = {
+  programId: string;
+  onImported: (form: OnboardingForm) => void;
+};
+
+function FormSchemaTransferPanel({ programId, onImported }: FormSchemaTransferPanelProps) {
+  const [schema, setSchema] = useState<unknown>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<OnboardingFormImportPreview | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setSchema(null);
+    setFileName(null);
+    setPreview(null);
+  };
+
+  const sendSchema = (document: unknown, previewOnly: boolean) =>
+    fetch(`/api/protected/onboarding/config?program=${encodeURIComponent(programId)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ schema: document, preview: previewOnly }),
+    }).then(async (res) => {
+      const payload = (await res.json()) as {
+        ok: boolean;
+        preview?: OnboardingFormImportPreview;
+        form?: OnboardingForm;
+        error?: string;
+      };
+      if (!res.ok || !payload.ok) {
+        throw new Error(payload.error ?? "Unable to import form schema");
+      }
+      return payload;
+    });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    setError(null);
+    setWorking(true);
+
+    file
+      .text()
+      .then((text) => {
+        let document: unknown;
+        try {
+          document = JSON.parse(text);
+        } catch {
+          throw new Error("File is not valid JSON");
+        }
+        return sendSchema(document, true).then((payload) => {
+          setSchema(document);
+          setFileName(file.name);
+          setPreview(payload.preview ?? null);
+        });
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to read form schema");
+      })
+      .finally(() => setWorking(false));
+  };
+
+  const applyImport = () => {
+    if (!schema) return;
+    setWorking(true);
+    setError(null);
+
+    sendSchema(schema, false)
+      .then((payload) => {
+        if (!payload.form) {
+          throw new Error("Unable to import form schema");
+        }
+        reset();
+        onImported(payload.form);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to import form schema");
+      })
+      .finally(() => setWorking(false));
+  };
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800/80 bg-slate-950/60 p-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">Import &amp; export</h2>
+          <p className="text-sm text-slate-400">
+            Move this form and its scoring rules between deployments or share it with a partner program.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <a
+            href={`/api/protected/onboarding/config/export?program=${encodeURIComponent(programId)}`}
+            className="rounded-full border border-blue-500/70 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-blue-200 transition hover:bg-blue-500/10"
+          >
+            Export JSON
+          </a>
+          <label className="cursor-pointer rounded-full border border-purple-500/70 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-purple-200 transition hover:bg-purple-500/10">
+            Import JSON
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              disabled={working}
+              onChange={(event) => {
+                handleFile(event.target.files?.[0]);
+                event.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+      {working && !preview && <p className="text-sm text-slate-400">Validating schema…</p>}
+
+      {preview && (
+        <div className="space-y-3 rounded-md border border-slate-800 bg-slate-950/70 p-4">
+          <p className="text-sm text-slate-200">
+            {fileName}
+            {preview.source ? ` · exported from ${preview.source.programName} v${preview.source.formVersion}` : ""}
+            {` · schema v${preview.schemaVersion}`}
+          </p>
+          {preview.diff.hasChanges ? (
+            <FormDiffDetails
+              diff={preview.diff}
+              caption={`Importing will publish v${preview.diff.toVersion} with these changes from live v${preview.diff.fromVersion}`}
+            />
+          ) : (
+            <p className="text-xs text-slate-400">The imported form matches the live version.</p>
+          )}
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={applyImport}
+              disabled={working || !preview.diff.hasChanges}
+              className="rounded-full border border-emerald-500/70 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-emerald-200 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {working ? "Importing…" : "Apply import"}
+            </button>
+            <button
+              type="button"
+              onClick={reset}
+              disabled={working}
+              className="rounded-full border border-slate-600 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-slate-800/60"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const TRANSLATION_PROPERTY_LABELS: Record<string, string> = {
+  title: "Title",
+  summary: "Summary",
+  description: "Description",
+  label: "Label",
+  placeholder: "Placeholder",
+  entryLabel: "Entry label",
+};
+
+type TranslationRow = {
+  key: string;
+  context: string;
+  source: string;
+  value: string;
+  apply: (form: OnboardingForm, value: string) => OnboardingForm;
+};
+
+const withTranslation = <T extends object>(
+  translations: Record<string, T> | undefined,
+  locale: string,
+  property: keyof T,
+  value: string,
+): Record<string, T> => ({
+  ...translations,
+  [locale]: { ...translations?.[locale], [property]: value } as T,
+});
+
+const updateFieldAtPath = (
+  fields: OnboardingField[],
+  [fieldId, ...rest]: string[],
+  updater: (field: OnboardingField) => OnboardingField,
+): OnboardingField[] =>
+  fields.map((field) => {
+    if (field.id !== fieldId) return field;
+    return rest.length ? { ...field, fields: updateFieldAtPath(field.fields ?? [], rest, updater) } : updater(field);
+  });
+
+const updateSectionField = (
+  form: OnboardingForm,
+  sectionId: string,
+  path: string[],
+  updater: (field: OnboardingField) => OnboardingField,
+): OnboardingForm => ({
+  ...form,
+  sections: form.sections.map((section) =>
+    section.id === sectionId ? { ...section, fields: updateFieldAtPath(section.fields, path, updater) } : section,
+  ),
+});
+
+const buildTranslationRows = (form: OnboardingForm, locale: string): TranslationRow[] => {
+  const rows: TranslationRow[] = [];
+
+  (["title", "summary"] as const).forEach((property) => {
+    if (!form[property]) return;
+    rows.push({
+      key: `form.${property}`,
+      context: `Form · ${TRANSLATION_PROPERTY_LABELS[property]}`,
+      source: form[property],
+      value: form.translations?.[locale]?.[property] ?? "",
+      apply: (current, value) => ({
+        ...current,
+        translations: withTranslation(current.translations, locale, property, value),
+      }),
+    });
+  });
+
+  form.sections.forEach((section) => {
+    (["title", "description"] as const).forEach((property) => {
+      const source = section[property];
+      if (!source) return;
+      rows.push({
+        key: `section.${section.id}.${property}`,
+        context: `${section.title} · ${TRANSLATION_PROPERTY_LABELS[property]}`,
+        source,
+        value: section.translations?.[locale]?.[property] ?? "",
+        apply: (current, value) => ({
+          ...current,
+          sections: current.sections.map((entry) =>
+            entry.id === section.id
+              ? { ...entry, translations: withTranslation(entry.translations, locale, property, value) }
+              : entry,
+          ),
+        }),
+      });
+    });
+
+    const addFieldRows = (field: OnboardingField, path: string[], prefix: string) => {
+      (["label", "description", "placeholder", "entryLabel"] as const).forEach((property) => {
+        const source = field[property];
+        if (!source) return;
+        rows.push({
+          key: `field.${section.id}.${path.join(".")}.${property}`,
+          context: `${prefix}${field.label} · ${TRANSLATION_PROPERTY_LABELS[property]}`,
+          source,
+          value: field.translations?.[locale]?.[property] ?? "",
+          apply: (current, value) =>
+            updateSectionField(current, section.id, path, (entry) => ({
+              ...entry,
+              translations: withTranslation(entry.translations, locale, property, value),
+            })),
+        });
+      });
+      field.options?.forEach((option) => {
+        rows.push({
+          key: `option.${section.id}.${path.join(".")}.${option.id}`,
+          context: `${prefix}${field.label} · Option`,
+          source: option.label,
+          value: option.translations?.[locale] ?? "",
+          apply: (current, value) =>
+            updateSectionField(current, section.id, path, (entry) => ({
+              ...entry,
+              options: entry.options?.map((candidate) =>
+                candidate.id === option.id
+                  ? { ...candidate, translations: { ...candidate.translations, [locale]: value } }
+                  : candidate,
+              ),
+            })),
+        });
+      });
+      field.fields?.forEach((subField) => addFieldRows(subField, [...path, subField.id], `${prefix}${field.label} › `));
+    };
+
+    section.fields.forEach((field) => addFieldRows(field, [field.id], `${section.title} › `));
+  });
+
+  return rows;
+};
+
+type TranslationsPanelProps = {
+  form: OnboardingForm;
+  onChange: (form: OnboardingForm) => void;
+};
+
+function TranslationsPanel({ form, onChange }: TranslationsPanelProps) {
+  const defaultLocale = form.defaultLocale ?? DEFAULT_FORM_LOCALE;
+  const extraLocales = getFormLocales(form).slice(1);
+  const [selectedLocale, setSelectedLocale] = useState<string | null>(null);
+  const [newLocale, setNewLocale] = useState("");
+  const [onlyMissing, setOnlyMissing] = useState(true);
+  const activeLocale = selectedLocale && extraLocales.includes(selectedLocale) ? selectedLocale : extraLocales[0];
+
+  const missing = useMemo(() => findMissingTranslations(form), [form]);
+  const rows = useMemo(
+    () => (activeLocale ? buildTranslationRows(form, activeLocale) : []),
+    [form, activeLocale],
+  );
+  const visibleRows = onlyMissing ? rows.filter((row) => !row.value.trim()) : rows;
+  const missingByLocale = extraLocales.map((locale) => ({
+    locale,
+    items: missing.filter((entry) => entry.locale === locale),
+  }));
+
+  const addLocale = () => {
+    const locale = normalizeLocaleTag(newLocale);
+    if (!locale || locale === defaultLocale || extraLocales.includes(locale)) return;
+    onChange({ ...form, locales: [...extraLocales, locale] });
+    setSelectedLocale(locale);
+    setNewLocale("");
+  };
+
+  const removeLocale = (locale: string) => {
+    if (!window.confirm(`Stop offering ${localeLabel(locale)}? Existing translations are kept.`)) return;
+    onChange({ ...form, locales: extraLocales.filter((entry) => entry !== locale) });
+  };
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800/80 bg-slate-950/60 p-6">
+      <div>
+        <h2 className="text-xl font-semibold text-slate-100">Languages</h2>
+        <p className="text-sm text-slate-400">
+          Applicants see the form in their own language. Reviewers always see the default-language labels.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+          Default language
+          <select
+            value={defaultLocale}
+            onChange={(event) =>
+              onChange({
+                ...form,
+                defaultLocale: event.target.value,
+                locales: extraLocales.filter((locale) => locale !== event.target.value),
+              })
+            }
+            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+          >
+            {Array.from(new Set([defaultLocale, ...Object.keys(FORM_LOCALE_LABELS)])).map((locale) => (
+              <option key={locale} value={locale}>
+                {localeLabel(locale)} ({locale})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+          Add language
+          <input
+            list="onboarding-locale-options"
+            value={newLocale}
+            onChange={(event) => setNewLocale(event.target.value)}
+            placeholder="fr, pt-BR…"
+            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+          />
+          <datalist id="onboarding-locale-options">
+            {Object.entries(FORM_LOCALE_LABELS).map(([locale, label]) => (
+              <option key={locale} value={locale}>
+                {label}
+              </option>
+            ))}
+          </datalist>
+        </label>
+        <button
+          type="button"
+          onClick={addLocale}
+          disabled={!normalizeLocaleTag(newLocale)}
+          className="rounded-full border border-blue-500/70 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-blue-200 transition hover:bg-blue-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Add
+        </button>
+      </div>
+
+      {extraLocales.length === 0 ? (
+        <p className="rounded-lg border border-dashed border-slate-800 bg-slate-900/40 p-4 text-sm text-slate-400">
+          The form is only offered in {localeLabel(defaultLocale)}.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">Missing translations</h3>
+            <div className="flex flex-wrap gap-2">
+              {missingByLocale.map(({ locale, items }) => (
+                <div
+                  key={locale}
+                  className={`flex items-center gap-2 rounded-full border px-3 py-1 text-xs ${
+                    locale === activeLocale ? "border-blue-500/70 text-blue-100" : "border-slate-700 text-slate-300"
+                  }`}
+                >
+                  <button type="button" onClick={() => setSelectedLocale(locale)}>
+                    {localeLabel(locale)}
+                  </button>
+                  <span className={items.length ? "text-amber-200" : "text-emerald-300"}>
+                    {items.length
+                      ? `${items.reduce((sum, item) => sum + item.properties.length, 0)} missing`
+                      : "complete"}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => removeLocale(locale)}
+                    className="text-slate-500 hover:text-red-300"
+                    aria-label={`Remove ${localeLabel(locale)}`}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {activeLocale && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <h3 className="text-sm font-semibold text-slate-100">
+                  {localeLabel(activeLocale)} translations
+                </h3>
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={onlyMissing}
+                    onChange={(event) => setOnlyMissing(event.target.checked)}
+                    className="h-4 w-4 rounded border-slate-600 bg-slate-900"
+                  />
+                  Only show missing
+                </label>
+              </div>
+              {visibleRows.length === 0 ? (
+                <p className="text-xs text-emerald-300">Every string has a {localeLabel(activeLocale)} translation.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {visibleRows.map((row) => (
+                    <li key={row.key} className="grid gap-2 rounded-lg border border-slate-800 bg-slate-900/40 p-3 md:grid-cols-2">
+                      <div className="space-y-1">
+                        <p className="text-[11px] uppercase tracking-wide text-slate-500">{row.context}</p>
+                        <p className="text-sm text-slate-300">{row.source}</p>
+                      </div>
+                      <input
+                        type="text"
+                        value={row.value}
+                        onChange={(event) => onChange(row.apply(form, event.target.value))}
+                        placeholder={row.source}
+                        className={`rounded-md border bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none ${
+                          row.value.trim() ? "border-slate-700" : "border-amber-500/60"
+                        }`}
+                      />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+type ReviewerOption = {
+  id: string;
+  name: string | null;
+  email: string;
+};
+
+const toDateInput = (value?: string) => (value ? value.slice(0, 10) : "");
+
+type ProgramSettingsPanelProps = {
+  program: OnboardingProgram;
+  reviewers: ReviewerOption[];
+  onSaved: (program: OnboardingProgram) => void;
+  onCreated: (program: OnboardingProgram) => void;
+};
+
+function ProgramSettingsPanel({ program, reviewers, onSaved, onCreated }: ProgramSettingsPanelProps) {
+  const [draft, setDraft] = useState<OnboardingProgram>(program);
+  const [newProgramName, setNewProgramName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(program);
+    setError(null);
+  }, [program]);
+
+  const toggleReviewer = (reviewerId: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      reviewerIds: prev.reviewerIds.includes(reviewerId)
+        ? prev.reviewerIds.filter((id) => id !== reviewerId)
+        : [...prev.reviewerIds, reviewerId],
+    }));
+  };
+
+  const rubric = getProgramRubric(draft);
+  const poolReviewers = draft.reviewerIds.length
+    ? reviewers.filter((reviewer) => draft.reviewerIds.includes(reviewer.id))
+    : reviewers;
+
+  const updateRubric = (patch: Partial<OnboardingReviewRubric>) => {
+    setDraft((prev) => ({ ...prev, rubric: { ...getProgramRubric(prev), ...patch } }));
+  };
+
+  const updateCriterion = (criterionId: string, patch: Partial<OnboardingRubricCriterion>) => {
+    updateRubric({
+      criteria: rubric.criteria.map((criterion) =>
+        criterion.id === criterionId ? { ...criterion, ...patch } : criterion,
+      ),
+    });
+  };
+
+  const addCriterion = () => {
+    updateRubric({
+      criteria: [...rubric.criteria, { id: crypto.randomUUID(), label: "New criterion", weight: 1 }],
+    });
+  };
+
+  const removeCriterion = (criterionId: string) => {
+    updateRubric({ criteria: rubric.criteria.filter((criterion) => criterion.id !== criterionId) });
+  };
+
+  const assignment = getAssignmentSettings(draft);
+
+  const updateAssignment = (patch: Partial<OnboardingAssignmentSettings>) => {
+    setDraft((prev) => ({ ...prev, assignment: { ...getAssignmentSettings(prev), ...patch } }));
+  };
+
+  const updateExpertise = (reviewerId: string, key: "stages" | "sectors", value: string) => {
+    const current = assignment.expertise.find((entry) => entry.reviewerId === reviewerId) ?? {
+      reviewerId,
+      stages: [],
+      sectors: [],
+    };
+    updateAssignment({
+      expertise: [
+        ...assignment.expertise.filter((entry) => entry.reviewerId !== reviewerId),
+        { ...current, [key]: value.length ? value.split(",") : [] },
+      ],
+    });
+  };
+
+  const lifecycle = getProgramLifecycle(draft);
+
+  const updateLifecycle = (patch: Partial<OnboardingLifecycle>) => {
+    setDraft((prev) => ({ ...prev, lifecycle: { ...getProgramLifecycle(prev), ...patch } }));
+  };
+
+  const updateLifecycleState = (stateId: string, patch: Partial<OnboardingLifecycleState>) => {
+    updateLifecycle({
+      states: lifecycle.states.map((state) => (state.id === stateId ? { ...state, ...patch } : state)),
+    });
+  };
+
+  const toggleLifecycleTransition = (stateId: string, targetId: string) => {
+    const state = lifecycle.states.find((entry) => entry.id === stateId);
+    if (!state) return;
+    updateLifecycleState(stateId, {
+      next: state.next.includes(targetId)
+        ? state.next.filter((id) => id !== targetId)
+        : [...state.next, targetId],
+    });
+  };
+
+  const addLifecycleState = () => {
+    updateLifecycle({
+      states: [...lifecycle.states, { id: crypto.randomUUID(), label: "New state", terminal: false, next: [] }],
+    });
+  };
+
+  const removeLifecycleState = (stateId: string) => {
+    updateLifecycle({
+      states: lifecycle.states
+        .filter((state) => state.id !== stateId)
+        .map((state) => ({ ...state, next: state.next.filter((id) => id !== stateId) })),
+      initialState: lifecycle.initialState === stateId ? "" : lifecycle.initialState,
+    });
+  };
+
+  const handleSave = () => {
+    setSaving(true);
+    fetch(`/api/protected/onboarding/programs/${draft.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: draft.name,
+        slug: draft.slug,
+        summary: draft.summary ?? null,
+        opensAt: draft.opensAt ?? null,
+        closesAt: draft.closesAt ?? null,
+        reviewerIds: draft.reviewerIds,
+        chairId: draft.chairId ?? null,
+        rubric: draft.rubric ?? null,
+        assignment: draft.assignment ?? null,
+        lifecycle: draft.lifecycle ?? null,
+        archived: draft.archived,
+      }),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; program?: OnboardingProgram; error?: string };
+        if (!res.ok || !payload.ok || !payload.program) {
+          throw new Error(payload.error ?? "Unable to save program");
+        }
+        setError(null);
+        onSaved(payload.program);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to save program");
+      })
+      .finally(() => setSaving(false));
+  };
+
+  const handleCreate = () => {
+    if (!newProgramName.trim()) return;
+    setSaving(true);
+    fetch("/api/protected/onboarding/programs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: newProgramName }),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; program?: OnboardingProgram; error?: string };
+        if (!res.ok || !payload.ok || !payload.program) {
+          throw new Error(payload.error ?? "Unable to create program");
+        }
+        setNewProgramName("");
+        setError(null);
+        onCreated(payload.program);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to create program");
+      })
+      .finally(() => setSaving(false));
+  };
+
+  const inputClass =
+    "rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none";
+  const labelClass = "flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70";
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800/80 bg-slate-950/60 p-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">Program settings</h2>
+          <p className="text-sm text-slate-400">
+            Public link: <span className="font-mono text-blue-200">/onboarding/{program.slug}</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newProgramName}
+            placeholder="New program name"
+            onChange={(event) => setNewProgramName(event.target.value)}
+            className={inputClass}
+          />
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={saving || !newProgramName.trim()}
+            className="rounded-full border border-emerald-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-emerald-200 transition hover:bg-emerald-500/10 disabled:opacity-50"
+          >
+            Create program
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className={labelClass}>
+          Name
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className={labelClass}>
+          URL slug
+          <input
+            type="text"
+            value={draft.slug}
+            onChange={(event) => setDraft({ ...draft, slug: event.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Opens
+          <input
+            type="date"
+            value={toDateInput(draft.opensAt)}
+            onChange={(event) => setDraft({ ...draft, opensAt: event.target.value || undefined })}
+            className={inputClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Closes
+          <input
+            type="date"
+            value={toDateInput(draft.closesAt)}
+            onChange={(event) => setDraft({ ...draft, closesAt: event.target.value || undefined })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <label className={labelClass}>
+        Summary
+        <textarea
+          value={draft.summary ?? ""}
+          rows={2}
+          onChange={(event) => setDraft({ ...draft, summary: event.target.value })}
+          className={inputClass}
+        />
+      </label>
+
+      <div className="space-y-2">
+        <span className="text-xs font-semibold uppercase tracking-wide text-blue-200/70">Reviewer pool</span>
+        <p className="text-xs text-slate-500">Leave empty to let every onboarding reviewer see this program.</p>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {reviewers.map((reviewer) => (
+            <label key={reviewer.id} className="flex items-center gap-3 text-sm text-slate-200">
+              <input
+                type="checkbox"
+                checked={draft.reviewerIds.includes(reviewer.id)}
+                onChange={() => toggleReviewer(reviewer.id)}
+                className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+              />
+              {reviewer.name ?? reviewer.email}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <label className={labelClass}>
+        Panel chair
+        <select
+          value={draft.chairId ?? ""}
+          onChange={(event) => setDraft({ ...draft, chairId: event.target.value || undefined })}
+          className={inputClass}
+        >
+          <option value="">No chair — program admins finalise decisions</option>
+          {poolReviewers.map((reviewer) => (
+            <option key={reviewer.id} value={reviewer.id}>
+              {reviewer.name ?? reviewer.email}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="space-y-3 rounded-lg border border-slate-800 bg-slate-950/40 p-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <span className="text-xs font-semibold uppercase tracking-wide text-blue-200/70">Review rubric</span>
+            <p className="text-xs text-slate-500">
+              Each reviewer scores every criterion; scorecards are combined into the panel consensus.
+            </p>
+          </div>
+          {draft.rubric && (
+            <button
+              type="button"
+              onClick={() => setDraft({ ...draft, rubric: undefined })}
+              className="rounded-full border border-slate-700 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-slate-900/70"
+            >
+              Use default rubric
+            </button>
+          )}
+        </div>
+        <div className="grid gap-3 sm:grid-cols-5">
+          <label className={labelClass}>
+            Aggregation
+            <select
+              value={rubric.aggregation}
+              onChange={(event) => updateRubric({ aggregation: event.target.value as OnboardingPanelAggregation })}
+              className={inputClass}
+            >
+              {(Object.keys(PANEL_AGGREGATION_LABELS) as OnboardingPanelAggregation[]).map((method) => (
+                <option key={method} value={method}>
+                  {PANEL_AGGREGATION_LABELS[method]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={labelClass}>
+            Scale min
+            <input
+              type="number"
+              value={rubric.scaleMin}
+              onChange={(event) => updateRubric({ scaleMin: Number(event.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className={labelClass}>
+            Scale max
+            <input
+              type="number"
+              value={rubric.scaleMax}
+              onChange={(event) => updateRubric({ scaleMax: Number(event.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className={labelClass}>
+            Disagreement spread
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={rubric.disagreementThreshold}
+              onChange={(event) => updateRubric({ disagreementThreshold: Number(event.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className={labelClass}>
+            Outlier distance
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={rubric.outlierThreshold}
+              onChange={(event) => updateRubric({ outlierThreshold: Number(event.target.value) })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <ul className="space-y-2">
+          {rubric.criteria.map((criterion) => (
+            <li key={criterion.id} className="grid gap-2 sm:grid-cols-[1fr_2fr_6rem_auto] sm:items-center">
+              <input
+                type="text"
+                value={criterion.label}
+                placeholder="Criterion"
+                onChange={(event) => updateCriterion(criterion.id, { label: event.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={criterion.description ?? ""}
+                placeholder="What reviewers should look for"
+                onChange={(event) => updateCriterion(criterion.id, { description: event.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={criterion.weight}
+                title="Weight"
+                onChange={(event) => updateCriterion(criterion.id, { weight: Number(event.target.value) })}
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={() => removeCriterion(criterion.id)}
+                disabled={rubric.criteria.length <= 1}
+                className="text-xs font-semibold uppercase tracking-wide text-red-300 transition hover:text-red-200 disabled:opacity-40"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button
+          type="button"
+          onClick={addCriterion}
+          className="rounded-full border border-blue-500/70 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-blue-200 transition hover:bg-blue-500/10"
+        >
+          Add criterion
+        </button>
+      </div>
+
+      <div className="space-y-3 rounded-lg border border-slate-800 bg-slate-950/40 p-4">
+        <div>
+          <span className="text-xs font-semibold uppercase tracking-wide text-blue-200/70">Reviewer assignment</span>
+          <p className="text-xs text-slate-500">
+            New submissions are assigned to reviewers in the pool with the lightest open workload.
+          </p>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-3">
+          <label className={labelClass}>
+            Strategy
+            <select
+              value={assignment.strategy}
+              onChange={(event) =>
+                updateAssignment({ strategy: event.target.value as OnboardingAssignmentStrategy })
+              }
+              className={inputClass}
+            >
+              {(Object.keys(ASSIGNMENT_STRATEGY_LABELS) as OnboardingAssignmentStrategy[]).map((strategy) => (
+                <option key={strategy} value={strategy}>
+                  {ASSIGNMENT_STRATEGY_LABELS[strategy]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={labelClass}>
+            Reviewers per submission
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={assignment.reviewersPerSubmission}
+              onChange={(event) => updateAssignment({ reviewersPerSubmission: Number(event.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className={labelClass}>
+            Review due after (days)
+            <input
+              type="number"
+              min={1}
+              value={assignment.dueDays}
+              onChange={(event) => updateAssignment({ dueDays: Number(event.target.value) })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+        {(assignment.strategy === "stage" || assignment.strategy === "sector") && (
+          <div className="space-y-2">
+            <p className="text-xs text-slate-500">
+              {assignment.strategy === "stage"
+                ? "Comma-separated stage option values each reviewer covers."
+                : "Comma-separated sector keywords matched against the sector or industry answer."}
+            </p>
+            {poolReviewers.map((reviewer) => {
+              const expertise = assignment.expertise.find((entry) => entry.reviewerId === reviewer.id);
+              const key = assignment.strategy === "stage" ? "stages" : "sectors";
+              return (
+                <label key={reviewer.id} className="grid gap-2 text-sm text-slate-200 sm:grid-cols-[12rem_1fr] sm:items-center">
+                  {reviewer.name ?? reviewer.email}
+                  <input
+                    type="text"
+                    value={(expertise?.[key] ?? []).join(",")}
+                    placeholder={assignment.strategy === "stage" ? "seed, series-a" : "fintech, health"}
+                    onChange={(event) => updateExpertise(reviewer.id, key, event.target.value)}
+                    className={inputClass}
+                  />
+                </label>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3 rounded-lg border border-slate-800 bg-slate-950/40 p-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <span className="text-xs font-semibold uppercase tracking-wide text-blue-200/70">Application lifecycle</span>
+            <p className="text-xs text-slate-500">
+              Reviewers move submissions along the allowed transitions; final states need the panel chair.
+            </p>
+          </div>
+          {draft.lifecycle && (
+            <button
+              type="button"
+              onClick={() => setDraft({ ...draft, lifecycle: undefined })}
+              className="rounded-full border border-slate-700 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-slate-900/70"
+            >
+              Use default lifecycle
+            </button>
+          )}
+        </div>
+        <label className={labelClass}>
+          Initial state
+          <select
+            value={lifecycle.initialState}
+            onChange={(event) => updateLifecycle({ initialState: event.target.value })}
+            className={inputClass}
+          >
+            {lifecycle.states.map((state) => (
+              <option key={state.id} value={state.id}>
+                {state.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <ul className="space-y-3">
+          {lifecycle.states.map((state) => (
+            <li key={state.id} className="space-y-2 rounded-md border border-slate-800/80 p-3">
+              <div className="grid gap-2 sm:grid-cols-[1fr_auto_auto] sm:items-center">
+                <input
+                  type="text"
+                  value={state.label}
+                  placeholder="State"
+                  onChange={(event) => updateLifecycleState(state.id, { label: event.target.value })}
+                  className={inputClass}
+                />
+                <label className="flex items-center gap-2 text-xs text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={state.terminal}
+                    onChange={(event) =>
+                      updateLifecycleState(state.id, {
+                        terminal: event.target.checked,
+                        next: event.target.checked ? [] : state.next,
+                      })
+                    }
+                    className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+                  />
+                  Final
+                </label>
+                <button
+                  type="button"
+                  onClick={() => removeLifecycleState(state.id)}
+                  disabled={lifecycle.states.length <= 1}
+                  className="text-xs font-semibold uppercase tracking-wide text-red-300 transition hover:text-red-200 disabled:opacity-40"
+                >
+                  Remove
+                </button>
+              </div>
+              {!state.terminal && (
+                <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                  <span>Can move to:</span>
+                  {lifecycle.states
+                    .filter((target) => target.id !== state.id)
+                    .map((target) => (
+                      <label key={target.id} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={state.next.includes(target.id)}
+                          onChange={() => toggleLifecycleTransition(state.id, target.id)}
+                          className="h-3 w-3 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+                        />
+                        {target.label}
+                      </label>
+                    ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+        <button
+          type="button"
+          onClick={addLifecycleState}
+          className="rounded-full border border-blue-500/70 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-blue-200 transition hover:bg-blue-500/10"
+        >
+          Add state
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="flex flex-row items-center gap-3 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+          <input
+            type="checkbox"
+            checked={draft.archived}
+            onChange={(event) => setDraft({ ...draft, archived: event.target.checked })}
+            className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+          />
+          Archived
+        </label>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="rounded-full border border-blue-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-blue-200 transition hover:bg-blue-500/10 disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Save program"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const toDateTimeInput = (value?: string) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+const fromDateTimeInput = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+type WindowExtensionsPanelProps = {
+  program: OnboardingProgram;
+};
+
+function WindowExtensionsPanel({ program }: WindowExtensionsPanelProps) {
+  const [extensions, setExtensions] = useState<OnboardingWindowExtension[]>([]);
+  const [applicant, setApplicant] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const baseUrl = `/api/protected/onboarding/programs/${encodeURIComponent(program.id)}/extensions`;
+
+  useEffect(() => {
+    let active = true;
+    fetch(baseUrl, { cache: "no-store" })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; extensions?: OnboardingWindowExtension[]; error?: string };
+        if (!res.ok || !payload.ok) {
+          throw new Error(payload.error ?? "Unable to load extensions");
+        }
+        if (active) setExtensions(payload.extensions ?? []);
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : "Unable to load extensions");
+      });
+    return () => {
+      active = false;
+    };
+  }, [baseUrl]);
+
+  const extensionLink = (extension: OnboardingWindowExtension) =>
+    `${typeof window !== "undefined" ? window.location.origin : ""}/onboarding/${program.slug}?extension=${encodeURIComponent(extension.token)}`;
+
+  const handleIssue = () => {
+    setSaving(true);
+    fetch(baseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ applicant, expiresAt: fromDateTimeInput(expiresAt), note }),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; extension?: OnboardingWindowExtension; error?: string };
+        if (!res.ok || !payload.ok || !payload.extension) {
+          throw new Error(payload.error ?? "Unable to issue extension");
+        }
+        const issued = payload.extension;
+        setExtensions((prev) => [issued, ...prev]);
+        setApplicant("");
+        setExpiresAt("");
+        setNote("");
+        setError(null);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to issue extension");
+      })
+      .finally(() => setSaving(false));
+  };
+
+  const handleRevoke = (extensionId: string) => {
+    fetch(`${baseUrl}/${encodeURIComponent(extensionId)}`, { method: "DELETE" })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; error?: string };
+        if (!res.ok || !payload.ok) {
+          throw new Error(payload.error ?? "Unable to revoke extension");
+        }
+        setExtensions((prev) => prev.filter((extension) => extension.id !== extensionId));
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to revoke extension");
+      });
+  };
+
+  const inputClass =
+    "rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none";
+  const labelClass = "flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70";
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-slate-100">Late-submission extensions</h3>
+        <p className="text-xs text-slate-500">
+          Each link lets one applicant submit once after the window closes or fills, until it expires. The
+          applicant must submit with the email the link was issued to.
+        </p>
+      </div>
+      {error && <p className="text-sm text-red-300">{error}</p>}
+      <div className="grid gap-3 md:grid-cols-[2fr_1fr_2fr_auto] md:items-end">
+        <label className={labelClass}>
+          Applicant email
+          <input
+            type="email"
+            value={applicant}
+            placeholder="founder@company.com"
+            onChange={(event) => setApplicant(event.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Valid until
+          <input
+            type="datetime-local"
+            value={expiresAt}
+            onChange={(event) => setExpiresAt(event.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className={labelClass}>
+          Note
+          <input
+            type="text"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={handleIssue}
+          disabled={saving || !applicant.trim() || !expiresAt}
+          className="rounded-full border border-amber-400/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-amber-100 transition hover:bg-amber-500/10 disabled:opacity-50"
+        >
+          Issue link
+        </button>
+      </div>
+      {extensions.length > 0 && (
+        <ul className="space-y-2">
+          {extensions.map((extension) => {
+            const expired = new Date(extension.expiresAt).getTime() < Date.now();
+            return (
+              <li
+                key={extension.id}
+                className="flex flex-col gap-2 rounded-md border border-slate-800 bg-slate-950/70 p-3 text-xs text-slate-300 md:flex-row md:items-center md:justify-between"
+              >
+                <div className="space-y-1">
+                  <span className="font-semibold text-slate-100">{extension.applicant}</span>
+                  {extension.note && <span className="ml-2 text-slate-500">{extension.note}</span>}
+                  <p className="text-[11px] text-slate-500">
+                    {extension.usedAt
+                      ? `Used ${new Date(extension.usedAt).toLocaleString()}`
+                      : `${expired ? "Expired" : "Valid until"} ${new Date(extension.expiresAt).toLocaleString()}`}
+                  </p>
+                </div>
+                {!extension.usedAt && (
+                  <div className="flex items-center gap-3">
+                    {!expired && (
+                      <button
+                        type="button"
+                        onClick={() => navigator.clipboard?.writeText(extensionLink(extension))}
+                        className="text-blue-300 hover:text-blue-200"
+                      >
+                        Copy link
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(extension.id)}
+                      className="text-red-300 hover:text-red-200"
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
 
-const createOption = (): OnboardingFieldOption => ({
-  id: crypto.randomUUID(),
-  label: "New option",
-  value: "new-option",
-});
+type ChecklistTemplatesPanelProps = {
+  programs: OnboardingProgram[];
+};
 
-const createField = (type: OnboardingFieldType = "text"): OnboardingField => ({
-  id: crypto.randomUUID(),
-  label: "New field",
-  type,
-  required: false,
+type ChecklistTemplateDraft = {
+  id?: string;
+  name: string;
+  description: string;
+  programIds: string[];
+  stages: string;
+  cohorts: string;
+  isDefault: boolean;
+  items: OnboardingChecklistTemplateItem[];
+};
+
+const emptyTemplateDraft = (): ChecklistTemplateDraft => ({
+  name: "",
   description: "",
-  placeholder: "",
-  options: type === "select" ? [createOption()] : undefined,
-  multiple: type === "file" ? false : undefined,
+  programIds: [],
+  stages: "",
+  cohorts: "",
+  isDefault: false,
+  items: [{ id: crypto.randomUUID(), title: "", dueOffsetDays: 7 }],
 });
 
-const createSection = (): OnboardingSection => ({
-  id: crypto.randomUUID(),
-  title: "New section",
-  description: "",
-  fields: [createField()],
+const templateToDraft = (template: OnboardingChecklistTemplate): ChecklistTemplateDraft => ({
+  id: template.id,
+  name: template.name,
+  description: template.description ?? "",
+  programIds: template.programIds,
+  stages: template.stages.join(", "),
+  cohorts: template.cohorts.join(", "),
+  isDefault: template.isDefault,
+  items: template.items,
 });
 
-const defaultOperatorForType = (
-  type: OnboardingFieldType | undefined,
-): OnboardingScoringRule["operator"] => {
-  if (type === "text" || type === "textarea") {
-    return "contains";
-  }
-  if (type === "date") {
-    return "equals";
-  }
-  if (type === "select") {
-    return "equals";
-  }
-  return "equals";
-};
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
 
-const operatorOptionsForType = (
-  type: OnboardingFieldType | undefined,
-): OnboardingScoringRule["operator"][] => {
-  switch (type) {
-    case "select":
-      return ["equals"];
-    case "date":
-      return ["equals", "gte", "lte"];
-    case "textarea":
-    case "text":
-      return ["contains", "equals", "gte", "lte"];
-    default:
-      return ["equals", "gte", "lte", "contains"];
-  }
-};
+function ChecklistTemplatesPanel({ programs }: ChecklistTemplatesPanelProps) {
+  const [templates, setTemplates] = useState<OnboardingChecklistTemplate[]>([]);
+  const [draft, setDraft] = useState<ChecklistTemplateDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const baseUrl = "/api/protected/onboarding/checklist-templates";
 
-type Mode = "configure" | "apply";
+  useEffect(() => {
+    let active = true;
+    fetch(baseUrl, { cache: "no-store" })
+      .then(async (res) => {
+        const payload = (await res.json()) as {
+          ok: boolean;
+          templates?: OnboardingChecklistTemplate[];
+          error?: string;
+        };
+        if (!res.ok || !payload.ok) {
+          throw new Error(payload.error ?? "Unable to load checklist templates");
+        }
+        if (active) setTemplates(payload.templates ?? []);
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : "Unable to load checklist templates");
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
 
-type UploadState = {
-  uploading: boolean;
-  error: string | null;
-};
+  const programName = (programId: string) =>
+    programs.find((program) => program.id === programId)?.name ?? programId;
 
-type FieldState = {
-  value: string | string[] | null;
-  attachments: OnboardingAttachment[];
-};
+  const scopeSummary = (template: OnboardingChecklistTemplate) => {
+    const scopes = [
+      template.programIds.length ? template.programIds.map(programName).join(", ") : null,
+      template.stages.length ? `stage ${template.stages.join(", ")}` : null,
+      template.cohorts.length ? `cohort ${template.cohorts.join(", ")}` : null,
+    ].filter(Boolean);
+    if (scopes.length) return scopes.join(" · ");
+    return template.isDefault ? "Default for every startup" : "Not applied automatically";
+  };
+
+  const updateItem = (itemId: string, patch: Partial<OnboardingChecklistTemplateItem>) => {
+    setDraft((prev) =>
+      prev ? { ...prev, items: prev.items.map((item) => (item.id === itemId ? { ...item, ...patch } : item)) } : prev,
+    );
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    setSaving(true);
+    setNotice(null);
+    fetch(draft.id ? `${baseUrl}/${encodeURIComponent(draft.id)}` : baseUrl, {
+      method: draft.id ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: draft.name,
+        description: draft.description,
+        programIds: draft.programIds,
+        stages: splitList(draft.stages),
+        cohorts: splitList(draft.cohorts),
+        isDefault: draft.isDefault,
+        items: draft.items,
+      }),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; template?: OnboardingChecklistTemplate; error?: string };
+        if (!res.ok || !payload.ok || !payload.template) {
+          throw new Error(payload.error ?? "Unable to save checklist template");
+        }
+        const saved = payload.template;
+        setTemplates((prev) => [
+          ...prev
+            .filter((template) => template.id !== saved.id)
+            .map((template) => (saved.isDefault ? { ...template, isDefault: false } : template)),
+          saved,
+        ]);
+        setDraft(null);
+        setError(null);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to save checklist template");
+      })
+      .finally(() => setSaving(false));
+  };
+
+  const handleSync = (template: OnboardingChecklistTemplate) => {
+    setSaving(true);
+    setNotice(null);
+    fetch(`${baseUrl}/${encodeURIComponent(template.id)}/sync`, { method: "POST" })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; updated?: number; error?: string };
+        if (!res.ok || !payload.ok) {
+          throw new Error(payload.error ?? "Unable to update checklists from template");
+        }
+        setNotice(`${template.name}: updated ${payload.updated ?? 0} checklist${payload.updated === 1 ? "" : "s"}`);
+        setError(null);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to update checklists from template");
+      })
+      .finally(() => setSaving(false));
+  };
+
+  const handleDelete = (template: OnboardingChecklistTemplate) => {
+    if (!window.confirm(`Delete ${template.name}? Existing checklists keep their items.`)) return;
+    fetch(`${baseUrl}/${encodeURIComponent(template.id)}`, { method: "DELETE" })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; error?: string };
+        if (!res.ok || !payload.ok) {
+          throw new Error(payload.error ?? "Unable to delete checklist template");
+        }
+        setTemplates((prev) => prev.filter((entry) => entry.id !== template.id));
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to delete checklist template");
+      });
+  };
+
+  const inputClass =
+    "rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none";
+  const labelClass = "flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70";
+
+  return (
+    <div className="space-y-5 rounded-xl border border-slate-800/80 bg-slate-950/60 p-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">Checklist templates</h2>
+          <p className="text-sm text-slate-400">
+            New startups get the template matching their program, stage or cohort. Due dates count from the admit date.
+          </p>
+        </div>
+        {!draft && (
+          <button
+            type="button"
+            onClick={() => setDraft(emptyTemplateDraft())}
+            className="rounded-full border border-emerald-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-emerald-200 transition hover:bg-emerald-500/10"
+          >
+            New template
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+      {notice && <p className="text-sm text-emerald-300">{notice}</p>}
+
+      {templates.length === 0 && !draft && (
+        <p className="text-xs text-slate-500">No templates yet; startups get the standard onboarding checklist.</p>
+      )}
+      <ul className="space-y-2">
+        {templates.map((template) => (
+          <li
+            key={template.id}
+            className="flex flex-col gap-2 rounded-md border border-slate-800 bg-slate-950/70 p-3 text-xs text-slate-300 md:flex-row md:items-center md:justify-between"
+          >
+            <div className="space-y-1">
+              <span className="font-semibold text-slate-100">{template.name}</span>
+              <span className="ml-2 text-slate-500">
+                v{template.version} · {template.items.length} item{template.items.length === 1 ? "" : "s"}
+              </span>
+              <p className="text-[11px] text-slate-500">{scopeSummary(template)}</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setDraft(templateToDraft(template))}
+                className="text-blue-300 hover:text-blue-200"
+              >
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={() => handleSync(template)}
+                disabled={saving}
+                title="Apply this version to every checklist created from the template, keeping item status"
+                className="text-emerald-300 hover:text-emerald-200 disabled:opacity-50"
+              >
+                Push to checklists
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(template)}
+                className="text-red-300 hover:text-red-200"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {draft && (
+        <div className="space-y-4 rounded-lg border border-slate-800 bg-slate-950/40 p-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className={labelClass}>
+              Name
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className={labelClass}>
+              Description
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(event) => setDraft({ ...draft, description: event.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className={labelClass}>
+              Stages
+              <input
+                type="text"
+                value={draft.stages}
+                placeholder="Stage option values, comma-separated"
+                onChange={(event) => setDraft({ ...draft, stages: event.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className={labelClass}>
+              Cohorts
+              <input
+                type="text"
+                value={draft.cohorts}
+                placeholder="e.g. 2026 Spring"
+                onChange={(event) => setDraft({ ...draft, cohorts: event.target.value })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-xs font-semibold uppercase tracking-wide text-blue-200/70">Programs</span>
+            <p className="text-xs text-slate-500">Leave empty to apply to every program.</p>
+            <div className="flex flex-wrap gap-3">
+              {programs.map((program) => (
+                <label key={program.id} className="flex items-center gap-2 text-sm text-slate-200">
+                  <input
+                    type="checkbox"
+                    checked={draft.programIds.includes(program.id)}
+                    onChange={() =>
+                      setDraft({
+                        ...draft,
+                        programIds: draft.programIds.includes(program.id)
+                          ? draft.programIds.filter((id) => id !== program.id)
+                          : [...draft.programIds, program.id],
+                      })
+                    }
+                    className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+                  />
+                  {program.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-xs font-semibold uppercase tracking-wide text-blue-200/70">Items</span>
+            <ul className="space-y-2">
+              {draft.items.map((item) => (
+                <li key={item.id} className="grid gap-2 md:grid-cols-[2fr_3fr_1fr_auto] md:items-center">
+                  <input
+                    type="text"
+                    value={item.title}
+                    placeholder="Title"
+                    onChange={(event) => updateItem(item.id, { title: event.target.value })}
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={item.description ?? ""}
+                    placeholder="Description"
+                    onChange={(event) => updateItem(item.id, { description: event.target.value })}
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={item.dueOffsetDays ?? ""}
+                    placeholder="Due after days"
+                    title="Days after the admit date"
+                    onChange={(event) =>
+                      updateItem(item.id, {
+                        dueOffsetDays: event.target.value === "" ? undefined : Math.max(0, Number(event.target.value)),
+                      })
+                    }
+                    className={inputClass}
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setDraft({ ...draft, items: draft.items.filter((entry) => entry.id !== item.id) })
+                    }
+                    className="text-xs text-red-300 hover:text-red-200"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              onClick={() =>
+                setDraft({ ...draft, items: [...draft.items, { id: crypto.randomUUID(), title: "", dueOffsetDays: 7 }] })
+              }
+              className="rounded-full border border-blue-500/70 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-blue-200 transition hover:bg-blue-500/10"
+            >
+              Add item
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex flex-row items-center gap-3 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+              <input
+                type="checkbox"
+                checked={draft.isDefault}
+                onChange={(event) => setDraft({ ...draft, isDefault: event.target.checked })}
+                className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+              />
+              Default when no other template matches
+            </label>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="text-xs font-semibold uppercase tracking-wide text-slate-400 hover:text-slate-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving || !draft.name.trim()}
+                className="rounded-full border border-blue-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-blue-200 transition hover:bg-blue-500/10 disabled:opacity-50"
+              >
+                {saving ? "Saving…" : "Save template"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
 
 export default function OnboardingPage() {
   const [mode, setMode] = useState<Mode>("apply");
@@ -90,7 +2401,14 @@ export default function OnboardingPage() {
   const [config, setConfig] = useState<OnboardingForm | null>(null);
   const [fieldsState, setFieldsState] = useState<Record<string, FieldState>>({});
   const [uploadState, setUploadState] = useState<Record<string, UploadState>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [programs, setPrograms] = useState<OnboardingProgram[]>([]);
+  const [reviewers, setReviewers] = useState<ReviewerOption[]>([]);
+  const [programId, setProgramId] = useState(DEFAULT_PROGRAM_ID);
+  const [previewLocale, setPreviewLocale] = useState<string | null>(null);
   const router = useRouter();
+  const activeProgram = programs.find((program) => program.id === programId);
+  const programQuery = `program=${encodeURIComponent(programId)}`;
 
   const applyScoringUpdate = (
     updater: (current: NonNullable<OnboardingForm["scoring"]>) => NonNullable<OnboardingForm["scoring"]>,
@@ -105,7 +2423,7 @@ export default function OnboardingPage() {
         totalPoints: currentScoring.totalPoints,
       };
       const next = updater(hydrated);
-      const total = next.rules.reduce((sum, rule) => sum + (Number(rule.points) || 0), 0);
+      const total = next.rules.reduce((sum, rule) => sum + Math.max(0, Number(rule.points) || 0), 0);
       return {
         ...prev,
         scoring: {
@@ -117,24 +2435,54 @@ export default function OnboardingPage() {
   };
 
   const availableFields = useMemo(
+    () =>
+      config
+        ? config.sections.flatMap((section) =>
+            section.fields.map((field) => ({
+              id: field.id,
+              label: `${section.title} • ${field.label}`,
+              type: field.type,
+              fields: field.fields,
+            })),
+          )
+        : [],
+    [config],
+  );
+
+  const visibilitySources = useMemo<Array<VisibilitySourceField & { sectionId: string }>>(
     () =>
       config
         ? config.sections.flatMap((section) =>
             section.fields
-              .filter((field) => field.type !== "file")
+              .filter((field) => field.type !== "file" && field.type !== "group")
               .map((field) => ({
                 id: field.id,
+                sectionId: section.id,
                 label: `${section.title} • ${field.label}`,
-                type: field.type,
+                options: field.type === "checkbox" ? yesNoOptions : field.options,
               })),
           )
         : [],
     [config],
   );
 
+  const visibility = useMemo(() => {
+    if (!config) {
+      return { hiddenSectionIds: new Set<string>(), hiddenFieldIds: new Set<string>() };
+    }
+    const values: OnboardingResponseValues = {};
+    Object.entries(fieldsState).forEach(([fieldId, state]) => {
+      values[fieldId] = state.value;
+    });
+    return resolveFormVisibility(config, values);
+  }, [config, fieldsState]);
+
+  const isSectionShown = (section: OnboardingSection) => !visibility.hiddenSectionIds.has(section.id);
+  const isFieldShown = (field: OnboardingField) => !visibility.hiddenFieldIds.has(field.id);
+
   const scoringSummary = useMemo(() => {
     const scoring = config?.scoring;
-    const total = scoring?.rules?.reduce((sum, rule) => sum + (Number(rule.points) || 0), 0) ?? 0;
+    const total = scoring?.rules?.reduce((sum, rule) => sum + Math.max(0, Number(rule.points) || 0), 0) ?? 0;
     return {
       total,
       autoRejectBelow: scoring?.autoRejectBelow,
@@ -142,40 +2490,94 @@ export default function OnboardingPage() {
     };
   }, [config]);
 
-  const handleAddScoreRule = () => {
-    if (!config) return;
+  const handleAddScoreRule = () => {
+    if (!config) return;
+    const firstField = availableFields[0];
+    applyScoringUpdate((current) => ({
+      ...current,
+      rules: [
+        ...current.rules,
+        {
+          id: crypto.randomUUID(),
+          fieldId: firstField?.id ?? "",
+          operator: defaultOperatorForType(firstField?.type),
+          target: "",
+          points: 10,
+          label: "New scoring rule",
+          description: "",
+        },
+      ],
+    }));
+  };
+
+  const handleUpdateScoreRule = (ruleId: string, updates: Partial<OnboardingScoringRule>) => {
+    applyScoringUpdate((current) => ({
+      ...current,
+      rules: current.rules.map((rule) =>
+        rule.id === ruleId
+          ? {
+              ...rule,
+              ...updates,
+            }
+          : rule,
+      ),
+    }));
+  };
+
+  const handleAddScoreCondition = (ruleId: string) => {
     const firstField = availableFields[0];
     applyScoringUpdate((current) => ({
       ...current,
-      rules: [
-        ...current.rules,
-        {
-          id: crypto.randomUUID(),
-          fieldId: firstField?.id ?? "",
-          operator: defaultOperatorForType(firstField?.type),
-          target: "",
-          points: 10,
-          label: "New scoring rule",
-          description: "",
-        },
-      ],
+      rules: current.rules.map((rule) =>
+        rule.id === ruleId
+          ? {
+              ...rule,
+              conditions: [
+                ...(rule.conditions ?? []),
+                {
+                  id: crypto.randomUUID(),
+                  fieldId: firstField?.id ?? "",
+                  operator: defaultOperatorForType(firstField?.type),
+                  target: "",
+                },
+              ],
+            }
+          : rule,
+      ),
     }));
   };
 
-  const handleUpdateScoreRule = (ruleId: string, updates: Partial<OnboardingScoringRule>) => {
+  const handleUpdateScoreCondition = (
+    ruleId: string,
+    conditionId: string,
+    updates: Partial<OnboardingScoringCondition>,
+  ) => {
     applyScoringUpdate((current) => ({
       ...current,
       rules: current.rules.map((rule) =>
         rule.id === ruleId
           ? {
               ...rule,
-              ...updates,
+              conditions: rule.conditions?.map((condition) =>
+                condition.id === conditionId ? { ...condition, ...updates } : condition,
+              ),
             }
           : rule,
       ),
     }));
   };
 
+  const handleRemoveScoreCondition = (ruleId: string, conditionId: string) => {
+    applyScoringUpdate((current) => ({
+      ...current,
+      rules: current.rules.map((rule) =>
+        rule.id === ruleId
+          ? { ...rule, conditions: rule.conditions?.filter((condition) => condition.id !== conditionId) }
+          : rule,
+      ),
+    }));
+  };
+
   const handleRemoveScoreRule = (ruleId: string) => {
     applyScoringUpdate((current) => ({
       ...current,
@@ -196,12 +2598,42 @@ export default function OnboardingPage() {
   useEffect(() => {
     let active = true;
 
-    fetch("/api/protected/onboarding/config")
+    fetch("/api/protected/onboarding/programs")
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error("Failed to fetch onboarding programs");
+        }
+        return (await res.json()) as {
+          ok: boolean;
+          programs: OnboardingProgram[];
+          reviewers: ReviewerOption[];
+        };
+      })
+      .then((payload) => {
+        if (!active || !payload.ok) return;
+        setPrograms(payload.programs);
+        setReviewers(payload.reviewers);
+      })
+      .catch((err) => {
+        if (!active) return;
+        setError(err instanceof Error ? err.message : "Unable to load programs");
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+
+    fetch(`/api/protected/onboarding/config?${programQuery}`)
       .then(async (res) => {
         if (!res.ok) {
           throw new Error("Failed to fetch onboarding config");
         }
-        return (await res.json()) as { ok: boolean; form: OnboardingForm };
+        return (await res.json()) as { ok: boolean; form: OnboardingForm; locale?: string };
       })
       .then((payload) => {
         if (!active) return;
@@ -209,6 +2641,7 @@ export default function OnboardingPage() {
           throw new Error("Config unavailable");
         }
         setConfig(payload.form);
+        setPreviewLocale(payload.locale ?? null);
         initializeFieldState(payload.form);
       })
       .catch((err) => {
@@ -222,16 +2655,19 @@ export default function OnboardingPage() {
     return () => {
       active = false;
     };
-  }, []);
+  }, [programQuery]);
 
   const initializeFieldState = (form: OnboardingForm) => {
     const state: Record<string, FieldState> = {};
     form.sections.forEach((section) => {
       section.fields.forEach((field) => {
-        state[field.id] = {
-          value: field.type === "file" ? null : "",
-          attachments: [],
-        };
+        state[field.id] = emptyFieldState(field);
+        if (field.type === "group") {
+          const count = Math.max(field.minEntries ?? 0, field.required ? 1 : 0);
+          const entryIds = Array.from({ length: count }, () => crypto.randomUUID());
+          state[field.id].entryIds = entryIds;
+          entryIds.forEach((entryId) => Object.assign(state, groupEntryState(field, entryId)));
+        }
       });
     });
     setFieldsState(state);
@@ -293,7 +2729,7 @@ export default function OnboardingPage() {
                   ...field,
                   ...updates,
                   options:
-                    updates.type === "select" || field.type === "select"
+                    fieldTypeHasOptions(updates.type ?? field.type)
                       ? (updates.options ?? field.options ?? []).map((option) => ({
                           ...option,
                           label: option.label,
@@ -392,7 +2828,7 @@ export default function OnboardingPage() {
   const saveConfig = () => {
     if (!config) return;
     setSavingConfig(true);
-    fetch("/api/protected/onboarding/config", {
+    fetch(`/api/protected/onboarding/config?${programQuery}`, {
       method: "PUT",
       headers: {
         "Content-Type": "application/json",
@@ -400,10 +2836,11 @@ export default function OnboardingPage() {
       body: JSON.stringify({ form: config }),
     })
       .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; form: OnboardingForm; error?: string };
         if (!res.ok) {
-          throw new Error("Failed to save configuration");
+          throw new Error(payload.error ?? "Failed to save configuration");
         }
-        return (await res.json()) as { ok: boolean; form: OnboardingForm };
+        return payload;
       })
       .then((payload) => {
         if (!payload.ok) throw new Error("Save rejected");
@@ -433,6 +2870,32 @@ export default function OnboardingPage() {
     }));
   };
 
+  const handleAddGroupEntry = (field: OnboardingField) => {
+    const entryId = crypto.randomUUID();
+    setFieldsState((prev) => ({
+      ...prev,
+      ...groupEntryState(field, entryId),
+      [field.id]: {
+        ...(prev[field.id] ?? emptyFieldState(field)),
+        entryIds: [...(prev[field.id]?.entryIds ?? []), entryId],
+      },
+    }));
+  };
+
+  const handleRemoveGroupEntry = (field: OnboardingField, entryId: string) => {
+    setFieldsState((prev) => {
+      const next = { ...prev };
+      (field.fields ?? []).forEach((subField) => {
+        delete next[groupEntryErrorKey(field.id, entryId, subField.id)];
+      });
+      next[field.id] = {
+        ...(prev[field.id] ?? emptyFieldState(field)),
+        entryIds: (prev[field.id]?.entryIds ?? []).filter((id) => id !== entryId),
+      };
+      return next;
+    });
+  };
+
   const handleFileSelection = async (field: OnboardingField, files: FileList | null) => {
     if (!files || files.length === 0) return;
 
@@ -508,15 +2971,37 @@ export default function OnboardingPage() {
 
   const submitApplication = () => {
     if (!config) return;
-    setSubmitting(true);
 
-    const responses: OnboardingFieldResponse[] = config.sections.flatMap((section) =>
-      section.fields.map((field) => ({
-        fieldId: field.id,
-        value: fieldsState[field.id]?.value ?? null,
-        attachments: fieldsState[field.id]?.attachments ?? [],
-      })),
+    const visibleFields = config.sections.flatMap((section) => section.fields.filter(isFieldShown));
+    const responses: OnboardingFieldResponse[] = visibleFields.map((field) => ({
+      fieldId: field.id,
+      value: fieldsState[field.id]?.value ?? null,
+      attachments: fieldsState[field.id]?.attachments ?? [],
+      entries:
+        field.type === "group"
+          ? (fieldsState[field.id]?.entryIds ?? []).map((entryId) => ({
+              id: entryId,
+              responses: (field.fields ?? []).map((subField) => {
+                const key = groupEntryErrorKey(field.id, entryId, subField.id);
+                return {
+                  fieldId: subField.id,
+                  value: fieldsState[key]?.value ?? null,
+                  attachments: fieldsState[key]?.attachments ?? [],
+                };
+              }),
+            }))
+          : undefined,
+    }));
+    const issues = validateSubmissionResponses(
+      previewLocale ? localizeForm(config, previewLocale) : config,
+      responses,
     );
+    setFieldErrors(toFieldErrorMap(issues));
+    if (issues.length > 0) {
+      return;
+    }
+
+    setSubmitting(true);
 
     fetch("/api/protected/onboarding/submit", {
       method: "POST",
@@ -524,16 +3009,24 @@ export default function OnboardingPage() {
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
+        program: programId,
         formId: config.id,
+        formVersion: config.version,
         responses,
+        locale: previewLocale ?? undefined,
       }),
     })
-      .then(async (res) => {
-        if (!res.ok) throw new Error("Unable to submit application");
-        return (await res.json()) as { ok: boolean };
-      })
+      .then(
+        async (res) =>
+          (await res.json()) as {
+            ok: boolean;
+            error?: string;
+            fieldErrors?: OnboardingFieldError[];
+          },
+      )
       .then((payload) => {
-        if (!payload.ok) throw new Error("Submission rejected");
+        if (payload.fieldErrors?.length) setFieldErrors(toFieldErrorMap(payload.fieldErrors));
+        if (!payload.ok) throw new Error(payload.error ?? "Unable to submit application");
         router.push("/protected");
       })
       .catch((err) => {
@@ -542,10 +3035,58 @@ export default function OnboardingPage() {
       .finally(() => setSubmitting(false));
   };
 
-  const renderFieldControl = (field: OnboardingField, sectionId: string) => {
+  const renderFieldControl = (field: OnboardingField, sectionId: string): ReactNode => {
     const state = fieldsState[field.id] ?? { value: "", attachments: [] };
 
     switch (field.type) {
+      case "group": {
+        const entryIds = state.entryIds ?? [];
+        const entryLabel = field.entryLabel ?? "Entry";
+        return (
+          <div className="space-y-4">
+            {entryIds.map((entryId, index) => (
+              <div key={entryId} className="space-y-4 rounded-lg border border-slate-800 bg-slate-950/40 p-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                    {entryLabel} {index + 1}
+                  </span>
+                  {entryIds.length > (field.minEntries ?? 0) && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveGroupEntry(field, entryId)}
+                      className="text-xs text-red-300 hover:text-red-200"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                {(field.fields ?? []).map((subField) => {
+                  const key = groupEntryErrorKey(field.id, entryId, subField.id);
+                  return (
+                    <div key={subField.id} className="space-y-2">
+                      <label className="text-sm font-medium text-slate-200">
+                        {subField.label}
+                        {subField.required && <span className="ml-2 text-xs text-red-300">*</span>}
+                      </label>
+                      {renderFieldControl({ ...subField, id: key }, sectionId)}
+                      {fieldErrors[key] && <p className="text-xs text-red-300">{fieldErrors[key]}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+            {(field.maxEntries === undefined || entryIds.length < field.maxEntries) && (
+              <button
+                type="button"
+                onClick={() => handleAddGroupEntry(field)}
+                className="rounded-full border border-blue-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-blue-200 transition hover:bg-blue-500/10"
+              >
+                Add {entryLabel.toLowerCase()}
+              </button>
+            )}
+          </div>
+        );
+      }
       case "textarea":
         return (
           <textarea
@@ -580,6 +3121,105 @@ export default function OnboardingPage() {
             ))}
           </select>
         );
+      case "multiselect": {
+        const selected = Array.isArray(state.value) ? state.value : [];
+        return (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {(field.options ?? []).map((option) => (
+              <label
+                key={option.id}
+                className="flex items-center gap-3 rounded-lg border border-slate-700 bg-slate-900/60 px-4 py-3 text-sm text-slate-100"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option.value)}
+                  onChange={(event) =>
+                    handleFieldValueChange(
+                      field.id,
+                      event.target.checked
+                        ? [...selected, option.value]
+                        : selected.filter((value) => value !== option.value),
+                    )
+                  }
+                  className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case "checkbox":
+        return (
+          <div className="flex gap-2">
+            {(["yes", "no"] as const).map((answer) => (
+              <button
+                key={answer}
+                type="button"
+                onClick={() => handleFieldValueChange(field.id, answer)}
+                className={`rounded-lg border px-5 py-2 text-sm font-medium capitalize transition ${
+                  state.value === answer
+                    ? "border-blue-500 bg-blue-500/20 text-blue-100"
+                    : "border-slate-700 bg-slate-900/60 text-slate-300 hover:border-slate-500"
+                }`}
+              >
+                {answer}
+              </button>
+            ))}
+          </div>
+        );
+      case "rating":
+        return (
+          <div className="flex gap-2">
+            {Array.from({ length: RATING_MAX - RATING_MIN + 1 }, (_, index) => String(RATING_MIN + index)).map(
+              (rating) => (
+                <button
+                  key={rating}
+                  type="button"
+                  onClick={() => handleFieldValueChange(field.id, rating)}
+                  className={`h-10 w-10 rounded-lg border text-sm font-semibold transition ${
+                    state.value === rating
+                      ? "border-amber-400 bg-amber-400/20 text-amber-100"
+                      : "border-slate-700 bg-slate-900/60 text-slate-300 hover:border-slate-500"
+                  }`}
+                >
+                  {rating}
+                </button>
+              ),
+            )}
+          </div>
+        );
+      case "number":
+      case "currency":
+        return (
+          <div className="flex items-center gap-2">
+            {field.type === "currency" && (
+              <span className="text-sm font-medium text-slate-400">{field.currency ?? "USD"}</span>
+            )}
+            <input
+              type="number"
+              inputMode="decimal"
+              value={(state.value as string) ?? ""}
+              min={field.min}
+              max={field.max}
+              onChange={(event) => handleFieldValueChange(field.id, event.target.value)}
+              className="w-full rounded-lg border border-slate-700 bg-slate-900/60 px-4 py-3 text-sm text-slate-100 placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+              placeholder={field.placeholder ?? ""}
+            />
+          </div>
+        );
+      case "email":
+      case "url":
+      case "phone":
+        return (
+          <input
+            type={field.type === "phone" ? "tel" : field.type}
+            value={(state.value as string) ?? ""}
+            onChange={(event) => handleFieldValueChange(field.id, event.target.value)}
+            className="w-full rounded-lg border border-slate-700 bg-slate-900/60 px-4 py-3 text-sm text-slate-100 placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+            placeholder={field.placeholder ?? ""}
+          />
+        );
       case "file":
         return (
           <div className="space-y-3">
@@ -630,6 +3270,133 @@ export default function OnboardingPage() {
     }
   };
 
+  const renderGroupSettings = (field: OnboardingField, sectionId: string) => {
+    const subFields = field.fields ?? [];
+    const updateSubField = (subFieldId: string, updates: Partial<OnboardingField>) =>
+      handleUpdateField(sectionId, field.id, {
+        fields: subFields.map((subField) => (subField.id === subFieldId ? { ...subField, ...updates } : subField)),
+      });
+    const parseBound = (value: string) => (value === "" ? undefined : Math.max(0, Math.floor(Number(value) || 0)));
+    const inputClass =
+      "rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none";
+
+    return (
+      <div className="space-y-3 rounded-md border border-slate-800 bg-slate-950/40 p-3">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <label className="flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+            Entry label
+            <input
+              type="text"
+              value={field.entryLabel ?? ""}
+              placeholder="Founder"
+              onChange={(event) => handleUpdateField(sectionId, field.id, { entryLabel: event.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+            Minimum entries
+            <input
+              type="number"
+              min={0}
+              value={field.minEntries ?? ""}
+              onChange={(event) =>
+                handleUpdateField(sectionId, field.id, { minEntries: parseBound(event.target.value) })
+              }
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+            Maximum entries
+            <input
+              type="number"
+              min={1}
+              value={field.maxEntries ?? ""}
+              onChange={(event) =>
+                handleUpdateField(sectionId, field.id, { maxEntries: parseBound(event.target.value) })
+              }
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-semibold uppercase tracking-wide text-blue-200/70">Entry fields</span>
+          <button
+            type="button"
+            onClick={() => handleUpdateField(sectionId, field.id, { fields: [...subFields, createField()] })}
+            className="text-xs font-medium text-blue-300 hover:text-blue-200"
+          >
+            Add entry field
+          </button>
+        </div>
+        {subFields.map((subField) => (
+          <div key={subField.id} className="grid gap-2 sm:grid-cols-[2fr_1fr_auto_auto] sm:items-center">
+            <input
+              type="text"
+              value={subField.label}
+              onChange={(event) => updateSubField(subField.id, { label: event.target.value })}
+              className={inputClass}
+            />
+            <select
+              value={subField.type}
+              onChange={(event) => {
+                const type = event.target.value as OnboardingFieldType;
+                updateSubField(subField.id, {
+                  type,
+                  options: fieldTypeHasOptions(type) ? subField.options ?? [] : undefined,
+                });
+              }}
+              className={inputClass}
+            >
+              {GROUP_ENTRY_FIELD_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {FIELD_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-blue-200/70">
+              <input
+                type="checkbox"
+                checked={subField.required}
+                onChange={(event) => updateSubField(subField.id, { required: event.target.checked })}
+                className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+              />
+              Required
+            </label>
+            <button
+              type="button"
+              onClick={() =>
+                handleUpdateField(sectionId, field.id, {
+                  fields: subFields.filter((candidate) => candidate.id !== subField.id),
+                })
+              }
+              className="text-xs text-red-300 hover:text-red-200"
+            >
+              Remove
+            </button>
+            {fieldTypeHasOptions(subField.type) && (
+              <input
+                type="text"
+                value={(subField.options ?? []).map((option) => option.label).join(", ")}
+                placeholder="Options, comma separated"
+                onChange={(event) =>
+                  updateSubField(subField.id, {
+                    options: event.target.value.split(",").map((label, index) => ({
+                      id: subField.options?.[index]?.id ?? crypto.randomUUID(),
+                      label: label.trim(),
+                      value: label.trim().toLowerCase().replace(/\s+/g, "-"),
+                    })),
+                  })
+                }
+                className={`${inputClass} sm:col-span-4`}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const renderConfigureFieldControl = (
     field: OnboardingField,
     sectionId: string,
@@ -654,21 +3421,28 @@ export default function OnboardingPage() {
             onChange={(event) =>
               handleUpdateField(sectionId, field.id, {
                 type: event.target.value as OnboardingFieldType,
-                options:
-                  event.target.value === "select"
-                    ? field.options?.length
-                      ? field.options
-                      : [createOption()]
+                options: fieldTypeHasOptions(event.target.value as OnboardingFieldType)
+                  ? field.options?.length
+                    ? field.options
+                    : [createOption()]
+                  : undefined,
+                currency:
+                  event.target.value === "currency" ? field.currency ?? "USD" : undefined,
+                fields:
+                  event.target.value === "group"
+                    ? field.fields?.length
+                      ? field.fields
+                      : [createField()]
                     : undefined,
               })
             }
             className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
           >
-            <option value="text">Short text</option>
-            <option value="textarea">Long answer</option>
-            <option value="date">Date</option>
-            <option value="select">Dropdown</option>
-            <option value="file">File upload</option>
+            {FIELD_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {FIELD_TYPE_LABELS[type]}
+              </option>
+            ))}
           </select>
         </label>
       </div>
@@ -712,7 +3486,56 @@ export default function OnboardingPage() {
         </label>
       )}
 
-      {field.type === "select" && (
+      {(field.type === "number" || field.type === "currency") && (
+        <div className="grid gap-3 sm:grid-cols-3">
+          {field.type === "currency" && (
+            <label className="flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+              Currency
+              <input
+                type="text"
+                value={field.currency ?? ""}
+                maxLength={3}
+                onChange={(event) =>
+                  handleUpdateField(sectionId, field.id, {
+                    currency: event.target.value.toUpperCase(),
+                  })
+                }
+                className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+              />
+            </label>
+          )}
+          <label className="flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+            Minimum
+            <input
+              type="number"
+              value={field.min ?? ""}
+              onChange={(event) =>
+                handleUpdateField(sectionId, field.id, {
+                  min: event.target.value === "" ? undefined : Number(event.target.value),
+                })
+              }
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+            Maximum
+            <input
+              type="number"
+              value={field.max ?? ""}
+              onChange={(event) =>
+                handleUpdateField(sectionId, field.id, {
+                  max: event.target.value === "" ? undefined : Number(event.target.value),
+                })
+              }
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+            />
+          </label>
+        </div>
+      )}
+
+      {field.type === "group" && renderGroupSettings(field, sectionId)}
+
+      {fieldTypeHasOptions(field.type) && (
         <div className="space-y-3">
           <div className="flex items-center justify-between">
             <span className="text-xs font-semibold uppercase tracking-wide text-blue-200/70">
@@ -753,10 +3576,17 @@ export default function OnboardingPage() {
         </div>
       )}
 
+      <VisibilityRuleEditor
+        title="Show this field when"
+        rule={field.visibleWhen}
+        sources={visibilitySources.filter((source) => source.id !== field.id)}
+        onChange={(visibleWhen) => handleUpdateField(sectionId, field.id, { visibleWhen })}
+      />
+
       <button
         type="button"
         onClick={() => handleRemoveField(sectionId, field.id)}
-        className="text-xs text-red-300 hover:text-red-200"
+        className="block text-xs text-red-300 hover:text-red-200"
       >
         Remove field
       </button>
@@ -789,17 +3619,48 @@ export default function OnboardingPage() {
     return null;
   }
 
+  const configLocales = getFormLocales(config);
+  const displayForm = mode === "apply" && previewLocale ? localizeForm(config, previewLocale) : config;
+
   return (
     <section className="space-y-8 p-8">
       <header className="flex flex-col gap-4 rounded-xl border border-slate-800/70 bg-slate-950/60 p-6 shadow-xl shadow-blue-900/20">
         <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
           <div>
             <p className="text-xs font-semibold uppercase tracking-[0.3em] text-blue-400/80">
-              Startup onboarding
+              {activeProgram?.name ?? "Startup onboarding"}
             </p>
-            <h1 className="text-3xl font-bold text-slate-100">{config.title}</h1>
+            <h1 className="text-3xl font-bold text-slate-100">{displayForm.title}</h1>
           </div>
           <div className="flex items-center gap-3">
+            {programs.length > 1 && (
+              <select
+                value={programId}
+                onChange={(event) => setProgramId(event.target.value)}
+                className="rounded-full border border-slate-700 bg-slate-950 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 focus:border-blue-500 focus:outline-none"
+              >
+                {programs.map((program) => (
+                  <option key={program.id} value={program.id}>
+                    {program.name}
+                    {program.archived ? " (archived)" : ""}
+                  </option>
+                ))}
+              </select>
+            )}
+            {mode === "apply" && configLocales.length > 1 && (
+              <select
+                value={previewLocale ?? configLocales[0]}
+                onChange={(event) => setPreviewLocale(event.target.value)}
+                aria-label="Language"
+                className="rounded-full border border-slate-700 bg-slate-950 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 focus:border-blue-500 focus:outline-none"
+              >
+                {configLocales.map((locale) => (
+                  <option key={locale} value={locale}>
+                    {localeLabel(locale)}
+                  </option>
+                ))}
+              </select>
+            )}
             <button
               onClick={() => setMode(mode === "configure" ? "apply" : "configure")}
               className="rounded-full border border-blue-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-blue-200 transition hover:bg-blue-500/10"
@@ -814,7 +3675,7 @@ export default function OnboardingPage() {
             </Link>
           </div>
         </div>
-        <p className="max-w-3xl text-sm text-slate-300/90">{config.summary}</p>
+        <p className="max-w-3xl text-sm text-slate-300/90">{displayForm.summary}</p>
         <div className="flex flex-wrap items-center gap-4 text-xs text-slate-500">
           <span className="rounded-full border border-slate-800 px-3 py-1">
             Last updated {new Date(config.updatedAt).toLocaleString()}
@@ -827,6 +3688,71 @@ export default function OnboardingPage() {
 
       {mode === "configure" ? (
         <div className="space-y-8">
+          {activeProgram && reviewers.length > 0 && (
+            <ProgramSettingsPanel
+              program={activeProgram}
+              reviewers={reviewers}
+              onSaved={(program) =>
+                setPrograms((prev) => prev.map((entry) => (entry.id === program.id ? program : entry)))
+              }
+              onCreated={(program) => {
+                setPrograms((prev) => [...prev, program]);
+                setProgramId(program.id);
+              }}
+            />
+          )}
+          {reviewers.length > 0 && <ChecklistTemplatesPanel programs={programs} />}
+          <div className="space-y-5 rounded-xl border border-slate-800/80 bg-slate-950/60 p-6">
+            <div>
+              <h2 className="text-xl font-semibold text-slate-100">Application window</h2>
+              <p className="text-sm text-slate-400">
+                Dates set here override the program dates. Leave the limit empty to accept unlimited applications.
+              </p>
+            </div>
+            <div className="grid gap-3 md:grid-cols-3">
+              <label className="flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+                Opens
+                <input
+                  type="datetime-local"
+                  value={toDateTimeInput(config.opensAt)}
+                  onChange={(event) =>
+                    setConfig({ ...config, opensAt: fromDateTimeInput(event.target.value) })
+                  }
+                  className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+                Closes
+                <input
+                  type="datetime-local"
+                  value={toDateTimeInput(config.closesAt)}
+                  onChange={(event) =>
+                    setConfig({ ...config, closesAt: fromDateTimeInput(event.target.value) })
+                  }
+                  className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-xs font-medium uppercase tracking-wide text-blue-200/70">
+                Maximum applications
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={config.maxSubmissions ?? ""}
+                  onChange={(event) =>
+                    setConfig({
+                      ...config,
+                      maxSubmissions:
+                        event.target.value === "" ? undefined : Math.max(1, Math.floor(Number(event.target.value) || 1)),
+                    })
+                  }
+                  className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+                />
+              </label>
+            </div>
+            {activeProgram && <WindowExtensionsPanel program={activeProgram} />}
+          </div>
+          <TranslationsPanel form={config} onChange={setConfig} />
           {config.sections.map((section) => (
             <div
               key={section.id}
@@ -851,6 +3777,12 @@ export default function OnboardingPage() {
                     placeholder="Explain what this section covers"
                     rows={3}
                   />
+                  <VisibilityRuleEditor
+                    title="Show this section when"
+                    rule={section.visibleWhen}
+                    sources={visibilitySources.filter((source) => source.sectionId !== section.id)}
+                    onChange={(visibleWhen) => handleUpdateSection(section.id, { visibleWhen })}
+                  />
                 </div>
                 <button
                   type="button"
@@ -868,18 +3800,16 @@ export default function OnboardingPage() {
               </div>
 
               <div className="flex flex-wrap gap-3">
-                {(["text", "textarea", "date", "select", "file"] as OnboardingFieldType[]).map(
-                  (type) => (
-                    <button
-                      key={type}
-                      type="button"
-                      onClick={() => handleAddField(section.id, type)}
-                      className="rounded-full border border-slate-700 px-3 py-2 text-xs font-medium uppercase tracking-wide text-slate-300 transition hover:border-blue-500 hover:text-blue-200"
-                    >
-                      Add {type}
-                    </button>
-                  ),
-                )}
+                {FIELD_TYPES.map((type) => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => handleAddField(section.id, type)}
+                    className="rounded-full border border-slate-700 px-3 py-2 text-xs font-medium uppercase tracking-wide text-slate-300 transition hover:border-blue-500 hover:text-blue-200"
+                  >
+                    Add {FIELD_TYPE_LABELS[type]}
+                  </button>
+                ))}
               </div>
             </div>
           ))}
@@ -911,25 +3841,14 @@ export default function OnboardingPage() {
             {(config.scoring?.rules ?? []).length > 0 ? (
               <div className="space-y-4">
                 {(config.scoring?.rules ?? []).map((rule) => {
-                  const fieldMeta = availableFields.find((item) => item.id === rule.fieldId);
-                  const baseOperators = operatorOptionsForType(fieldMeta?.type);
-                  const operatorOptions = Array.from(
-                    new Set([
-                      ...baseOperators,
-                      rule.operator ?? "",
-                    ].filter((option) => option && option.length > 0)),
-                  );
-                  const operatorValue =
-                    (rule.operator && operatorOptions.includes(rule.operator)
-                      ? rule.operator
-                      : operatorOptions[0]) ?? "equals";
+                  const isCompound = Boolean(rule.conditions?.length);
 
                   return (
                     <div
                       key={rule.id}
                       className="space-y-4 rounded-lg border border-slate-800 bg-slate-900/40 p-4"
                     >
-                      <div className="grid gap-3 md:grid-cols-2">
+                      <div className="grid gap-3 md:grid-cols-3">
                         <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-purple-200/80">
                           Rule name
                           <input
@@ -943,83 +3862,108 @@ export default function OnboardingPage() {
                         </label>
 
                         <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-purple-200/80">
-                          Points awarded
+                          Points (negative for a penalty)
                           <input
                             type="number"
-                            min={0}
                             step={1}
                             value={rule.points ?? 0}
-                            onChange={(event) => {
-                              const nextValue = Math.max(0, Number(event.target.value) || 0);
-                              handleUpdateScoreRule(rule.id, { points: nextValue });
-                            }}
-                            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-purple-500 focus:outline-none"
+                            onChange={(event) =>
+                              handleUpdateScoreRule(rule.id, { points: Number(event.target.value) || 0 })
+                            }
+                            className={`rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm focus:border-purple-500 focus:outline-none ${
+                              rule.points < 0 ? "text-red-200" : "text-slate-100"
+                            }`}
                           />
                         </label>
-                      </div>
 
-                      <div className="grid gap-3 md:grid-cols-3">
                         <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-purple-200/80">
-                          Field to evaluate
+                          Rule type
                           <select
-                            value={rule.fieldId}
+                            value={isCompound ? rule.match ?? "all" : "single"}
                             onChange={(event) => {
-                              const selected = availableFields.find((item) => item.id === event.target.value);
+                              const value = event.target.value;
+                              if (value === "single") {
+                                const [first] = rule.conditions ?? [];
+                                handleUpdateScoreRule(rule.id, {
+                                  fieldId: first?.fieldId ?? rule.fieldId,
+                                  operator: first?.operator ?? rule.operator,
+                                  target: first?.target ?? rule.target,
+                                  subFieldId: first?.subFieldId,
+                                  entryMatch: first?.entryMatch,
+                                  match: undefined,
+                                  conditions: undefined,
+                                });
+                                return;
+                              }
                               handleUpdateScoreRule(rule.id, {
-                                fieldId: selected?.id ?? "",
-                                operator: defaultOperatorForType(selected?.type),
-                                target: "",
+                                match: value as OnboardingScoringMatch,
+                                conditions: isCompound
+                                  ? rule.conditions
+                                  : [
+                                      {
+                                        id: crypto.randomUUID(),
+                                        fieldId: rule.fieldId,
+                                        operator: rule.operator,
+                                        target: rule.target,
+                                        subFieldId: rule.subFieldId,
+                                        entryMatch: rule.entryMatch,
+                                      },
+                                    ],
                               });
                             }}
                             className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-purple-500 focus:outline-none"
                           >
-                            <option value="">Select a field</option>
-                            {availableFields.map((field) => (
-                              <option key={field.id} value={field.id}>
-                                {field.label}
+                            <option value="single">Single condition</option>
+                            {(Object.keys(SCORING_MATCH_LABELS) as OnboardingScoringMatch[]).map((match) => (
+                              <option key={match} value={match}>
+                                {SCORING_MATCH_LABELS[match]}
                               </option>
                             ))}
                           </select>
                         </label>
+                      </div>
 
-                        <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-purple-200/80">
-                          Operator
-                          <select
-                            value={operatorValue}
-                            onChange={(event) =>
-                              handleUpdateScoreRule(rule.id, {
-                                operator: event.target.value as OnboardingScoringRule["operator"],
-                              })
-                            }
-                            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-purple-500 focus:outline-none"
+                      {isCompound ? (
+                        <div className="space-y-3">
+                          {(rule.conditions ?? []).map((condition, index) => (
+                            <div key={condition.id} className="space-y-2 rounded-md border border-slate-800 bg-slate-950/50 p-3">
+                              <div className="flex items-center justify-between text-[11px] uppercase tracking-wide text-slate-500">
+                                <span>
+                                  {index === 0 ? "When" : rule.match === "any" ? "Or" : "And"}
+                                </span>
+                                {(rule.conditions ?? []).length > 1 && (
+                                  <button
+                                    type="button"
+                                    onClick={() => handleRemoveScoreCondition(rule.id, condition.id)}
+                                    className="text-red-300 hover:text-red-200"
+                                  >
+                                    Remove
+                                  </button>
+                                )}
+                              </div>
+                              <ScoringConditionEditor
+                                condition={condition}
+                                fields={availableFields}
+                                showWeight={rule.match === "weighted"}
+                                onChange={(updates) => handleUpdateScoreCondition(rule.id, condition.id, updates)}
+                              />
+                            </div>
+                          ))}
+                          <button
+                            type="button"
+                            onClick={() => handleAddScoreCondition(rule.id)}
+                            className="text-xs font-medium text-purple-200 hover:text-purple-100"
                           >
-                            {operatorOptions.map((option) => (
-                              <option key={option} value={option}>
-                                {option}
-                              </option>
-                            ))}
-                          </select>
-                        </label>
-
-                        <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-purple-200/80">
-                          Target value
-                          <input
-                            type="text"
-                            value={rule.target}
-                            onChange={(event) =>
-                              handleUpdateScoreRule(rule.id, { target: event.target.value })
-                            }
-                            placeholder={
-                              operatorValue === "contains"
-                                ? "Keyword e.g. revenue"
-                                : operatorValue === "gte" || operatorValue === "lte"
-                                  ? "Numeric threshold"
-                                  : "Exact match value"
-                            }
-                            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-purple-500 focus:outline-none"
-                          />
-                        </label>
-                      </div>
+                            Add condition
+                          </button>
+                        </div>
+                      ) : (
+                        <ScoringConditionEditor
+                          condition={rule}
+                          fields={availableFields}
+                          onChange={(updates) => handleUpdateScoreRule(rule.id, updates)}
+                        />
+                      )}
 
                       <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-purple-200/80">
                         Description (optional)
@@ -1112,6 +4056,23 @@ export default function OnboardingPage() {
             </div>
           </div>
 
+          <VersionHistoryPanel
+            programId={programId}
+            currentVersion={config.version}
+            onRestored={(form) => {
+              setConfig(form);
+              initializeFieldState(form);
+            }}
+          />
+
+          <FormSchemaTransferPanel
+            programId={programId}
+            onImported={(form) => {
+              setConfig(form);
+              initializeFieldState(form);
+            }}
+          />
+
           <div className="flex items-center justify-between">
             <button
               onClick={handleAddSection}
@@ -1130,7 +4091,7 @@ export default function OnboardingPage() {
         </div>
       ) : (
         <div className="space-y-6">
-          {config.sections.map((section) => (
+          {displayForm.sections.filter(isSectionShown).map((section) => (
             <div
               key={section.id}
               className="space-y-6 rounded-xl border border-slate-800/80 bg-slate-950/60 p-6"
@@ -1143,7 +4104,7 @@ export default function OnboardingPage() {
               </div>
 
               <div className="space-y-5">
-                {section.fields.map((field) => (
+                {section.fields.filter(isFieldShown).map((field) => (
                   <div key={field.id} className="space-y-2">
                     <div className="flex items-center justify-between">
                       <label className="text-sm font-medium text-slate-200">
@@ -1155,6 +4116,9 @@ export default function OnboardingPage() {
                       )}
                     </div>
                     {renderFieldControl(field, section.id)}
+                    {fieldErrors[field.id] && (
+                      <p className="text-xs text-red-300">{fieldErrors[field.id]}</p>
+                    )}
                   </div>
                 ))}
               </div>
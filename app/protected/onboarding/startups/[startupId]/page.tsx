@@ -5,6 +5,7 @@ import Link from "next/link";
 import { useParams, useSearchParams } from "next/navigation";
 import {
   OnboardingChecklist,
+  OnboardingChecklistAssignee,
   OnboardingChecklistItem,
   OnboardingChecklistStatus,
   OnboardingDocument,
@@ -22,6 +23,7 @@ import {
   OnboardingMilestoneUpdateInput,
   OnboardingSubmissionSummary,
 } from "@/lib/onboarding/types";
+import { checklistItemBlockers, missingChecklistEvidence } from "@/lib/onboarding/checklists";
 
 type WorkspacePayload = {
   ok: boolean;
@@ -31,6 +33,7 @@ type WorkspacePayload = {
   milestones: OnboardingMilestonePlanSnapshot;
   alumni: OnboardingAlumniSnapshot;
   grants: OnboardingGrantCatalogSnapshot;
+  assignees?: OnboardingChecklistAssignee[];
   error?: string;
 };
 
@@ -215,6 +218,8 @@ export default function StartupWorkspacePage() {
   const [submission, setSubmission] = useState<OnboardingSubmissionSummary | null>(null);
   const [checklist, setChecklist] = useState<OnboardingChecklist | null>(null);
   const [documents, setDocuments] = useState<OnboardingDocument[]>([]);
+  const [assignees, setAssignees] = useState<OnboardingChecklistAssignee[]>([]);
+  const [evidenceDraft, setEvidenceDraft] = useState<Record<string, string>>({});
   const [savingChecklist, setSavingChecklist] = useState(false);
   const [uploadingDocument, setUploadingDocument] = useState(false);
   const [newItemTitle, setNewItemTitle] = useState("");
@@ -455,6 +460,7 @@ export default function StartupWorkspacePage() {
         setSubmission(payload.submission);
         setChecklist(payload.checklist);
         setDocuments(payload.documents);
+        setAssignees(payload.assignees ?? []);
     setMilestones(payload.milestones);
     setGrants(payload.grants);
     setAlumni(payload.alumni);
@@ -477,7 +483,7 @@ export default function StartupWorkspacePage() {
       return { awarded: 0, total: 0, percentage: 0 };
     }
     const awarded = submission.score.awarded;
-    const total = submission.score.total ?? submission.score.breakdown.reduce((sum, item) => sum + item.points, 0);
+    const total = submission.score.total ?? submission.score.breakdown.reduce((sum, item) => sum + Math.max(0, item.points), 0);
     const percentage = submission.score.percentage ?? (total > 0 ? Number(((awarded / total) * 100).toFixed(1)) : 0);
     return { awarded, total, percentage };
   }, [submission]);
@@ -587,8 +593,17 @@ export default function StartupWorkspacePage() {
     return parsed ?? null;
   };
 
+  const documentKeys = useMemo(() => new Set(documents.map((document) => document.key)), [documents]);
+
+  const blockedItemCount = checklist
+    ? checklist.items.filter(
+        (item) => item.status !== "complete" && checklistItemBlockers(checklist.items, item).length > 0,
+      ).length
+    : 0;
+
   const handleChecklistChange = async (items: OnboardingChecklistItem[], notes?: string) => {
     if (!checklist) return;
+    const previous = checklist;
     setSavingChecklist(true);
     setChecklist((prev) => (prev ? { ...prev, items, notes } : prev));
 
@@ -607,16 +622,13 @@ export default function StartupWorkspacePage() {
         }),
       });
 
-      if (!res.ok) {
-        throw new Error("Failed to save checklist");
-      }
-
       const payload = (await res.json()) as ChecklistUpdateResponse;
-      if (!payload.ok) {
+      if (!res.ok || !payload.ok) {
         throw new Error(payload.error ?? "Unable to save checklist");
       }
       setChecklist(payload.checklist);
     } catch (err) {
+      setChecklist(previous);
       setError(err instanceof Error ? err.message : "Unable to save checklist");
     } finally {
       setSavingChecklist(false);
@@ -652,6 +664,47 @@ export default function StartupWorkspacePage() {
     handleChecklistChange(nextItems, checklist.notes);
   };
 
+  const updateItem = (itemId: string, patch: Partial<OnboardingChecklistItem>) => {
+    if (!checklist) return;
+    const nextItems = checklist.items.map((item) =>
+      item.id === itemId ? { ...item, ...patch, updatedAt: new Date().toISOString() } : item,
+    );
+    handleChecklistChange(nextItems, checklist.notes);
+  };
+
+  const updateItemAssignee = (item: OnboardingChecklistItem, userId: string) => {
+    const assignee = assignees.find((entry) => entry.userId === userId);
+    updateItem(item.id, { assignee });
+  };
+
+  const toggleItemDependency = (item: OnboardingChecklistItem, dependencyId: string) => {
+    const blockedBy = item.blockedBy ?? [];
+    updateItem(item.id, {
+      blockedBy: blockedBy.includes(dependencyId)
+        ? blockedBy.filter((id) => id !== dependencyId)
+        : [...blockedBy, dependencyId],
+    });
+  };
+
+  const addItemEvidence = (item: OnboardingChecklistItem) => {
+    const label = evidenceDraft[item.id]?.trim();
+    if (!label) return;
+    updateItem(item.id, { evidence: [...(item.evidence ?? []), { id: crypto.randomUUID(), label }] });
+    setEvidenceDraft((prev) => ({ ...prev, [item.id]: "" }));
+  };
+
+  const linkItemEvidence = (item: OnboardingChecklistItem, evidenceId: string, documentKey: string) => {
+    updateItem(item.id, {
+      evidence: (item.evidence ?? []).map((evidence) =>
+        evidence.id === evidenceId ? { ...evidence, documentKey: documentKey || undefined } : evidence,
+      ),
+    });
+  };
+
+  const removeItemEvidence = (item: OnboardingChecklistItem, evidenceId: string) => {
+    updateItem(item.id, { evidence: (item.evidence ?? []).filter((evidence) => evidence.id !== evidenceId) });
+  };
+
   const removeItem = (itemId: string) => {
     if (!checklist) return;
     const nextItems = checklist.items.filter((item) => item.id !== itemId);
@@ -1554,6 +1607,11 @@ export default function StartupWorkspacePage() {
               {checklist.items.filter((item) => item.status === "complete").length} / {checklist.items.length}
             </p>
             <p className="text-sm text-slate-400">Tasks completed</p>
+            {blockedItemCount > 0 && (
+              <p className="text-sm text-amber-300">
+                {blockedItemCount} blocked by unfinished tasks
+              </p>
+            )}
           </div>
         </div>
       </header>
@@ -1568,61 +1626,185 @@ export default function StartupWorkspacePage() {
           </div>
 
           <div className="space-y-3">
-            {checklist.items.map((item) => (
-              <div
-                key={item.id}
-                className="space-y-3 rounded-xl border border-slate-800/80 bg-slate-950/50 p-4"
-              >
-                <div className="flex flex-col gap-2 md:flex-row md:items-start md:justify-between">
-                  <div className="space-y-1">
-                    <p className="text-sm font-semibold text-slate-100">{item.title}</p>
-                    {item.description && (
-                      <p className="text-xs text-slate-400">{item.description}</p>
-                    )}
+            {checklist.items.map((item) => {
+              const blockers = checklistItemBlockers(checklist.items, item);
+              const missingEvidence = missingChecklistEvidence(item, documentKeys);
+              const blocked = item.status !== "complete" && blockers.length > 0;
+              const completable = item.status === "complete" || (!blockers.length && !missingEvidence.length);
+              return (
+                <div
+                  key={item.id}
+                  className={`space-y-3 rounded-xl border p-4 ${
+                    blocked ? "border-amber-500/60 bg-amber-500/5" : "border-slate-800/80 bg-slate-950/50"
+                  }`}
+                >
+                  <div className="flex flex-col gap-2 md:flex-row md:items-start md:justify-between">
+                    <div className="space-y-1">
+                      <p className="flex items-center gap-2 text-sm font-semibold text-slate-100">
+                        {item.title}
+                        {blocked && (
+                          <span className="rounded-full border border-amber-500/60 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-amber-200">
+                            Blocked
+                          </span>
+                        )}
+                      </p>
+                      {item.description && (
+                        <p className="text-xs text-slate-400">{item.description}</p>
+                      )}
+                      {blocked && (
+                        <p className="text-xs text-amber-300">
+                          Waiting on {blockers.map((blocker) => blocker.title).join(", ")}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                      <label className="flex items-center gap-2">
+                        <span>Due</span>
+                        <input
+                          type="date"
+                          value={item.dueDate?.substring(0, 10) ?? ""}
+                          onChange={(event) => updateItemDueDate(item.id, event.target.value)}
+                          className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-blue-500 focus:outline-none"
+                        />
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <span>Status</span>
+                        <select
+                          value={item.status}
+                          onChange={(event) =>
+                            updateItemStatus(item.id, event.target.value as OnboardingChecklistStatus)
+                          }
+                          className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-blue-500 focus:outline-none"
+                        >
+                          {STATUS_OPTIONS.map((option) => (
+                            <option
+                              key={option.value}
+                              value={option.value}
+                              disabled={option.value === "complete" && !completable}
+                            >
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => removeItem(item.id)}
+                        className="text-xs text-red-300 hover:text-red-200"
+                      >
+                        Remove
+                      </button>
+                    </div>
                   </div>
                   <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
                     <label className="flex items-center gap-2">
-                      <span>Due</span>
-                      <input
-                        type="date"
-                        value={item.dueDate?.substring(0, 10) ?? ""}
-                        onChange={(event) => updateItemDueDate(item.id, event.target.value)}
-                        className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-blue-500 focus:outline-none"
-                      />
-                    </label>
-                    <label className="flex items-center gap-2">
-                      <span>Status</span>
+                      <span>Assignee</span>
                       <select
-                        value={item.status}
-                        onChange={(event) =>
-                          updateItemStatus(item.id, event.target.value as OnboardingChecklistStatus)
-                        }
+                        value={item.assignee?.userId ?? ""}
+                        onChange={(event) => updateItemAssignee(item, event.target.value)}
                         className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-blue-500 focus:outline-none"
                       >
-                        {STATUS_OPTIONS.map((option) => (
-                          <option key={option.value} value={option.value}>
-                            {option.label}
-                          </option>
+                        <option value="">Unassigned</option>
+                        {(["founder", "staff"] as const).map((kind) => (
+                          <optgroup key={kind} label={kind === "founder" ? "Startup founders" : "Incubator staff"}>
+                            {assignees
+                              .filter((assignee) => assignee.kind === kind)
+                              .map((assignee) => (
+                                <option key={assignee.userId} value={assignee.userId}>
+                                  {assignee.name ?? assignee.userId}
+                                </option>
+                              ))}
+                          </optgroup>
                         ))}
+                        {item.assignee && !assignees.some((assignee) => assignee.userId === item.assignee?.userId) && (
+                          <option value={item.assignee.userId}>{item.assignee.name ?? item.assignee.userId}</option>
+                        )}
                       </select>
                     </label>
-                    <button
-                      type="button"
-                      onClick={() => removeItem(item.id)}
-                      className="text-xs text-red-300 hover:text-red-200"
-                    >
-                      Remove
-                    </button>
+                    {checklist.items.length > 1 && (
+                      <details>
+                        <summary className="cursor-pointer text-slate-400 hover:text-slate-200">
+                          Blocked by {item.blockedBy?.length ? `(${item.blockedBy.length})` : ""}
+                        </summary>
+                        <div className="mt-2 flex flex-col gap-1">
+                          {checklist.items
+                            .filter((other) => other.id !== item.id)
+                            .map((other) => (
+                              <label key={other.id} className="flex items-center gap-2 text-slate-300">
+                                <input
+                                  type="checkbox"
+                                  checked={item.blockedBy?.includes(other.id) ?? false}
+                                  onChange={() => toggleItemDependency(item, other.id)}
+                                  className="h-3 w-3 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+                                />
+                                {other.title}
+                              </label>
+                            ))}
+                        </div>
+                      </details>
+                    )}
+                  </div>
+                  <div className="space-y-2 text-xs">
+                    {(item.evidence ?? []).map((evidence) => {
+                      const linked = evidence.documentKey && documentKeys.has(evidence.documentKey);
+                      return (
+                        <div key={evidence.id} className="flex flex-wrap items-center gap-2">
+                          <span className={linked ? "text-emerald-300" : "text-amber-300"}>
+                            {linked ? "✓" : "•"} {evidence.label}
+                          </span>
+                          <select
+                            value={linked ? evidence.documentKey : ""}
+                            onChange={(event) => linkItemEvidence(item, evidence.id, event.target.value)}
+                            className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-blue-500 focus:outline-none"
+                          >
+                            <option value="">No document linked</option>
+                            {documents.map((document) => (
+                              <option key={document.key} value={document.key}>
+                                {document.name}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            onClick={() => removeItemEvidence(item, evidence.id)}
+                            className="text-red-300 hover:text-red-200"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      );
+                    })}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        value={evidenceDraft[item.id] ?? ""}
+                        onChange={(event) => setEvidenceDraft((prev) => ({ ...prev, [item.id]: event.target.value }))}
+                        placeholder="Required evidence e.g. Signed agreement"
+                        className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => addItemEvidence(item)}
+                        disabled={!evidenceDraft[item.id]?.trim() || savingChecklist}
+                        className="text-blue-300 hover:text-blue-200 disabled:opacity-50"
+                      >
+                        Add evidence
+                      </button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-[11px] text-slate-500">
+                    <span>Updated {formatDateTime(item.updatedAt)}</span>
+                    {item.completedAt && item.status === "complete" && (
+                      <span className="text-emerald-300">Completed {formatDateTime(item.completedAt)}</span>
+                    )}
+                    {item.status !== "complete" && missingEvidence.length > 0 && (
+                      <span className="text-amber-300">
+                        Needs {missingEvidence.map((evidence) => evidence.label).join(", ")} before completion
+                      </span>
+                    )}
                   </div>
                 </div>
-                <div className="flex flex-wrap items-center gap-3 text-[11px] text-slate-500">
-                  <span>Updated {formatDateTime(item.updatedAt)}</span>
-                  {item.completedAt && item.status === "complete" && (
-                    <span className="text-emerald-300">Completed {formatDateTime(item.completedAt)}</span>
-                  )}
-                </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
 
           <div className="space-y-3 rounded-xl border border-dashed border-slate-800/60 bg-slate-950/40 p-4">
@@ -2155,6 +2337,28 @@ export default function StartupWorkspacePage() {
             </ul>
           </div>
         )}
+
+        {milestones.notifications.length > 0 && (
+          <div className="space-y-3 rounded-xl border border-slate-800/80 bg-slate-950/40 p-5">
+            <h3 className="text-sm font-semibold text-slate-100">Reminder &amp; escalation emails</h3>
+            <ul className="space-y-2 text-xs text-slate-300">
+              {milestones.notifications.slice(0, 6).map((notification) => (
+                <li key={notification.id} className="flex flex-wrap items-center gap-2">
+                  <span className="text-slate-500">{formatDateTime(notification.sentAt)}</span>
+                  <span className="text-slate-600">•</span>
+                  <span className="font-semibold text-slate-200">
+                    {milestoneNameMap.get(notification.milestoneId) ?? "Milestone"}
+                  </span>
+                  <span className={notification.kind === "escalation" ? "text-rose-200" : "text-blue-200"}>
+                    {notification.kind === "escalation" ? "Escalation" : "Reminder"}
+                  </span>
+                  <span className="text-slate-400">to {notification.recipients.join(", ")}</span>
+                  {notification.error && <span className="text-rose-300">failed: {notification.error}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </section>
 
       <section className="space-y-6 rounded-2xl border border-slate-800/70 bg-slate-950/60 p-6">
@@ -3139,11 +3343,39 @@ export default function StartupWorkspacePage() {
                   </span>
                 )}
               </div>
-              <p className="whitespace-pre-line text-sm text-slate-100">
-                {Array.isArray(response.value)
-                  ? response.value.join("\n")
-                  : response.value ?? "—"}
-              </p>
+              {response.entries ? (
+                <ol className="space-y-2">
+                  {response.entries.map((entry, index) => (
+                    <li key={entry.id} className="space-y-1 rounded-lg border border-slate-800/80 p-3">
+                      <p className="text-[11px] uppercase tracking-wide text-slate-500">Entry {index + 1}</p>
+                      {entry.fields.map((field) => (
+                        <p key={field.fieldId} className="text-sm text-slate-100">
+                          <span className="text-slate-400">{field.label}:</span>{" "}
+                          {Array.isArray(field.value) ? field.value.join(", ") : field.value ?? "—"}
+                          {field.attachments?.map((attachment) => (
+                            <a
+                              key={attachment.key}
+                              href={attachment.url ?? "#"}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="ml-2 text-xs text-blue-200 underline decoration-dotted underline-offset-4 hover:text-blue-100"
+                            >
+                              {attachment.name}
+                            </a>
+                          ))}
+                        </p>
+                      ))}
+                    </li>
+                  ))}
+                  {response.entries.length === 0 && <li className="text-sm text-slate-400">No entries</li>}
+                </ol>
+              ) : (
+                <p className="whitespace-pre-line text-sm text-slate-100">
+                  {Array.isArray(response.value)
+                    ? response.value.join("\n")
+                    : response.value ?? "—"}
+                </p>
+              )}
               {response.attachments && response.attachments.length > 0 && (
                 <ul className="space-y-2 text-xs text-blue-200">
                   {response.attachments.map((attachment) => (
@@ -3,9 +3,40 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import {
+  OnboardingAbandonedDraft,
+  OnboardingDocumentRequestStatus,
+  OnboardingDraftDropOff,
+  OnboardingInterview,
+  OnboardingLifecycle,
+  OnboardingLifecycleState,
+  OnboardingProgram,
+  OnboardingRescoreResult,
+  OnboardingRescoreSnapshot,
+  OnboardingReviewAssignmentStatus,
+  OnboardingReviewRubric,
+  OnboardingReviewerScorecard,
+  OnboardingReviewerWorkload,
+  OnboardingSubmissionComment,
+  OnboardingSubmissionScore,
+  OnboardingSubmissionSort,
   OnboardingSubmissionSummary,
   OnboardingSubmissionSummaryStatus,
 } from "@/lib/onboarding/types";
+import { DEFAULT_PROGRAM_ID } from "@/lib/onboarding/programs";
+import { localeLabel } from "@/lib/onboarding/locales";
+import { PANEL_AGGREGATION_LABELS, getProgramRubric, summarizeReviewPanel } from "@/lib/onboarding/panel";
+import { reviewAssignmentStatus } from "@/lib/onboarding/assignments";
+import { DUPLICATE_SIGNAL_LABELS, hasOpenDuplicateFlags } from "@/lib/onboarding/duplicates";
+import { SUBMISSION_SORT_LABELS } from "@/lib/onboarding/filters";
+import {
+  ACCEPTED_LIFECYCLE_STATE,
+  DEFAULT_LIFECYCLE,
+  allowedLifecycleTransitions,
+  findLifecycleState,
+  getProgramLifecycle,
+  lifecycleStateLabel,
+  submissionLifecycleState,
+} from "@/lib/onboarding/lifecycle";
 
 type UserProfile = {
   id: string;
@@ -14,6 +45,12 @@ type UserProfile = {
   permissions?: string[];
 };
 
+type ReviewerOption = {
+  id: string;
+  name: string | null;
+  email: string;
+};
+
 type StageOption = {
   value: string;
   label: string;
@@ -33,6 +70,9 @@ type SubmissionListResponse = {
       max: number;
     };
     statusOptions: StatusOption[];
+    lifecycleStates?: OnboardingLifecycleState[];
+    stateCounts?: Record<string, number>;
+    nextCursor?: string;
   };
   error?: string;
 };
@@ -53,15 +93,59 @@ const statusStyles: Record<StatusOption, string> = {
 };
 
 const INITIAL_FILTERS = {
+  program: "",
   query: "",
   stage: "",
   status: "",
+  recommendation: "",
   minScore: "",
   maxScore: "",
+  queue: "",
+  sort: "",
 };
 
 type FiltersState = typeof INITIAL_FILTERS;
 
+const buildSubmissionParams = (filters: FiltersState) => {
+  const params = new URLSearchParams();
+
+  if (filters.program) {
+    params.set("program", filters.program);
+  }
+  if (filters.query.trim().length) {
+    params.set("query", filters.query.trim());
+  }
+  if (filters.stage) {
+    params.set("stage", filters.stage);
+  }
+  if (filters.status) {
+    params.set("status", filters.status);
+  }
+  if (filters.recommendation) {
+    params.set("recommendation", filters.recommendation);
+  }
+  if (filters.queue) {
+    params.set("queue", filters.queue);
+  }
+  if (filters.minScore.trim().length) {
+    params.set("minScore", filters.minScore.trim());
+  }
+  if (filters.maxScore.trim().length) {
+    params.set("maxScore", filters.maxScore.trim());
+  }
+  if (filters.sort) {
+    params.set("sort", filters.sort);
+  }
+
+  return params;
+};
+
+const exportHref = (filters: FiltersState, format: "csv" | "xlsx") => {
+  const params = buildSubmissionParams(filters);
+  params.set("format", format);
+  return `/api/protected/onboarding/submissions/export?${params.toString()}`;
+};
+
 const formatDate = (value: string) => {
   const date = new Date(value);
   if (Number.isNaN(date.getTime())) {
@@ -79,12 +163,18 @@ const formatDate = (value: string) => {
 const formatScore = (submission: OnboardingSubmissionSummary) => {
   const score = submission.score ?? submission.scoreManual ?? submission.scoreAuto;
   const total =
-    score?.total ?? score?.breakdown?.reduce((sum, item) => sum + item.points, 0) ?? 0;
+    score?.total ?? score?.breakdown?.reduce((sum, item) => sum + Math.max(0, item.points), 0) ?? 0;
   const awarded = score?.awarded ?? 0;
   const percentage = score?.percentage ?? (total > 0 ? Number(((awarded / total) * 100).toFixed(1)) : 0);
   return { total, awarded, percentage };
 };
 
+// Older breakdowns predate partial and negative awards.
+const breakdownAwarded = (item: OnboardingSubmissionScore["breakdown"][number]) =>
+  item.awarded ?? (item.matched ? item.points : 0);
+
+const formatPoints = (value: number) => (value > 0 ? `+${value}` : value < 0 ? `${value}` : "+0");
+
 type ManualScoreEditorProps = {
   submission: OnboardingSubmissionSummary;
   onUpdated: (submission: OnboardingSubmissionSummary) => void;
@@ -131,12 +221,21 @@ function ManualScoreEditor({ submission, onUpdated }: ManualScoreEditorProps) {
     [],
   );
 
-  useEffect(() => {
+  // Drafts are re-read from the submission while rendering whenever one of its scores or its status changes.
+  const scoreRevision = [
+    submission.id,
+    submission.score?.updatedAt,
+    submission.scoreManual?.updatedAt,
+    submission.scoreAuto?.updatedAt,
+    submission.status,
+  ].join("|");
+  const [hydratedRevision, setHydratedRevision] = useState<string | null>(null);
+  if (hydratedRevision !== scoreRevision) {
+    setHydratedRevision(scoreRevision);
     hydrateFromSummary(submission);
     setError(null);
     setSuccess(null);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [submission.id, submission.score?.updatedAt, submission.scoreManual?.updatedAt, submission.scoreAuto?.updatedAt, submission.status]);
+  }
 
   const handleApply = async () => {
     const awardedValue = Number(awardedDraft);
@@ -237,111 +336,2279 @@ function ManualScoreEditor({ submission, onUpdated }: ManualScoreEditorProps) {
     setTotalDraft(autoScore.total !== undefined ? String(autoScore.total) : "");
     setNoteDraft("");
     setError(null);
-    setSuccess("Auto score loaded into form");
+    setSuccess("Auto score loaded into form");
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-amber-500/30 bg-amber-500/5 p-4">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-amber-200">
+          Manual decision controls
+        </h4>
+        {manualScore?.updatedAt && (
+          <span className="text-[11px] text-amber-200/80">
+            Last updated {new Date(manualScore.updatedAt).toLocaleString()}
+            {manualScore.updatedBy ? ` by ${manualScore.updatedBy}` : ""}
+          </span>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      {success && <p className="text-xs text-emerald-300">{success}</p>}
+      <div className="grid gap-3 md:grid-cols-3">
+        <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-amber-200/80">
+          Decision
+          <select
+            value={statusDraft}
+            onChange={(event) => setStatusDraft(event.target.value as StatusOption)}
+            className="rounded-md border border-amber-500/40 bg-slate-950 px-3 py-2 text-sm text-amber-100 focus:border-amber-300 focus:outline-none"
+          >
+            {(["advance", "review", "reject"] as StatusOption[]).map((option) => (
+              <option key={option} value={option}>
+                {statusLabels[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-amber-200/80">
+          Awarded points
+          <input
+            type="number"
+            min={0}
+            value={awardedDraft}
+            onChange={(event) => setAwardedDraft(event.target.value)}
+            className="rounded-md border border-amber-500/40 bg-slate-950 px-3 py-2 text-sm text-amber-100 focus:border-amber-300 focus:outline-none"
+          />
+        </label>
+        <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-amber-200/80">
+          Total points
+          <input
+            type="number"
+            min={0}
+            value={totalDraft}
+            placeholder={finalScore?.total !== undefined ? String(finalScore.total) : autoScore?.total !== undefined ? String(autoScore.total) : ""}
+            onChange={(event) => setTotalDraft(event.target.value)}
+            className="rounded-md border border-amber-500/40 bg-slate-950 px-3 py-2 text-sm text-amber-100 focus:border-amber-300 focus:outline-none"
+          />
+        </label>
+      </div>
+      <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-amber-200/80">
+        Reviewer note
+        <textarea
+          value={noteDraft}
+          onChange={(event) => setNoteDraft(event.target.value)}
+          placeholder="Add context for this manual decision"
+          className="h-20 rounded-md border border-amber-500/40 bg-slate-950 px-3 py-2 text-sm text-amber-100 focus:border-amber-300 focus:outline-none"
+        />
+      </label>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={saving}
+          className="rounded-full border border-amber-400/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-amber-100 transition hover:bg-amber-500/10 disabled:opacity-60"
+        >
+          {saving ? "Saving…" : "Save manual decision"}
+        </button>
+        <button
+          type="button"
+          onClick={handleUseAuto}
+          className="rounded-full border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:bg-slate-900/60"
+        >
+          Use auto score
+        </button>
+        <button
+          type="button"
+          onClick={handleClear}
+          disabled={saving || !manualScore}
+          className="rounded-full border border-red-500/60 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-red-200 transition hover:bg-red-500/10 disabled:opacity-60"
+        >
+          Clear manual override
+        </button>
+      </div>
+      <div className="text-[11px] text-amber-200/70">
+        <p>
+          Auto score: {autoScore ? `${autoScore.awarded ?? 0}${autoScore.total ? ` / ${autoScore.total}` : ""}` : "—"}
+        </p>
+        {manualScore && (
+          <p className="mt-1">
+            Manual score: {manualScore.awarded ?? 0}
+            {manualScore.total ? ` / ${manualScore.total}` : ""}
+            {manualScore.status ? ` (${statusLabels[manualScore.status as StatusOption]})` : ""}
+          </p>
+        )}
+        {manualScore?.note && (
+          <p className="mt-1 text-amber-200">Saved note: {manualScore.note}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+type ReviewPanelProps = {
+  submission: OnboardingSubmissionSummary;
+  program?: OnboardingProgram;
+  currentUserId?: string;
+  canChair: boolean;
+  onUpdated: (submission: OnboardingSubmissionSummary) => void;
+};
+
+type ScorecardDraft = Record<string, { score: string; comment: string }>;
+
+function ReviewPanel({ submission, program, currentUserId, canChair, onUpdated }: ReviewPanelProps) {
+  const rubric = getProgramRubric(program);
+  const scorecards = useMemo(() => submission.scorecards ?? [], [submission.scorecards]);
+  const panel = useMemo(() => summarizeReviewPanel(rubric, scorecards), [rubric, scorecards]);
+  const ownScorecard = scorecards.find((scorecard) => scorecard.reviewerId === currentUserId);
+  const decision = submission.panelDecision;
+  const majority = (["advance", "review", "reject"] as StatusOption[]).reduce((best, option) =>
+    panel.recommendations[option] > panel.recommendations[best] ? option : best,
+  );
+
+  const [draft, setDraft] = useState<ScorecardDraft>({});
+  const [recommendation, setRecommendation] = useState<StatusOption | "">("");
+  const [comment, setComment] = useState("");
+  const [decisionStatus, setDecisionStatus] = useState<StatusOption>(majority);
+  const [decisionNote, setDecisionNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Drafts are reset while rendering whenever the reviewer's own scorecard, the decision or the rubric changes.
+  const draftRevision = [submission.id, ownScorecard?.updatedAt, decision?.decidedAt].join("|");
+  const [hydrated, setHydrated] = useState<{ revision: string; rubric: OnboardingReviewRubric } | null>(null);
+  if (hydrated?.revision !== draftRevision || hydrated.rubric !== rubric) {
+    setHydrated({ revision: draftRevision, rubric });
+    setDraft(
+      Object.fromEntries(
+        rubric.criteria.map((criterion) => {
+          const entry = ownScorecard?.scores.find((score) => score.criterionId === criterion.id);
+          return [criterion.id, { score: entry ? String(entry.score) : "", comment: entry?.comment ?? "" }];
+        }),
+      ),
+    );
+    setRecommendation(ownScorecard?.recommendation ?? "");
+    setComment(ownScorecard?.comment ?? "");
+    setDecisionStatus(decision?.status ?? majority);
+    setDecisionNote(decision?.note ?? "");
+    setError(null);
+  }
+
+  const send = (path: string, method: string, body: unknown, fallback: string) => {
+    setSaving(true);
+    setError(null);
+    fetch(`/api/protected/onboarding/submissions/${submission.id}/${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as {
+          ok: boolean;
+          submission?: OnboardingSubmissionSummary;
+          error?: string;
+        };
+        if (!res.ok || !payload.ok || !payload.submission) {
+          throw new Error(payload.error ?? fallback);
+        }
+        onUpdated(payload.submission);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : fallback);
+      })
+      .finally(() => setSaving(false));
+  };
+
+  const handleSaveScorecard = () => {
+    const scores = rubric.criteria.map((criterion) => ({
+      criterionId: criterion.id,
+      score: Number(draft[criterion.id]?.score),
+      comment: draft[criterion.id]?.comment.trim() || undefined,
+    }));
+    if (scores.some((entry) => !draft[entry.criterionId]?.score || Number.isNaN(entry.score))) {
+      setError("Score every criterion before saving");
+      return;
+    }
+    send(
+      "scorecard",
+      "PUT",
+      { scores, recommendation: recommendation || undefined, comment: comment.trim() || undefined },
+      "Unable to save scorecard",
+    );
+  };
+
+  const scaleValues = Array.from(
+    { length: Math.floor(rubric.scaleMax - rubric.scaleMin) + 1 },
+    (_, index) => rubric.scaleMin + index,
+  );
+  const reviewerLabel = (scorecard: OnboardingReviewerScorecard) =>
+    scorecard.reviewerId === currentUserId ? "You" : scorecard.reviewerName ?? scorecard.reviewerId;
+
+  return (
+    <div className="space-y-4 rounded-lg border border-purple-500/30 bg-purple-500/5 p-4">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-purple-200">Selection panel</h4>
+        <div className="flex flex-wrap items-center gap-2 text-[11px]">
+          <span className="rounded-full border border-purple-500/40 px-2 py-0.5 text-purple-100">
+            {PANEL_AGGREGATION_LABELS[panel.aggregation]}:{" "}
+            {panel.score !== undefined ? `${panel.score} / ${rubric.scaleMax}` : "—"}
+          </span>
+          <span className="rounded-full border border-slate-700 px-2 py-0.5 text-slate-300">
+            {panel.reviewerCount} scorecard{panel.reviewerCount === 1 ? "" : "s"}
+          </span>
+          {panel.disagreement && (
+            <span className="rounded-full border border-amber-400/50 bg-amber-400/10 px-2 py-0.5 text-amber-200">
+              Reviewers disagree (spread {panel.spread})
+            </span>
+          )}
+          {panel.outlierReviewerIds.length > 0 && (
+            <span className="rounded-full border border-red-400/50 bg-red-400/10 px-2 py-0.5 text-red-200">
+              {panel.outlierReviewerIds.length} outlier{panel.outlierReviewerIds.length === 1 ? "" : "s"}
+            </span>
+          )}
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {scorecards.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs text-slate-300">
+            <thead className="text-[11px] uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="py-1 pr-3">Criterion</th>
+                {scorecards.map((scorecard) => (
+                  <th
+                    key={scorecard.reviewerId}
+                    className={`py-1 pr-3 ${panel.outlierReviewerIds.includes(scorecard.reviewerId) ? "text-red-300" : ""}`}
+                  >
+                    {reviewerLabel(scorecard)}
+                  </th>
+                ))}
+                <th className="py-1 pr-3 text-purple-200">Panel</th>
+              </tr>
+            </thead>
+            <tbody>
+              {panel.criteria.map((criterion) => (
+                <tr key={criterion.criterionId} className="border-t border-slate-800">
+                  <td className="py-1 pr-3 text-slate-200">{criterion.label}</td>
+                  {scorecards.map((scorecard) => {
+                    const entry = scorecard.scores.find((score) => score.criterionId === criterion.criterionId);
+                    return (
+                      <td key={scorecard.reviewerId} className="py-1 pr-3" title={entry?.comment}>
+                        {entry ? entry.score : "—"}
+                        {entry?.comment ? " •" : ""}
+                      </td>
+                    );
+                  })}
+                  <td className={`py-1 pr-3 ${criterion.disagreement ? "text-amber-200" : "text-purple-100"}`}>
+                    {criterion.score ?? "—"}
+                    {criterion.disagreement ? ` (${criterion.min}–${criterion.max})` : ""}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t border-slate-700 font-semibold">
+                <td className="py-1 pr-3 text-slate-200">Overall</td>
+                {scorecards.map((scorecard) => (
+                  <td key={scorecard.reviewerId} className="py-1 pr-3">
+                    {scorecard.overall}
+                  </td>
+                ))}
+                <td className="py-1 pr-3 text-purple-100">{panel.score ?? "—"}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {scorecards.some((scorecard) => scorecard.comment || scorecard.recommendation) && (
+        <ul className="space-y-2">
+          {scorecards.map((scorecard) => (
+            <li key={scorecard.reviewerId} className="rounded-md border border-slate-800 bg-slate-950/70 p-3 text-xs">
+              <div className="flex items-center justify-between text-slate-400">
+                <span className="font-semibold text-slate-200">{reviewerLabel(scorecard)}</span>
+                <span>
+                  {scorecard.recommendation ? `Recommends ${statusLabels[scorecard.recommendation]} · ` : ""}
+                  {formatDate(scorecard.updatedAt)}
+                </span>
+              </div>
+              {scorecard.comment && <p className="mt-1 text-slate-300">{scorecard.comment}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!decision && (
+        <div className="space-y-3 rounded-md border border-slate-800 bg-slate-950/50 p-3">
+          <h5 className="text-[11px] font-semibold uppercase tracking-wide text-purple-200/80">
+            {ownScorecard ? "Your scorecard" : "Score this application"}
+          </h5>
+          <div className="grid gap-3 md:grid-cols-2">
+            {rubric.criteria.map((criterion) => (
+              <div key={criterion.id} className="space-y-1">
+                <label className="flex items-center justify-between gap-3 text-xs text-slate-200">
+                  <span title={criterion.description}>
+                    {criterion.label}
+                    {criterion.weight !== 1 ? ` ×${criterion.weight}` : ""}
+                  </span>
+                  <select
+                    value={draft[criterion.id]?.score ?? ""}
+                    onChange={(event) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        [criterion.id]: { score: event.target.value, comment: prev[criterion.id]?.comment ?? "" },
+                      }))
+                    }
+                    className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-purple-400 focus:outline-none"
+                  >
+                    <option value="">—</option>
+                    {scaleValues.map((value) => (
+                      <option key={value} value={value}>
+                        {value}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <input
+                  type="text"
+                  value={draft[criterion.id]?.comment ?? ""}
+                  placeholder="Comment (optional)"
+                  onChange={(event) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      [criterion.id]: { score: prev[criterion.id]?.score ?? "", comment: event.target.value },
+                    }))
+                  }
+                  className="w-full rounded-md border border-slate-800 bg-slate-950 px-2 py-1 text-xs text-slate-200 focus:border-purple-400 focus:outline-none"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="grid gap-3 md:grid-cols-[12rem_1fr]">
+            <select
+              value={recommendation}
+              onChange={(event) => setRecommendation(event.target.value as StatusOption | "")}
+              className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-purple-400 focus:outline-none"
+            >
+              <option value="">No recommendation</option>
+              {(["advance", "review", "reject"] as StatusOption[]).map((option) => (
+                <option key={option} value={option}>
+                  Recommend {statusLabels[option]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={comment}
+              placeholder="Overall comment for the panel"
+              onChange={(event) => setComment(event.target.value)}
+              className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-purple-400 focus:outline-none"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={handleSaveScorecard}
+              disabled={saving}
+              className="rounded-full border border-purple-400/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-purple-100 transition hover:bg-purple-500/10 disabled:opacity-60"
+            >
+              {saving ? "Saving…" : ownScorecard ? "Update scorecard" : "Submit scorecard"}
+            </button>
+            {ownScorecard && (
+              <button
+                type="button"
+                onClick={() => send("scorecard", "DELETE", undefined, "Unable to withdraw scorecard")}
+                disabled={saving}
+                className="rounded-full border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-slate-900/60 disabled:opacity-60"
+              >
+                Withdraw
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {decision ? (
+        <div className="flex flex-col gap-2 rounded-md border border-emerald-500/30 bg-emerald-500/5 p-3 text-xs text-emerald-100 md:flex-row md:items-center md:justify-between">
+          <div>
+            <p className="font-semibold">
+              Finalised: {statusLabels[decision.status]}
+              {decision.score !== undefined ? ` at ${decision.score} / ${rubric.scaleMax}` : ""} from{" "}
+              {decision.reviewerCount} scorecard{decision.reviewerCount === 1 ? "" : "s"}
+            </p>
+            <p className="text-emerald-200/70">
+              {decision.decidedByName ?? decision.decidedBy} · {formatDate(decision.decidedAt)}
+            </p>
+            {decision.note && <p className="mt-1 text-emerald-100/90">{decision.note}</p>}
+          </div>
+          {canChair && (
+            <button
+              type="button"
+              onClick={() => send("decision", "DELETE", undefined, "Unable to reopen panel decision")}
+              disabled={saving}
+              className="rounded-full border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:bg-slate-900/60 disabled:opacity-60"
+            >
+              Reopen
+            </button>
+          )}
+        </div>
+      ) : (
+        canChair &&
+        scorecards.length > 0 && (
+          <div className="space-y-3 rounded-md border border-emerald-500/30 bg-emerald-500/5 p-3">
+            <h5 className="text-[11px] font-semibold uppercase tracking-wide text-emerald-200">Chair decision</h5>
+            <div className="grid gap-3 md:grid-cols-[12rem_1fr]">
+              <select
+                value={decisionStatus}
+                onChange={(event) => setDecisionStatus(event.target.value as StatusOption)}
+                className="rounded-md border border-emerald-500/40 bg-slate-950 px-2 py-1 text-xs text-emerald-100 focus:border-emerald-300 focus:outline-none"
+              >
+                {(["advance", "review", "reject"] as StatusOption[]).map((option) => (
+                  <option key={option} value={option}>
+                    {statusLabels[option]} ({panel.recommendations[option]})
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={decisionNote}
+                placeholder="Decision rationale"
+                onChange={(event) => setDecisionNote(event.target.value)}
+                className="rounded-md border border-emerald-500/40 bg-slate-950 px-2 py-1 text-xs text-emerald-100 focus:border-emerald-300 focus:outline-none"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() =>
+                send(
+                  "decision",
+                  "POST",
+                  { status: decisionStatus, note: decisionNote.trim() || undefined },
+                  "Unable to finalise panel decision",
+                )
+              }
+              disabled={saving}
+              className="rounded-full border border-emerald-400/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-emerald-100 transition hover:bg-emerald-500/10 disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Finalise decision"}
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+type AbandonedDraftsResponse = {
+  ok: boolean;
+  drafts?: OnboardingAbandonedDraft[];
+  dropOff?: OnboardingDraftDropOff[];
+  idleHours?: number;
+  error?: string;
+};
+
+const formatSnapshot = (snapshot?: OnboardingRescoreSnapshot) =>
+  snapshot ? `${snapshot.awarded}${snapshot.total ? ` / ${snapshot.total}` : ""} · ${statusLabels[snapshot.status]}` : "No score";
+
+function RescorePanel({ programId, onApplied }: { programId: string; onApplied: () => void }) {
+  const [preview, setPreview] = useState<OnboardingRescoreResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+    setNotice(null);
+  }, [programId]);
+
+  const run = (dryRun: boolean) => {
+    setRunning(true);
+    setError(null);
+    setNotice(null);
+    fetch("/api/protected/onboarding/submissions/rescore", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ program: programId, dryRun, formVersion: preview?.formVersion }),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; result?: OnboardingRescoreResult; error?: string };
+        if (!res.ok || !payload.ok || !payload.result) {
+          throw new Error(payload.error ?? "Unable to re-evaluate submissions");
+        }
+        if (dryRun) {
+          setPreview(payload.result);
+          return;
+        }
+        setPreview(null);
+        setNotice(
+          `Re-evaluated ${payload.result.evaluated} submission${payload.result.evaluated === 1 ? "" : "s"}; ${payload.result.changed} updated.`,
+        );
+        onApplied();
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to re-evaluate submissions");
+      })
+      .finally(() => setRunning(false));
+  };
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-slate-800/70 bg-slate-950/60 p-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-100">Re-evaluate automatic scores</h2>
+          <p className="text-xs text-slate-500">
+            Applies the current scoring rules to every stored submission. Manual overrides are kept.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => run(true)}
+          disabled={running}
+          className="rounded-full border border-blue-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/10 disabled:opacity-60"
+        >
+          {running && !preview ? "Checking…" : preview ? "Refresh preview" : "Preview changes"}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+      {notice && <p className="text-sm text-emerald-300">{notice}</p>}
+
+      {preview && (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-300">
+            {preview.changed} of {preview.evaluated} submission{preview.evaluated === 1 ? "" : "s"} would change under
+            form version {preview.formVersion}.
+          </p>
+          {preview.flips.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {preview.flips.map((flip) => (
+                <span
+                  key={`${flip.from}:${flip.to}`}
+                  className="rounded-full border border-slate-700 px-3 py-1 text-xs text-slate-200"
+                >
+                  {statusLabels[flip.from]} → {statusLabels[flip.to]}: {flip.count}
+                </span>
+              ))}
+            </div>
+          )}
+          {preview.entries.length > 0 && (
+            <ul className="max-h-72 space-y-2 overflow-y-auto">
+              {preview.entries.map((entry) => (
+                <li
+                  key={entry.submissionId}
+                  className="flex flex-col gap-1 rounded-md border border-slate-800 bg-slate-950/70 p-3 text-xs text-slate-300 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <span className="font-semibold text-slate-100">{entry.companyName ?? entry.submissionId}</span>
+                  <span>
+                    {formatSnapshot(entry.before)} → {formatSnapshot(entry.after)}
+                    {entry.manualOverride && <span className="ml-2 text-amber-200">manual override kept</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={() => run(false)}
+              disabled={running || preview.changed === 0}
+              className="rounded-full border border-emerald-400/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-emerald-100 transition hover:bg-emerald-500/10 disabled:opacity-60"
+            >
+              {running ? "Applying…" : `Apply to ${preview.changed} submission${preview.changed === 1 ? "" : "s"}`}
+            </button>
+            <button
+              type="button"
+              onClick={() => setPreview(null)}
+              disabled={running}
+              className="rounded-full border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-slate-900/60"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+const assignmentStatusStyles: Record<OnboardingReviewAssignmentStatus, string> = {
+  pending: "border-blue-400/40 text-blue-200",
+  completed: "border-emerald-400/40 text-emerald-200",
+  overdue: "border-red-400/50 bg-red-400/10 text-red-200",
+};
+
+type AssignmentControlsProps = {
+  submission: OnboardingSubmissionSummary;
+  reviewers: ReviewerOption[];
+  currentUserId?: string;
+  canAssign: boolean;
+  onUpdated: (submission: OnboardingSubmissionSummary) => void;
+};
+
+function AssignmentControls({ submission, reviewers, currentUserId, canAssign, onUpdated }: AssignmentControlsProps) {
+  const assignedIds = useMemo(
+    () => (submission.assignments ?? []).map((assignment) => assignment.reviewerId),
+    [submission.assignments],
+  );
+  const ownConflict = submission.conflicts?.find((conflict) => conflict.reviewerId === currentUserId);
+  const [selected, setSelected] = useState<string[]>(assignedIds);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelected(assignedIds);
+    setError(null);
+  }, [assignedIds]);
+
+  const send = (path: string, method: string, body: unknown, fallback: string) => {
+    setSaving(true);
+    setError(null);
+    fetch(`/api/protected/onboarding/submissions/${submission.id}/${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as {
+          ok: boolean;
+          submission?: OnboardingSubmissionSummary;
+          error?: string;
+        };
+        if (!res.ok || !payload.ok || !payload.submission) {
+          throw new Error(payload.error ?? fallback);
+        }
+        setReason("");
+        onUpdated(payload.submission);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : fallback);
+      })
+      .finally(() => setSaving(false));
+  };
+
+  const conflicted = new Set((submission.conflicts ?? []).map((conflict) => conflict.reviewerId));
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-800/80 bg-slate-950/40 p-4">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-400">Reviewer assignment</h4>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      {submission.conflicts && submission.conflicts.length > 0 && (
+        <ul className="space-y-1 text-xs text-slate-400">
+          {submission.conflicts.map((conflict) => (
+            <li key={conflict.reviewerId}>
+              <span className="text-amber-200">Conflict:</span>{" "}
+              {conflict.reviewerId === currentUserId ? "You" : conflict.reviewerName ?? conflict.reviewerId}
+              {conflict.reason ? ` — ${conflict.reason}` : ""}
+            </li>
+          ))}
+        </ul>
+      )}
+      {ownConflict ? (
+        <button
+          type="button"
+          onClick={() => send("conflict", "DELETE", undefined, "Unable to withdraw conflict of interest")}
+          disabled={saving}
+          className="rounded-full border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-slate-900/60 disabled:opacity-60"
+        >
+          Withdraw my conflict
+        </button>
+      ) : (
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <input
+            type="text"
+            value={reason}
+            placeholder="Reason for conflict of interest (optional)"
+            onChange={(event) => setReason(event.target.value)}
+            className="flex-1 rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-xs text-slate-100 focus:border-amber-400 focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={() =>
+              send("conflict", "POST", { reason: reason.trim() || undefined }, "Unable to declare conflict of interest")
+            }
+            disabled={saving}
+            className="rounded-full border border-amber-400/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-amber-100 transition hover:bg-amber-500/10 disabled:opacity-60"
+          >
+            Declare conflict
+          </button>
+        </div>
+      )}
+      {canAssign && reviewers.length > 0 && (
+        <div className="space-y-2">
+          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+            {reviewers.map((reviewer) => (
+              <label key={reviewer.id} className="flex items-center gap-2 text-xs text-slate-200">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(reviewer.id)}
+                  disabled={conflicted.has(reviewer.id)}
+                  onChange={() =>
+                    setSelected((prev) =>
+                      prev.includes(reviewer.id) ? prev.filter((id) => id !== reviewer.id) : [...prev, reviewer.id],
+                    )
+                  }
+                  className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+                />
+                {reviewer.name ?? reviewer.email}
+                {conflicted.has(reviewer.id) ? " (conflict)" : ""}
+              </label>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => send("assignments", "PUT", { reviewerIds: selected }, "Unable to update reviewer assignments")}
+            disabled={saving}
+            className="rounded-full border border-blue-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/10 disabled:opacity-60"
+          >
+            Save assignments
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type InterviewSlotDraft = { resourceId: string; start: string; minutes: string };
+
+type MeetingRoom = { id: string; name: string; type: string; location?: string };
+
+type InterviewPanelProps = {
+  submission: OnboardingSubmissionSummary;
+  program?: OnboardingProgram;
+  reviewers: ReviewerOption[];
+  currentUserId?: string;
+  onUpdated: (submission: OnboardingSubmissionSummary) => void;
+};
+
+const EMPTY_SLOT: InterviewSlotDraft = { resourceId: "", start: "", minutes: "45" };
+
+function InterviewPanel({ submission, program, reviewers, currentUserId, onUpdated }: InterviewPanelProps) {
+  const [rooms, setRooms] = useState<MeetingRoom[]>([]);
+  const [slots, setSlots] = useState<InterviewSlotDraft[]>([EMPTY_SLOT]);
+  const [panelIds, setPanelIds] = useState<string[]>(currentUserId ? [currentUserId] : []);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const interviews = submission.interviews ?? [];
+
+  useEffect(() => {
+    let active = true;
+    fetch("/api/protected/facilities/resources", { cache: "no-store" })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; resources?: MeetingRoom[] };
+        if (active && payload.ok) {
+          setRooms((payload.resources ?? []).filter((resource) => resource.type === "meeting_room"));
+        }
+      })
+      .catch(() => {
+        if (active) setRooms([]);
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const send = (path: string, method: string, body: unknown, fallback: string, onDone?: () => void) => {
+    setSaving(true);
+    setError(null);
+    fetch(`/api/protected/onboarding/submissions/${submission.id}/${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as {
+          ok: boolean;
+          submission?: OnboardingSubmissionSummary;
+          error?: string;
+        };
+        if (!res.ok || !payload.ok || !payload.submission) {
+          throw new Error(payload.error ?? fallback);
+        }
+        onDone?.();
+        onUpdated(payload.submission);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : fallback);
+      })
+      .finally(() => setSaving(false));
+  };
+
+  const handleSchedule = () => {
+    const proposed = slots
+      .filter((slot) => slot.resourceId && slot.start)
+      .map((slot) => {
+        const start = new Date(slot.start);
+        const minutes = Math.max(5, Number(slot.minutes) || 45);
+        return {
+          resourceId: slot.resourceId,
+          startTime: start.toISOString(),
+          endTime: new Date(start.getTime() + minutes * 60_000).toISOString(),
+        };
+      });
+    if (!proposed.length) {
+      setError("Pick a room and start time for at least one slot");
+      return;
+    }
+    send("interviews", "POST", { panelIds, slots: proposed }, "Unable to schedule interview", () =>
+      setSlots([EMPTY_SLOT]),
+    );
+  };
+
+  const updateSlot = (index: number, patch: Partial<InterviewSlotDraft>) => {
+    setSlots((prev) => prev.map((slot, position) => (position === index ? { ...slot, ...patch } : slot)));
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-blue-500/30 bg-blue-500/5 p-4">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-blue-200">Interviews</h4>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {interviews.map((interview) => (
+        <InterviewCard
+          key={interview.id}
+          interview={interview}
+          program={program}
+          currentUserId={currentUserId}
+          saving={saving}
+          onCancel={() =>
+            send(`interviews/${interview.id}`, "DELETE", undefined, "Unable to cancel interview")
+          }
+          onScore={(body) =>
+            send(`interviews/${interview.id}/scorecard`, "PUT", body, "Unable to save interview scorecard")
+          }
+        />
+      ))}
+
+      <div className="space-y-3 rounded-md border border-slate-800 bg-slate-950/50 p-3">
+        <h5 className="text-[11px] font-semibold uppercase tracking-wide text-blue-200/80">Propose interview slots</h5>
+        {rooms.length === 0 ? (
+          <p className="text-xs text-slate-500">No meeting rooms are configured in facilities.</p>
+        ) : (
+          <>
+            <p className="text-xs text-slate-500">
+              Slots are tried in order; the first one with a free room and panel is booked.
+            </p>
+            {slots.map((slot, index) => (
+              <div key={index} className="grid gap-2 sm:grid-cols-[1fr_1fr_6rem_auto] sm:items-center">
+                <select
+                  value={slot.resourceId}
+                  onChange={(event) => updateSlot(index, { resourceId: event.target.value })}
+                  className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-blue-400 focus:outline-none"
+                >
+                  <option value="">Meeting room…</option>
+                  {rooms.map((room) => (
+                    <option key={room.id} value={room.id}>
+                      {room.name}
+                      {room.location ? ` · ${room.location}` : ""}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="datetime-local"
+                  value={slot.start}
+                  onChange={(event) => updateSlot(index, { start: event.target.value })}
+                  className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-blue-400 focus:outline-none"
+                />
+                <input
+                  type="number"
+                  min={5}
+                  step={5}
+                  value={slot.minutes}
+                  title="Duration in minutes"
+                  onChange={(event) => updateSlot(index, { minutes: event.target.value })}
+                  className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-blue-400 focus:outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={() => setSlots((prev) => prev.filter((_, position) => position !== index))}
+                  disabled={slots.length <= 1}
+                  className="text-xs font-semibold uppercase tracking-wide text-red-300 transition hover:text-red-200 disabled:opacity-40"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setSlots((prev) => [...prev, EMPTY_SLOT])}
+              className="rounded-full border border-slate-700 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-slate-900/60"
+            >
+              Add alternative slot
+            </button>
+            <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+              {reviewers.map((reviewer) => (
+                <label key={reviewer.id} className="flex items-center gap-2 text-xs text-slate-200">
+                  <input
+                    type="checkbox"
+                    checked={panelIds.includes(reviewer.id)}
+                    onChange={() =>
+                      setPanelIds((prev) =>
+                        prev.includes(reviewer.id) ? prev.filter((id) => id !== reviewer.id) : [...prev, reviewer.id],
+                      )
+                    }
+                    className="h-4 w-4 rounded border-slate-700 bg-slate-950 text-blue-500 focus:ring-blue-500"
+                  />
+                  {reviewer.id === currentUserId ? "You" : reviewer.name ?? reviewer.email}
+                </label>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={handleSchedule}
+              disabled={saving || panelIds.length === 0}
+              className="rounded-full border border-blue-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/10 disabled:opacity-60"
+            >
+              {saving ? "Booking…" : "Book interview"}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+type InterviewCardProps = {
+  interview: OnboardingInterview;
+  program?: OnboardingProgram;
+  currentUserId?: string;
+  saving: boolean;
+  onCancel: () => void;
+  onScore: (body: unknown) => void;
+};
+
+function InterviewCard({ interview, program, currentUserId, saving, onCancel, onScore }: InterviewCardProps) {
+  const rubric = getProgramRubric(program);
+  const scorecards = interview.scorecards ?? [];
+  const panel = summarizeReviewPanel(rubric, scorecards);
+  const ownScorecard = scorecards.find((scorecard) => scorecard.reviewerId === currentUserId);
+  const onPanel = interview.panel.some((member) => member.reviewerId === currentUserId);
+  const started = new Date(interview.startTime).getTime() <= Date.now();
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [recommendation, setRecommendation] = useState<StatusOption | "">("");
+  const [comment, setComment] = useState("");
+
+  const draftRevision = [interview.id, ownScorecard?.updatedAt].join("|");
+  const [hydrated, setHydrated] = useState<{ revision: string; rubric: OnboardingReviewRubric } | null>(null);
+  if (hydrated?.revision !== draftRevision || hydrated.rubric !== rubric) {
+    setHydrated({ revision: draftRevision, rubric });
+    setDraft(
+      Object.fromEntries(
+        rubric.criteria.map((criterion) => {
+          const entry = ownScorecard?.scores.find((score) => score.criterionId === criterion.id);
+          return [criterion.id, entry ? String(entry.score) : ""];
+        }),
+      ),
+    );
+    setRecommendation(ownScorecard?.recommendation ?? "");
+    setComment(ownScorecard?.comment ?? "");
+  }
+
+  const scaleValues = Array.from(
+    { length: Math.floor(rubric.scaleMax - rubric.scaleMin) + 1 },
+    (_, index) => rubric.scaleMin + index,
+  );
+
+  return (
+    <div className="space-y-2 rounded-md border border-slate-800 bg-slate-950/60 p-3 text-xs text-slate-300">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="font-semibold text-slate-100">{interview.title}</p>
+          <p className="text-slate-400">
+            {formatDate(interview.startTime)} – {formatDate(interview.endTime)} · {interview.resourceName ?? interview.resourceId}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="rounded-full border border-slate-700 px-2 py-0.5 uppercase tracking-wide">
+            {interview.status}
+          </span>
+          {interview.status === "scheduled" && interview.bookingStatus === "pending" && (
+            <span className="rounded-full border border-amber-400/50 px-2 py-0.5 text-amber-200">Room awaiting approval</span>
+          )}
+          {interview.status === "scheduled" && (
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={saving}
+              className="rounded-full border border-slate-700 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-slate-900/60 disabled:opacity-60"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+      <p>
+        Panel:{" "}
+        {interview.panel
+          .map((member) => (member.reviewerId === currentUserId ? "You" : member.name ?? member.email ?? member.reviewerId))
+          .join(", ")}
+      </p>
+      {interview.slots.some((slot) => slot.unavailableReason) && (
+        <ul className="space-y-1 text-slate-500">
+          {interview.slots
+            .filter((slot) => slot.unavailableReason)
+            .map((slot) => (
+              <li key={`${slot.resourceId}-${slot.startTime}`}>
+                Skipped {formatDate(slot.startTime)} in {slot.resourceName ?? slot.resourceId}: {slot.unavailableReason}
+              </li>
+            ))}
+        </ul>
+      )}
+      {scorecards.length > 0 && (
+        <ul className="space-y-1">
+          {scorecards.map((scorecard) => (
+            <li key={scorecard.reviewerId}>
+              <span className="font-semibold text-slate-200">
+                {scorecard.reviewerId === currentUserId ? "You" : scorecard.reviewerName ?? scorecard.reviewerId}
+              </span>
+              : {scorecard.overall} / {rubric.scaleMax}
+              {scorecard.recommendation ? ` · recommends ${statusLabels[scorecard.recommendation]}` : ""}
+              {scorecard.comment ? <span className="text-slate-500"> — {scorecard.comment}</span> : null}
+            </li>
+          ))}
+          <li className="text-blue-200">
+            Interview {PANEL_AGGREGATION_LABELS[panel.aggregation].toLowerCase()}: {panel.score ?? "—"} / {rubric.scaleMax}
+          </li>
+        </ul>
+      )}
+      {onPanel && started && interview.status !== "cancelled" && (
+        <div className="space-y-2 border-t border-slate-800 pt-2">
+          <div className="flex flex-wrap gap-3">
+            {rubric.criteria.map((criterion) => (
+              <label key={criterion.id} className="flex items-center gap-2">
+                {criterion.label}
+                <select
+                  value={draft[criterion.id] ?? ""}
+                  onChange={(event) => setDraft((prev) => ({ ...prev, [criterion.id]: event.target.value }))}
+                  className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-blue-400 focus:outline-none"
+                >
+                  <option value="">—</option>
+                  {scaleValues.map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="grid gap-2 md:grid-cols-[12rem_1fr_auto]">
+            <select
+              value={recommendation}
+              onChange={(event) => setRecommendation(event.target.value as StatusOption | "")}
+              className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-blue-400 focus:outline-none"
+            >
+              <option value="">No recommendation</option>
+              {(["advance", "review", "reject"] as StatusOption[]).map((option) => (
+                <option key={option} value={option}>
+                  Recommend {statusLabels[option]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={comment}
+              placeholder="Interview notes"
+              onChange={(event) => setComment(event.target.value)}
+              className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-blue-400 focus:outline-none"
+            />
+            <button
+              type="button"
+              onClick={() =>
+                onScore({
+                  scores: rubric.criteria.map((criterion) => ({
+                    criterionId: criterion.id,
+                    score: Number(draft[criterion.id]),
+                  })),
+                  recommendation: recommendation || undefined,
+                  comment: comment.trim() || undefined,
+                })
+              }
+              disabled={saving || rubric.criteria.some((criterion) => !draft[criterion.id])}
+              className="rounded-full border border-blue-500/70 px-4 py-1 text-[11px] font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/10 disabled:opacity-60"
+            >
+              {ownScorecard ? "Update interview scorecard" : "Submit interview scorecard"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type LifecyclePanelProps = {
+  submission: OnboardingSubmissionSummary;
+  lifecycle: OnboardingLifecycle;
+  canFinalize: boolean;
+  onUpdated: (submission: OnboardingSubmissionSummary) => void;
+};
+
+function LifecyclePanel({ submission, lifecycle, canFinalize, onUpdated }: LifecyclePanelProps) {
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const current = submissionLifecycleState(submission, lifecycle);
+  const options = allowedLifecycleTransitions(lifecycle, current);
+  const history = submission.lifecycleHistory ?? [];
+
+  const move = (to: string) => {
+    setSaving(true);
+    setError(null);
+    fetch(`/api/protected/onboarding/submissions/${submission.id}/lifecycle`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ to, note: note.trim() || undefined }),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as {
+          ok: boolean;
+          submission?: OnboardingSubmissionSummary;
+          error?: string;
+        };
+        if (!res.ok || !payload.ok || !payload.submission) {
+          throw new Error(payload.error ?? "Unable to update application status");
+        }
+        setNote("");
+        onUpdated(payload.submission);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to update application status");
+      })
+      .finally(() => setSaving(false));
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-800/80 bg-slate-950/40 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-400">Application status</h4>
+        <span className="text-xs font-semibold text-purple-200">{lifecycleStateLabel(lifecycle, current)}</span>
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      {options.length > 0 && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={note}
+            placeholder="Note for the status history (optional)"
+            onChange={(event) => setNote(event.target.value)}
+            className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-xs text-slate-100 focus:border-purple-400 focus:outline-none"
+          />
+          <div className="flex flex-wrap gap-2">
+            {options.map((state) => (
+              <button
+                key={state.id}
+                type="button"
+                onClick={() => move(state.id)}
+                disabled={saving || (state.terminal && !canFinalize)}
+                title={state.terminal && !canFinalize ? "Only the panel chair can make a final decision" : state.description}
+                className="rounded-full border border-purple-500/60 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-purple-100 transition hover:bg-purple-500/10 disabled:opacity-40"
+              >
+                Move to {state.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      <ol className="space-y-1 text-xs text-slate-400">
+        <li>
+          {lifecycleStateLabel(lifecycle, lifecycle.initialState)} · {formatDate(submission.submittedAt)}
+        </li>
+        {history.map((transition) => (
+          <li key={`${transition.at}-${transition.to}`}>
+            {lifecycleStateLabel(lifecycle, transition.from)} → {lifecycleStateLabel(lifecycle, transition.to)} ·{" "}
+            {transition.actorName ?? transition.actorId} · {formatDate(transition.at)}
+            {transition.note ? <span className="text-slate-500"> — {transition.note}</span> : null}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+type AdmissionPanelProps = {
+  submission: OnboardingSubmissionSummary;
+  lifecycle: OnboardingLifecycle;
+  onUpdated: (submission: OnboardingSubmissionSummary) => void;
+};
+
+function AdmissionPanel({ submission, lifecycle, onUpdated }: AdmissionPanelProps) {
+  const [form, setForm] = useState({ cohort: "", founderEmail: "", founderName: "", programStartAt: "", welcomeMessage: "" });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const admission = submission.admission;
+  const current = submissionLifecycleState(submission, lifecycle);
+  const canAdmit =
+    current === ACCEPTED_LIFECYCLE_STATE ||
+    allowedLifecycleTransitions(lifecycle, current).some((state) => state.id === ACCEPTED_LIFECYCLE_STATE);
+  const suggestedEmail = submission.responses.find((response) => response.type === "email" && response.value)?.value;
+
+  if (!admission && !canAdmit) {
+    return null;
+  }
+
+  const handleAdmit = () => {
+    setSaving(true);
+    setError(null);
+    fetch(`/api/protected/onboarding/submissions/${submission.id}/admit`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        cohort: form.cohort,
+        founderEmail: form.founderEmail.trim(),
+        founderName: form.founderName.trim() || undefined,
+        programStartAt: form.programStartAt ? new Date(form.programStartAt).toISOString() : undefined,
+        welcomeMessage: form.welcomeMessage.trim() || undefined,
+      }),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as {
+          ok: boolean;
+          submission?: OnboardingSubmissionSummary;
+          error?: string;
+        };
+        if (!res.ok || !payload.ok || !payload.submission) {
+          throw new Error(payload.error ?? "Unable to admit startup");
+        }
+        onUpdated(payload.submission);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to admit startup");
+      })
+      .finally(() => setSaving(false));
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-sky-500/30 bg-sky-500/5 p-4">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-sky-200">Admission</h4>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      {admission ? (
+        <div className="space-y-1 text-xs text-slate-300">
+          <p>
+            Admitted to the <span className="font-semibold text-sky-100">{admission.cohort}</span> cohort by{" "}
+            {admission.admittedByName ?? admission.admittedBy} · {formatDate(admission.admittedAt)}
+          </p>
+          <p className="text-slate-400">
+            Founder {admission.founderEmail} · {admission.invited ? "new account invited" : "existing account linked"}
+          </p>
+          {admission.welcomeEmail && (
+            <p className={admission.welcomeEmail.error ? "text-red-300" : "text-slate-400"}>
+              {admission.welcomeEmail.error
+                ? `Welcome email failed: ${admission.welcomeEmail.error}`
+                : `Welcome email sent ${formatDate(admission.welcomeEmail.sentAt)}`}
+            </p>
+          )}
+          <Link href={`/protected/onboarding/startups/${submission.id}`} className="text-sky-300 underline">
+            Open startup workspace
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-400">
+            Accepts the application, invites and emails the founder, and sets up the checklist, milestone plan and
+            alumni record. Confirm the founder email yourself; staff accounts cannot be linked as founders.
+          </p>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <input
+              type="text"
+              value={form.cohort}
+              placeholder="Cohort e.g. 2026 Spring"
+              onChange={(event) => setForm((prev) => ({ ...prev, cohort: event.target.value }))}
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+            />
+            <input
+              type="date"
+              value={form.programStartAt}
+              onChange={(event) => setForm((prev) => ({ ...prev, programStartAt: event.target.value }))}
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+            />
+            <input
+              type="email"
+              value={form.founderEmail}
+              placeholder="Founder email"
+              onChange={(event) => setForm((prev) => ({ ...prev, founderEmail: event.target.value }))}
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+            />
+            <input
+              type="text"
+              value={form.founderName}
+              placeholder="Founder name (optional)"
+              onChange={(event) => setForm((prev) => ({ ...prev, founderName: event.target.value }))}
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+            />
+          </div>
+          {typeof suggestedEmail === "string" && suggestedEmail !== form.founderEmail.trim() && (
+            <button
+              type="button"
+              onClick={() => setForm((prev) => ({ ...prev, founderEmail: suggestedEmail }))}
+              className="text-[11px] text-sky-300 underline"
+            >
+              Use applicant email {suggestedEmail}
+            </button>
+          )}
+          <textarea
+            value={form.welcomeMessage}
+            rows={2}
+            placeholder="Welcome notice emailed to the founder and shown on the status page (optional)"
+            onChange={(event) => setForm((prev) => ({ ...prev, welcomeMessage: event.target.value }))}
+            className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-sky-400 focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={handleAdmit}
+            disabled={saving || !form.cohort.trim() || !form.founderEmail.trim()}
+            className="rounded-full border border-sky-500/60 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-sky-100 transition hover:bg-sky-500/10 disabled:opacity-60"
+          >
+            {saving ? "Admitting…" : "Admit startup"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type ApplicantPortalPanelProps = {
+  submission: OnboardingSubmissionSummary;
+  onUpdated: (submission: OnboardingSubmissionSummary) => void;
+};
+
+const DOCUMENT_REQUEST_STATUS_STYLES: Record<OnboardingDocumentRequestStatus, string> = {
+  open: "border-amber-500/50 text-amber-200",
+  fulfilled: "border-emerald-500/50 text-emerald-200",
+  cancelled: "border-slate-700 text-slate-500",
+};
+
+function ApplicantPortalPanel({ submission, onUpdated }: ApplicantPortalPanelProps) {
+  const [message, setMessage] = useState("");
+  const [request, setRequest] = useState({ title: "", description: "", dueAt: "" });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const feedback = submission.applicantFeedback ?? [];
+  const documentRequests = submission.documentRequests ?? [];
+  const statusUrl =
+    submission.statusToken && typeof window !== "undefined"
+      ? `${window.location.origin}/onboarding/status/${submission.statusToken}`
+      : null;
+
+  const send = (path: string, method: string, body: unknown, fallback: string, onDone?: () => void) => {
+    setSaving(true);
+    setError(null);
+    fetch(`/api/protected/onboarding/submissions/${submission.id}/${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as {
+          ok: boolean;
+          submission?: OnboardingSubmissionSummary;
+          statusToken?: string;
+          error?: string;
+        };
+        if (!res.ok || !payload.ok) {
+          throw new Error(payload.error ?? fallback);
+        }
+        onDone?.();
+        if (payload.submission) {
+          onUpdated(payload.submission);
+        } else if (payload.statusToken) {
+          onUpdated({ ...submission, statusToken: payload.statusToken });
+        }
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : fallback);
+      })
+      .finally(() => setSaving(false));
+  };
+
+  const handleCopy = () => {
+    if (!statusUrl) return;
+    navigator.clipboard
+      .writeText(statusUrl)
+      .then(() => setCopied(true))
+      .catch(() => setCopied(false));
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-emerald-500/30 bg-emerald-500/5 p-4">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-emerald-200">Applicant portal</h4>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {statusUrl ? (
+          <>
+            <code className="max-w-full truncate rounded bg-slate-950/70 px-2 py-1 text-slate-300">{statusUrl}</code>
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="rounded-full border border-slate-700 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-slate-900/60"
+            >
+              {copied ? "Copied" : "Copy link"}
+            </button>
+          </>
+        ) : (
+          <span className="text-slate-500">No status link has been issued for this application.</span>
+        )}
+        <button
+          type="button"
+          onClick={() => {
+            if (statusUrl && !window.confirm("The current link will stop working. Issue a new one?")) return;
+            setCopied(false);
+            send("status-link", "POST", undefined, "Unable to issue status link");
+          }}
+          disabled={saving}
+          className="rounded-full border border-emerald-500/60 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-emerald-100 transition hover:bg-emerald-500/10 disabled:opacity-60"
+        >
+          {statusUrl ? "Regenerate link" : "Issue link"}
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <h5 className="text-[11px] font-semibold uppercase tracking-wide text-emerald-200/80">Shared feedback</h5>
+        {feedback.length === 0 && <p className="text-xs text-slate-500">Nothing has been shared with the applicant.</p>}
+        {feedback.map((entry) => (
+          <div key={entry.id} className="rounded-md border border-slate-800 bg-slate-950/50 px-3 py-2 text-xs">
+            <p className="whitespace-pre-wrap text-slate-200">{entry.message}</p>
+            <p className="mt-1 flex items-center justify-between text-slate-500">
+              <span>
+                {entry.sharedByName ?? entry.sharedBy} · {formatDate(entry.sharedAt)}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  send(
+                    `feedback?feedbackId=${encodeURIComponent(entry.id)}`,
+                    "DELETE",
+                    undefined,
+                    "Unable to withdraw feedback",
+                  )
+                }
+                disabled={saving}
+                className="font-semibold uppercase tracking-wide text-red-300 transition hover:text-red-200 disabled:opacity-40"
+              >
+                Withdraw
+              </button>
+            </p>
+          </div>
+        ))}
+        <textarea
+          value={message}
+          onChange={(event) => setMessage(event.target.value)}
+          rows={2}
+          placeholder="Feedback the applicant will see on their status page"
+          className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-emerald-400 focus:outline-none"
+        />
+        <button
+          type="button"
+          onClick={() => send("feedback", "POST", { message }, "Unable to share feedback", () => setMessage(""))}
+          disabled={saving || !message.trim()}
+          className="rounded-full border border-emerald-500/60 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-emerald-100 transition hover:bg-emerald-500/10 disabled:opacity-60"
+        >
+          Share with applicant
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <h5 className="text-[11px] font-semibold uppercase tracking-wide text-emerald-200/80">Document requests</h5>
+        {documentRequests.map((entry) => (
+          <div key={entry.id} className="space-y-1 rounded-md border border-slate-800 bg-slate-950/50 px-3 py-2 text-xs">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-semibold text-slate-200">{entry.title}</span>
+              <span
+                className={`rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-wide ${DOCUMENT_REQUEST_STATUS_STYLES[entry.status]}`}
+              >
+                {entry.status}
+              </span>
+              {entry.dueAt && <span className="text-slate-500">due {formatDate(entry.dueAt)}</span>}
+              {entry.status === "open" && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    send(
+                      `document-requests?requestId=${encodeURIComponent(entry.id)}`,
+                      "DELETE",
+                      undefined,
+                      "Unable to cancel document request",
+                    )
+                  }
+                  disabled={saving}
+                  className="ml-auto font-semibold uppercase tracking-wide text-red-300 transition hover:text-red-200 disabled:opacity-40"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+            {entry.description && <p className="text-slate-400">{entry.description}</p>}
+            {entry.attachments?.map((attachment) =>
+              attachment.url ? (
+                <a
+                  key={attachment.key}
+                  href={attachment.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="block text-blue-300 underline"
+                >
+                  {attachment.name}
+                </a>
+              ) : (
+                <span key={attachment.key} className="block text-slate-300">
+                  {attachment.name}
+                </span>
+              ),
+            )}
+          </div>
+        ))}
+        <div className="grid gap-2 sm:grid-cols-[1fr_10rem]">
+          <input
+            value={request.title}
+            onChange={(event) => setRequest((prev) => ({ ...prev, title: event.target.value }))}
+            placeholder="Document, e.g. Cap table"
+            className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-emerald-400 focus:outline-none"
+          />
+          <input
+            type="date"
+            value={request.dueAt}
+            title="Due date"
+            onChange={(event) => setRequest((prev) => ({ ...prev, dueAt: event.target.value }))}
+            className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-emerald-400 focus:outline-none"
+          />
+        </div>
+        <input
+          value={request.description}
+          onChange={(event) => setRequest((prev) => ({ ...prev, description: event.target.value }))}
+          placeholder="Instructions for the applicant (optional)"
+          className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-emerald-400 focus:outline-none"
+        />
+        <button
+          type="button"
+          onClick={() =>
+            send(
+              "document-requests",
+              "POST",
+              {
+                title: request.title,
+                description: request.description,
+                dueAt: request.dueAt ? new Date(request.dueAt).toISOString() : undefined,
+              },
+              "Unable to request documents",
+              () => setRequest({ title: "", description: "", dueAt: "" }),
+            )
+          }
+          disabled={saving || !request.title.trim()}
+          className="rounded-full border border-emerald-500/60 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-emerald-100 transition hover:bg-emerald-500/10 disabled:opacity-60"
+        >
+          Request documents
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const openThreadCount = (submission: OnboardingSubmissionSummary) =>
+  submission.comments?.filter((comment) => !comment.parentId && !comment.resolvedAt).length ?? 0;
+
+type CommentDraft = { body: string; mentionIds: string[]; fieldId: string };
+
+const EMPTY_COMMENT: CommentDraft = { body: "", mentionIds: [], fieldId: "" };
+
+const reviewerOptionLabel = (reviewers: ReviewerOption[], id: string) => {
+  const reviewer = reviewers.find((entry) => entry.id === id);
+  return reviewer ? reviewer.name ?? reviewer.email : id;
+};
+
+type CommentComposerProps = {
+  initial?: CommentDraft;
+  reviewers: ReviewerOption[];
+  fields?: Array<{ fieldId: string; label: string }>;
+  submitLabel: string;
+  saving: boolean;
+  onSubmit: (draft: CommentDraft, reset: () => void) => void;
+  onCancel?: () => void;
+};
+
+function CommentComposer({ initial, reviewers, fields, submitLabel, saving, onSubmit, onCancel }: CommentComposerProps) {
+  const [draft, setDraft] = useState<CommentDraft>(initial ?? EMPTY_COMMENT);
+
+  const addMention = (reviewerId: string) => {
+    if (!reviewerId || draft.mentionIds.includes(reviewerId)) return;
+    setDraft((prev) => ({
+      ...prev,
+      body: `${prev.body}${prev.body && !prev.body.endsWith(" ") ? " " : ""}@${reviewerOptionLabel(reviewers, reviewerId)} `,
+      mentionIds: [...prev.mentionIds, reviewerId],
+    }));
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={draft.body}
+        onChange={(event) => setDraft((prev) => ({ ...prev, body: event.target.value }))}
+        rows={2}
+        placeholder="Visible to reviewers only"
+        className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-violet-400 focus:outline-none"
+      />
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <select
+          value=""
+          onChange={(event) => addMention(event.target.value)}
+          className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-violet-400 focus:outline-none"
+        >
+          <option value="">Mention…</option>
+          {reviewers
+            .filter((reviewer) => !draft.mentionIds.includes(reviewer.id))
+            .map((reviewer) => (
+              <option key={reviewer.id} value={reviewer.id}>
+                {reviewerOptionLabel(reviewers, reviewer.id)}
+              </option>
+            ))}
+        </select>
+        {fields && (
+          <select
+            value={draft.fieldId}
+            onChange={(event) => setDraft((prev) => ({ ...prev, fieldId: event.target.value }))}
+            className="max-w-[14rem] rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:border-violet-400 focus:outline-none"
+          >
+            <option value="">Whole submission</option>
+            {fields.map((field) => (
+              <option key={field.fieldId} value={field.fieldId}>
+                {field.label}
+              </option>
+            ))}
+          </select>
+        )}
+        {draft.mentionIds.map((id) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setDraft((prev) => ({ ...prev, mentionIds: prev.mentionIds.filter((entry) => entry !== id) }))}
+            title="Remove mention"
+            className="rounded-full border border-violet-500/50 px-2 py-0.5 text-violet-200"
+          >
+            @{reviewerOptionLabel(reviewers, id)} ×
+          </button>
+        ))}
+        <span className="ml-auto flex gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="font-semibold uppercase tracking-wide text-slate-400 transition hover:text-slate-200"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => onSubmit(draft, () => setDraft(EMPTY_COMMENT))}
+            disabled={saving || !draft.body.trim()}
+            className="rounded-full border border-violet-500/60 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-violet-100 transition hover:bg-violet-500/10 disabled:opacity-60"
+          >
+            {submitLabel}
+          </button>
+        </span>
+      </div>
+    </div>
+  );
+}
+
+type CommentEntryProps = {
+  comment: OnboardingSubmissionComment;
+  reviewers: ReviewerOption[];
+  currentUserId?: string;
+  saving: boolean;
+  onEdit: (draft: CommentDraft, done: () => void) => void;
+};
+
+function CommentEntry({ comment, reviewers, currentUserId, saving, onEdit }: CommentEntryProps) {
+  const [editing, setEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const mentioned = comment.mentions.map((id) => (id === currentUserId ? "you" : reviewerOptionLabel(reviewers, id)));
+
+  if (editing) {
+    return (
+      <CommentComposer
+        initial={{ body: comment.body, mentionIds: comment.mentions, fieldId: "" }}
+        reviewers={reviewers}
+        submitLabel="Save"
+        saving={saving}
+        onSubmit={(draft) => onEdit(draft, () => setEditing(false))}
+        onCancel={() => setEditing(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      <p className="flex flex-wrap items-center gap-2 text-slate-500">
+        <span className="font-semibold text-slate-300">
+          {comment.authorId === currentUserId ? "You" : comment.authorName ?? comment.authorId}
+        </span>
+        <span>{formatDate(comment.createdAt)}</span>
+        {comment.edits?.length ? (
+          <button type="button" onClick={() => setShowHistory((prev) => !prev)} className="underline">
+            edited
+          </button>
+        ) : null}
+        {comment.authorId === currentUserId && (
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            className="font-semibold uppercase tracking-wide text-violet-300 transition hover:text-violet-200"
+          >
+            Edit
+          </button>
+        )}
+      </p>
+      <p className="whitespace-pre-wrap text-slate-200">{comment.body}</p>
+      {mentioned.length > 0 && <p className="text-violet-300/80">Mentions {mentioned.join(", ")}</p>}
+      {showHistory && (
+        <ol className="space-y-1 border-l border-slate-800 pl-3 text-slate-500">
+          {comment.edits?.map((edit) => (
+            <li key={edit.editedAt}>
+              <span className="text-slate-600">Before {formatDate(edit.editedAt)}:</span>{" "}
+              <span className="whitespace-pre-wrap">{edit.body}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+type CommentsPanelProps = {
+  submission: OnboardingSubmissionSummary;
+  reviewers: ReviewerOption[];
+  currentUserId?: string;
+  onUpdated: (submission: OnboardingSubmissionSummary) => void;
+};
+
+function CommentsPanel({ submission, reviewers, currentUserId, onUpdated }: CommentsPanelProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const comments = submission.comments ?? [];
+  const threads = comments.filter((comment) => !comment.parentId);
+  const visibleThreads = threads.filter((thread) => showResolved || !thread.resolvedAt);
+  const fieldLabel = (fieldId?: string) =>
+    fieldId ? submission.responses.find((response) => response.fieldId === fieldId)?.label ?? fieldId : undefined;
+
+  const send = (path: string, method: string, body: unknown, fallback: string, onDone?: () => void) => {
+    setSaving(true);
+    setError(null);
+    fetch(`/api/protected/onboarding/submissions/${submission.id}/${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as {
+          ok: boolean;
+          submission?: OnboardingSubmissionSummary;
+          error?: string;
+        };
+        if (!res.ok || !payload.ok || !payload.submission) {
+          throw new Error(payload.error ?? fallback);
+        }
+        onDone?.();
+        onUpdated(payload.submission);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : fallback);
+      })
+      .finally(() => setSaving(false));
+  };
+
+  const editComment = (commentId: string) => (draft: CommentDraft, done: () => void) =>
+    send(
+      `comments/${commentId}`,
+      "PATCH",
+      { body: draft.body, mentionIds: draft.mentionIds },
+      "Unable to edit comment",
+      done,
+    );
+
+  return (
+    <div className="space-y-3 rounded-lg border border-violet-500/30 bg-violet-500/5 p-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-violet-200">Internal discussion</h4>
+        {threads.some((thread) => thread.resolvedAt) && (
+          <button
+            type="button"
+            onClick={() => setShowResolved((prev) => !prev)}
+            className="text-[11px] font-semibold uppercase tracking-wide text-slate-400 transition hover:text-slate-200"
+          >
+            {showResolved ? "Hide resolved" : `Show resolved (${threads.filter((thread) => thread.resolvedAt).length})`}
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {visibleThreads.map((thread) => (
+        <div
+          key={thread.id}
+          className={`space-y-2 rounded-md border border-slate-800 bg-slate-950/50 p-3 ${thread.resolvedAt ? "opacity-70" : ""}`}
+        >
+          {thread.fieldId && (
+            <p className="text-[11px] uppercase tracking-wide text-violet-300/80">On {fieldLabel(thread.fieldId)}</p>
+          )}
+          <CommentEntry
+            comment={thread}
+            reviewers={reviewers}
+            currentUserId={currentUserId}
+            saving={saving}
+            onEdit={editComment(thread.id)}
+          />
+          {comments
+            .filter((comment) => comment.parentId === thread.id)
+            .map((reply) => (
+              <div key={reply.id} className="border-l border-slate-800 pl-3">
+                <CommentEntry
+                  comment={reply}
+                  reviewers={reviewers}
+                  currentUserId={currentUserId}
+                  saving={saving}
+                  onEdit={editComment(reply.id)}
+                />
+              </div>
+            ))}
+          {replyTo === thread.id ? (
+            <CommentComposer
+              reviewers={reviewers}
+              submitLabel="Reply"
+              saving={saving}
+              onSubmit={(draft) =>
+                send(
+                  "comments",
+                  "POST",
+                  { body: draft.body, mentionIds: draft.mentionIds, parentId: thread.id },
+                  "Unable to add comment",
+                  () => setReplyTo(null),
+                )
+              }
+              onCancel={() => setReplyTo(null)}
+            />
+          ) : (
+            <div className="flex gap-3 text-[11px] font-semibold uppercase tracking-wide">
+              {!thread.resolvedAt && (
+                <button type="button" onClick={() => setReplyTo(thread.id)} className="text-violet-300 hover:text-violet-200">
+                  Reply
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() =>
+                  send(
+                    `comments/${thread.id}/resolve`,
+                    thread.resolvedAt ? "DELETE" : "POST",
+                    undefined,
+                    thread.resolvedAt ? "Unable to reopen thread" : "Unable to resolve thread",
+                  )
+                }
+                disabled={saving}
+                className="text-slate-400 hover:text-slate-200 disabled:opacity-40"
+              >
+                {thread.resolvedAt ? "Reopen" : "Resolve"}
+              </button>
+              {thread.resolvedAt && (
+                <span className="font-normal normal-case tracking-normal text-slate-500">
+                  Resolved by {thread.resolvedByName ?? thread.resolvedBy} · {formatDate(thread.resolvedAt)}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <CommentComposer
+        reviewers={reviewers}
+        fields={submission.responses.map(({ fieldId, label }) => ({ fieldId, label }))}
+        submitLabel="Comment"
+        saving={saving}
+        onSubmit={(draft, reset) =>
+          send(
+            "comments",
+            "POST",
+            { body: draft.body, mentionIds: draft.mentionIds, fieldId: draft.fieldId || undefined },
+            "Unable to add comment",
+            reset,
+          )
+        }
+      />
+    </div>
+  );
+}
+
+type DuplicatePanelProps = {
+  submission: OnboardingSubmissionSummary;
+  lifecycle: OnboardingLifecycle;
+  onResolved: () => void;
+  onSelect: (submissionId: string) => void;
+};
+
+function DuplicatePanel({ submission, lifecycle, onResolved, onSelect }: DuplicatePanelProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const matches = submission.duplicates ?? [];
+
+  const send = (method: string, otherId: string, action?: "dismissed" | "merged") => {
+    setSaving(true);
+    setError(null);
+    const fallback = action ? "Unable to resolve duplicate flag" : "Unable to reopen duplicate flag";
+    const query = method === "DELETE" ? `?otherId=${encodeURIComponent(otherId)}` : "";
+    fetch(`/api/protected/onboarding/submissions/${submission.id}/duplicates${query}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: method === "DELETE" ? undefined : JSON.stringify({ otherId, action }),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as { ok: boolean; error?: string };
+        if (!res.ok || !payload.ok) {
+          throw new Error(payload.error ?? fallback);
+        }
+        onResolved();
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : fallback);
+      })
+      .finally(() => setSaving(false));
+  };
+
+  if (!matches.length) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-amber-500/40 bg-amber-500/5 p-4">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-amber-200">Possible duplicates</h4>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      <ul className="space-y-3">
+        {matches.map((match) => (
+          <li key={match.submissionId} className="space-y-2 rounded-md border border-slate-800/80 bg-slate-950/40 p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="space-y-1">
+                <a
+                  href={`#submission-${match.submissionId}`}
+                  onClick={() => onSelect(match.submissionId)}
+                  className="text-sm font-semibold text-slate-100 hover:text-blue-200"
+                >
+                  {match.companyName ?? "Unnamed submission"}
+                </a>
+                <p className="text-[11px] text-slate-500">
+                  {match.relation === "earlier" ? "Earlier" : "Later"} application · submitted {formatDate(match.submittedAt)}
+                  {" · "}
+                  {match.lifecycleState ? `${lifecycleStateLabel(lifecycle, match.lifecycleState)} · ` : ""}
+                  {match.decision ? `decision: ${statusLabels[match.decision]}` : `score: ${statusLabels[match.status]}`}
+                </p>
+              </div>
+              {match.resolution ? (
+                <div className="flex items-center gap-2">
+                  <span className="text-[11px] uppercase tracking-wide text-slate-400">
+                    {match.resolution === "merged"
+                      ? match.relation === "earlier"
+                        ? "Merged into this earlier application"
+                        : "Merged into this application"
+                      : "Dismissed"}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => send("DELETE", match.submissionId)}
+                    disabled={saving}
+                    className="rounded-full border border-slate-700 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-slate-900/60 disabled:opacity-60"
+                  >
+                    Undo
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => send("POST", match.submissionId, "merged")}
+                    disabled={saving}
+                    className="rounded-full border border-amber-400/70 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-amber-100 transition hover:bg-amber-500/10 disabled:opacity-60"
+                  >
+                    Merge
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => send("POST", match.submissionId, "dismissed")}
+                    disabled={saving}
+                    className="rounded-full border border-slate-700 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-slate-900/60 disabled:opacity-60"
+                  >
+                    Not a duplicate
+                  </button>
+                </div>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {match.signals.map((signal) => (
+                <span key={signal} className="rounded-full border border-amber-500/40 px-2 py-0.5 text-[11px] text-amber-100">
+                  {DUPLICATE_SIGNAL_LABELS[signal]}
+                  {signal === "company_name" && match.nameSimilarity !== undefined
+                    ? ` (${Math.round(match.nameSimilarity * 100)}%)`
+                    : ""}
+                </span>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function WorkloadPanel({ programId, canAssign, refreshKey, onAssigned }: {
+  programId: string;
+  canAssign: boolean;
+  refreshKey: number;
+  onAssigned: () => void;
+}) {
+  const [workload, setWorkload] = useState<OnboardingReviewerWorkload[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [assigning, setAssigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/protected/onboarding/workload?${new URLSearchParams({ program: programId }).toString()}`, {
+      cache: "no-store",
+      signal: controller.signal,
+    })
+      .then(async (res) => (await res.json()) as { ok: boolean; workload?: OnboardingReviewerWorkload[]; error?: string })
+      .then((payload) => {
+        if (!payload.ok) {
+          throw new Error(payload.error ?? "Unable to load reviewer workload");
+        }
+        setWorkload(payload.workload ?? []);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        setError(err instanceof Error ? err.message : "Unable to load reviewer workload");
+        setWorkload([]);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [programId, refreshKey]);
+
+  const handleAssign = () => {
+    setAssigning(true);
+    setError(null);
+    setNotice(null);
+    fetch("/api/protected/onboarding/workload", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ program: programId }),
+    })
+      .then(async (res) => {
+        const payload = (await res.json()) as {
+          ok: boolean;
+          assigned?: number;
+          workload?: OnboardingReviewerWorkload[];
+          error?: string;
+        };
+        if (!res.ok || !payload.ok) {
+          throw new Error(payload.error ?? "Unable to assign submissions");
+        }
+        setWorkload(payload.workload ?? []);
+        setNotice(`${payload.assigned ?? 0} review${payload.assigned === 1 ? "" : "s"} assigned.`);
+        onAssigned();
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to assign submissions");
+      })
+      .finally(() => setAssigning(false));
   };
 
   return (
-    <div className="space-y-4 rounded-lg border border-amber-500/30 bg-amber-500/5 p-4">
-      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
-        <h4 className="text-xs font-semibold uppercase tracking-wide text-amber-200">
-          Manual decision controls
-        </h4>
-        {manualScore?.updatedAt && (
-          <span className="text-[11px] text-amber-200/80">
-            Last updated {new Date(manualScore.updatedAt).toLocaleString()}
-            {manualScore.updatedBy ? ` by ${manualScore.updatedBy}` : ""}
-          </span>
+    <section className="space-y-4 rounded-2xl border border-slate-800/70 bg-slate-950/60 p-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-100">Reviewer workload</h2>
+          <p className="text-xs text-slate-500">Assigned, pending and overdue reviews per reviewer.</p>
+        </div>
+        {canAssign && (
+          <button
+            type="button"
+            onClick={handleAssign}
+            disabled={assigning}
+            className="rounded-full border border-blue-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/10 disabled:opacity-60"
+          >
+            {assigning ? "Assigning…" : "Assign open submissions"}
+          </button>
         )}
       </div>
-      {error && <p className="text-xs text-red-300">{error}</p>}
-      {success && <p className="text-xs text-emerald-300">{success}</p>}
-      <div className="grid gap-3 md:grid-cols-3">
-        <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-amber-200/80">
-          Decision
+      {error && <p className="text-sm text-red-300">{error}</p>}
+      {notice && <p className="text-sm text-emerald-300">{notice}</p>}
+      {loading ? (
+        <p className="text-sm text-blue-200/70">Loading workload…</p>
+      ) : workload.length === 0 ? (
+        <p className="text-sm text-slate-400">No reviewers in this program&apos;s pool yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs text-slate-300">
+            <thead className="text-[11px] uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="py-1 pr-3">Reviewer</th>
+                <th className="py-1 pr-3">Assigned</th>
+                <th className="py-1 pr-3">Pending</th>
+                <th className="py-1 pr-3">Overdue</th>
+                <th className="py-1 pr-3">Completed</th>
+                <th className="py-1 pr-3">Conflicts</th>
+              </tr>
+            </thead>
+            <tbody>
+              {workload.map((entry) => (
+                <tr key={entry.reviewerId} className="border-t border-slate-800">
+                  <td className="py-1 pr-3 text-slate-100">{entry.name}</td>
+                  <td className="py-1 pr-3">{entry.assigned}</td>
+                  <td className="py-1 pr-3 text-blue-200">{entry.pending}</td>
+                  <td className={`py-1 pr-3 ${entry.overdue ? "text-red-300" : ""}`}>{entry.overdue}</td>
+                  <td className="py-1 pr-3 text-emerald-200">{entry.completed}</td>
+                  <td className="py-1 pr-3 text-amber-200">{entry.conflicts}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function AbandonedDraftsPanel({ programId }: { programId: string }) {
+  const [drafts, setDrafts] = useState<OnboardingAbandonedDraft[]>([]);
+  const [dropOff, setDropOff] = useState<OnboardingDraftDropOff[]>([]);
+  const [idleHours, setIdleHours] = useState(24);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams({ program: programId, idleHours: String(idleHours) });
+
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/protected/onboarding/drafts?${params.toString()}`, {
+      cache: "no-store",
+      signal: controller.signal,
+    })
+      .then(async (res) => (await res.json()) as AbandonedDraftsResponse)
+      .then((payload) => {
+        if (!payload.ok) {
+          throw new Error(payload.error ?? "Unable to load abandoned drafts");
+        }
+        setDrafts(payload.drafts ?? []);
+        setDropOff(payload.dropOff ?? []);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        setError(err instanceof Error ? err.message : "Unable to load abandoned drafts");
+        setDrafts([]);
+        setDropOff([]);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [programId, idleHours]);
+
+  const maxReached = dropOff.reduce((max, entry) => Math.max(max, entry.reached), 0);
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-slate-800/70 bg-slate-950/60 p-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-100">Abandoned drafts</h2>
+          <p className="text-xs text-slate-500">
+            Applications started but not submitted, with where founders stopped.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
+          Idle for
           <select
-            value={statusDraft}
-            onChange={(event) => setStatusDraft(event.target.value as StatusOption)}
-            className="rounded-md border border-amber-500/40 bg-slate-950 px-3 py-2 text-sm text-amber-100 focus:border-amber-300 focus:outline-none"
+            value={idleHours}
+            onChange={(event) => setIdleHours(Number(event.target.value))}
+            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-1 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
           >
-            {(["advance", "review", "reject"] as StatusOption[]).map((option) => (
-              <option key={option} value={option}>
-                {statusLabels[option]}
+            {[1, 24, 72, 168].map((hours) => (
+              <option key={hours} value={hours}>
+                {hours < 24 ? `${hours}h` : `${hours / 24}d`}+
               </option>
             ))}
           </select>
         </label>
-        <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-amber-200/80">
-          Awarded points
-          <input
-            type="number"
-            min={0}
-            value={awardedDraft}
-            onChange={(event) => setAwardedDraft(event.target.value)}
-            className="rounded-md border border-amber-500/40 bg-slate-950 px-3 py-2 text-sm text-amber-100 focus:border-amber-300 focus:outline-none"
-          />
-        </label>
-        <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-amber-200/80">
-          Total points
-          <input
-            type="number"
-            min={0}
-            value={totalDraft}
-            placeholder={finalScore?.total !== undefined ? String(finalScore.total) : autoScore?.total !== undefined ? String(autoScore.total) : ""}
-            onChange={(event) => setTotalDraft(event.target.value)}
-            className="rounded-md border border-amber-500/40 bg-slate-950 px-3 py-2 text-sm text-amber-100 focus:border-amber-300 focus:outline-none"
-          />
-        </label>
-      </div>
-      <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-amber-200/80">
-        Reviewer note
-        <textarea
-          value={noteDraft}
-          onChange={(event) => setNoteDraft(event.target.value)}
-          placeholder="Add context for this manual decision"
-          className="h-20 rounded-md border border-amber-500/40 bg-slate-950 px-3 py-2 text-sm text-amber-100 focus:border-amber-300 focus:outline-none"
-        />
-      </label>
-      <div className="flex flex-wrap items-center gap-3">
-        <button
-          type="button"
-          onClick={handleApply}
-          disabled={saving}
-          className="rounded-full border border-amber-400/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-amber-100 transition hover:bg-amber-500/10 disabled:opacity-60"
-        >
-          {saving ? "Saving…" : "Save manual decision"}
-        </button>
-        <button
-          type="button"
-          onClick={handleUseAuto}
-          className="rounded-full border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:bg-slate-900/60"
-        >
-          Use auto score
-        </button>
-        <button
-          type="button"
-          onClick={handleClear}
-          disabled={saving || !manualScore}
-          className="rounded-full border border-red-500/60 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-red-200 transition hover:bg-red-500/10 disabled:opacity-60"
-        >
-          Clear manual override
-        </button>
-      </div>
-      <div className="text-[11px] text-amber-200/70">
-        <p>
-          Auto score: {autoScore ? `${autoScore.awarded ?? 0}${autoScore.total ? ` / ${autoScore.total}` : ""}` : "—"}
-        </p>
-        {manualScore && (
-          <p className="mt-1">
-            Manual score: {manualScore.awarded ?? 0}
-            {manualScore.total ? ` / ${manualScore.total}` : ""}
-            {manualScore.status ? ` (${statusLabels[manualScore.status as StatusOption]})` : ""}
-          </p>
-        )}
-        {manualScore?.note && (
-          <p className="mt-1 text-amber-200">Saved note: {manualScore.note}</p>
-        )}
       </div>
-    </div>
+
+      {loading ? (
+        <p className="text-sm text-blue-200/70">Loading drafts…</p>
+      ) : error ? (
+        <p className="text-sm text-red-300">{error}</p>
+      ) : drafts.length === 0 ? (
+        <p className="text-sm text-slate-400">No abandoned drafts for this program.</p>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="space-y-3">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">Drop-off by section</h3>
+            <ul className="space-y-2">
+              {dropOff.map((entry) => (
+                <li key={entry.sectionId} className="space-y-1">
+                  <div className="flex items-center justify-between text-xs text-slate-300">
+                    <span>{entry.title}</span>
+                    <span className="text-slate-500">
+                      {entry.reached} reached · {entry.stoppedHere} stopped here
+                    </span>
+                  </div>
+                  <div className="h-2 w-full overflow-hidden rounded-full bg-slate-800">
+                    <div
+                      className="h-full rounded-full bg-amber-400/70"
+                      style={{ width: `${maxReached ? Math.round((entry.reached / maxReached) * 100) : 0}%` }}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="space-y-3">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+              {drafts.length} draft{drafts.length === 1 ? "" : "s"}
+            </h3>
+            <ul className="space-y-2">
+              {drafts.map((draft) => (
+                <li
+                  key={draft.id}
+                  className="flex flex-col gap-1 rounded-md border border-slate-800 bg-slate-950/70 p-3 text-xs text-slate-300"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold text-slate-100">{draft.companyName ?? "Unnamed draft"}</span>
+                    <span className="text-slate-500">
+                      {draft.answeredCount} / {draft.fieldCount} answered
+                    </span>
+                  </div>
+                  <span className="text-[11px] text-slate-500">
+                    Stopped at {draft.lastSectionTitle ?? "the first section"} · Last saved {formatDate(draft.updatedAt)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </section>
   );
 }
 
@@ -353,8 +2620,18 @@ export default function SubmissionReviewPage() {
   const [submissions, setSubmissions] = useState<OnboardingSubmissionSummary[]>([]);
   const [stageOptions, setStageOptions] = useState<StageOption[]>([]);
   const [statusOptions, setStatusOptions] = useState<StatusOption[]>(["advance", "review", "reject"]);
+  const [lifecycleStates, setLifecycleStates] = useState<OnboardingLifecycleState[]>(DEFAULT_LIFECYCLE.states);
   const [scoreBounds, setScoreBounds] = useState<{ min: number; max: number }>({ min: 0, max: 0 });
+  const [listMeta, setListMeta] = useState<{ total: number; stateCounts: Record<string, number> }>({
+    total: 0,
+    stateCounts: {},
+  });
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [programs, setPrograms] = useState<OnboardingProgram[]>([]);
+  const [reviewers, setReviewers] = useState<ReviewerOption[]>([]);
+  const [workloadKey, setWorkloadKey] = useState(0);
 
   useEffect(() => {
     let active = true;
@@ -387,24 +2664,40 @@ export default function SubmissionReviewPage() {
   }, []);
 
   useEffect(() => {
-    const controller = new AbortController();
-    const params = new URLSearchParams();
+    let active = true;
 
-    if (filters.query.trim().length) {
-      params.set("query", filters.query.trim());
-    }
-    if (filters.stage) {
-      params.set("stage", filters.stage);
-    }
-    if (filters.status) {
-      params.set("status", filters.status);
-    }
-    if (filters.minScore.trim().length) {
-      params.set("minScore", filters.minScore.trim());
-    }
-    if (filters.maxScore.trim().length) {
-      params.set("maxScore", filters.maxScore.trim());
-    }
+    fetch("/api/protected/onboarding/programs", { cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error("Programs request failed");
+        }
+        return (await res.json()) as { ok: boolean; programs?: OnboardingProgram[]; reviewers?: ReviewerOption[] };
+      })
+      .then((payload) => {
+        if (!active || !payload.ok) {
+          return;
+        }
+        const list = payload.programs ?? [];
+        setPrograms(list);
+        setReviewers(payload.reviewers ?? []);
+        setFilters((prev) =>
+          prev.program || list.length === 0 || list.some((program) => program.id === DEFAULT_PROGRAM_ID)
+            ? prev
+            : { ...prev, program: list[0].id },
+        );
+      })
+      .catch(() => {
+        if (active) setPrograms([]);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = buildSubmissionParams(filters);
 
     setLoading(true);
     setError(null);
@@ -424,8 +2717,11 @@ export default function SubmissionReviewPage() {
           throw new Error(payload.error ?? "Unable to load submissions");
         }
         setSubmissions(payload.submissions);
+        setNextCursor(payload.meta.nextCursor);
+        setListMeta({ total: payload.meta.total, stateCounts: payload.meta.stateCounts ?? {} });
         setStageOptions(payload.meta.stageOptions ?? []);
         setStatusOptions(payload.meta.statusOptions ?? ["advance", "review", "reject"]);
+        setLifecycleStates(payload.meta.lifecycleStates ?? DEFAULT_LIFECYCLE.states);
         setScoreBounds({
           min: payload.meta.scoreRange.min,
           max: payload.meta.scoreRange.max,
@@ -447,23 +2743,28 @@ export default function SubmissionReviewPage() {
     return () => controller.abort();
   }, [filters]);
 
-  const summary = useMemo(() => {
-    const counts: Record<StatusOption, number> = {
-      advance: 0,
-      review: 0,
-      reject: 0,
-    };
-
-    submissions.forEach((submission) => {
-      const status = (submission.status ?? "review") as StatusOption;
-      counts[status] = (counts[status] ?? 0) + 1;
-    });
-
-    return {
-      total: submissions.length,
-      ...counts,
-    };
-  }, [submissions]);
+  const handleLoadMore = () => {
+    if (!nextCursor) return;
+    const params = buildSubmissionParams(filters);
+    params.set("cursor", nextCursor);
+    setLoadingMore(true);
+    fetch(`/api/protected/onboarding/submissions?${params.toString()}`, { cache: "no-store" })
+      .then(async (res) => (await res.json()) as SubmissionListResponse)
+      .then((payload) => {
+        if (!payload.ok) {
+          throw new Error(payload.error ?? "Unable to load submissions");
+        }
+        setSubmissions((prev) => [
+          ...prev,
+          ...payload.submissions.filter((submission) => !prev.some((entry) => entry.id === submission.id)),
+        ]);
+        setNextCursor(payload.meta.nextCursor);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unable to load submissions");
+      })
+      .finally(() => setLoadingMore(false));
+  };
 
   const stageLookup = useMemo(() => {
     const map = new Map<string, string>();
@@ -478,7 +2779,7 @@ export default function SubmissionReviewPage() {
     ? "Evaluate incoming founder applications with automated scoring, filters, and rich context."
     : "Review the status, scoring, and feedback for your onboarding application.";
   const summaryLabel = canReview
-    ? `Showing ${summary.total} submission${summary.total === 1 ? "" : "s"} with current filters.`
+    ? `Showing ${submissions.length} of ${listMeta.total} submission${listMeta.total === 1 ? "" : "s"} with current filters.`
     : "Showing your onboarding submission.";
 
   const toggleExpanded = (id: string) => {
@@ -486,11 +2787,22 @@ export default function SubmissionReviewPage() {
   };
 
   const handleSubmissionUpdated = useCallback((updated: OnboardingSubmissionSummary) => {
-    setSubmissions((prev) => prev.map((submission) => (submission.id === updated.id ? updated : submission)));
+    setSubmissions((prev) =>
+      prev.map((submission) =>
+        submission.id === updated.id
+          ? {
+              ...updated,
+              duplicates: updated.duplicates ?? submission.duplicates,
+              lifecycleState: updated.lifecycleState ?? submission.lifecycleState,
+            }
+          : submission,
+      ),
+    );
+    setWorkloadKey((key) => key + 1);
   }, []);
 
   const resetFilters = () => {
-    setFilters(INITIAL_FILTERS);
+    setFilters((prev) => ({ ...INITIAL_FILTERS, program: prev.program }));
   };
 
   return (
@@ -506,6 +2818,16 @@ export default function SubmissionReviewPage() {
             <p className="text-xs text-slate-500">{summaryLabel}</p>
           </div>
           <div className="flex flex-wrap items-center gap-3">
+            {canReview &&
+              (["csv", "xlsx"] as const).map((format) => (
+                <a
+                  key={format}
+                  href={exportHref(filters, format)}
+                  className="rounded-full border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:bg-slate-900/70"
+                >
+                  Export {format}
+                </a>
+              ))}
             {canConfigure && (
               <Link
                 href="/protected/onboarding"
@@ -522,17 +2844,17 @@ export default function SubmissionReviewPage() {
             </Link>
           </div>
         </div>
-        <div className="grid gap-3 sm:grid-cols-3">
-          {(["advance", "review", "reject"] as StatusOption[]).map((status) => (
+        <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-5">
+          {lifecycleStates.map((state) => (
             <div
-              key={status}
+              key={state.id}
               className="rounded-xl border border-slate-800 bg-slate-950/70 p-4 shadow-inner shadow-blue-900/10"
             >
               <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                {statusLabels[status]}
+                {state.label}
               </p>
               <p className="mt-2 text-2xl font-semibold text-slate-100">
-                {summary[status] ?? 0}
+                {listMeta.stateCounts[state.id] ?? 0}
               </p>
             </div>
           ))}
@@ -552,6 +2874,25 @@ export default function SubmissionReviewPage() {
             </button>
           </div>
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {programs.length > 1 && (
+              <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
+                Program
+                <select
+                  value={filters.program || DEFAULT_PROGRAM_ID}
+                  onChange={(event) =>
+                    setFilters((prev) => ({ ...prev, program: event.target.value, stage: "" }))
+                  }
+                  className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+                >
+                  {programs.map((program) => (
+                    <option key={program.id} value={program.id}>
+                      {program.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
             <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
               Keyword search
               <input
@@ -586,6 +2927,22 @@ export default function SubmissionReviewPage() {
                 className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
               >
                 <option value="">All statuses</option>
+                {lifecycleStates.map((state) => (
+                  <option key={state.id} value={state.id}>
+                    {state.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
+              Score recommendation
+              <select
+                value={filters.recommendation}
+                onChange={(event) => setFilters((prev) => ({ ...prev, recommendation: event.target.value }))}
+                className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+              >
+                <option value="">Any recommendation</option>
                 {statusOptions.map((option) => (
                   <option key={option} value={option}>
                     {statusLabels[option]}
@@ -594,6 +2951,37 @@ export default function SubmissionReviewPage() {
               </select>
             </label>
 
+            <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
+              Queue
+              <select
+                value={filters.queue}
+                onChange={(event) => setFilters((prev) => ({ ...prev, queue: event.target.value }))}
+                className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+              >
+                <option value="">All submissions</option>
+                <option value="mine">My queue</option>
+                <option value="mentions">Mentions me</option>
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
+              Sort
+              <select
+                value={filters.sort}
+                onChange={(event) => setFilters((prev) => ({ ...prev, sort: event.target.value }))}
+                className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+              >
+                <option value="">{SUBMISSION_SORT_LABELS.submitted_desc}</option>
+                {(Object.keys(SUBMISSION_SORT_LABELS) as OnboardingSubmissionSort[])
+                  .filter((sort) => sort !== "submitted_desc")
+                  .map((sort) => (
+                    <option key={sort} value={sort}>
+                      {SUBMISSION_SORT_LABELS[sort]}
+                    </option>
+                  ))}
+              </select>
+            </label>
+
             <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
               Min score
               <input
@@ -621,6 +3009,24 @@ export default function SubmissionReviewPage() {
         </section>
       )}
 
+      {canConfigure && (
+        <RescorePanel
+          programId={filters.program || DEFAULT_PROGRAM_ID}
+          onApplied={() => setFilters((prev) => ({ ...prev }))}
+        />
+      )}
+
+      {canReview && (
+        <WorkloadPanel
+          programId={filters.program || DEFAULT_PROGRAM_ID}
+          canAssign={canConfigure}
+          refreshKey={workloadKey}
+          onAssigned={() => setFilters((prev) => ({ ...prev }))}
+        />
+      )}
+
+      {canReview && <AbandonedDraftsPanel programId={filters.program || DEFAULT_PROGRAM_ID} />}
+
       <section className="space-y-6">
         {loading ? (
           <div className="flex min-h-[30vh] items-center justify-center text-sm text-blue-200/70">
@@ -652,6 +3058,11 @@ export default function SubmissionReviewPage() {
               const { total, awarded, percentage } = formatScore(submission);
               const progress = total > 0 ? Math.min(100, Math.round((awarded / total) * 100)) : 0;
               const manualOverrideActive = Boolean(submission.scoreManual);
+              const submissionProgram = programs.find(
+                (program) => program.id === (submission.programId ?? DEFAULT_PROGRAM_ID),
+              );
+              const lifecycle = getProgramLifecycle(submissionProgram);
+              const lifecycleState = findLifecycleState(lifecycle, submissionLifecycleState(submission, lifecycle));
               const companyStageLabel = submission.companyStage
                 ? stageLookup.get(submission.companyStage.value) ?? submission.companyStage.label ?? submission.companyStage.value
                 : "Unknown stage";
@@ -659,6 +3070,7 @@ export default function SubmissionReviewPage() {
               return (
                 <article
                   key={submission.id}
+                  id={`submission-${submission.id}`}
                   className="space-y-5 rounded-2xl border border-slate-800/80 bg-slate-950/60 p-6 shadow-lg shadow-blue-900/10"
                 >
                   <header className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
@@ -667,6 +3079,15 @@ export default function SubmissionReviewPage() {
                         {submission.companyName ?? "Unnamed submission"}
                       </h2>
                       <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                        <span
+                          className={`rounded-full border px-3 py-1 font-semibold ${
+                            lifecycleState?.terminal
+                              ? "border-slate-500 text-slate-200"
+                              : "border-purple-500/60 text-purple-200"
+                          }`}
+                        >
+                          {lifecycleState?.label ?? lifecycleStateLabel(lifecycle, submission.lifecycleState)}
+                        </span>
                         <span className="rounded-full border border-slate-800 px-3 py-1">
                           {companyStageLabel}
                         </span>
@@ -676,6 +3097,42 @@ export default function SubmissionReviewPage() {
                         <span className="rounded-full border border-slate-800 px-3 py-1">
                           Applicant {submission.userId}
                         </span>
+                        {submission.locale && (
+                          <span className="rounded-full border border-slate-800 px-3 py-1">
+                            Answered in {localeLabel(submission.locale)}
+                          </span>
+                        )}
+                        {openThreadCount(submission) > 0 && (
+                          <span className="rounded-full border border-violet-500/60 px-3 py-1 text-violet-200">
+                            {openThreadCount(submission)} open thread{openThreadCount(submission) === 1 ? "" : "s"}
+                          </span>
+                        )}
+                        {hasOpenDuplicateFlags(submission) && (
+                          <span className="rounded-full border border-amber-500/60 px-3 py-1 text-amber-200">
+                            Possible duplicate ({submission.duplicates?.filter((match) => !match.resolution).length})
+                          </span>
+                        )}
+                        {submission.mergedInto && (
+                          <span className="rounded-full border border-slate-600 px-3 py-1 text-slate-300">
+                            Merged into{" "}
+                            {submission.duplicates?.find((match) => match.submissionId === submission.mergedInto)?.companyName ??
+                              "an earlier application"}
+                          </span>
+                        )}
+                        {submission.assignments?.map((assignment) => {
+                          const assignmentStatus = reviewAssignmentStatus(assignment, submission);
+                          return (
+                            <span
+                              key={assignment.reviewerId}
+                              className={`rounded-full border px-3 py-1 ${assignmentStatusStyles[assignmentStatus]}`}
+                              title={`Due ${formatDate(assignment.dueAt)}`}
+                            >
+                              {assignment.reviewerId === profile?.id ? "You" : assignment.reviewerName ?? assignment.reviewerId}
+                              {" · "}
+                              {assignmentStatus}
+                            </span>
+                          );
+                        })}
                       </div>
                     </div>
                     <div className="flex flex-col items-end gap-3">
@@ -684,11 +3141,19 @@ export default function SubmissionReviewPage() {
                       >
                         {statusLabels[resolvedStatus]}
                       </span>
-                      {manualOverrideActive && (
+                      {submission.panelDecision ? (
+                        <span className="text-[11px] uppercase tracking-wide text-emerald-200">
+                          Panel decision by {submission.panelDecision.decidedByName ?? submission.panelDecision.decidedBy}
+                        </span>
+                      ) : manualOverrideActive ? (
                         <span className="text-[11px] uppercase tracking-wide text-amber-200">
                           Manual override active
                         </span>
-                      )}
+                      ) : submission.scorecards?.length ? (
+                        <span className="text-[11px] uppercase tracking-wide text-purple-200">
+                          {submission.scorecards.length} panel scorecard{submission.scorecards.length === 1 ? "" : "s"}
+                        </span>
+                      ) : null}
                       <div className="w-full min-w-[200px] space-y-2">
                         <div className="flex items-center justify-between text-xs text-slate-400">
                           <span>Score</span>
@@ -714,9 +3179,11 @@ export default function SubmissionReviewPage() {
                           {response.label}
                         </p>
                         <p className="text-sm text-slate-200">
-                          {Array.isArray(response.value)
-                            ? response.value.join(", ")
-                            : response.value ?? "—"}
+                          {response.entries
+                            ? `${response.entries.length} ${response.entries.length === 1 ? "entry" : "entries"}`
+                            : Array.isArray(response.value)
+                              ? response.value.join(", ")
+                              : response.value ?? "—"}
                         </p>
                       </div>
                     ))}
@@ -764,11 +3231,45 @@ export default function SubmissionReviewPage() {
                                 </span>
                               )}
                             </div>
-                            <p className="text-sm text-slate-100 whitespace-pre-line">
-                              {Array.isArray(response.value)
-                                ? response.value.join("\n")
-                                : response.value ?? "—"}
-                            </p>
+                            {response.entries ? (
+                              <ol className="space-y-2">
+                                {response.entries.map((entry, index) => (
+                                  <li key={entry.id} className="space-y-1 rounded-md border border-slate-800/80 p-3">
+                                    <p className="text-[11px] uppercase tracking-wide text-slate-500">Entry {index + 1}</p>
+                                    {entry.fields.map((field) => (
+                                      <p key={field.fieldId} className="text-sm text-slate-100">
+                                        <span className="text-slate-400">{field.label}:</span>{" "}
+                                        {Array.isArray(field.value) ? field.value.join(", ") : field.value ?? "—"}
+                                        {field.attachments?.map((attachment) =>
+                                          attachment.url ? (
+                                            <a
+                                              key={attachment.key}
+                                              href={attachment.url}
+                                              target="_blank"
+                                              rel="noreferrer"
+                                              className="ml-2 text-xs text-blue-200 underline decoration-dotted underline-offset-4 hover:text-blue-100"
+                                            >
+                                              {attachment.name}
+                                            </a>
+                                          ) : (
+                                            <span key={attachment.key} className="ml-2 text-xs text-slate-400">
+                                              {attachment.name}
+                                            </span>
+                                          )
+                                        )}
+                                      </p>
+                                    ))}
+                                  </li>
+                                ))}
+                                {response.entries.length === 0 && <li className="text-sm text-slate-400">No entries</li>}
+                              </ol>
+                            ) : (
+                              <p className="text-sm text-slate-100 whitespace-pre-line">
+                                {Array.isArray(response.value)
+                                  ? response.value.join("\n")
+                                  : response.value ?? "—"}
+                              </p>
+                            )}
                             {response.attachments && response.attachments.length > 0 && (
                               <ul className="space-y-2">
                                 {response.attachments.map((attachment) => {
@@ -811,25 +3312,150 @@ export default function SubmissionReviewPage() {
                               >
                                 <div className="flex items-center justify-between">
                                   <span className="font-semibold text-slate-100">{item.label}</span>
-                                  <span className={item.matched ? "text-emerald-300" : "text-slate-500"}>
-                                    {item.matched ? `+${item.points}` : "+0"} pts
+                                  <span
+                                    className={
+                                      item.skipped || breakdownAwarded(item) === 0
+                                        ? "text-slate-500"
+                                        : breakdownAwarded(item) < 0
+                                          ? "text-red-300"
+                                          : "text-emerald-300"
+                                    }
+                                  >
+                                    {item.skipped ? "n/a" : `${formatPoints(breakdownAwarded(item))} pts`}
                                   </span>
                                 </div>
-                                {!item.matched && item.reason && (
+                                {(!item.matched || item.conditions) && item.reason && (
                                   <span className="text-[11px] text-slate-500">{item.reason}</span>
                                 )}
+                                {item.conditions && item.conditions.length > 0 && (
+                                  <ul className="space-y-1 border-l border-slate-800 pl-3">
+                                    {item.conditions.map((condition) => (
+                                      <li key={condition.conditionId} className="text-[11px]">
+                                        <span
+                                          className={
+                                            condition.skipped
+                                              ? "text-slate-500"
+                                              : condition.matched
+                                                ? "text-emerald-300"
+                                                : "text-slate-400"
+                                          }
+                                        >
+                                          {condition.skipped ? "–" : condition.matched ? "✓" : "✗"} {condition.label}
+                                          {condition.weight !== undefined ? ` (weight ${condition.weight})` : ""}
+                                        </span>
+                                        {!condition.matched && condition.reason && (
+                                          <span className="text-slate-600"> — {condition.reason}</span>
+                                        )}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
                               </li>
                             ))}
                           </ul>
                         </div>
                       ) : null}
 
+                      {canReview && (
+                        <LifecyclePanel
+                          submission={submission}
+                          lifecycle={lifecycle}
+                          canFinalize={canConfigure || (!!profile && submissionProgram?.chairId === profile.id)}
+                          onUpdated={handleSubmissionUpdated}
+                        />
+                      )}
+
+                      {canReview &&
+                        (canConfigure || (!!profile && submissionProgram?.chairId === profile.id)) && (
+                          <AdmissionPanel
+                            submission={submission}
+                            lifecycle={lifecycle}
+                            onUpdated={handleSubmissionUpdated}
+                          />
+                        )}
+
+                      {canReview && (
+                        <InterviewPanel
+                          submission={submission}
+                          program={submissionProgram}
+                          reviewers={
+                            submissionProgram?.reviewerIds.length
+                              ? reviewers.filter((reviewer) => submissionProgram.reviewerIds.includes(reviewer.id))
+                              : reviewers
+                          }
+                          currentUserId={profile?.id}
+                          onUpdated={handleSubmissionUpdated}
+                        />
+                      )}
+
+                      {canReview && (
+                        <CommentsPanel
+                          submission={submission}
+                          reviewers={
+                            submissionProgram?.reviewerIds.length
+                              ? reviewers.filter((reviewer) => submissionProgram.reviewerIds.includes(reviewer.id))
+                              : reviewers
+                          }
+                          currentUserId={profile?.id}
+                          onUpdated={handleSubmissionUpdated}
+                        />
+                      )}
+
+                      {canReview && (
+                        <ApplicantPortalPanel submission={submission} onUpdated={handleSubmissionUpdated} />
+                      )}
+
+                      {canReview && (
+                        <DuplicatePanel
+                          submission={submission}
+                          lifecycle={lifecycle}
+                          onResolved={() => setFilters((prev) => ({ ...prev }))}
+                          onSelect={setExpandedId}
+                        />
+                      )}
+
+                      {canReview && (
+                        <AssignmentControls
+                          submission={submission}
+                          reviewers={
+                            submissionProgram?.reviewerIds.length
+                              ? reviewers.filter((reviewer) => submissionProgram.reviewerIds.includes(reviewer.id))
+                              : reviewers
+                          }
+                          currentUserId={profile?.id}
+                          canAssign={canConfigure || (!!profile && submissionProgram?.chairId === profile.id)}
+                          onUpdated={handleSubmissionUpdated}
+                        />
+                      )}
+
+                      {canReview && (
+                        <ReviewPanel
+                          submission={submission}
+                          program={submissionProgram}
+                          currentUserId={profile?.id}
+                          canChair={canConfigure || (!!profile && submissionProgram?.chairId === profile.id)}
+                          onUpdated={handleSubmissionUpdated}
+                        />
+                      )}
+
                       <ManualScoreEditor submission={submission} onUpdated={handleSubmissionUpdated} />
                     </div>
                   )}
                 </article>
               );
             })}
+            {nextCursor && (
+              <div className="flex justify-center">
+                <button
+                  type="button"
+                  onClick={handleLoadMore}
+                  disabled={loadingMore}
+                  className="rounded-full border border-blue-500/70 px-6 py-2 text-xs font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/10 disabled:opacity-60"
+                >
+                  {loadingMore ? "Loading…" : `Load more (${listMeta.total - submissions.length} remaining)`}
+                </button>
+              </div>
+            )}
           </div>
         )}
       </section>
@@ -5,6 +5,7 @@ import {
   type AppPermission,
   type UserProfile,
 } from "@/lib/db/auth/user";
+import type { OnboardingProgram } from "@/lib/onboarding/types";
 
 const PERM_ONBOARDING_MANAGE: AppPermission = "onboarding:manage";
 const PERM_ONBOARDING_REVIEW: AppPermission = "onboarding:review";
@@ -30,6 +31,29 @@ export const canConfigureOnboarding = (profile: UserProfile): boolean => {
   return hasPermission(profile, PERM_ONBOARDING_MANAGE) || hasPermission(profile, PERM_FORMS_CONFIGURE);
 };
 
+export const canReviewProgram = (
+  profile: UserProfile,
+  program: Pick<OnboardingProgram, "reviewerIds">,
+): boolean => {
+  if (canConfigureOnboarding(profile)) {
+    return true;
+  }
+  return (
+    canReviewOnboarding(profile) &&
+    (program.reviewerIds.length === 0 || program.reviewerIds.includes(profile.id))
+  );
+};
+
+export const canChairProgram = (
+  profile: UserProfile,
+  program: Pick<OnboardingProgram, "chairId">,
+): boolean => {
+  if (canConfigureOnboarding(profile)) {
+    return true;
+  }
+  return canReviewOnboarding(profile) && program.chairId === profile.id;
+};
+
 export const canViewOwnOnboarding = (profile: UserProfile): boolean => {
   return hasPermission(profile, PERM_ONBOARDING_VIEW_SELF) || canReviewOnboarding(profile);
 };
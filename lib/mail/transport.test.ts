@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import net from "node:net";
+import { after, before, describe, test } from "node:test";
+import { createSmtpTransport } from "./transport";
+
+type Sink = {
+  port: number;
+  commands: string[];
+  messages: string[];
+  rejectRecipients: boolean;
+  close: () => Promise<void>;
+};
+
+// A plaintext SMTP server that records every command and message it receives.
+const startSink = async (): Promise<Sink> => {
+  const sockets = new Set<net.Socket>();
+  const sink: Omit<Sink, "port" | "close"> = { commands: [], messages: [], rejectRecipients: false };
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.write("220 sink.test ESMTP\r\n");
+    let buffer = "";
+    let data: string[] | null = null;
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      let index = buffer.indexOf("\r\n");
+      while (index >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        index = buffer.indexOf("\r\n");
+        if (data) {
+          if (line === ".") {
+            sink.messages.push(data.join("\n"));
+            data = null;
+            socket.write("250 queued\r\n");
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+        sink.commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === "EHLO") {
+          socket.write("250-sink.test greets you\r\n250-SIZE 1048576\r\n250 8BITMIME\r\n");
+        } else if (verb === "MAIL") {
+          socket.write("250 sender ok\r\n");
+        } else if (verb === "RCPT") {
+          socket.write(sink.rejectRecipients ? "550 mailbox unavailable\r\n" : "250 recipient ok\r\n");
+        } else if (verb === "DATA") {
+          data = [];
+          socket.write("354 end with a dot\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 bye\r\n");
+        } else if (verb === "RSET" || verb === "NOOP") {
+          socket.write("250 ok\r\n");
+        } else {
+          socket.write("502 not implemented\r\n");
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return Object.assign(sink, {
+    port: (server.address() as net.AddressInfo).port,
+    close: () =>
+      new Promise<void>((resolve) => {
+        sockets.forEach((socket) => socket.destroy());
+        server.close(() => resolve());
+      }),
+  });
+};
+
+describe("createSmtpTransport", () => {
+  let sink: Sink;
+  const transport = (options: { user?: string; requireTLS?: boolean } = {}) =>
+    createSmtpTransport({ host: "127.0.0.1", port: sink.port, from: "programs@incubator.org", ...options });
+
+  before(async () => {
+    sink = await startSink();
+  });
+  after(() => sink.close());
+
+  test("delivers a message after a multi-line EHLO reply", async () => {
+    sink.commands.length = 0;
+    sink.messages.length = 0;
+    const receipt = await transport().send({
+      to: ["ada@startup.io", "grace@startup.io"],
+      subject: "Welcome to the programme",
+      text: "Hello Ada,\nwelcome aboard.",
+    });
+
+    assert.match(receipt.messageId, /^<.+@incubator\.org>$/);
+    assert.deepEqual(
+      sink.commands.filter((line) => /^(MAIL|RCPT)/.test(line)).map((line) => line.split(" ").slice(0, 2).join(" ")),
+      ["MAIL FROM:<programs@incubator.org>", "RCPT TO:<ada@startup.io>", "RCPT TO:<grace@startup.io>"],
+    );
+    assert.equal(sink.messages.length, 1);
+    assert.match(sink.messages[0], /^Subject: Welcome to the programme$/m);
+    assert.match(sink.messages[0], /^To: ada@startup\.io, grace@startup\.io$/m);
+  });
+
+  test("fails with the server's reply when a recipient is refused", async () => {
+    sink.rejectRecipients = true;
+    try {
+      await assert.rejects(
+        transport().send({ to: ["ghost@startup.io"], subject: "Hi", text: "Hi" }),
+        /550 mailbox unavailable/,
+      );
+    } finally {
+      sink.rejectRecipients = false;
+    }
+  });
+
+  test("never sends credentials when the server does not offer STARTTLS", async () => {
+    sink.commands.length = 0;
+    await assert.rejects(transport({ user: "mailer" }).send({ to: ["ada@startup.io"], subject: "Hi", text: "Hi" }));
+    assert.equal(
+      sink.commands.some((line) => line.startsWith("AUTH")),
+      false,
+    );
+  });
+
+  test("refuses a message without recipients", async () => {
+    await assert.rejects(transport().send({ to: [], subject: "Hi", text: "Hi" }), /no recipients/);
+  });
+});
@@ -0,0 +1,97 @@
+import { randomUUID } from "node:crypto";
+import os from "node:os";
+import nodemailer from "nodemailer";
+
+export type MailMessage = {
+  to: string[];
+  subject: string;
+  text: string;
+};
+
+export type MailReceipt = {
+  messageId: string;
+};
+
+export type MailTransport = {
+  name: string;
+  send: (message: MailMessage) => Promise<MailReceipt>;
+};
+
+export type SmtpTransportOptions = {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  // Defaults to true whenever credentials are set, so a password is never sent over plaintext.
+  requireTLS?: boolean;
+  timeoutMs?: number;
+};
+
+const DEFAULT_MAIL_FROM = "no-reply@incubator.local";
+
+const createMessageId = (from: string) => `<${randomUUID()}@${from.split("@")[1] || os.hostname()}>`;
+
+// nodemailer upgrades with STARTTLS whenever the server offers it; requireTLS makes that upgrade mandatory.
+export const createSmtpTransport = (options: SmtpTransportOptions): MailTransport => {
+  const mailer = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: Boolean(options.secure),
+    requireTLS: options.requireTLS ?? Boolean(options.user),
+    auth: options.user ? { user: options.user, pass: options.password ?? "" } : undefined,
+    connectionTimeout: options.timeoutMs,
+    greetingTimeout: options.timeoutMs,
+    socketTimeout: options.timeoutMs,
+  });
+
+  return {
+    name: "smtp",
+    send: async (message) => {
+      if (!message.to.length) {
+        throw new Error("Mail message has no recipients");
+      }
+      const info = await mailer.sendMail({
+        from: options.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+      });
+      return { messageId: info.messageId };
+    },
+  };
+};
+
+export const createLogTransport = (): MailTransport => ({
+  name: "log",
+  send: async (message) => {
+    const messageId = createMessageId(DEFAULT_MAIL_FROM);
+    console.info(`[mail] ${messageId} to ${message.to.join(", ")}: ${message.subject}`);
+    return { messageId };
+  },
+});
+
+let transport: MailTransport | null = null;
+
+export const setMailTransport = (next: MailTransport | null) => {
+  transport = next;
+};
+
+// Without SMTP_HOST messages are only logged, so local environments never need a mail server.
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    transport = process.env.SMTP_HOST
+      ? createSmtpTransport({
+          host: process.env.SMTP_HOST,
+          port: Number.parseInt(process.env.SMTP_PORT ?? "", 10) || 587,
+          secure: process.env.SMTP_SECURE === "true",
+          user: process.env.SMTP_USER || undefined,
+          password: process.env.SMTP_PASSWORD || undefined,
+          from: process.env.MAIL_FROM || DEFAULT_MAIL_FROM,
+          requireTLS: process.env.SMTP_REQUIRE_TLS ? process.env.SMTP_REQUIRE_TLS !== "false" : undefined,
+        })
+      : createLogTransport();
+  }
+  return transport;
+};
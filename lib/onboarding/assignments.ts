@@ -0,0 +1,40 @@
+import type {
+  OnboardingAssignmentSettings,
+  OnboardingAssignmentStrategy,
+  OnboardingProgram,
+  OnboardingReviewAssignment,
+  OnboardingReviewAssignmentStatus,
+  OnboardingSubmission,
+} from "./types";
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<OnboardingAssignmentStrategy, string> = {
+  manual: "Manual only",
+  round_robin: "Round-robin by workload",
+  stage: "Match stage expertise",
+  sector: "Match sector expertise",
+};
+
+export const DEFAULT_ASSIGNMENT_SETTINGS: OnboardingAssignmentSettings = {
+  strategy: "manual",
+  reviewersPerSubmission: 1,
+  dueDays: 7,
+  expertise: [],
+};
+
+export const getAssignmentSettings = (program: Pick<OnboardingProgram, "assignment"> | null | undefined) =>
+  program?.assignment ?? DEFAULT_ASSIGNMENT_SETTINGS;
+
+// A review counts as done once the reviewer has filed a scorecard or the panel has decided.
+export const reviewAssignmentStatus = (
+  assignment: OnboardingReviewAssignment,
+  submission: Pick<OnboardingSubmission, "scorecards" | "panelDecision">,
+  now: Date = new Date(),
+): OnboardingReviewAssignmentStatus => {
+  if (
+    submission.panelDecision ||
+    submission.scorecards?.some((scorecard) => scorecard.reviewerId === assignment.reviewerId)
+  ) {
+    return "completed";
+  }
+  return new Date(assignment.dueAt).getTime() < now.getTime() ? "overdue" : "pending";
+};
@@ -0,0 +1,287 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  DEFAULT_CHECKLIST_TEMPLATE,
+  checklistCompletionError,
+  checklistHasDependencyCycle,
+  mergeChecklistTemplate,
+  preserveChecklistRequirements,
+  resolveChecklistTemplate,
+} from "./checklists";
+import type { OnboardingChecklist, OnboardingChecklistItem, OnboardingChecklistTemplate } from "./types";
+
+const CREATED_AT = "2026-03-01T00:00:00.000Z";
+const ANCHOR_AT = "2026-03-10T00:00:00.000Z";
+const NOW = "2026-04-01T00:00:00.000Z";
+
+const template = (overrides: Partial<OnboardingChecklistTemplate> = {}): OnboardingChecklistTemplate => ({
+  id: "template-a",
+  name: "Template A",
+  programIds: [],
+  stages: [],
+  cohorts: [],
+  isDefault: false,
+  version: 2,
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT,
+  items: [
+    { id: "kickoff", title: "Kickoff call", dueOffsetDays: 3 },
+    { id: "legal", title: "Sign agreement", description: "Countersigned copy", dueOffsetDays: 14 },
+  ],
+  ...overrides,
+});
+
+const item = (
+  overrides: Partial<OnboardingChecklistItem> & Pick<OnboardingChecklistItem, "id">,
+): OnboardingChecklistItem => ({
+  title: overrides.id,
+  status: "pending",
+  updatedAt: CREATED_AT,
+  ...overrides,
+});
+
+const checklist = (
+  items: OnboardingChecklistItem[],
+  overrides: Partial<OnboardingChecklist> = {},
+): OnboardingChecklist => ({
+  startupId: "startup-1",
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT,
+  anchorAt: ANCHOR_AT,
+  items,
+  ...overrides,
+});
+
+describe("mergeChecklistTemplate", () => {
+  test("creates template items dated from the anchor", () => {
+    const merged = mergeChecklistTemplate(checklist([]), template(), NOW);
+
+    assert.deepEqual(
+      merged.items.map((entry) => [entry.templateItemId, entry.status, entry.dueDate]),
+      [
+        ["kickoff", "pending", "2026-03-13T00:00:00.000Z"],
+        ["legal", "pending", "2026-03-24T00:00:00.000Z"],
+      ],
+    );
+    assert.equal(merged.templateId, "template-a");
+    assert.equal(merged.templateVersion, 2);
+    assert.equal(merged.anchorAt, ANCHOR_AT);
+  });
+
+  test("falls back to the creation time when the checklist has no anchor", () => {
+    const merged = mergeChecklistTemplate(checklist([], { anchorAt: undefined }), template(), NOW);
+    assert.equal(merged.anchorAt, CREATED_AT);
+    assert.equal(merged.items[0].dueDate, "2026-03-04T00:00:00.000Z");
+  });
+
+  test("keeps the id, status and completion of items the template already created", () => {
+    const done = item({
+      id: "item-1",
+      title: "Kickoff call",
+      templateItemId: "kickoff",
+      status: "complete",
+      completedAt: "2026-03-12T00:00:00.000Z",
+      dueDate: "2026-03-13T00:00:00.000Z",
+      assignee: { kind: "staff", userId: "staff-1" },
+    });
+    const merged = mergeChecklistTemplate(checklist([done]), template(), NOW);
+    const kickoff = merged.items.find((entry) => entry.templateItemId === "kickoff");
+
+    assert.equal(kickoff?.id, "item-1");
+    assert.equal(kickoff?.status, "complete");
+    assert.equal(kickoff?.completedAt, "2026-03-12T00:00:00.000Z");
+    assert.deepEqual(kickoff?.assignee, { kind: "staff", userId: "staff-1" });
+    assert.equal(kickoff?.updatedAt, CREATED_AT);
+  });
+
+  test("updates the wording and due date of templated items that changed", () => {
+    const stale = item({ id: "item-2", title: "Sign", templateItemId: "legal", dueDate: "2026-03-20T00:00:00.000Z" });
+    const merged = mergeChecklistTemplate(checklist([stale]), template(), NOW);
+    const legal = merged.items.find((entry) => entry.templateItemId === "legal");
+
+    assert.equal(legal?.title, "Sign agreement");
+    assert.equal(legal?.description, "Countersigned copy");
+    assert.equal(legal?.dueDate, "2026-03-24T00:00:00.000Z");
+    assert.equal(legal?.updatedAt, NOW);
+  });
+
+  test("keeps manual items and started items that left the template, and drops pending ones", () => {
+    const manual = item({ id: "manual" });
+    const removedPending = item({ id: "removed-pending", templateItemId: "old-pending" });
+    const removedStarted = item({ id: "removed-started", templateItemId: "old-started", status: "in_progress" });
+    const merged = mergeChecklistTemplate(checklist([manual, removedPending, removedStarted]), template(), NOW);
+    const ids = merged.items.map((entry) => entry.id);
+
+    assert.equal(ids.includes("manual"), true);
+    assert.equal(ids.includes("removed-started"), true);
+    assert.equal(ids.includes("removed-pending"), false);
+    assert.equal(merged.items.length, 4);
+  });
+});
+
+describe("resolveChecklistTemplate", () => {
+  const byProgram = template({ id: "program", programIds: ["accelerator"] });
+  const byProgramAndCohort = template({
+    id: "program-cohort",
+    programIds: ["accelerator"],
+    cohorts: ["2026 Spring"],
+  });
+  const fallback = template({ id: "fallback", isDefault: true });
+  const unscoped = template({ id: "unscoped" });
+
+  test("prefers the template matching the most scopes", () => {
+    const templates = [byProgram, byProgramAndCohort, fallback, unscoped];
+    assert.equal(
+      resolveChecklistTemplate(templates, { programId: "accelerator", cohort: "2026 spring" }).id,
+      "program-cohort",
+    );
+    assert.equal(resolveChecklistTemplate(templates, { programId: "accelerator" }).id, "program");
+  });
+
+  test("falls back to the stored default and then the built-in template", () => {
+    assert.equal(resolveChecklistTemplate([byProgram, fallback, unscoped], { programId: "other" }).id, "fallback");
+    assert.equal(resolveChecklistTemplate([byProgram, unscoped], { programId: "other" }), DEFAULT_CHECKLIST_TEMPLATE);
+  });
+});
+
+describe("checklistCompletionError", () => {
+  const documents = new Set(["documents/startup-1/agreement.pdf"]);
+  const agreement = { id: "evidence-1", label: "Signed agreement", documentKey: "documents/startup-1/agreement.pdf" };
+
+  test("refuses to complete an item while a blocker is open", () => {
+    const items = [item({ id: "a" }), item({ id: "b", status: "complete", blockedBy: ["a"] })];
+    assert.equal(checklistCompletionError(items, [], documents), "Blocked items cannot be completed");
+
+    const unblocked = [
+      item({ id: "a", status: "complete" }),
+      item({ id: "b", status: "complete", blockedBy: ["a"] }),
+    ];
+    assert.equal(checklistCompletionError(unblocked, [], documents), undefined);
+  });
+
+  test("refuses to complete an item until its evidence is uploaded", () => {
+    const missing = [item({ id: "a", status: "complete", evidence: [{ id: "evidence-2", label: "Cap table" }] })];
+    assert.equal(
+      checklistCompletionError(missing, [], documents),
+      "Upload the required evidence before completing this item",
+    );
+
+    const elsewhere = { ...agreement, documentKey: "documents/startup-1/other.pdf" };
+    const unknownKey = [item({ id: "a", status: "complete", evidence: [elsewhere] })];
+    assert.equal(
+      checklistCompletionError(unknownKey, [], documents),
+      "Upload the required evidence before completing this item",
+    );
+
+    const uploaded = [item({ id: "a", status: "complete", evidence: [agreement] })];
+    assert.equal(checklistCompletionError(uploaded, [], documents), undefined);
+  });
+
+  test("leaves items that were already complete alone", () => {
+    const items = [item({ id: "a" }), item({ id: "b", status: "complete", blockedBy: ["a"] })];
+    assert.equal(checklistCompletionError(items, [item({ id: "b", status: "complete" })], documents), undefined);
+  });
+
+  test("refuses a save that strips the stored requirement and completes the item", () => {
+    const stored = [item({ id: "a" }), item({ id: "b", blockedBy: ["a"], evidence: [{ id: "e", label: "Deck" }] })];
+
+    const unblocked = [item({ id: "a" }), item({ id: "b", status: "complete", evidence: [agreement] })];
+    assert.equal(checklistCompletionError(unblocked, stored, documents), "Blocked items cannot be completed");
+
+    const blockerDeleted = [item({ id: "b", status: "complete", evidence: [agreement] })];
+    assert.equal(checklistCompletionError(blockerDeleted, stored, documents), "Blocked items cannot be completed");
+
+    const evidenceDropped = [item({ id: "a", status: "complete" }), item({ id: "b", status: "complete" })];
+    assert.equal(
+      checklistCompletionError(evidenceDropped, stored, documents),
+      "Upload the required evidence before completing this item",
+    );
+
+    const linked = [
+      item({ id: "a", status: "complete" }),
+      item({ id: "b", status: "complete", evidence: [{ id: "e", label: "Deck", documentKey: agreement.documentKey }] }),
+    ];
+    assert.equal(checklistCompletionError(linked, stored, documents), undefined);
+  });
+
+  test("does not gate items that are not complete", () => {
+    const items = [
+      item({ id: "a" }),
+      item({ id: "b", status: "in_progress", blockedBy: ["a"], evidence: [{ id: "e", label: "Deck" }] }),
+    ];
+    assert.equal(checklistCompletionError(items, [], documents), undefined);
+  });
+});
+
+describe("preserveChecklistRequirements", () => {
+  const stored = checklist(
+    [
+      item({ id: "a" }),
+      item({ id: "b", blockedBy: ["a"], evidence: [{ id: "e", label: "Deck", documentKey: "documents/old.pdf" }] }),
+    ],
+    { templateId: "template-a", templateVersion: 2 },
+  );
+
+  test("keeps the stored blockers, evidence and template anchoring", () => {
+    const submitted = checklist(
+      [
+        item({ id: "a", status: "complete" }),
+        item({ id: "b", status: "in_progress", evidence: [{ id: "other", label: "Anything" }] }),
+        item({ id: "c", blockedBy: ["a"], evidence: [{ id: "new", label: "Photo" }] }),
+      ],
+      { templateId: "template-b", templateVersion: 9, anchorAt: NOW },
+    );
+    const preserved = preserveChecklistRequirements(submitted, stored);
+
+    assert.deepEqual(
+      preserved.items.map((entry) => [entry.id, entry.status, entry.blockedBy, entry.evidence]),
+      [
+        ["a", "complete", undefined, undefined],
+        ["b", "in_progress", ["a"], [{ id: "e", label: "Deck", documentKey: "documents/old.pdf" }]],
+        ["c", "pending", undefined, undefined],
+      ],
+    );
+    assert.deepEqual(
+      [preserved.templateId, preserved.templateVersion, preserved.anchorAt],
+      ["template-a", 2, ANCHOR_AT],
+    );
+  });
+
+  test("takes document links for the stored evidence from the save", () => {
+    const submitted = checklist([
+      item({ id: "a" }),
+      item({ id: "b", evidence: [{ id: "e", label: "Renamed", documentKey: "documents/new.pdf" }] }),
+    ]);
+    const evidence = preserveChecklistRequirements(submitted, stored).items[1].evidence;
+
+    assert.deepEqual(evidence, [{ id: "e", label: "Deck", documentKey: "documents/new.pdf" }]);
+  });
+});
+
+describe("checklistHasDependencyCycle", () => {
+  test("detects direct and indirect cycles", () => {
+    assert.equal(
+      checklistHasDependencyCycle([item({ id: "a", blockedBy: ["b"] }), item({ id: "b", blockedBy: ["a"] })]),
+      true,
+    );
+    assert.equal(
+      checklistHasDependencyCycle([
+        item({ id: "a", blockedBy: ["c"] }),
+        item({ id: "b", blockedBy: ["a"] }),
+        item({ id: "c", blockedBy: ["b"] }),
+      ]),
+      true,
+    );
+  });
+
+  test("accepts chains and shared blockers", () => {
+    assert.equal(
+      checklistHasDependencyCycle([
+        item({ id: "a" }),
+        item({ id: "b", blockedBy: ["a"] }),
+        item({ id: "c", blockedBy: ["a", "b"] }),
+      ]),
+      false,
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import type {
+  OnboardingChecklist,
+  OnboardingChecklistEvidence,
+  OnboardingChecklistItem,
+  OnboardingChecklistTemplate,
+  OnboardingChecklistTemplateContext,
+} from "./types";
+
+// Used when no stored template applies, so every startup still starts with the standard onboarding items.
+export const DEFAULT_CHECKLIST_TEMPLATE: OnboardingChecklistTemplate = {
+  id: "default",
+  name: "Standard onboarding",
+  programIds: [],
+  stages: [],
+  cohorts: [],
+  isDefault: true,
+  version: 1,
+  createdAt: "1970-01-01T00:00:00.000Z",
+  updatedAt: "1970-01-01T00:00:00.000Z",
+  items: [
+    {
+      id: "kickoff-call",
+      title: "Schedule onboarding kickoff call",
+      description: "Align with founders on expectations, milestones, and support structure.",
+      dueOffsetDays: 3,
+    },
+    {
+      id: "incorporation-documents",
+      title: "Upload incorporation documents",
+      description: "Certificate of incorporation and board resolution for incubator participation.",
+      dueOffsetDays: 5,
+    },
+    {
+      id: "founders-kyc",
+      title: "Submit founders KYC",
+      description: "Government ID and address proof for all founders and key signatories.",
+      dueOffsetDays: 7,
+    },
+    {
+      id: "banking-details",
+      title: "Share banking details",
+      description: "Provide cancelled cheque and bank account information for disbursements.",
+      dueOffsetDays: 10,
+    },
+    {
+      id: "pitch-deck",
+      title: "Upload latest pitch deck",
+      description: "Ensure mentors and investors access the most recent narrative.",
+      dueOffsetDays: 14,
+    },
+  ],
+};
+
+const MILLISECONDS_IN_DAY = 24 * 60 * 60 * 1000;
+
+const scopeMatches = (scope: string[], value: string | undefined) =>
+  !scope.length || (value !== undefined && scope.some((entry) => entry.toLowerCase() === value.toLowerCase()));
+
+export const checklistTemplateSpecificity = (
+  template: Pick<OnboardingChecklistTemplate, "programIds" | "stages" | "cohorts">,
+) => [template.programIds, template.stages, template.cohorts].filter((scope) => scope.length > 0).length;
+
+// Scoped templates win over the default by how many scopes they pin down, then by the most recent edit.
+// An unscoped template that is not the default is never picked automatically.
+export const resolveChecklistTemplate = (
+  templates: OnboardingChecklistTemplate[],
+  context: OnboardingChecklistTemplateContext,
+): OnboardingChecklistTemplate => {
+  const scoped = templates
+    .filter(
+      (template) =>
+        checklistTemplateSpecificity(template) > 0 &&
+        scopeMatches(template.programIds, context.programId) &&
+        scopeMatches(template.stages, context.stage) &&
+        scopeMatches(template.cohorts, context.cohort),
+    )
+    .sort(
+      (a, b) =>
+        checklistTemplateSpecificity(b) - checklistTemplateSpecificity(a) || b.updatedAt.localeCompare(a.updatedAt),
+    );
+  return scoped[0] ?? templates.find((template) => template.isDefault) ?? DEFAULT_CHECKLIST_TEMPLATE;
+};
+
+// Template items keep the status and completion of the checklist item they created, items added by hand are
+// left alone, and items dropped from the template are only removed while still pending.
+export const mergeChecklistTemplate = (
+  checklist: OnboardingChecklist,
+  template: OnboardingChecklistTemplate,
+  nowIso: string,
+): OnboardingChecklist => {
+  const anchorAt = checklist.anchorAt ?? checklist.createdAt;
+  const anchor = new Date(anchorAt).getTime();
+  const templateItemIds = new Set(template.items.map((item) => item.id));
+  const templated = template.items.map((item): OnboardingChecklistItem => {
+    const existing = checklist.items.find((entry) => entry.templateItemId === item.id);
+    const dueDate =
+      item.dueOffsetDays !== undefined
+        ? new Date(anchor + item.dueOffsetDays * MILLISECONDS_IN_DAY).toISOString()
+        : undefined;
+    const changed =
+      !existing ||
+      existing.title !== item.title ||
+      existing.description !== item.description ||
+      existing.dueDate !== dueDate;
+    return {
+      ...existing,
+      id: existing?.id ?? crypto.randomUUID(),
+      title: item.title,
+      description: item.description,
+      status: existing?.status ?? "pending",
+      dueDate,
+      updatedAt: changed ? nowIso : existing.updatedAt,
+      completedAt: existing?.completedAt,
+      templateItemId: item.id,
+    };
+  });
+  const retained = checklist.items.filter(
+    (entry) =>
+      !entry.templateItemId || (!templateItemIds.has(entry.templateItemId) && entry.status !== "pending"),
+  );
+  return {
+    ...checklist,
+    templateId: template.id,
+    templateVersion: template.version,
+    anchorAt,
+    updatedAt: nowIso,
+    items: [...templated, ...retained],
+  };
+};
+
+export const checklistItemBlockers = (
+  items: OnboardingChecklistItem[],
+  item: OnboardingChecklistItem,
+): OnboardingChecklistItem[] =>
+  (item.blockedBy ?? [])
+    .map((itemId) => items.find((entry) => entry.id === itemId))
+    .filter((entry): entry is OnboardingChecklistItem => entry !== undefined && entry.status !== "complete");
+
+export const missingChecklistEvidence = (
+  item: OnboardingChecklistItem,
+  documentKeys: Set<string>,
+): OnboardingChecklistEvidence[] =>
+  (item.evidence ?? []).filter((evidence) => !evidence.documentKey || !documentKeys.has(evidence.documentKey));
+
+// Founders can move items along, link uploads to evidence and add items of their own, but the evidence an item
+// needs, what blocks it and the template anchoring stay as staff last saved them.
+export const preserveChecklistRequirements = (
+  checklist: OnboardingChecklist,
+  previous: OnboardingChecklist | undefined,
+): OnboardingChecklist => ({
+  ...checklist,
+  templateId: previous?.templateId,
+  templateVersion: previous?.templateVersion,
+  anchorAt: previous?.anchorAt,
+  items: checklist.items.map((item) => {
+    const stored = previous?.items.find((entry) => entry.id === item.id);
+    const evidence = (stored?.evidence ?? []).map((entry) => {
+      const linked = item.evidence?.find((candidate) => candidate.id === entry.id);
+      return linked ? { ...entry, documentKey: linked.documentKey } : entry;
+    });
+    return { ...item, blockedBy: stored?.blockedBy, evidence: evidence.length ? evidence : undefined };
+  }),
+});
+
+// Items can only move to complete once nothing blocks them and their evidence documents are uploaded;
+// items that were already complete are left alone. The stored item's blockers and evidence count as well as the
+// submitted ones, so a save cannot drop a requirement and complete the item at once, and a blocker that the same
+// save removes still blocks.
+export const checklistCompletionError = (
+  items: OnboardingChecklistItem[],
+  previousItems: OnboardingChecklistItem[],
+  documentKeys: Set<string>,
+): string | undefined => {
+  for (const item of items) {
+    if (item.status !== "complete") continue;
+    const stored = previousItems.find((entry) => entry.id === item.id);
+    if (stored?.status === "complete") continue;
+    const blockedBy = new Set([...(stored?.blockedBy ?? []), ...(item.blockedBy ?? [])]);
+    if ([...blockedBy].some((itemId) => items.find((entry) => entry.id === itemId)?.status !== "complete")) {
+      return "Blocked items cannot be completed";
+    }
+    const evidence = [
+      ...(stored?.evidence ?? []).map(
+        (entry) => item.evidence?.find((candidate) => candidate.id === entry.id) ?? entry,
+      ),
+      ...(item.evidence ?? []).filter((entry) => !stored?.evidence?.some((candidate) => candidate.id === entry.id)),
+    ];
+    if (missingChecklistEvidence({ ...item, evidence }, documentKeys).length) {
+      return "Upload the required evidence before completing this item";
+    }
+  }
+  return undefined;
+};
+
+export const checklistHasDependencyCycle = (items: OnboardingChecklistItem[]): boolean => {
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const visit = (itemId: string): boolean => {
+    if (done.has(itemId)) return false;
+    if (visiting.has(itemId)) return true;
+    visiting.add(itemId);
+    const item = items.find((entry) => entry.id === itemId);
+    const cyclic = (item?.blockedBy ?? []).some(visit);
+    visiting.delete(itemId);
+    done.add(itemId);
+    return cyclic;
+  };
+  return items.some((item) => visit(item.id));
+};
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  companyNameSimilarity,
+  companyNamesMatch,
+  detectDuplicateSubmissions,
+  duplicateLookupKeys,
+  hasOpenDuplicateFlags,
+  normalizeCompanyName,
+  websiteDomain,
+} from "./duplicates";
+import type { OnboardingSubmissionResolvedField, OnboardingSubmissionSummary } from "./types";
+
+const summary = (
+  id: string,
+  overrides: Partial<OnboardingSubmissionSummary> & { fields?: OnboardingSubmissionResolvedField[] } = {},
+): OnboardingSubmissionSummary => {
+  const { fields = [], ...rest } = overrides;
+  return {
+    id,
+    formId: "form-1",
+    userId: `applicant-${id}`,
+    submittedAt: "2026-04-01T00:00:00.000Z",
+    status: "review",
+    responses: fields,
+    ...rest,
+  };
+};
+
+const field = (
+  fieldId: string,
+  type: OnboardingSubmissionResolvedField["type"],
+  value: string | null,
+  label = fieldId,
+): OnboardingSubmissionResolvedField => ({ fieldId, label, type, value });
+
+describe("company name matching", () => {
+  test("ignores case, accents, punctuation and legal suffixes", () => {
+    assert.equal(normalizeCompanyName("The Café-Nova GmbH & Co."), "cafe nova");
+    assert.equal(companyNameSimilarity("Acme, Inc.", "ACME Ltd"), 1);
+    assert.equal(companyNameSimilarity("Data Bricks", "Databricks"), 1);
+  });
+
+  test("scores edits against the longer name and matches from 0.85", () => {
+    assert.equal(companyNameSimilarity("Acme Robotics", "Acme Robotic"), 0.92);
+    // Three substitutions in twenty characters sit exactly on the threshold; a fourth drops below it.
+    assert.equal(companyNameSimilarity("Riverstone Logistics", "Riverstane Lagistiks"), 0.85);
+    assert.equal(companyNamesMatch("Riverstone Logistics", "Riverstane Lagistiks"), true);
+    assert.equal(companyNameSimilarity("Riverstone Logistics", "Rivarstane Lagistiks"), 0.8);
+    assert.equal(companyNamesMatch("Riverstone Logistics", "Rivarstane Lagistiks"), false);
+    assert.equal(companyNamesMatch("Greenleaf Foods", "Greenfield Foods"), false);
+  });
+
+  test("never matches names too short to compare", () => {
+    assert.equal(companyNameSimilarity("AB", "AB"), 0);
+    assert.equal(companyNameSimilarity("The Company Ltd", "Co Inc"), 0);
+  });
+});
+
+describe("websiteDomain", () => {
+  test("reads the host with or without a scheme and drops www", () => {
+    assert.equal(websiteDomain("https://www.Acme.io/about"), "acme.io");
+    assert.equal(websiteDomain("acme.io"), "acme.io");
+    assert.equal(websiteDomain("  "), undefined);
+    assert.equal(websiteDomain("http://"), undefined);
+  });
+});
+
+describe("detectDuplicateSubmissions", () => {
+  const first = summary("first", {
+    companyName: "Acme Robotics Inc",
+    submittedAt: "2026-03-01T00:00:00.000Z",
+    fields: [
+      field("contact", "email", "Ada@Acme.io"),
+      field("company-website", "url", "https://www.acme.io"),
+      field("linkedin", "url", "https://linkedin.com/company/acme"),
+    ],
+  });
+
+  test("links both submissions with every signal they share", () => {
+    const second = summary("second", {
+      companyName: "ACME Robotic",
+      userId: "applicant-first",
+      fields: [field("contact", "email", "ada@acme.io"), field("homepage", "url", "acme.io/en")],
+    });
+    const matches = detectDuplicateSubmissions([first, second]);
+
+    const [match] = matches.get("first") ?? [];
+    assert.deepEqual(match.signals, ["company_name", "website", "email", "applicant"]);
+    assert.equal(match.nameSimilarity, 0.92);
+    assert.equal(match.relation, "later");
+    assert.equal(matches.get("second")?.[0].relation, "earlier");
+  });
+
+  test("matches identical attachments and leaves unrelated submissions alone", () => {
+    const attachment = { key: "uploads/deck.pdf", name: "deck.pdf", size: 1, contentType: "application/pdf" };
+    const withDeck = (id: string, sha256: string) =>
+      summary(id, {
+        companyName: id === "third" ? "Helios Power" : "Greenleaf Foods",
+        fields: [{ ...field("deck", "file", null), attachments: [{ ...attachment, sha256 }] }],
+      });
+
+    const matches = detectDuplicateSubmissions([first, withDeck("third", "abc"), withDeck("fourth", "abc")]);
+    assert.equal(matches.has("first"), false);
+    assert.deepEqual(matches.get("third")?.[0].signals, ["attachment"]);
+    assert.equal(matches.get("third")?.[0].nameSimilarity, undefined);
+  });
+
+  test("carries a resolution recorded on either side and only flags unresolved matches", () => {
+    const second = summary("second", {
+      companyName: "Acme Robotics",
+      duplicateResolutions: [
+        {
+          submissionId: "first",
+          action: "dismissed",
+          resolvedBy: "reviewer-1",
+          resolvedAt: "2026-04-02T00:00:00.000Z",
+        },
+      ],
+    });
+    const matches = detectDuplicateSubmissions([first, second]);
+
+    assert.equal(matches.get("first")?.[0].resolution, "dismissed");
+    assert.equal(hasOpenDuplicateFlags({ duplicates: matches.get("first") }), false);
+    const unresolved = detectDuplicateSubmissions([first, summary("third", { companyName: "Acme Robotics" })]);
+    assert.equal(hasOpenDuplicateFlags({ duplicates: unresolved.get("third") }), true);
+  });
+
+  test("indexes the exact-match signals, preferring a website field over other links", () => {
+    assert.deepEqual(duplicateLookupKeys(first), ["applicant:applicant-first", "email:ada@acme.io", "domain:acme.io"]);
+    assert.deepEqual(
+      duplicateLookupKeys(summary("other", { fields: [field("linkedin", "url", "https://linkedin.com/in/ada")] })),
+      ["applicant:applicant-other", "domain:linkedin.com"],
+    );
+  });
+});
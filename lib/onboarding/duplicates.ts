@@ -0,0 +1,218 @@
+import type {
+  OnboardingDuplicateMatch,
+  OnboardingDuplicateSignal,
+  OnboardingSubmissionResolvedField,
+  OnboardingSubmissionSummary,
+} from "./types";
+
+export const DUPLICATE_SIGNAL_LABELS: Record<OnboardingDuplicateSignal, string> = {
+  company_name: "Similar company name",
+  website: "Same website",
+  email: "Same contact email",
+  applicant: "Same applicant account",
+  attachment: "Identical attachment",
+};
+
+const COMPANY_NAME_THRESHOLD = 0.85;
+
+const LEGAL_SUFFIXES = new Set([
+  "inc",
+  "incorporated",
+  "ltd",
+  "limited",
+  "llc",
+  "llp",
+  "plc",
+  "corp",
+  "corporation",
+  "co",
+  "company",
+  "gmbh",
+  "ag",
+  "sa",
+  "sas",
+  "sarl",
+  "bv",
+  "oy",
+  "ab",
+  "pty",
+  "the",
+]);
+
+export const normalizeCompanyName = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((token) => token.length > 0 && !LEGAL_SUFFIXES.has(token))
+    .join(" ");
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const companyNameSimilarity = (a: string, b: string) => {
+  const left = normalizeCompanyName(a);
+  const right = normalizeCompanyName(b);
+  if (left.length < 3 || right.length < 3) {
+    return 0;
+  }
+  if (left === right || left.replace(/ /g, "") === right.replace(/ /g, "")) {
+    return 1;
+  }
+  return Number((1 - levenshtein(left, right) / Math.max(left.length, right.length)).toFixed(2));
+};
+
+export const companyNamesMatch = (a: string, b: string) => companyNameSimilarity(a, b) >= COMPANY_NAME_THRESHOLD;
+
+export const websiteDomain = (value: string): string | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  try {
+    const hostname = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`).hostname;
+    return hostname.replace(/^www\./, "").toLowerCase() || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const flattenResponses = (responses: OnboardingSubmissionResolvedField[]): OnboardingSubmissionResolvedField[] =>
+  responses.flatMap((response) => [
+    response,
+    ...flattenResponses((response.entries ?? []).flatMap((entry) => entry.fields)),
+  ]);
+
+const responseStrings = (response: OnboardingSubmissionResolvedField) =>
+  (Array.isArray(response.value) ? response.value : response.value ? [response.value] : []).filter(
+    (value) => value.trim().length > 0,
+  );
+
+type Fingerprint = {
+  summary: OnboardingSubmissionSummary;
+  emails: Set<string>;
+  domains: Set<string>;
+  hashes: Set<string>;
+};
+
+const fingerprint = (summary: OnboardingSubmissionSummary): Fingerprint => {
+  const responses = flattenResponses(summary.responses);
+  const urlResponses = responses.filter((response) => response.type === "url");
+  const websiteResponses = urlResponses.filter(
+    (response) => /website|site|domain|homepage/i.test(response.fieldId) || /website|site|domain|homepage/i.test(response.label),
+  );
+  return {
+    summary,
+    emails: new Set(
+      responses
+        .filter((response) => response.type === "email")
+        .flatMap(responseStrings)
+        .map((email) => email.trim().toLowerCase()),
+    ),
+    domains: new Set(
+      (websiteResponses.length ? websiteResponses : urlResponses.slice(0, 1))
+        .flatMap(responseStrings)
+        .map(websiteDomain)
+        .filter((domain): domain is string => Boolean(domain)),
+    ),
+    hashes: new Set(
+      responses
+        .flatMap((response) => response.attachments ?? [])
+        .map((attachment) => attachment.sha256)
+        .filter((hash): hash is string => Boolean(hash)),
+    ),
+  };
+};
+
+// Exact-match signals stored on each record so likely duplicates can be found through an index;
+// company names are fuzzy-matched separately.
+export const duplicateLookupKeys = (summary: OnboardingSubmissionSummary): string[] => {
+  const print = fingerprint(summary);
+  return [
+    `applicant:${summary.userId}`,
+    ...Array.from(print.emails, (email) => `email:${email}`),
+    ...Array.from(print.domains, (domain) => `domain:${domain}`),
+    ...Array.from(print.hashes, (hash) => `sha256:${hash}`),
+  ];
+};
+
+const overlaps = (a: Set<string>, b: Set<string>) => Array.from(a).some((value) => b.has(value));
+
+const resolutionFor = (a: OnboardingSubmissionSummary, b: OnboardingSubmissionSummary) =>
+  (a.duplicateResolutions ?? []).find((resolution) => resolution.submissionId === b.id)?.action ??
+  (b.duplicateResolutions ?? []).find((resolution) => resolution.submissionId === a.id)?.action;
+
+// Pairwise comparison; the list narrows the input to one page and its likely matches first.
+export const detectDuplicateSubmissions = (
+  summaries: OnboardingSubmissionSummary[],
+): Map<string, OnboardingDuplicateMatch[]> => {
+  const prints = summaries.map(fingerprint);
+  const matches = new Map<string, OnboardingDuplicateMatch[]>();
+
+  const link = (
+    from: Fingerprint,
+    to: Fingerprint,
+    signals: OnboardingDuplicateSignal[],
+    nameSimilarity: number,
+  ) => {
+    const target = to.summary;
+    const list = matches.get(from.summary.id) ?? [];
+    list.push({
+      submissionId: target.id,
+      companyName: target.companyName,
+      submittedAt: target.submittedAt,
+      relation:
+        new Date(target.submittedAt).getTime() <= new Date(from.summary.submittedAt).getTime() ? "earlier" : "later",
+      status: target.status,
+      lifecycleState: target.lifecycleState,
+      decision: target.panelDecision?.status ?? target.scoreManual?.status,
+      signals,
+      nameSimilarity: signals.includes("company_name") ? nameSimilarity : undefined,
+      resolution: resolutionFor(from.summary, target),
+    });
+    matches.set(from.summary.id, list);
+  };
+
+  for (let i = 0; i < prints.length; i += 1) {
+    for (let j = i + 1; j < prints.length; j += 1) {
+      const a = prints[i];
+      const b = prints[j];
+      const signals: OnboardingDuplicateSignal[] = [];
+      const nameSimilarity =
+        a.summary.companyName && b.summary.companyName
+          ? companyNameSimilarity(a.summary.companyName, b.summary.companyName)
+          : 0;
+      if (nameSimilarity >= COMPANY_NAME_THRESHOLD) signals.push("company_name");
+      if (overlaps(a.domains, b.domains)) signals.push("website");
+      if (overlaps(a.emails, b.emails)) signals.push("email");
+      if (a.summary.userId === b.summary.userId) signals.push("applicant");
+      if (overlaps(a.hashes, b.hashes)) signals.push("attachment");
+      if (!signals.length) continue;
+      link(a, b, signals, nameSimilarity);
+      link(b, a, signals, nameSimilarity);
+    }
+  }
+
+  matches.forEach((list) =>
+    list.sort((x, y) => new Date(x.submittedAt).getTime() - new Date(y.submittedAt).getTime()),
+  );
+  return matches;
+};
+
+export const hasOpenDuplicateFlags = (summary: Pick<OnboardingSubmissionSummary, "duplicates">) =>
+  Boolean(summary.duplicates?.some((match) => !match.resolution));
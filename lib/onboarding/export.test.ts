@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { crc32, inflateRawSync } from "node:zlib";
+import { encodeCsv, encodeXlsx } from "./export";
+import type { OnboardingExportTable } from "./types";
+
+// RFC 4180 reader: quoted fields may hold commas, doubled quotes and line breaks.
+const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\r" && text[index + 1] === "\n") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      index += 1;
+    } else {
+      field += char;
+    }
+  }
+  return rows;
+};
+
+type ZipEntry = { name: string; content: string; crc: number; compressedSize: number; size: number };
+
+// Walks the central directory and inflates every entry from its local header.
+const readZip = (archive: Buffer): ZipEntry[] => {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  assert.notEqual(end, -1, "missing end of central directory");
+  const count = archive.readUInt16LE(end + 10);
+  let cursor = archive.readUInt32LE(end + 16);
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < count; index += 1) {
+    assert.equal(archive.readUInt32LE(cursor), 0x02014b50);
+    const crc = archive.readUInt32LE(cursor + 16);
+    const compressedSize = archive.readUInt32LE(cursor + 20);
+    const size = archive.readUInt32LE(cursor + 24);
+    const nameLength = archive.readUInt16LE(cursor + 28);
+    const name = archive.toString("utf8", cursor + 46, cursor + 46 + nameLength);
+    const offset = archive.readUInt32LE(cursor + 42);
+
+    assert.equal(archive.readUInt32LE(offset), 0x04034b50);
+    assert.equal(archive.readUInt32LE(offset + 14), crc, `${name} local header CRC`);
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+    const content = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    assert.equal(content.length, size, `${name} size`);
+    entries.push({ name, content: content.toString("utf8"), crc, compressedSize, size });
+    cursor += 46 + nameLength;
+  }
+  return entries;
+};
+
+const table: OnboardingExportTable = {
+  columns: ["Company", "Score", "Notes"],
+  rows: [
+    ["Acme, Inc.", 42, 'Said "hello"\nthen left'],
+    ["=HYPERLINK(\"http://evil\")", -3, "+1 555 0100"],
+    ["-2+3", null, "@mention"],
+    ["\tTabbed", 1.5, "\rReturn"],
+    ["<Tags> & more", 0, ""],
+  ],
+};
+
+describe("encodeCsv", () => {
+  const text = encodeCsv(table).toString("utf8");
+
+  test("starts with a byte order mark and ends rows with CRLF", () => {
+    assert.equal(text.charCodeAt(0), 0xfeff);
+    assert.equal(text.endsWith("\r\n"), true);
+  });
+
+  test("prefixes cells that would be read as formulas", () => {
+    const rows = parseCsv(text.slice(1));
+    assert.deepEqual(
+      rows.slice(2).map((row) => [row[0], row[2]]),
+      [
+        ["'=HYPERLINK(\"http://evil\")", "'+1 555 0100"],
+        ["'-2+3", "'@mention"],
+        ["'\tTabbed", "'\rReturn"],
+        ["<Tags> & more", ""],
+      ],
+    );
+    assert.equal(rows[2][1], "-3");
+  });
+
+  test("round-trips quotes, commas and line breaks", () => {
+    const rows = parseCsv(text.slice(1));
+    assert.deepEqual(rows[0], table.columns);
+    assert.deepEqual(rows[1], ["Acme, Inc.", "42", 'Said "hello"\nthen left']);
+    assert.equal(rows.length, table.rows.length + 1);
+  });
+});
+
+describe("encodeXlsx", () => {
+  const entries = readZip(encodeXlsx(table, "Spring/2026: intake"));
+  const entry = (name: string) => entries.find((candidate) => candidate.name === name)?.content ?? "";
+
+  test("contains the workbook parts", () => {
+    assert.deepEqual(entries.map((candidate) => candidate.name).sort(), [
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/_rels/workbook.xml.rels",
+      "xl/sharedStrings.xml",
+      "xl/styles.xml",
+      "xl/workbook.xml",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    assert.match(entry("[Content_Types].xml"), /PartName="\/xl\/sharedStrings\.xml"/);
+    assert.match(entry("xl/_rels/workbook.xml.rels"), /Target="sharedStrings\.xml"/);
+    assert.match(entry("xl/workbook.xml"), /<sheet name="Spring 2026  intake"/);
+  });
+
+  test("stores a valid CRC for every entry", () => {
+    entries.forEach((candidate) => {
+      assert.equal(candidate.crc, crc32(Buffer.from(candidate.content, "utf8")), candidate.name);
+    });
+  });
+
+  test("writes text through the shared string table and numbers inline", () => {
+    const strings = Array.from(
+      entry("xl/sharedStrings.xml").matchAll(/<si><t xml:space="preserve">([^<]*)<\/t><\/si>/g),
+      (match) => match[1],
+    );
+    const sheet = entry("xl/worksheets/sheet1.xml");
+    const cell = (reference: string) => {
+      const match = sheet.match(new RegExp(`<c r="${reference}"([^>]*)><v>([^<]*)</v></c>`));
+      assert.ok(match, `missing cell ${reference}`);
+      return match[1].includes('t="s"') ? strings[Number(match[2])] : Number(match[2]);
+    };
+
+    assert.equal(cell("A1"), "Company");
+    assert.equal(cell("A2"), "Acme, Inc.");
+    assert.equal(cell("C2"), 'Said &quot;hello&quot;\nthen left');
+    assert.equal(cell("B3"), -3);
+    assert.equal(cell("A3"), "=HYPERLINK(&quot;http://evil&quot;)");
+    assert.equal(cell("A6"), "&lt;Tags&gt; &amp; more");
+    assert.equal(sheet.includes('r="B4"'), false);
+    assert.equal(sheet.includes('r="C6"'), false);
+    assert.match(entry("xl/sharedStrings.xml"), /count="\d+" uniqueCount="\d+"/);
+    assert.equal(new Set(strings).size, strings.length);
+  });
+});
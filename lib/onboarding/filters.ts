@@ -0,0 +1,74 @@
+import type {
+  OnboardingSubmissionFilters,
+  OnboardingSubmissionPageInput,
+  OnboardingSubmissionSort,
+} from "./types";
+
+export const SUBMISSION_SORT_LABELS: Record<OnboardingSubmissionSort, string> = {
+  submitted_desc: "Newest first",
+  submitted_asc: "Oldest first",
+  score_desc: "Highest score",
+  score_asc: "Lowest score",
+  company_asc: "Company A–Z",
+  company_desc: "Company Z–A",
+};
+
+export const DEFAULT_SUBMISSION_PAGE_SIZE = 50;
+
+const parseNumber = (value: string | null): number | undefined => {
+  if (value === null) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (!trimmed.length) {
+    return undefined;
+  }
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Reads the filters shared by the submission list and its exports; queue and program are
+// resolved by the caller because they depend on who is asking.
+export const parseSubmissionFilters = (params: URLSearchParams): OnboardingSubmissionFilters => {
+  const filters: OnboardingSubmissionFilters = {};
+
+  const statusParam = params.get("status")?.trim();
+  if (statusParam) {
+    filters.status = statusParam;
+  }
+
+  const recommendationParam = params.get("recommendation");
+  if (recommendationParam === "advance" || recommendationParam === "review" || recommendationParam === "reject") {
+    filters.recommendation = recommendationParam;
+  }
+
+  const stageParam = params.get("stage");
+  if (stageParam) {
+    filters.stage = stageParam;
+  }
+
+  const minScore = parseNumber(params.get("minScore"));
+  const maxScore = parseNumber(params.get("maxScore"));
+  if (minScore !== undefined) {
+    filters.minScore = minScore;
+  }
+  if (maxScore !== undefined) {
+    filters.maxScore = maxScore;
+  }
+
+  const queryParam = params.get("query");
+  if (queryParam) {
+    filters.query = queryParam;
+  }
+
+  return filters;
+};
+
+export const parseSubmissionSort = (value: string | null): OnboardingSubmissionSort | undefined =>
+  value && Object.hasOwn(SUBMISSION_SORT_LABELS, value) ? (value as OnboardingSubmissionSort) : undefined;
+
+export const parseSubmissionPage = (params: URLSearchParams): OnboardingSubmissionPageInput => ({
+  sort: parseSubmissionSort(params.get("sort")),
+  cursor: params.get("cursor")?.trim() || undefined,
+  limit: parseNumber(params.get("limit")) ?? DEFAULT_SUBMISSION_PAGE_SIZE,
+});
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  ACCEPTED_LIFECYCLE_STATE,
+  DEFAULT_LIFECYCLE,
+  allowedLifecycleTransitions,
+  getProgramLifecycle,
+  lifecycleStateLabel,
+  submissionLifecycleState,
+} from "./lifecycle";
+import type { OnboardingLifecycle } from "./types";
+
+const targets = (lifecycle: OnboardingLifecycle, from: string) =>
+  allowedLifecycleTransitions(lifecycle, from).map((state) => state.id);
+
+const customLifecycle: OnboardingLifecycle = {
+  initialState: "new",
+  states: [
+    { id: "new", label: "New", terminal: false, next: ["pitch"] },
+    { id: "pitch", label: "Pitch day", terminal: false, next: [ACCEPTED_LIFECYCLE_STATE, "passed"] },
+    { id: ACCEPTED_LIFECYCLE_STATE, label: "Accepted", terminal: true, next: [] },
+    { id: "passed", label: "Passed", terminal: true, next: [] },
+  ],
+};
+
+describe("lifecycle transitions", () => {
+  test("follow the configured next states", () => {
+    assert.deepEqual(targets(DEFAULT_LIFECYCLE, "submitted"), ["screening", "declined", "withdrawn"]);
+    assert.deepEqual(targets(DEFAULT_LIFECYCLE, "due_diligence"), [
+      "waitlisted",
+      ACCEPTED_LIFECYCLE_STATE,
+      "declined",
+      "withdrawn",
+    ]);
+  });
+
+  test("cannot skip ahead to acceptance", () => {
+    assert.equal(targets(DEFAULT_LIFECYCLE, "screening").includes(ACCEPTED_LIFECYCLE_STATE), false);
+    assert.equal(targets(DEFAULT_LIFECYCLE, "waitlisted").includes(ACCEPTED_LIFECYCLE_STATE), true);
+  });
+
+  test("end at terminal states", () => {
+    assert.deepEqual(targets(DEFAULT_LIFECYCLE, ACCEPTED_LIFECYCLE_STATE), []);
+    assert.deepEqual(targets(DEFAULT_LIFECYCLE, "declined"), []);
+    assert.deepEqual(targets(DEFAULT_LIFECYCLE, "withdrawn"), []);
+  });
+
+  test("let submissions in a removed state move to any configured state", () => {
+    assert.deepEqual(targets(customLifecycle, "screening"), ["new", "pitch", ACCEPTED_LIFECYCLE_STATE, "passed"]);
+  });
+});
+
+describe("program lifecycles", () => {
+  test("fall back to the default lifecycle when none is configured", () => {
+    assert.equal(getProgramLifecycle(undefined), DEFAULT_LIFECYCLE);
+    assert.equal(getProgramLifecycle({ lifecycle: { initialState: "", states: [] } }), DEFAULT_LIFECYCLE);
+    assert.equal(getProgramLifecycle({ lifecycle: customLifecycle }), customLifecycle);
+  });
+
+  test("place submissions without a state in the initial state", () => {
+    assert.equal(submissionLifecycleState({}, customLifecycle), "new");
+    assert.equal(submissionLifecycleState({ lifecycleState: "pitch" }, customLifecycle), "pitch");
+  });
+
+  test("label unknown states by their id", () => {
+    assert.equal(lifecycleStateLabel(customLifecycle, "pitch"), "Pitch day");
+    assert.equal(lifecycleStateLabel(customLifecycle, "archived"), "archived");
+  });
+});
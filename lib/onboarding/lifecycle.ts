@@ -0,0 +1,63 @@
+import type { OnboardingLifecycle, OnboardingLifecycleState, OnboardingProgram, OnboardingSubmission } from "./types";
+
+const WITHDRAWN = "withdrawn";
+export const ACCEPTED_LIFECYCLE_STATE = "accepted";
+
+export const DEFAULT_LIFECYCLE: OnboardingLifecycle = {
+  initialState: "submitted",
+  states: [
+    { id: "submitted", label: "Submitted", terminal: false, next: ["screening", "declined", WITHDRAWN] },
+    { id: "screening", label: "Screening", terminal: false, next: ["shortlisted", "declined", WITHDRAWN] },
+    {
+      id: "shortlisted",
+      label: "Shortlisted",
+      terminal: false,
+      next: ["interview", "waitlisted", "declined", WITHDRAWN],
+    },
+    {
+      id: "interview",
+      label: "Interview",
+      terminal: false,
+      next: ["due_diligence", "waitlisted", "declined", WITHDRAWN],
+    },
+    {
+      id: "due_diligence",
+      label: "Due diligence",
+      terminal: false,
+      next: [ACCEPTED_LIFECYCLE_STATE, "waitlisted", "declined", WITHDRAWN],
+    },
+    { id: "waitlisted", label: "Waitlisted", terminal: false, next: [ACCEPTED_LIFECYCLE_STATE, "declined", WITHDRAWN] },
+    { id: ACCEPTED_LIFECYCLE_STATE, label: "Accepted", terminal: true, next: [] },
+    { id: "declined", label: "Declined", terminal: true, next: [] },
+    { id: WITHDRAWN, label: "Withdrawn", terminal: true, next: [] },
+  ],
+};
+
+export const getProgramLifecycle = (program: Pick<OnboardingProgram, "lifecycle"> | null | undefined) =>
+  program?.lifecycle?.states.length ? program.lifecycle : DEFAULT_LIFECYCLE;
+
+export const findLifecycleState = (
+  lifecycle: OnboardingLifecycle,
+  stateId: string | undefined,
+): OnboardingLifecycleState | undefined => lifecycle.states.find((state) => state.id === stateId);
+
+export const lifecycleStateLabel = (lifecycle: OnboardingLifecycle, stateId: string | undefined) =>
+  findLifecycleState(lifecycle, stateId)?.label ?? stateId ?? "Unknown";
+
+// Submissions filed before the program had a lifecycle sit in its initial state.
+export const submissionLifecycleState = (
+  submission: Pick<OnboardingSubmission, "lifecycleState">,
+  lifecycle: OnboardingLifecycle,
+) => submission.lifecycleState ?? lifecycle.initialState;
+
+// A state removed from the configuration can move anywhere so its submissions are never stranded.
+export const allowedLifecycleTransitions = (
+  lifecycle: OnboardingLifecycle,
+  from: string,
+): OnboardingLifecycleState[] => {
+  const current = findLifecycleState(lifecycle, from);
+  if (!current) {
+    return lifecycle.states.filter((state) => state.id !== from);
+  }
+  return lifecycle.states.filter((state) => current.next.includes(state.id));
+};
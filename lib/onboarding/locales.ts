@@ -0,0 +1,192 @@
+import type {
+  OnboardingField,
+  OnboardingForm,
+  OnboardingMissingTranslation,
+  OnboardingSection,
+} from "./types";
+
+export const DEFAULT_FORM_LOCALE = "en";
+
+export const FORM_LOCALE_LABELS: Record<string, string> = {
+  ar: "العربية",
+  de: "Deutsch",
+  en: "English",
+  es: "Español",
+  fr: "Français",
+  hi: "हिन्दी",
+  it: "Italiano",
+  ja: "日本語",
+  nl: "Nederlands",
+  pl: "Polski",
+  pt: "Português",
+  sw: "Kiswahili",
+  tr: "Türkçe",
+  uk: "Українська",
+  zh: "中文",
+};
+
+export const localeLabel = (locale: string) =>
+  FORM_LOCALE_LABELS[locale] ?? FORM_LOCALE_LABELS[locale.split("-")[0]] ?? locale;
+
+export const normalizeLocaleTag = (value: string | null | undefined): string | undefined => {
+  const trimmed = value?.trim().replace(/_/g, "-");
+  if (!trimmed || !/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(trimmed)) {
+    return undefined;
+  }
+  const [language, ...subtags] = trimmed.split("-");
+  return [
+    language.toLowerCase(),
+    ...subtags.map((subtag) => (subtag.length === 2 ? subtag.toUpperCase() : subtag)),
+  ].join("-");
+};
+
+export const getFormLocales = (form: Pick<OnboardingForm, "defaultLocale" | "locales">): string[] => {
+  const defaultLocale = form.defaultLocale ?? DEFAULT_FORM_LOCALE;
+  return [defaultLocale, ...(form.locales ?? []).filter((locale) => locale !== defaultLocale)];
+};
+
+export const parseAcceptLanguage = (header: string | null | undefined): string[] =>
+  (header ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, quality] = part.trim().split(";q=");
+      return { tag, quality: quality ? Number.parseFloat(quality) : 1 };
+    })
+    .filter((entry) => entry.tag && entry.tag !== "*" && Number.isFinite(entry.quality))
+    .sort((a, b) => b.quality - a.quality)
+    .map((entry) => entry.tag);
+
+// Exact matches win, then a language-only match ("pt-BR" → "pt"), then the form default.
+export const resolveFormLocale = (
+  form: Pick<OnboardingForm, "defaultLocale" | "locales">,
+  requested: Array<string | null | undefined>,
+): string => {
+  const available = getFormLocales(form);
+  for (const candidate of requested) {
+    const tag = normalizeLocaleTag(candidate);
+    if (!tag) continue;
+    if (available.includes(tag)) {
+      return tag;
+    }
+    const language = tag.split("-")[0];
+    const match = available.find((locale) => locale.split("-")[0] === language);
+    if (match) {
+      return match;
+    }
+  }
+  return available[0];
+};
+
+const localizeField = (field: OnboardingField, locale: string): OnboardingField => {
+  const translation = field.translations?.[locale];
+  return {
+    ...field,
+    label: translation?.label || field.label,
+    description: translation?.description || field.description,
+    placeholder: translation?.placeholder || field.placeholder,
+    entryLabel: translation?.entryLabel || field.entryLabel,
+    options: field.options?.map((option) => ({
+      ...option,
+      label: option.translations?.[locale] || option.label,
+    })),
+    fields: field.fields?.map((subField) => localizeField(subField, locale)),
+  };
+};
+
+const localizeSection = (section: OnboardingSection, locale: string): OnboardingSection => {
+  const translation = section.translations?.[locale];
+  return {
+    ...section,
+    title: translation?.title || section.title,
+    description: translation?.description || section.description,
+    fields: section.fields.map((field) => localizeField(field, locale)),
+  };
+};
+
+// Untranslated strings fall back to the default-language copy.
+export const localizeForm = (form: OnboardingForm, locale: string): OnboardingForm => {
+  if (locale === (form.defaultLocale ?? DEFAULT_FORM_LOCALE)) {
+    return form;
+  }
+  const translation = form.translations?.[locale];
+  return {
+    ...form,
+    title: translation?.title || form.title,
+    summary: translation?.summary || form.summary,
+    sections: form.sections.map((section) => localizeSection(section, locale)),
+  };
+};
+
+const collectMissingFieldTranslations = (
+  field: OnboardingField,
+  section: OnboardingSection,
+  locale: string,
+  missing: OnboardingMissingTranslation[],
+  labelPrefix = "",
+) => {
+  const translation = field.translations?.[locale];
+  const properties = (["label", "description", "placeholder", "entryLabel"] as const).filter(
+    (property) => field[property] && !translation?.[property],
+  );
+  if (properties.length) {
+    missing.push({
+      locale,
+      kind: "field",
+      id: field.id,
+      label: `${labelPrefix}${field.label}`,
+      sectionId: section.id,
+      properties,
+    });
+  }
+  field.options?.forEach((option) => {
+    if (!option.translations?.[locale]) {
+      missing.push({
+        locale,
+        kind: "option",
+        id: option.id,
+        label: `${labelPrefix}${field.label}: ${option.label}`,
+        sectionId: section.id,
+        properties: ["label"],
+      });
+    }
+  });
+  field.fields?.forEach((subField) =>
+    collectMissingFieldTranslations(subField, section, locale, missing, `${labelPrefix}${field.label} › `),
+  );
+};
+
+export const findMissingTranslations = (form: OnboardingForm): OnboardingMissingTranslation[] => {
+  const missing: OnboardingMissingTranslation[] = [];
+
+  getFormLocales(form)
+    .slice(1)
+    .forEach((locale) => {
+      const formTranslation = form.translations?.[locale];
+      const formProperties = (["title", "summary"] as const).filter(
+        (property) => form[property] && !formTranslation?.[property],
+      );
+      if (formProperties.length) {
+        missing.push({ locale, kind: "form", id: form.id, label: form.title, properties: formProperties });
+      }
+
+      form.sections.forEach((section) => {
+        const sectionTranslation = section.translations?.[locale];
+        const sectionProperties = (["title", "description"] as const).filter(
+          (property) => section[property] && !sectionTranslation?.[property],
+        );
+        if (sectionProperties.length) {
+          missing.push({
+            locale,
+            kind: "section",
+            id: section.id,
+            label: section.title,
+            sectionId: section.id,
+            properties: sectionProperties,
+          });
+        }
+        section.fields.forEach((field) => collectMissingFieldTranslations(field, section, locale, missing));
+      });
+    });
+
+  return missing;
+};
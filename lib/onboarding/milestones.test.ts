@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { UserProfile } from "@/lib/db/auth/user";
+import type { MailMessage, MailTransport } from "@/lib/mail/transport";
+import { collectMilestoneNotifications, sendMilestoneNotifications } from "./milestones";
+import type { OnboardingMilestone, OnboardingMilestonePlan } from "./types";
+
+const NOW = new Date("2026-05-20T09:00:00.000Z");
+
+const milestone = (overrides: Partial<OnboardingMilestone> & Pick<OnboardingMilestone, "id">): OnboardingMilestone => ({
+  startupId: "startup-1",
+  title: overrides.id,
+  status: "on_track",
+  progress: 40,
+  createdAt: "2026-04-01T00:00:00.000Z",
+  updatedAt: "2026-04-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const plan = (milestones: OnboardingMilestone[]): OnboardingMilestonePlan => ({
+  startupId: "startup-1",
+  updatedAt: "2026-04-01T00:00:00.000Z",
+  milestones,
+  logs: [],
+});
+
+const user = (overrides: Partial<UserProfile> & Pick<UserProfile, "id" | "email">): UserProfile => ({
+  name: null,
+  isActive: true,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  permissions: [],
+  startupIds: [],
+  ...overrides,
+});
+
+const users = [
+  user({ id: "founder-1", email: "Ada@Startup.io", name: "Ada Founder", startupIds: ["startup-1"] }),
+  user({ id: "founder-2", email: "grace@startup.io", startupIds: ["startup-1"] }),
+  user({ id: "former", email: "former@startup.io", startupIds: ["startup-1"], isActive: false }),
+  user({ id: "mentor", email: "mentor@incubator.org", name: "Mia Mentor" }),
+];
+
+// Records every message and fails for the recipients it is told to reject.
+const fakeTransport = (rejected: string[] = []) => {
+  const sent: MailMessage[] = [];
+  const transport: MailTransport = {
+    name: "fake",
+    send: async (message) => {
+      if (message.to.some((recipient) => rejected.includes(recipient))) {
+        throw new Error(`Mailbox unavailable: ${message.to.join(", ")}`);
+      }
+      sent.push(message);
+      return { messageId: `<${sent.length}@test>` };
+    },
+  };
+  return { transport, sent };
+};
+
+describe("collectMilestoneNotifications", () => {
+  test("reminds the owner and escalates once a milestone is overdue long enough", () => {
+    const { pending, skipped } = collectMilestoneNotifications(
+      plan([
+        milestone({
+          id: "mvp",
+          title: "Ship MVP",
+          owner: "ada@startup.io",
+          dueDate: "2026-05-15T00:00:00.000Z",
+          escalationAfterDays: 3,
+          escalateTo: "Partner@Incubator.org; bogus",
+          lastReminderAt: "2026-05-19T00:00:00.000Z",
+        }),
+      ]),
+      "Acme",
+      users,
+      NOW,
+    );
+
+    assert.equal(skipped, 0);
+    assert.deepEqual(
+      pending.map((entry) => [entry.kind, entry.recipients]),
+      [["escalation", ["partner@incubator.org"]]],
+    );
+    assert.equal(pending[0].subject, "Escalation: Acme milestone Ship MVP is overdue by 6 days");
+    assert.match(pending[0].text, /Owner: ada@startup\.io/);
+  });
+
+  test("resolves owners by email, by user name, or to every active founder", () => {
+    const { pending } = collectMilestoneNotifications(
+      plan([
+        milestone({ id: "by-email", owner: "Ada@Startup.io" }),
+        milestone({ id: "by-name", owner: "mia mentor" }),
+        milestone({ id: "by-label", owner: "Founders" }),
+      ]),
+      "Acme",
+      users,
+      NOW,
+    );
+
+    assert.deepEqual(
+      pending.map((entry) => [entry.milestoneId, entry.recipients]),
+      [
+        ["by-email", ["ada@startup.io"]],
+        ["by-name", ["mentor@incubator.org"]],
+        ["by-label", ["ada@startup.io", "grace@startup.io"]],
+      ],
+    );
+  });
+
+  test("respects the reminder lead time and cadence and skips completed milestones", () => {
+    const { pending } = collectMilestoneNotifications(
+      plan([
+        milestone({ id: "far", owner: "ada@startup.io", dueDate: "2026-06-30T00:00:00.000Z" }),
+        milestone({ id: "soon", owner: "ada@startup.io", dueDate: "2026-05-21T00:00:00.000Z", reminderLeadDays: 2 }),
+        milestone({
+          id: "reminded",
+          owner: "ada@startup.io",
+          dueDate: "2026-05-10T00:00:00.000Z",
+          lastReminderAt: "2026-05-18T00:00:00.000Z",
+          reminderCadenceDays: 7,
+        }),
+        milestone({ id: "done", owner: "ada@startup.io", status: "completed", dueDate: "2026-05-01T00:00:00.000Z" }),
+      ]),
+      "Acme",
+      users,
+      NOW,
+    );
+
+    assert.deepEqual(
+      pending.map((entry) => entry.milestoneId),
+      ["soon"],
+    );
+    assert.equal(pending[0].subject, "Reminder: soon is due in 0 days");
+  });
+
+  test("counts notices that have nobody to go to", () => {
+    const { pending, skipped } = collectMilestoneNotifications(
+      plan([milestone({ id: "orphan", owner: "Board" })]),
+      "Acme",
+      [],
+      NOW,
+    );
+
+    assert.equal(pending.length, 0);
+    assert.equal(skipped, 1);
+  });
+});
+
+describe("sendMilestoneNotifications", () => {
+  const { pending } = collectMilestoneNotifications(
+    plan([
+      milestone({ id: "first", owner: "ada@startup.io" }),
+      milestone({ id: "second", owner: "grace@startup.io" }),
+    ]),
+    "Acme",
+    users,
+    NOW,
+  );
+
+  test("delivers every notice through the transport", async () => {
+    const { transport, sent } = fakeTransport();
+    const notifications = await sendMilestoneNotifications(transport, "startup-1", pending, NOW.toISOString());
+
+    assert.deepEqual(
+      sent.map((message) => message.to),
+      [["ada@startup.io"], ["grace@startup.io"]],
+    );
+    assert.deepEqual(
+      notifications.map((notification) => [notification.milestoneId, notification.messageId, notification.error]),
+      [
+        ["first", "<1@test>", undefined],
+        ["second", "<2@test>", undefined],
+      ],
+    );
+    assert.equal(notifications[0].sentAt, NOW.toISOString());
+  });
+
+  test("records a failed send and carries on with the rest", async (context) => {
+    context.mock.method(console, "error", () => undefined);
+    const { transport, sent } = fakeTransport(["ada@startup.io"]);
+    const notifications = await sendMilestoneNotifications(transport, "startup-1", pending, NOW.toISOString());
+
+    assert.equal(sent.length, 1);
+    assert.equal(notifications[0].error, "Mailbox unavailable: ada@startup.io");
+    assert.equal(notifications[0].messageId, undefined);
+    assert.equal(notifications[1].messageId, "<1@test>");
+  });
+});
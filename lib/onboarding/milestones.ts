@@ -0,0 +1,242 @@
+import { randomUUID } from "node:crypto";
+import type { UserProfile } from "@/lib/db/auth/user";
+import type { MailTransport } from "@/lib/mail/transport";
+import type {
+  OnboardingMilestone,
+  OnboardingMilestoneNotification,
+  OnboardingMilestoneNotificationKind,
+  OnboardingMilestonePlan,
+  OnboardingMilestoneSignals,
+} from "./types";
+
+const MILLISECONDS_IN_DAY = 24 * 60 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const computeMilestoneSignals = (
+  milestone: OnboardingMilestone,
+  now = Date.now(),
+): OnboardingMilestoneSignals => {
+  let dueInDays: number | undefined;
+  let overdueByDays: number | undefined;
+  let isOverdue = false;
+
+  if (milestone.dueDate) {
+    const dueTime = new Date(milestone.dueDate).getTime();
+    if (!Number.isNaN(dueTime)) {
+      const diffDays = (dueTime - now) / MILLISECONDS_IN_DAY;
+      if (diffDays >= 0) {
+        dueInDays = Math.floor(diffDays);
+      } else {
+        overdueByDays = Math.abs(Math.floor(diffDays));
+        isOverdue = overdueByDays > 0;
+      }
+    }
+  }
+
+  const cadenceDays = milestone.reminderCadenceDays ?? 7;
+  const leadDays = milestone.reminderLeadDays ?? 2;
+  const escalationAfter = milestone.escalationAfterDays ?? 3;
+
+  const lastReminderAt = milestone.lastReminderAt
+    ? new Date(milestone.lastReminderAt).getTime()
+    : undefined;
+  const lastEscalationAt = milestone.lastEscalationAt
+    ? new Date(milestone.lastEscalationAt).getTime()
+    : undefined;
+
+  let needsReminder = false;
+  if (milestone.status !== "completed") {
+    if (overdueByDays !== undefined) {
+      if (!lastReminderAt || now - lastReminderAt >= cadenceDays * MILLISECONDS_IN_DAY) {
+        needsReminder = true;
+      }
+    } else if (dueInDays !== undefined && dueInDays <= leadDays) {
+      if (!lastReminderAt || now - lastReminderAt >= leadDays * MILLISECONDS_IN_DAY) {
+        needsReminder = true;
+      }
+    } else if (!milestone.dueDate && !lastReminderAt) {
+      needsReminder = true;
+    }
+  }
+
+  const nextReminderAt = milestone.status === "completed"
+    ? undefined
+    : lastReminderAt
+    ? new Date(lastReminderAt + cadenceDays * MILLISECONDS_IN_DAY).toISOString()
+    : milestone.dueDate
+    ? new Date(new Date(milestone.dueDate).getTime() - leadDays * MILLISECONDS_IN_DAY).toISOString()
+    : undefined;
+
+  let needsEscalation = false;
+  if (
+    milestone.status !== "completed" &&
+    overdueByDays !== undefined &&
+    overdueByDays >= escalationAfter &&
+    milestone.escalateTo
+  ) {
+    if (!lastEscalationAt || now - lastEscalationAt >= escalationAfter * MILLISECONDS_IN_DAY) {
+      needsEscalation = true;
+    }
+  }
+
+  const summaryParts: string[] = [];
+  if (dueInDays !== undefined) {
+    summaryParts.push(`Due in ${dueInDays} day${dueInDays === 1 ? "" : "s"}`);
+  }
+  if (overdueByDays !== undefined) {
+    summaryParts.push(`Overdue by ${overdueByDays} day${overdueByDays === 1 ? "" : "s"}`);
+  }
+  summaryParts.push(`${milestone.progress}% complete`);
+
+  return {
+    needsReminder,
+    needsEscalation,
+    dueInDays,
+    overdueByDays,
+    nextReminderAt,
+    escalationTarget: milestone.escalateTo,
+    isOverdue,
+    summary: summaryParts.filter(Boolean).join(" · ") || undefined,
+  };
+};
+
+const parseEmailList = (value: string | undefined) =>
+  (value ?? "")
+    .split(/[,;\s]+/)
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => EMAIL_PATTERN.test(entry));
+
+// Owners are free text: an email address, a user's name, or a label such as "Founders", which falls back to
+// every founder account linked to the startup.
+const resolveMilestoneOwnerEmails = (
+  owner: string | undefined,
+  startupId: string,
+  users: UserProfile[],
+): string[] => {
+  const emails = parseEmailList(owner);
+  if (emails.length) {
+    return emails;
+  }
+  const active = users.filter((user) => user.isActive);
+  const ownerName = owner?.trim().toLowerCase();
+  const named = ownerName ? active.find((user) => user.name?.trim().toLowerCase() === ownerName) : undefined;
+  if (named) {
+    return [named.email.toLowerCase()];
+  }
+  return active.filter((user) => user.startupIds.includes(startupId)).map((user) => user.email.toLowerCase());
+};
+
+const formatDayCount = (days: number) => `${days} day${days === 1 ? "" : "s"}`;
+
+const buildMilestoneNotificationMessage = (
+  kind: OnboardingMilestoneNotificationKind,
+  milestone: OnboardingMilestone,
+  signals: OnboardingMilestoneSignals,
+  companyName: string,
+) => {
+  const timing =
+    signals.overdueByDays !== undefined
+      ? `overdue by ${formatDayCount(signals.overdueByDays)}`
+      : signals.dueInDays !== undefined
+      ? `due in ${formatDayCount(signals.dueInDays)}`
+      : "awaiting an update";
+  const subject =
+    kind === "reminder"
+      ? `Reminder: ${milestone.title} is ${timing}`
+      : `Escalation: ${companyName} milestone ${milestone.title} is ${timing}`;
+  const lines = [
+    kind === "reminder"
+      ? `The milestone "${milestone.title}" for ${companyName} is ${timing}.`
+      : `The milestone "${milestone.title}" for ${companyName} is ${timing} and has been escalated to you.`,
+    "",
+    milestone.dueDate ? `Due date: ${milestone.dueDate.slice(0, 10)}` : undefined,
+    milestone.owner ? `Owner: ${milestone.owner}` : undefined,
+    `Status: ${milestone.status.replace(/_/g, " ")}`,
+    `Progress: ${milestone.progress}%`,
+    milestone.targetValue !== undefined
+      ? `Target: ${milestone.targetValue}${milestone.unit ? ` ${milestone.unit}` : ""} (current ${milestone.currentValue ?? "not reported"})`
+      : undefined,
+    "",
+    "Please log progress against this milestone in the onboarding workspace.",
+  ];
+  return { subject, text: lines.filter((line) => line !== undefined).join("\n") };
+};
+
+export type PendingMilestoneNotification = {
+  kind: OnboardingMilestoneNotificationKind;
+  milestoneId: string;
+  recipients: string[];
+  subject: string;
+  text: string;
+  previousSentAt?: string;
+};
+
+
+// Works out which reminders and escalations are due for one plan; notices without any recipient are only counted.
+export const collectMilestoneNotifications = (
+  plan: OnboardingMilestonePlan,
+  companyName: string,
+  users: UserProfile[],
+  now: Date,
+): { pending: PendingMilestoneNotification[]; skipped: number } => {
+  const pending: PendingMilestoneNotification[] = [];
+  let skipped = 0;
+  plan.milestones.forEach((milestone) => {
+    const signals = computeMilestoneSignals(milestone, now.getTime());
+    const due: Array<[OnboardingMilestoneNotificationKind, string[], string | undefined]> = [];
+    if (signals.needsReminder) {
+      due.push([
+        "reminder",
+        resolveMilestoneOwnerEmails(milestone.owner, plan.startupId, users),
+        milestone.lastReminderAt,
+      ]);
+    }
+    if (signals.needsEscalation) {
+      due.push(["escalation", parseEmailList(signals.escalationTarget), milestone.lastEscalationAt]);
+    }
+    due.forEach(([kind, recipients, previousSentAt]) => {
+      if (!recipients.length) {
+        skipped += 1;
+        return;
+      }
+      pending.push({
+        kind,
+        milestoneId: milestone.id,
+        recipients,
+        previousSentAt,
+        ...buildMilestoneNotificationMessage(kind, milestone, signals, companyName),
+      });
+    });
+  });
+  return { pending, skipped };
+};
+
+// Sends one notice at a time; a failed send is recorded on its notification instead of stopping the rest.
+export const sendMilestoneNotifications = async (
+  transport: MailTransport,
+  startupId: string,
+  pending: PendingMilestoneNotification[],
+  sentAt: string,
+): Promise<OnboardingMilestoneNotification[]> => {
+  const notifications: OnboardingMilestoneNotification[] = [];
+  for (const entry of pending) {
+    const notification: OnboardingMilestoneNotification = {
+      id: randomUUID(),
+      milestoneId: entry.milestoneId,
+      kind: entry.kind,
+      recipients: entry.recipients,
+      subject: entry.subject,
+      sentAt,
+    };
+    try {
+      const receipt = await transport.send({ to: entry.recipients, subject: entry.subject, text: entry.text });
+      notification.messageId = receipt.messageId;
+    } catch (error) {
+      console.error(`Milestone ${entry.kind} for ${startupId}/${entry.milestoneId} failed`, error);
+      notification.error = error instanceof Error ? error.message : "Unable to send notification";
+    }
+    notifications.push(notification);
+  }
+  return notifications;
+};
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { DEFAULT_REVIEW_RUBRIC, aggregatePanelScores, scorecardOverall, summarizeReviewPanel } from "./panel";
+import type { OnboardingReviewRubric, OnboardingReviewerScorecard } from "./types";
+
+const rubric = (overrides: Partial<OnboardingReviewRubric> = {}): OnboardingReviewRubric => ({
+  ...DEFAULT_REVIEW_RUBRIC,
+  criteria: [
+    { id: "team", label: "Team", weight: 2 },
+    { id: "market", label: "Market", weight: 1 },
+  ],
+  ...overrides,
+});
+
+// Scores every criterion the same so the scorecard's overall equals the given value.
+const scorecard = (
+  reviewerId: string,
+  score: number,
+  recommendation?: OnboardingReviewerScorecard["recommendation"],
+): OnboardingReviewerScorecard => ({
+  reviewerId,
+  scores: [
+    { criterionId: "team", score },
+    { criterionId: "market", score },
+  ],
+  overall: score,
+  recommendation,
+  submittedAt: "2026-04-01T00:00:00.000Z",
+  updatedAt: "2026-04-01T00:00:00.000Z",
+});
+
+describe("aggregatePanelScores", () => {
+  test("supports mean, median and trimmed mean", () => {
+    const values = [1, 2, 3, 4, 10];
+    assert.equal(aggregatePanelScores(values, "mean"), 4);
+    assert.equal(aggregatePanelScores(values, "median"), 3);
+    assert.equal(aggregatePanelScores(values, "trimmed_mean"), 3);
+    assert.equal(aggregatePanelScores([4, 1, 2, 3], "median"), 2.5);
+  });
+
+  test("trims nothing with fewer than three scores and one each side with a few", () => {
+    assert.equal(aggregatePanelScores([1, 4], "trimmed_mean"), 2.5);
+    assert.equal(aggregatePanelScores([5], "trimmed_mean"), 5);
+    assert.equal(aggregatePanelScores([1, 4, 5], "trimmed_mean"), 4);
+  });
+
+  test("trims a fifth of the scores each side on larger panels", () => {
+    assert.equal(aggregatePanelScores([1, 1, 3, 3, 3, 3, 3, 3, 5, 5], "trimmed_mean"), 3);
+  });
+
+  test("rounds to two decimals and has no score without values", () => {
+    assert.equal(aggregatePanelScores([1, 2, 2], "mean"), 1.67);
+    assert.equal(aggregatePanelScores([], "mean"), undefined);
+  });
+});
+
+describe("scorecardOverall", () => {
+  test("weights criteria and skips unscored ones", () => {
+    const weighted = rubric();
+    assert.equal(
+      scorecardOverall(weighted, [
+        { criterionId: "team", score: 5 },
+        { criterionId: "market", score: 2 },
+      ]),
+      4,
+    );
+    assert.equal(scorecardOverall(weighted, [{ criterionId: "market", score: 3 }]), 3);
+    assert.equal(scorecardOverall(weighted, []), undefined);
+  });
+});
+
+describe("summarizeReviewPanel", () => {
+  test("reports the consensus as a share of the rubric scale", () => {
+    const panel = summarizeReviewPanel(rubric(), [scorecard("a", 4), scorecard("b", 4)]);
+    assert.equal(panel.score, 4);
+    assert.equal(panel.percentage, 75);
+    assert.equal(panel.reviewerCount, 2);
+    assert.equal(panel.disagreement, false);
+  });
+
+  test("flags disagreement once the spread reaches the threshold", () => {
+    assert.equal(summarizeReviewPanel(rubric(), [scorecard("a", 2), scorecard("b", 3)]).disagreement, false);
+
+    const split = summarizeReviewPanel(rubric(), [scorecard("a", 2), scorecard("b", 4)]);
+    assert.equal(split.spread, 2);
+    assert.equal(split.disagreement, true);
+    assert.deepEqual(
+      split.criteria.map((criterion) => criterion.disagreement),
+      [true, true],
+    );
+  });
+
+  test("flags disagreement when reviewers recommend both advancing and rejecting", () => {
+    const panel = summarizeReviewPanel(rubric(), [scorecard("a", 3, "advance"), scorecard("b", 3, "reject")]);
+    assert.equal(panel.disagreement, true);
+    assert.deepEqual(panel.recommendations, { advance: 1, review: 0, reject: 1 });
+  });
+
+  test("names outliers only once three reviewers have scored", () => {
+    const pair = summarizeReviewPanel(rubric(), [scorecard("a", 1), scorecard("b", 5)]);
+    assert.deepEqual(pair.outlierReviewerIds, []);
+
+    const panel = summarizeReviewPanel(rubric(), [
+      scorecard("a", 4),
+      scorecard("b", 4),
+      scorecard("c", 4.5),
+      scorecard("d", 1),
+    ]);
+    assert.deepEqual(panel.outlierReviewerIds, ["d"]);
+
+    const lenient = summarizeReviewPanel(rubric({ outlierThreshold: 3 }), [
+      scorecard("a", 4),
+      scorecard("b", 4),
+      scorecard("c", 1),
+    ]);
+    assert.deepEqual(lenient.outlierReviewerIds, []);
+  });
+});
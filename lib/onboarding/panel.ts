@@ -0,0 +1,128 @@
+import type {
+  OnboardingPanelAggregation,
+  OnboardingPanelSummary,
+  OnboardingProgram,
+  OnboardingReviewRubric,
+  OnboardingReviewerScorecard,
+  OnboardingScorecardCriterionScore,
+} from "./types";
+
+export const PANEL_AGGREGATION_LABELS: Record<OnboardingPanelAggregation, string> = {
+  mean: "Mean",
+  median: "Median",
+  trimmed_mean: "Trimmed mean",
+};
+
+export const DEFAULT_REVIEW_RUBRIC: OnboardingReviewRubric = {
+  criteria: [
+    { id: "team", label: "Team", description: "Founder experience, complementarity and commitment.", weight: 1 },
+    { id: "market", label: "Market", description: "Size, urgency and accessibility of the opportunity.", weight: 1 },
+    { id: "product", label: "Product", description: "Clarity of the solution and its differentiation.", weight: 1 },
+    { id: "traction", label: "Traction", description: "Evidence of demand, revenue or pilots.", weight: 1 },
+  ],
+  scaleMin: 1,
+  scaleMax: 5,
+  aggregation: "mean",
+  disagreementThreshold: 2,
+  outlierThreshold: 1.5,
+};
+
+export const getProgramRubric = (program: Pick<OnboardingProgram, "rubric"> | null | undefined) =>
+  program?.rubric?.criteria.length ? program.rubric : DEFAULT_REVIEW_RUBRIC;
+
+const roundScore = (value: number) => Number(value.toFixed(2));
+
+export const scorecardOverall = (
+  rubric: OnboardingReviewRubric,
+  scores: OnboardingScorecardCriterionScore[],
+): number | undefined => {
+  let weighted = 0;
+  let weights = 0;
+  rubric.criteria.forEach((criterion) => {
+    const entry = scores.find((score) => score.criterionId === criterion.id);
+    if (!entry || !Number.isFinite(entry.score)) return;
+    weighted += entry.score * criterion.weight;
+    weights += criterion.weight;
+  });
+  return weights > 0 ? roundScore(weighted / weights) : undefined;
+};
+
+const median = (sorted: number[]) => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// The trimmed mean drops the top and bottom fifth, and at least one score each side once three reviewers have scored.
+export const aggregatePanelScores = (
+  values: number[],
+  method: OnboardingPanelAggregation,
+): number | undefined => {
+  if (!values.length) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  if (method === "median") {
+    return roundScore(median(sorted));
+  }
+  const trim = method === "trimmed_mean" && sorted.length >= 3 ? Math.max(1, Math.floor(sorted.length * 0.2)) : 0;
+  const kept = sorted.slice(trim, sorted.length - trim);
+  return roundScore(kept.reduce((sum, value) => sum + value, 0) / kept.length);
+};
+
+export const summarizeReviewPanel = (
+  rubric: OnboardingReviewRubric,
+  scorecards: OnboardingReviewerScorecard[],
+): OnboardingPanelSummary => {
+  const overalls = scorecards.map((scorecard) => ({
+    reviewerId: scorecard.reviewerId,
+    overall: scorecardOverall(rubric, scorecard.scores) ?? scorecard.overall,
+  }));
+  const values = overalls.map((entry) => entry.overall);
+  const score = aggregatePanelScores(values, rubric.aggregation);
+  const spread = values.length ? roundScore(Math.max(...values) - Math.min(...values)) : 0;
+  const panelMedian = values.length ? median([...values].sort((a, b) => a - b)) : 0;
+  const range = rubric.scaleMax - rubric.scaleMin;
+
+  const recommendations = { advance: 0, review: 0, reject: 0 };
+  scorecards.forEach((scorecard) => {
+    if (scorecard.recommendation) {
+      recommendations[scorecard.recommendation] += 1;
+    }
+  });
+
+  const criteria = rubric.criteria.map((criterion) => {
+    const scores = scorecards
+      .map((scorecard) => scorecard.scores.find((entry) => entry.criterionId === criterion.id)?.score)
+      .filter((value): value is number => value !== undefined && Number.isFinite(value));
+    const min = scores.length ? Math.min(...scores) : undefined;
+    const max = scores.length ? Math.max(...scores) : undefined;
+    return {
+      criterionId: criterion.id,
+      label: criterion.label,
+      score: aggregatePanelScores(scores, rubric.aggregation),
+      min,
+      max,
+      disagreement: min !== undefined && max !== undefined && max - min >= rubric.disagreementThreshold,
+    };
+  });
+
+  return {
+    aggregation: rubric.aggregation,
+    reviewerCount: scorecards.length,
+    score,
+    percentage:
+      score !== undefined && range > 0 ? roundScore(((score - rubric.scaleMin) / range) * 100) : undefined,
+    spread,
+    disagreement:
+      (values.length > 1 && spread >= rubric.disagreementThreshold) ||
+      (recommendations.advance > 0 && recommendations.reject > 0),
+    outlierReviewerIds:
+      values.length >= 3
+        ? overalls
+            .filter((entry) => Math.abs(entry.overall - panelMedian) > rubric.outlierThreshold)
+            .map((entry) => entry.reviewerId)
+        : [],
+    criteria,
+    recommendations,
+  };
+};
@@ -0,0 +1,44 @@
+import type { OnboardingForm, OnboardingProgram } from "./types";
+
+export const DEFAULT_PROGRAM_ID = "default";
+
+export type OnboardingWindowState = "upcoming" | "open" | "closed" | "full";
+
+export type OnboardingApplicationWindow = {
+  opensAt?: string;
+  closesAt?: string;
+  maxSubmissions?: number;
+};
+
+export const APPLICATION_WINDOW_MESSAGES: Record<Exclude<OnboardingWindowState, "open">, string> = {
+  upcoming: "Applications for this program are not open yet",
+  closed: "Applications for this program have closed",
+  full: "This program has reached its application limit",
+};
+
+// Dates set on the form take precedence over the program-level dates.
+export const resolveApplicationWindow = (
+  program: Pick<OnboardingProgram, "opensAt" | "closesAt">,
+  form?: Pick<OnboardingForm, "opensAt" | "closesAt" | "maxSubmissions">,
+): OnboardingApplicationWindow => ({
+  opensAt: form?.opensAt ?? program.opensAt,
+  closesAt: form?.closesAt ?? program.closesAt,
+  maxSubmissions: form?.maxSubmissions,
+});
+
+export const getApplicationWindowState = (
+  window: OnboardingApplicationWindow,
+  submissionCount = 0,
+  now: Date = new Date(),
+): OnboardingWindowState => {
+  if (window.opensAt && now < new Date(window.opensAt)) {
+    return "upcoming";
+  }
+  if (window.closesAt && now > new Date(window.closesAt)) {
+    return "closed";
+  }
+  if (window.maxSubmissions !== undefined && submissionCount >= window.maxSubmissions) {
+    return "full";
+  }
+  return "open";
+};
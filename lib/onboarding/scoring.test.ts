@@ -0,0 +1,273 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { evaluateSubmissionScore, rescoreSubmission } from "./service";
+import type {
+  OnboardingField,
+  OnboardingFieldResponse,
+  OnboardingForm,
+  OnboardingScoringCondition,
+  OnboardingScoringConfig,
+  OnboardingScoringRule,
+  OnboardingSubmission,
+  OnboardingSubmissionScore,
+} from "./types";
+
+const fields: OnboardingField[] = [
+  { id: "stage", label: "Stage", type: "text", required: false },
+  { id: "team-size", label: "Team Size", type: "number", required: false },
+  { id: "country", label: "Country", type: "text", required: false },
+  { id: "pitch-deck", label: "Pitch Deck", type: "file", required: false },
+  {
+    id: "revenue",
+    label: "Revenue",
+    type: "number",
+    required: false,
+    visibleWhen: { match: "all", conditions: [{ id: "v1", fieldId: "stage", operator: "equals", values: ["growth"] }] },
+  },
+];
+
+const buildForm = (scoring: OnboardingScoringConfig): OnboardingForm => ({
+  id: "test-form",
+  version: 1,
+  title: "Test",
+  summary: "",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  sections: [{ id: "main", title: "Main", fields }],
+  scoring,
+});
+
+const condition = (
+  id: string,
+  fieldId: string,
+  operator: OnboardingScoringCondition["operator"],
+  target = "",
+  weight?: number,
+): OnboardingScoringCondition => ({ id, fieldId, operator, target, weight });
+
+const compoundRule = (
+  match: OnboardingScoringRule["match"],
+  points: number,
+  conditions: OnboardingScoringCondition[],
+): OnboardingScoringRule => ({
+  id: `rule-${match}`,
+  label: `Rule ${match}`,
+  fieldId: "",
+  operator: "equals",
+  target: "",
+  points,
+  match,
+  conditions,
+});
+
+const answers = (values: Record<string, string>, attachmentCount = 0): OnboardingFieldResponse[] => [
+  ...Object.entries(values).map(([fieldId, value]) => ({ fieldId, value })),
+  {
+    fieldId: "pitch-deck",
+    value: null,
+    attachments: Array.from({ length: attachmentCount }, (_, index) => ({
+      key: `uploads/test/deck-${index}.pdf`,
+      name: `deck-${index}.pdf`,
+      size: 1,
+      contentType: "application/pdf",
+    })),
+  },
+];
+
+const conditions = [
+  condition("c-stage", "stage", "in", "seed, series-a", 1),
+  condition("c-team", "team-size", "between", "3-10", 3),
+  condition("c-country", "country", "regex", "^(de|fr)$", 2),
+];
+
+describe("compound scoring rules", () => {
+  test("all awards points only when every condition matches", () => {
+    const form = buildForm({ rules: [compoundRule("all", 10, conditions)] });
+
+    const met = evaluateSubmissionScore(form, answers({ stage: "Seed", "team-size": "4", country: "DE" }));
+    assert.equal(met?.awarded, 10);
+    assert.equal(met?.breakdown[0].reason, "3 of 3 conditions met; all required");
+
+    const missed = evaluateSubmissionScore(form, answers({ stage: "seed", "team-size": "12", country: "de" }));
+    assert.equal(missed?.awarded, 0);
+    assert.equal(missed?.breakdown[0].conditions?.find((entry) => entry.conditionId === "c-team")?.matched, false);
+  });
+
+  test("any awards points when one condition matches", () => {
+    const form = buildForm({ rules: [compoundRule("any", 6, conditions)] });
+
+    assert.equal(evaluateSubmissionScore(form, answers({ stage: "idea", "team-size": "1", country: "fr" }))?.awarded, 6);
+    assert.equal(evaluateSubmissionScore(form, answers({ stage: "idea", "team-size": "1", country: "us" }))?.awarded, 0);
+  });
+
+  test("weighted awards the matched share of the weight", () => {
+    const form = buildForm({ rules: [compoundRule("weighted", 12, conditions)] });
+
+    const score = evaluateSubmissionScore(form, answers({ stage: "idea", "team-size": "5", country: "fr" }));
+    assert.equal(score?.awarded, 10);
+    assert.equal(score?.breakdown[0].reason, "2 of 3 conditions met (83% of weight)");
+  });
+
+  test("skips conditions on fields hidden by form logic", () => {
+    const form = buildForm({
+      rules: [
+        compoundRule("all", 8, [
+          condition("c-stage", "stage", "equals", "seed"),
+          condition("c-rev", "revenue", "gte", "1000"),
+        ]),
+        { id: "revenue-only", label: "Revenue", fieldId: "revenue", operator: "gte", target: "1000", points: 4 },
+      ],
+    });
+
+    const score = evaluateSubmissionScore(form, answers({ stage: "seed", revenue: "5000" }));
+    assert.equal(score?.breakdown[0].awarded, 8);
+    assert.equal(score?.breakdown[0].conditions?.find((entry) => entry.conditionId === "c-rev")?.skipped, true);
+    assert.equal(score?.breakdown[1].skipped, true);
+    assert.equal(score?.total, 8);
+  });
+
+  test("supports not_equals, attachments_gte and negative points", () => {
+    const form = buildForm({
+      rules: [
+        { id: "deck", label: "Deck", fieldId: "pitch-deck", operator: "attachments_gte", target: "1", points: 5 },
+        { id: "not-idea", label: "Not idea", fieldId: "stage", operator: "not_equals", target: "idea", points: 5 },
+        { id: "solo", label: "Solo", fieldId: "team-size", operator: "lte", target: "1", points: -3 },
+      ],
+    });
+
+    const score = evaluateSubmissionScore(form, answers({ stage: "seed", "team-size": "1" }, 1));
+    assert.deepEqual(
+      score?.breakdown.map((entry) => entry.awarded),
+      [5, 5, -3],
+    );
+    assert.equal(score?.awarded, 7);
+    assert.equal(score?.total, 10);
+  });
+
+  test("applies the advance and reject thresholds to the awarded points", () => {
+    const form = (autoAdvanceAt: number, autoRejectBelow: number) =>
+      buildForm({ rules: [compoundRule("all", 10, conditions)], autoAdvanceAt, autoRejectBelow });
+    const strong = answers({ stage: "seed", "team-size": "4", country: "de" });
+    const weak = answers({ stage: "idea", "team-size": "1", country: "us" });
+
+    assert.equal(evaluateSubmissionScore(form(10, 2), strong)?.status, "advance");
+    assert.equal(evaluateSubmissionScore(form(10, 2), weak)?.status, "reject");
+    assert.equal(evaluateSubmissionScore(form(20, 0), strong)?.status, "review");
+  });
+});
+
+describe("group scoring rules", () => {
+  const founders: OnboardingField = {
+    id: "founders",
+    label: "Founders",
+    type: "group",
+    required: false,
+    fields: [
+      { id: "founder-name", label: "Name", type: "text", required: true },
+      { id: "founder-phd", label: "Holds a PhD", type: "checkbox", required: false },
+    ],
+  };
+  const form = (rules: OnboardingScoringRule[]): OnboardingForm => ({
+    ...buildForm({ rules }),
+    sections: [{ id: "main", title: "Main", fields: [founders] }],
+  });
+  const phdRule = (entryMatch: "any" | "all"): OnboardingScoringRule => ({
+    id: `phd-${entryMatch}`,
+    label: "PhD",
+    fieldId: "founders",
+    subFieldId: "founder-phd",
+    entryMatch,
+    operator: "equals",
+    target: "yes",
+    points: 5,
+  });
+  const team = (...phds: string[]): OnboardingFieldResponse[] => [
+    {
+      fieldId: "founders",
+      value: null,
+      entries: phds.map((phd, index) => ({
+        id: `entry-${index}`,
+        responses: [
+          { fieldId: "founder-name", value: `Founder ${index}` },
+          { fieldId: "founder-phd", value: phd },
+        ],
+      })),
+    },
+  ];
+
+  test("compares a group without a sub-field against its number of entries", () => {
+    const scored = form([{ id: "pair", label: "Pair", fieldId: "founders", operator: "gte", target: "2", points: 5 }]);
+
+    assert.equal(evaluateSubmissionScore(scored, team("no", "no"))?.awarded, 5);
+    assert.equal(evaluateSubmissionScore(scored, team("no"))?.awarded, 0);
+    assert.equal(evaluateSubmissionScore(scored, [])?.awarded, 0);
+  });
+
+  test("any awards points when one entry matches and all only when every entry does", () => {
+    const scored = form([phdRule("any"), phdRule("all")]);
+
+    assert.deepEqual(
+      evaluateSubmissionScore(scored, team("no", "yes"))?.breakdown.map((entry) => entry.awarded),
+      [5, 0],
+    );
+    assert.deepEqual(
+      evaluateSubmissionScore(scored, team("yes", "yes"))?.breakdown.map((entry) => entry.awarded),
+      [5, 5],
+    );
+    assert.deepEqual(
+      evaluateSubmissionScore(scored, team("no", "no"))?.breakdown.map((entry) => entry.awarded),
+      [0, 0],
+    );
+  });
+
+  test("matches nothing on a sub-field when the group has no entries", () => {
+    const score = evaluateSubmissionScore(form([phdRule("all")]), team());
+    assert.equal(score?.awarded, 0);
+    assert.equal(score?.breakdown[0].reason, "No entries provided");
+  });
+});
+
+describe("rescoreSubmission", () => {
+  const NOW = "2026-04-01T00:00:00.000Z";
+  const form = buildForm({ rules: [compoundRule("all", 10, conditions)] });
+  const submission = (overrides: Partial<OnboardingSubmission> = {}): OnboardingSubmission => ({
+    id: "submission-1",
+    userId: "applicant-1",
+    formId: "test-form",
+    submittedAt: "2026-03-01T00:00:00.000Z",
+    responses: answers({ stage: "seed", "team-size": "4", country: "de" }),
+    ...overrides,
+  });
+  const manualScore: OnboardingSubmissionScore = {
+    total: 10,
+    awarded: 3,
+    percentage: 30,
+    status: "reject",
+    breakdown: [],
+    source: "manual",
+  };
+
+  test("replaces the automatic score and leaves an unchanged one alone", () => {
+    const { before, after, next } = rescoreSubmission(form, submission(), NOW);
+    assert.equal(before, undefined);
+    assert.deepEqual(after, { status: "review", awarded: 10, total: 10 });
+    assert.equal(next?.scoreAuto?.updatedAt, NOW);
+    assert.equal(next?.score, next?.scoreAuto);
+
+    assert.equal(rescoreSubmission(form, next!, NOW).next, null);
+  });
+
+  test("keeps edits made after the run read the submission", () => {
+    // A reviewer overrode the score and commented after the rescore loaded its copy; the write rescores the
+    // stored submission, which carries both.
+    const stored = submission({
+      scoreManual: manualScore,
+      score: manualScore,
+      comments: [{ id: "comment-1", body: "Strong team", mentions: [], authorId: "reviewer-1", createdAt: NOW }],
+    });
+    const { next } = rescoreSubmission(form, stored, NOW);
+
+    assert.equal(next?.scoreAuto?.awarded, 10);
+    assert.equal(next?.score, manualScore);
+    assert.deepEqual(next?.comments, stored.comments);
+  });
+});
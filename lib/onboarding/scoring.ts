@@ -0,0 +1,69 @@
+import type { OnboardingScoreOperator, OnboardingScoringMatch } from "./types";
+
+export const SCORE_OPERATOR_LABELS: Record<OnboardingScoreOperator, string> = {
+  equals: "equals",
+  not_equals: "does not equal",
+  contains: "contains",
+  in: "is one of",
+  gte: "≥",
+  lte: "≤",
+  between: "between",
+  regex: "matches pattern",
+  is_empty: "is empty",
+  exists: "is answered",
+  attachments_gte: "attachments ≥",
+};
+
+export const SCORE_OPERATORS = Object.keys(SCORE_OPERATOR_LABELS) as OnboardingScoreOperator[];
+
+export const SCORING_MATCH_LABELS: Record<OnboardingScoringMatch, string> = {
+  all: "All conditions (AND)",
+  any: "Any condition (OR)",
+  weighted: "Weighted share of conditions",
+};
+
+export const scoreOperatorNeedsTarget = (operator: OnboardingScoreOperator) =>
+  operator !== "is_empty" && operator !== "exists";
+
+export const scoreOperatorTargetHint = (operator: OnboardingScoreOperator): string => {
+  switch (operator) {
+    case "contains":
+      return "Keyword e.g. revenue";
+    case "in":
+      return "Comma-separated values";
+    case "gte":
+    case "lte":
+      return "Numeric threshold";
+    case "between":
+      return "Range e.g. 10,50";
+    case "regex":
+      return "Pattern e.g. ^https://";
+    case "attachments_gte":
+      return "Minimum number of files";
+    case "is_empty":
+    case "exists":
+      return "No value needed";
+    default:
+      return "Exact match value";
+  }
+};
+
+export const parseScoreTargetList = (target: string): string[] =>
+  target
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+// Accepts "10,50", "10..50" or "10-50"; bounds are swapped when given in reverse.
+export const parseScoreRange = (target: string): { min: number; max: number } | undefined => {
+  const match = target.trim().match(/^(-?[\d.]+)\s*(?:,|\.\.|-)\s*(-?[\d.]+)$/);
+  if (!match) {
+    return undefined;
+  }
+  const first = Number.parseFloat(match[1]);
+  const second = Number.parseFloat(match[2]);
+  if (!Number.isFinite(first) || !Number.isFinite(second)) {
+    return undefined;
+  }
+  return { min: Math.min(first, second), max: Math.max(first, second) };
+};
@@ -1,32 +1,84 @@
 import type { Buffer } from "node:buffer";
-import { randomUUID } from "node:crypto";
+import { randomBytes, randomUUID } from "node:crypto";
 import { HeadObjectCommand, ListObjectsV2Command, PutObjectCommand } from "@aws-sdk/client-s3";
-import type { Prisma } from "@prisma/client";
+import { Prisma } from "@prisma/client";
 import prisma from "@/lib/db/prisma";
 import s3 from "@/lib/storage/storage";
 import {
+  OnboardingAssignmentSettings,
+  OnboardingAssignmentStrategy,
   OnboardingAttachment,
   OnboardingField,
   OnboardingFieldOption,
   OnboardingFieldResponse,
+  OnboardingFieldType,
   OnboardingForm,
+  OnboardingFormDiff,
+  OnboardingFormImportPreview,
+  OnboardingFormSchemaDocument,
+  OnboardingFormFieldChange,
+  OnboardingFormRuleChange,
+  OnboardingFormSectionChange,
+  OnboardingFormVersion,
+  OnboardingFormVersionSummary,
+  OnboardingPanelAggregation,
+  OnboardingPanelDecisionInput,
+  OnboardingProgram,
+  OnboardingProgramInput,
+  OnboardingRescoreResult,
+  OnboardingRescoreSnapshot,
+  OnboardingReviewAssignment,
+  OnboardingReviewRubric,
+  OnboardingReviewerScorecard,
+  OnboardingReviewerWorkload,
+  OnboardingScorecardInput,
+  OnboardingScoreConditionResult,
+  OnboardingScoreOperator,
+  OnboardingScoringCondition,
   OnboardingScoringConfig,
+  OnboardingScoringMatch,
   OnboardingScoringRule,
   OnboardingChecklist,
+  OnboardingChecklistAssignee,
   OnboardingChecklistItem,
   OnboardingChecklistStatus,
+  OnboardingChecklistTemplate,
+  OnboardingChecklistTemplateContext,
+  OnboardingChecklistTemplateInput,
+  OnboardingChecklistTemplateItem,
   OnboardingDocument,
+  OnboardingAbandonedDraft,
+  OnboardingDraft,
+  OnboardingDuplicateResolution,
+  OnboardingApplicantStatus,
+  OnboardingCommentInput,
+  OnboardingExportCell,
+  OnboardingExportTable,
+  OnboardingDocumentRequestInput,
+  OnboardingInterview,
+  OnboardingInterviewInput,
+  OnboardingInterviewSlot,
+  OnboardingLifecycle,
+  OnboardingLifecycleTransitionInput,
+  OnboardingDraftDropOff,
+  OnboardingDraftInput,
   OnboardingSection,
+  OnboardingAdmissionEmail,
+  OnboardingAdmissionInput,
   OnboardingSubmission,
+  OnboardingSubmissionComment,
   OnboardingSubmissionScore,
   OnboardingSubmissionManualScoreInput,
   OnboardingSubmissionFilters,
+  OnboardingSubmissionPageInput,
+  OnboardingSubmissionSort,
+  OnboardingDuplicateMatch,
   OnboardingSubmissionResolvedField,
   OnboardingSubmissionSummary,
   OnboardingMilestone,
   OnboardingMilestonePlan,
   OnboardingMilestonePlanSnapshot,
-  OnboardingMilestoneSignals,
+  OnboardingMilestoneDispatchResult,
   OnboardingMilestoneUpdateInput,
   OnboardingMilestoneLog,
   OnboardingAlumniMetric,
@@ -47,11 +99,72 @@ import {
   OnboardingGrantOpportunityInput,
   OnboardingGrantOpportunitySignals,
   OnboardingGrantOpportunitySnapshot,
+  OnboardingVisibilityRule,
+  OnboardingWindowExtension,
+  OnboardingWindowExtensionInput,
 } from "./types";
+import { VISIBILITY_OPERATORS, resolveFormVisibility, responsesToValues } from "./visibility";
+import { FIELD_TYPES, fieldTypeHasOptions, fieldTypeIsNumeric, parseFieldNumber } from "./validation";
+import { DEFAULT_FORM_LOCALE, normalizeLocaleTag } from "./locales";
+import {
+  SCORE_OPERATORS,
+  SCORE_OPERATOR_LABELS,
+  parseScoreRange,
+  parseScoreTargetList,
+  scoreOperatorNeedsTarget,
+} from "./scoring";
+import {
+  checklistCompletionError,
+  checklistHasDependencyCycle,
+  mergeChecklistTemplate,
+  preserveChecklistRequirements,
+  resolveChecklistTemplate,
+} from "./checklists";
+import { collectMilestoneNotifications, computeMilestoneSignals, sendMilestoneNotifications } from "./milestones";
+import { PANEL_AGGREGATION_LABELS, getProgramRubric, scorecardOverall, summarizeReviewPanel } from "./panel";
+import { ASSIGNMENT_STRATEGY_LABELS, getAssignmentSettings, reviewAssignmentStatus } from "./assignments";
+import {
+  companyNamesMatch,
+  detectDuplicateSubmissions,
+  duplicateLookupKeys,
+  normalizeCompanyName,
+} from "./duplicates";
+import {
+  ACCEPTED_LIFECYCLE_STATE,
+  allowedLifecycleTransitions,
+  findLifecycleState,
+  getProgramLifecycle,
+  submissionLifecycleState,
+} from "./lifecycle";
+import {
+  DEFAULT_PROGRAM_ID,
+  OnboardingApplicationWindow,
+  OnboardingWindowState,
+  getApplicationWindowState,
+  resolveApplicationWindow,
+} from "./programs";
 import type { GrantCatalogPayload } from "@/lib/grants/types";
+import { cancelFacilityBooking, createFacilityBooking, listFacilityResources } from "@/lib/facilities/service";
+import type { FacilityBooking } from "@/lib/facilities/types";
+import {
+  getUserByEmail,
+  getUserProfile,
+  listUserProfiles,
+  upsertUserProfile,
+  type AppPermission,
+  type UserProfile,
+} from "@/lib/db/auth/user";
+import { canConfigureOnboarding, canManageUsers, canReviewOnboarding } from "@/lib/auth/access";
+import { getMailTransport, type MailTransport } from "@/lib/mail/transport";
 
 const DOCUMENTS_PREFIX = "documents/";
+const UPLOADS_PREFIX = "uploads/";
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const CONFIG_RECORD_ID = "startup-onboarding-config";
+const DEFAULT_PROGRAM_SLUG = "founders-intake";
+
+const programConfigId = (programId: string) =>
+  programId === DEFAULT_PROGRAM_ID ? CONFIG_RECORD_ID : `${CONFIG_RECORD_ID}:${programId}`;
 
 const getBucketName = () => {
   const bucket = process.env.S3_ONBOARDING_BUCKET;
@@ -61,6 +174,14 @@ const getBucketName = () => {
   return bucket;
 };
 
+const headUploadedObject = async (key: string) => {
+  try {
+    return await s3.send(new HeadObjectCommand({ Bucket: getBucketName(), Key: key }));
+  } catch {
+    return null;
+  }
+};
+
 const buildDefaultForm = (): OnboardingForm => {
   const now = new Date().toISOString();
   const form: OnboardingForm = {
@@ -117,6 +238,31 @@ const buildDefaultForm = (): OnboardingForm => {
             required: true,
             placeholder: "How did everything begin?",
           },
+          {
+            id: "founders",
+            label: "Founders",
+            type: "group",
+            required: false,
+            description: "Add one entry per co-founder.",
+            entryLabel: "Founder",
+            minEntries: 1,
+            maxEntries: 6,
+            fields: [
+              { id: "founder-name", label: "Full Name", type: "text", required: true },
+              { id: "founder-role", label: "Role", type: "text", required: true, placeholder: "CEO" },
+              { id: "founder-linkedin", label: "LinkedIn", type: "url", required: false },
+              {
+                id: "founder-equity",
+                label: "Equity %",
+                type: "number",
+                required: false,
+                min: 0,
+                max: 100,
+              },
+              { id: "founder-phd", label: "Holds a PhD", type: "checkbox", required: false },
+              { id: "founder-cv", label: "CV", type: "file", required: false },
+            ],
+          },
           {
             id: "team-size",
             label: "Team Size",
@@ -194,6 +340,26 @@ const buildDefaultForm = (): OnboardingForm => {
           label: "Core team in place",
           description: "Teams of three or more receive full marks for execution capacity.",
         },
+        {
+          id: "founders-multiple",
+          fieldId: "founders",
+          operator: "gte",
+          target: "2",
+          points: 5,
+          label: "Multi-founder team",
+          description: "Teams with at least two co-founders share the load from day one.",
+        },
+        {
+          id: "founders-phd",
+          fieldId: "founders",
+          subFieldId: "founder-phd",
+          entryMatch: "any",
+          operator: "equals",
+          target: "yes",
+          points: 5,
+          label: "Doctoral expertise on the team",
+          description: "At least one founder holds a PhD.",
+        },
         {
           id: "traction-keywords",
           fieldId: "traction-summary",
@@ -211,20 +377,88 @@ const buildDefaultForm = (): OnboardingForm => {
   return normalizeConfig(form);
 };
 
-export const getOnboardingConfig = async (): Promise<OnboardingForm> => {
+type ConfigVersionRow = {
+  version: number;
+  payload: Prisma.JsonValue;
+  createdBy: string | null;
+  restoredFrom: number | null;
+  createdAt: Date;
+};
+
+type ConfigPersistOptions = {
+  createdBy?: string;
+  restoredFrom?: number;
+};
+
+const countFormFields = (form: OnboardingForm) =>
+  form.sections.reduce((sum, section) => sum + section.fields.length, 0);
+
+const configVersionRowToVersion = (
+  row: ConfigVersionRow,
+  currentVersion?: number,
+): OnboardingFormVersion => {
+  const payload = (row.payload as OnboardingForm | null) ?? buildDefaultForm();
+  const form = normalizeConfig({
+    ...payload,
+    version: row.version,
+    updatedAt: payload.updatedAt ?? row.createdAt.toISOString(),
+  });
+
+  return {
+    version: row.version,
+    title: form.title,
+    createdAt: row.createdAt.toISOString(),
+    createdBy: row.createdBy ?? undefined,
+    restoredFrom: row.restoredFrom ?? undefined,
+    sectionCount: form.sections.length,
+    fieldCount: countFormFields(form),
+    ruleCount: form.scoring?.rules.length ?? 0,
+    isCurrent: row.version === currentVersion,
+    form,
+  };
+};
+
+// Backfills a version row for a form that predates version history; existing rows are left untouched.
+const recordConfigVersion = async (
+  configId: string,
+  form: OnboardingForm,
+  db: Prisma.TransactionClient = prisma,
+) => {
+  await db.onboardingConfigVersionRecord.upsert({
+    where: {
+      configId_version: {
+        configId,
+        version: form.version,
+      },
+    },
+    update: {},
+    create: {
+      configId,
+      version: form.version,
+      payload: form as unknown as Prisma.JsonObject,
+      createdAt: new Date(form.updatedAt),
+    },
+  });
+};
+
+export const getOnboardingConfig = async (
+  programId: string = DEFAULT_PROGRAM_ID,
+): Promise<OnboardingForm> => {
+  const configId = programConfigId(programId);
   const record = await prisma.onboardingConfig.findUnique({
-    where: { id: CONFIG_RECORD_ID },
+    where: { id: configId },
   });
 
   if (!record) {
     const defaultForm = normalizeConfig(buildDefaultForm());
     await prisma.onboardingConfig.create({
       data: {
-        id: CONFIG_RECORD_ID,
+        id: configId,
         payload: defaultForm as unknown as Prisma.JsonObject,
         createdAt: new Date(defaultForm.updatedAt),
       },
     });
+    await recordConfigVersion(configId, defaultForm);
     return defaultForm;
   }
 
@@ -235,815 +469,4317 @@ export const getOnboardingConfig = async (): Promise<OnboardingForm> => {
   });
 };
 
-export const saveOnboardingConfig = async (form: OnboardingForm): Promise<void> => {
-  const normalized = normalizeConfig({
-    ...form,
-    updatedAt: new Date().toISOString(),
-  });
+const CONFIG_SAVE_ATTEMPTS = 3;
 
-  await prisma.onboardingConfig.upsert({
-    where: { id: CONFIG_RECORD_ID },
-    update: {
-      payload: normalized as unknown as Prisma.JsonObject,
-    },
-    create: {
-      id: CONFIG_RECORD_ID,
-      payload: normalized as unknown as Prisma.JsonObject,
-      createdAt: new Date(normalized.updatedAt),
-    },
-  });
-};
+const isUniqueConstraintError = (error: unknown) =>
+  typeof error === "object" && error !== null && (error as { code?: unknown }).code === "P2002";
 
-export const saveOnboardingSubmission = async (
-  submission: Omit<OnboardingSubmission, "id" | "submittedAt">,
-): Promise<OnboardingSubmission> => {
-  const id = randomUUID();
-  const submittedAt = new Date().toISOString();
-  const autoScore = submission.score
-    ? {
-        ...submission.score,
-        source: submission.score.source ?? "auto",
-        updatedAt: submittedAt,
-        updatedBy: submission.userId,
-      }
-    : undefined;
+// The new version row is a plain create, so two concurrent saves cannot both claim the same number:
+// the loser hits the unique constraint, its transaction rolls back and it retries on top of the winner.
+const persistOnboardingConfig = async (
+  configId: string,
+  form: OnboardingForm,
+  options: ConfigPersistOptions = {},
+): Promise<OnboardingForm> => {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const [record, latest] = await Promise.all([
+          tx.onboardingConfig.findUnique({ where: { id: configId } }),
+          tx.onboardingConfigVersionRecord.findFirst({
+            where: { configId },
+            orderBy: { version: "desc" },
+            select: { version: true },
+          }),
+        ]);
+
+        const previous = record?.payload as OnboardingForm | null | undefined;
+        if (previous) {
+          await recordConfigVersion(
+            configId,
+            normalizeConfig({
+              ...previous,
+              updatedAt: previous.updatedAt ?? record!.updatedAt.toISOString(),
+            }),
+            tx,
+          );
+        }
 
-  const record: OnboardingSubmission = {
-    id,
-    submittedAt,
-    ...submission,
-    score: autoScore,
-    scoreAuto: autoScore,
-    scoreManual: undefined,
-  };
+        const baseVersion = Math.max(latest?.version ?? 0, previous?.version ?? 0);
+        const normalized = normalizeConfig({
+          ...form,
+          version: baseVersion + 1,
+          updatedAt: new Date().toISOString(),
+        });
+
+        await tx.onboardingConfigVersionRecord.create({
+          data: {
+            configId,
+            version: normalized.version,
+            payload: normalized as unknown as Prisma.JsonObject,
+            createdBy: options.createdBy ?? null,
+            restoredFrom: options.restoredFrom ?? null,
+            createdAt: new Date(normalized.updatedAt),
+          },
+        });
+        await tx.onboardingConfig.upsert({
+          where: { id: configId },
+          update: {
+            payload: normalized as unknown as Prisma.JsonObject,
+          },
+          create: {
+            id: configId,
+            payload: normalized as unknown as Prisma.JsonObject,
+            createdAt: new Date(normalized.updatedAt),
+          },
+        });
 
-  await prisma.onboardingSubmissionRecord.create({
-    data: {
-      id,
-      userId: submission.userId,
-      formId: submission.formId,
-      submittedAt: new Date(submittedAt),
-      payload: record as unknown as Prisma.JsonObject,
-      createdAt: new Date(submittedAt),
-    },
-  });
+        return normalized;
+      });
+    } catch (error) {
+      if (attempt >= CONFIG_SAVE_ATTEMPTS || !isUniqueConstraintError(error)) {
+        throw error;
+      }
+    }
+  }
+};
 
-  return record;
+export const saveOnboardingConfig = async (
+  form: OnboardingForm,
+  actor?: string,
+  programId: string = DEFAULT_PROGRAM_ID,
+): Promise<OnboardingForm> => {
+  return persistOnboardingConfig(programConfigId(programId), form, { createdBy: actor });
 };
 
-const submissionRecordToSubmission = (row: {
-  id: string;
-  userId: string;
-  formId: string;
-  submittedAt: Date;
-  payload: Prisma.JsonValue | null;
-}): OnboardingSubmission => {
-  const payload = (row.payload as OnboardingSubmission | null) ?? ({} as OnboardingSubmission);
-  const normalizeScore = (
-    score: OnboardingSubmissionScore | undefined,
-    fallback: "auto" | "manual",
-  ): OnboardingSubmissionScore | undefined => {
-    if (!score) {
-      return undefined;
-    }
-    if (score.source) {
-      return { ...score };
-    }
-    return { ...score, source: fallback };
-  };
+export const listOnboardingConfigVersions = async (
+  programId: string = DEFAULT_PROGRAM_ID,
+): Promise<OnboardingFormVersionSummary[]> => {
+  const current = await getOnboardingConfig(programId);
+  const rows = await prisma.onboardingConfigVersionRecord.findMany({
+    where: { configId: programConfigId(programId) },
+    orderBy: { version: "desc" },
+  });
 
-  const storedScore = payload.score as OnboardingSubmissionScore | undefined;
-  const storedAuto = normalizeScore(
-    (payload.scoreAuto as OnboardingSubmissionScore | undefined) ?? undefined,
-    "auto",
-  );
-  const storedManual = normalizeScore(
-    (payload.scoreManual as OnboardingSubmissionScore | undefined) ?? undefined,
-    "manual",
-  );
+  return rows.map((row) => {
+    const { form: _form, ...summary } = configVersionRowToVersion(row, current.version);
+    return summary;
+  });
+};
 
-  let scoreAuto = storedAuto;
-  let scoreManual = storedManual;
-  let finalScore = storedScore ? normalizeScore(storedScore, storedManual ? "manual" : "auto") : undefined;
+export const getOnboardingConfigVersion = async (
+  version: number,
+  programId: string = DEFAULT_PROGRAM_ID,
+): Promise<OnboardingFormVersion | null> => {
+  const [current, row] = await Promise.all([
+    getOnboardingConfig(programId),
+    prisma.onboardingConfigVersionRecord.findUnique({
+      where: {
+        configId_version: {
+          configId: programConfigId(programId),
+          version,
+        },
+      },
+    }),
+  ]);
 
-  if (!scoreAuto && finalScore && finalScore.source !== "manual") {
-    scoreAuto = { ...finalScore };
-  }
-  if (!scoreManual && finalScore && finalScore.source === "manual") {
-    scoreManual = { ...finalScore };
-  }
-  if (!finalScore) {
-    finalScore = scoreManual ?? scoreAuto;
+  if (!row) {
+    return null;
   }
 
-  return {
-    id: payload.id ?? row.id,
-    userId: payload.userId ?? row.userId,
-    formId: payload.formId ?? row.formId,
-    submittedAt: payload.submittedAt ?? row.submittedAt.toISOString(),
-    responses: (payload.responses ?? []) as OnboardingFieldResponse[],
-    score: finalScore,
-    scoreAuto,
-    scoreManual,
-  };
+  return configVersionRowToVersion(row, current.version);
 };
 
-const ensureNumber = (value: unknown): number | undefined => {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
-  }
-  if (typeof value === "string") {
-    const parsed = Number.parseFloat(value);
-    if (Number.isFinite(parsed)) {
-      return parsed;
-    }
+export const rollbackOnboardingConfig = async (
+  version: number,
+  actor?: string,
+  programId: string = DEFAULT_PROGRAM_ID,
+): Promise<OnboardingForm> => {
+  const target = await getOnboardingConfigVersion(version, programId);
+  if (!target) {
+    throw new Error("Form version not found");
   }
-  return undefined;
-};
 
-const normaliseOperator = (
-  operator: string,
-): OnboardingScoringRule["operator"] => {
-  switch (operator) {
-    case "contains":
-    case "gte":
-    case "lte":
-      return operator;
-    default:
-      return "equals";
-  }
+  return persistOnboardingConfig(programConfigId(programId), target.form, {
+    createdBy: actor,
+    restoredFrom: target.version,
+  });
 };
 
-const normaliseRule = (rule: OnboardingScoringRule): OnboardingScoringRule => {
-  const points = ensureNumber(rule.points) ?? 0;
-  return {
-    ...rule,
-    id: rule.id || randomUUID(),
-    fieldId: rule.fieldId?.trim() ?? "",
-    label: rule.label?.trim() || "Scoring rule",
-    description: rule.description?.trim() || undefined,
-    operator: normaliseOperator(rule.operator),
-    target: rule.target?.toString().trim() ?? "",
-    points: points >= 0 ? points : 0,
-  };
+const describeOptionChanges = (before: OnboardingField, after: OnboardingField): string[] => {
+  const beforeValues = new Set((before.options ?? []).map((option) => option.value));
+  const afterValues = new Set((after.options ?? []).map((option) => option.value));
+  const added = Array.from(afterValues).filter((value) => !beforeValues.has(value));
+  const removed = Array.from(beforeValues).filter((value) => !afterValues.has(value));
+  const changes: string[] = [];
+  if (added.length) {
+    changes.push(`Options added: ${added.join(", ")}`);
+  }
+  if (removed.length) {
+    changes.push(`Options removed: ${removed.join(", ")}`);
+  }
+  return changes;
 };
 
-const normaliseScoring = (
-  scoring?: OnboardingScoringConfig,
-): OnboardingScoringConfig => {
-  const rules = (scoring?.rules ?? [])
-    .map(normaliseRule)
-    .filter((rule) => rule.fieldId && rule.target.length > 0 && rule.points > 0);
-  const total = rules.reduce((sum, rule) => sum + rule.points, 0);
+const describeFieldChanges = (
+  before: { field: OnboardingField; section: OnboardingSection },
+  after: { field: OnboardingField; section: OnboardingSection },
+): string[] => {
+  const changes: string[] = [];
+  const a = before.field;
+  const b = after.field;
 
-  const autoRejectBelow = ensureNumber(scoring?.autoRejectBelow);
-  const autoAdvanceAt = ensureNumber(scoring?.autoAdvanceAt);
+  if (before.section.id !== after.section.id) {
+    changes.push(`Moved from “${before.section.title}” to “${after.section.title}”`);
+  }
+  if (a.label !== b.label) {
+    changes.push(`Label “${a.label}” → “${b.label}”`);
+  }
+  if (a.type !== b.type) {
+    changes.push(`Type ${a.type} → ${b.type}`);
+  }
+  if (a.required !== b.required) {
+    changes.push(b.required ? "Now required" : "No longer required");
+  }
+  if ((a.description ?? "") !== (b.description ?? "")) {
+    changes.push("Description updated");
+  }
+  if ((a.placeholder ?? "") !== (b.placeholder ?? "")) {
+    changes.push("Placeholder updated");
+  }
+  if (Boolean(a.multiple) !== Boolean(b.multiple)) {
+    changes.push(b.multiple ? "Allows multiple files" : "Single file only");
+  }
+  if (a.minEntries !== b.minEntries || a.maxEntries !== b.maxEntries) {
+    changes.push(
+      `Entries ${a.minEntries ?? 0}–${a.maxEntries ?? "∞"} → ${b.minEntries ?? 0}–${b.maxEntries ?? "∞"}`,
+    );
+  }
+  if (JSON.stringify(a.fields ?? []) !== JSON.stringify(b.fields ?? [])) {
+    changes.push("Group fields updated");
+  }
+  changes.push(...describeOptionChanges(a, b));
+  if (JSON.stringify(a.visibleWhen ?? null) !== JSON.stringify(b.visibleWhen ?? null)) {
+    changes.push("Visibility logic updated");
+  }
+  if (
+    JSON.stringify([a.translations ?? null, a.options?.map((option) => option.translations ?? null)]) !==
+    JSON.stringify([b.translations ?? null, b.options?.map((option) => option.translations ?? null)])
+  ) {
+    changes.push("Translations updated");
+  }
 
-  return {
-    rules,
-    autoRejectBelow:
-      autoRejectBelow !== undefined && autoRejectBelow >= 0 ? autoRejectBelow : undefined,
-    autoAdvanceAt:
-      autoAdvanceAt !== undefined && autoAdvanceAt >= 0 ? autoAdvanceAt : undefined,
-    totalPoints: total,
-  };
+  if (!changes.length && JSON.stringify(a) !== JSON.stringify(b)) {
+    changes.push("Settings updated");
+  }
+  return changes;
 };
 
-export const normalizeField = (field: OnboardingField): OnboardingField => ({
-  ...field,
-  description: field.description?.trim() || undefined,
-  placeholder: field.placeholder?.trim() || undefined,
-  options:
-    field.type === "select"
-      ? field.options?.map((option: OnboardingFieldOption) => ({
-          ...option,
-          label: option.label.trim(),
-          value: option.value.trim(),
-        })) ?? []
-      : undefined,
-});
-
-export const normalizeConfig = (form: OnboardingForm): OnboardingForm => ({
-  ...form,
-  id: form.id?.trim() || "founders-intake",
-  version: Number.isFinite(form.version) ? form.version : 1,
-  title: form.title?.trim() || "Founders Intake",
-  summary: form.summary?.trim() || "",
-  updatedAt: form.updatedAt ?? new Date().toISOString(),
-  sections: form.sections.map((section) => ({
-    ...section,
-    title: section.title.trim(),
-    description: section.description?.trim() || undefined,
-    fields: section.fields.map(normalizeField),
-  })),
-  scoring: normaliseScoring(form.scoring),
-});
-
-const toValueArray = (value: string | string[] | null): string[] => {
-  if (value === null || value === undefined) {
-    return [];
+const describeRuleChanges = (a: OnboardingScoringRule, b: OnboardingScoringRule): string[] => {
+  const changes: string[] = [];
+  if (a.label !== b.label) {
+    changes.push(`Label “${a.label}” → “${b.label}”`);
   }
-  if (Array.isArray(value)) {
-    return value
-      .map((entry) => (entry ?? "").toString().trim())
-      .filter((entry) => entry.length > 0);
+  if (a.fieldId !== b.fieldId || a.subFieldId !== b.subFieldId) {
+    changes.push(
+      `Field ${[a.fieldId, a.subFieldId].filter(Boolean).join(".")} → ${[b.fieldId, b.subFieldId]
+        .filter(Boolean)
+        .join(".")}`,
+    );
   }
-  const asString = value.toString().trim();
-  return asString.length ? [asString] : [];
-};
-
-const parseNumeric = (value: string): number | undefined => {
-  const cleaned = value.replace(/[^0-9.+-]/g, "");
-  if (!cleaned.length) {
-    return undefined;
+  if ((a.entryMatch ?? "any") !== (b.entryMatch ?? "any")) {
+    changes.push(`Entry match ${a.entryMatch ?? "any"} → ${b.entryMatch ?? "any"}`);
   }
-  const parsed = Number.parseFloat(cleaned);
-  if (Number.isFinite(parsed)) {
-    return parsed;
+  if ((a.match ?? "all") !== (b.match ?? "all") && (a.conditions?.length || b.conditions?.length)) {
+    changes.push(`Match ${a.match ?? "all"} → ${b.match ?? "all"}`);
   }
-  return undefined;
+  if (JSON.stringify(a.conditions ?? []) !== JSON.stringify(b.conditions ?? [])) {
+    changes.push(
+      `Conditions updated (${a.conditions?.length ?? 0} → ${b.conditions?.length ?? 0})`,
+    );
+  }
+  if (a.operator !== b.operator || a.target !== b.target) {
+    changes.push(`Condition ${a.operator} “${a.target}” → ${b.operator} “${b.target}”`);
+  }
+  if (a.points !== b.points) {
+    changes.push(`Points ${a.points} → ${b.points}`);
+  }
+  if (!changes.length && JSON.stringify(a) !== JSON.stringify(b)) {
+    changes.push("Settings updated");
+  }
+  return changes;
 };
 
-const evaluateRuleMatch = (
-  rule: OnboardingScoringRule,
-  response?: OnboardingFieldResponse,
-): { matched: boolean; reason?: string } => {
-  if (!response) {
-    return { matched: false, reason: "No response provided" };
+export const diffOnboardingForms = (from: OnboardingForm, to: OnboardingForm): OnboardingFormDiff => {
+  const formChanges: string[] = [];
+  if (from.title !== to.title) {
+    formChanges.push(`Title “${from.title}” → “${to.title}”`);
   }
-
-  const values = toValueArray(response.value);
-  if (values.length === 0) {
-    return { matched: false, reason: "No value provided" };
+  if (from.summary !== to.summary) {
+    formChanges.push("Summary updated");
+  }
+  if (from.opensAt !== to.opensAt) {
+    formChanges.push(`Opens ${from.opensAt ?? "—"} → ${to.opensAt ?? "—"}`);
+  }
+  if (from.closesAt !== to.closesAt) {
+    formChanges.push(`Closes ${from.closesAt ?? "—"} → ${to.closesAt ?? "—"}`);
+  }
+  if (from.maxSubmissions !== to.maxSubmissions) {
+    formChanges.push(`Application limit ${from.maxSubmissions ?? "—"} → ${to.maxSubmissions ?? "—"}`);
+  }
+  if ((from.defaultLocale ?? DEFAULT_FORM_LOCALE) !== (to.defaultLocale ?? DEFAULT_FORM_LOCALE)) {
+    formChanges.push(
+      `Default language ${from.defaultLocale ?? DEFAULT_FORM_LOCALE} → ${to.defaultLocale ?? DEFAULT_FORM_LOCALE}`,
+    );
+  }
+  if ((from.locales ?? []).join(",") !== (to.locales ?? []).join(",")) {
+    formChanges.push(`Languages ${(from.locales ?? []).join(", ") || "—"} → ${(to.locales ?? []).join(", ") || "—"}`);
+  }
+  if (JSON.stringify(from.translations ?? null) !== JSON.stringify(to.translations ?? null)) {
+    formChanges.push("Form translations updated");
   }
 
-  const target = rule.target.toLowerCase();
+  const sections: OnboardingFormSectionChange[] = [];
+  const fromSections = new Map(from.sections.map((section) => [section.id, section]));
+  const toSections = new Map(to.sections.map((section) => [section.id, section]));
 
-  switch (rule.operator) {
-    case "contains": {
-      const matched = values.some((value) => value.toLowerCase().includes(target));
-      return matched
-        ? { matched: true }
-        : { matched: false, reason: `Expected mention of “${rule.target}”` };
+  to.sections.forEach((section) => {
+    const previous = fromSections.get(section.id);
+    if (!previous) {
+      sections.push({ sectionId: section.id, title: section.title, kind: "added", changes: [] });
+      return;
     }
-    case "gte": {
-      const targetValue = ensureNumber(rule.target);
-      if (targetValue === undefined) {
-        return { matched: false, reason: "Rule threshold invalid" };
-      }
-      const numbers = values
-        .map(parseNumeric)
-        .filter((item): item is number => item !== undefined);
-      if (!numbers.length) {
-        return { matched: false, reason: "Response is not numeric" };
-      }
-      return numbers.some((value) => value >= targetValue)
-        ? { matched: true }
-        : { matched: false, reason: `Below ${targetValue}` };
+    const changes: string[] = [];
+    if (previous.title !== section.title) {
+      changes.push(`Title “${previous.title}” → “${section.title}”`);
     }
-    case "lte": {
-      const targetValue = ensureNumber(rule.target);
-      if (targetValue === undefined) {
-        return { matched: false, reason: "Rule threshold invalid" };
-      }
-      const numbers = values
-        .map(parseNumeric)
-        .filter((item): item is number => item !== undefined);
-      if (!numbers.length) {
-        return { matched: false, reason: "Response is not numeric" };
-      }
-      return numbers.some((value) => value <= targetValue)
-        ? { matched: true }
-        : { matched: false, reason: `Above ${targetValue}` };
+    if ((previous.description ?? "") !== (section.description ?? "")) {
+      changes.push("Description updated");
     }
-    case "equals":
-    default: {
-      const matched = values.some((value) => value.toLowerCase() === target);
-      return matched
-        ? { matched: true }
-        : { matched: false, reason: `Expected “${rule.target}”` };
+    if (JSON.stringify(previous.visibleWhen ?? null) !== JSON.stringify(section.visibleWhen ?? null)) {
+      changes.push("Visibility logic updated");
     }
-  }
-};
+    if (JSON.stringify(previous.translations ?? null) !== JSON.stringify(section.translations ?? null)) {
+      changes.push("Translations updated");
+    }
+    if (changes.length) {
+      sections.push({ sectionId: section.id, title: section.title, kind: "changed", changes });
+    }
+  });
+  from.sections.forEach((section) => {
+    if (!toSections.has(section.id)) {
+      sections.push({ sectionId: section.id, title: section.title, kind: "removed", changes: [] });
+    }
+  });
 
-export const evaluateSubmissionScore = (
-  form: OnboardingForm,
-  responses: OnboardingFieldResponse[],
-): OnboardingSubmissionScore | undefined => {
-  const scoring = normaliseScoring(form.scoring);
-  const breakdown = scoring.rules.map((rule) => {
-    const response = responses.find((entry) => entry.fieldId === rule.fieldId);
-    const result = evaluateRuleMatch(rule, response);
-    return {
-      ruleId: rule.id,
-      label: rule.label,
-      points: rule.points,
-      matched: result.matched,
-      reason: result.reason,
-    };
+  const fields: OnboardingFormFieldChange[] = [];
+  const fromFields = buildFieldRegistry(from);
+  const toFields = buildFieldRegistry(to);
+
+  toFields.forEach((meta, fieldId) => {
+    const previous = fromFields.get(fieldId);
+    if (!previous) {
+      fields.push({
+        fieldId,
+        sectionId: meta.section.id,
+        label: meta.field.label,
+        kind: "added",
+        changes: [],
+      });
+      return;
+    }
+    const changes = describeFieldChanges(previous, meta);
+    if (changes.length) {
+      fields.push({ fieldId, sectionId: meta.section.id, label: meta.field.label, kind: "changed", changes });
+    }
+  });
+  fromFields.forEach((meta, fieldId) => {
+    if (!toFields.has(fieldId)) {
+      fields.push({
+        fieldId,
+        sectionId: meta.section.id,
+        label: meta.field.label,
+        kind: "removed",
+        changes: [],
+      });
+    }
   });
 
-  const total = scoring.totalPoints ?? breakdown.reduce((sum, entry) => sum + entry.points, 0);
+  const rules: OnboardingFormRuleChange[] = [];
+  const fromRules = new Map((from.scoring?.rules ?? []).map((rule) => [rule.id, rule]));
+  const toRules = new Map((to.scoring?.rules ?? []).map((rule) => [rule.id, rule]));
 
-  if (!breakdown.length && scoring.autoAdvanceAt === undefined && scoring.autoRejectBelow === undefined) {
-    return undefined;
-  }
+  toRules.forEach((rule, ruleId) => {
+    const previous = fromRules.get(ruleId);
+    if (!previous) {
+      rules.push({ ruleId, label: rule.label, kind: "added", changes: [] });
+      return;
+    }
+    const changes = describeRuleChanges(previous, rule);
+    if (changes.length) {
+      rules.push({ ruleId, label: rule.label, kind: "changed", changes });
+    }
+  });
+  fromRules.forEach((rule, ruleId) => {
+    if (!toRules.has(ruleId)) {
+      rules.push({ ruleId, label: rule.label, kind: "removed", changes: [] });
+    }
+  });
 
-  const awarded = breakdown.reduce(
-    (sum, entry) => (entry.matched ? sum + entry.points : sum),
-    0,
-  );
+  const scoring: string[] = [];
+  if (from.scoring?.autoAdvanceAt !== to.scoring?.autoAdvanceAt) {
+    scoring.push(
+      `Auto-advance threshold ${from.scoring?.autoAdvanceAt ?? "—"} → ${to.scoring?.autoAdvanceAt ?? "—"}`,
+    );
+  }
+  if (from.scoring?.autoRejectBelow !== to.scoring?.autoRejectBelow) {
+    scoring.push(
+      `Auto-reject threshold ${from.scoring?.autoRejectBelow ?? "—"} → ${to.scoring?.autoRejectBelow ?? "—"}`,
+    );
+  }
 
-  const percentage = total > 0 ? Number(((awarded / total) * 100).toFixed(2)) : 0;
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    form: formChanges,
+    sections,
+    fields,
+    rules,
+    scoring,
+    hasChanges:
+      formChanges.length + sections.length + fields.length + rules.length + scoring.length > 0,
+  };
+};
 
-  let status: OnboardingSubmissionScore["status"] = "review";
-  if (scoring.autoRejectBelow !== undefined && awarded < scoring.autoRejectBelow) {
-    status = "reject";
-  } else if (scoring.autoAdvanceAt !== undefined && awarded >= scoring.autoAdvanceAt) {
-    status = "advance";
+export const diffOnboardingConfigVersions = async (
+  fromVersion: number,
+  toVersion: number,
+  programId: string = DEFAULT_PROGRAM_ID,
+): Promise<OnboardingFormDiff | null> => {
+  const [from, to] = await Promise.all([
+    getOnboardingConfigVersion(fromVersion, programId),
+    getOnboardingConfigVersion(toVersion, programId),
+  ]);
+
+  if (!from || !to) {
+    return null;
   }
 
+  return diffOnboardingForms(from.form, to.form);
+};
+
+export const ONBOARDING_FORM_SCHEMA_FORMAT = "onboarding-form";
+export const ONBOARDING_FORM_SCHEMA_VERSION = 1;
+
+export const exportOnboardingFormSchema = async (
+  program: OnboardingProgram,
+): Promise<OnboardingFormSchemaDocument> => {
+  const { version, updatedAt: _updatedAt, ...form } = await getOnboardingConfig(program.id);
   return {
-    total,
-    awarded,
-    percentage,
-    status,
-    thresholdAdvance: scoring.autoAdvanceAt,
-    thresholdReject: scoring.autoRejectBelow,
-    breakdown,
-    source: "auto",
-    updatedAt: new Date().toISOString(),
+    format: ONBOARDING_FORM_SCHEMA_FORMAT,
+    schemaVersion: ONBOARDING_FORM_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: {
+      programId: program.id,
+      programSlug: program.slug,
+      programName: program.name,
+      formVersion: version,
+    },
+    form,
   };
 };
 
-const buildFieldRegistry = (form: OnboardingForm) => {
-  const registry = new Map<string, { field: OnboardingField; section: OnboardingSection }>();
-  form.sections.forEach((section) => {
-    section.fields.forEach((field: OnboardingField) => {
-      registry.set(field.id, { field, section });
-    });
-  });
-  return registry;
-};
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
 
-const guessStageFieldId = (registry: Map<string, { field: OnboardingField; section: OnboardingSection }>) => {
-  for (const [fieldId, meta] of registry.entries()) {
-    const { field } = meta;
-    if (field.type !== "select") {
-      continue;
+const assertSchemaFields = (fields: unknown, owner: string, seen: Set<string>) => {
+  if (!Array.isArray(fields)) {
+    throw new Error(`${owner} must contain a list of fields`);
+  }
+  fields.forEach((field, index) => {
+    if (!isRecord(field) || typeof field.id !== "string" || !field.id.trim()) {
+      throw new Error(`Field ${index + 1} in ${owner.toLowerCase()} is missing an id`);
     }
-    if (fieldId.includes("stage")) {
-      return fieldId;
+    if (typeof field.label !== "string") {
+      throw new Error(`Field "${field.id}" is missing a label`);
     }
-    if (/stage/i.test(field.label)) {
-      return fieldId;
+    if (!FIELD_TYPES.includes(field.type as OnboardingFieldType)) {
+      throw new Error(`Field "${field.id}" has unsupported type "${String(field.type)}"`);
     }
-  }
-  return undefined;
-};
-
-const guessNameFieldId = (registry: Map<string, { field: OnboardingField; section: OnboardingSection }>) => {
-  for (const [fieldId, meta] of registry.entries()) {
-    const { field } = meta;
-    if (field.type !== "text" && field.type !== "textarea") {
-      continue;
+    if (seen.has(field.id)) {
+      throw new Error(`Field id "${field.id}" is used more than once`);
     }
-    if (fieldId.includes("name")) {
-      return fieldId;
+    seen.add(field.id);
+    if (
+      field.options !== undefined &&
+      (!Array.isArray(field.options) ||
+        field.options.some(
+          (option) => !isRecord(option) || typeof option.label !== "string" || typeof option.value !== "string",
+        ))
+    ) {
+      throw new Error(`Field "${field.id}" has malformed options`);
     }
-    if (/company/i.test(field.label) && /name/i.test(field.label)) {
-      return fieldId;
+    if (field.type === "group") {
+      assertSchemaFields(field.fields ?? [], `Group "${field.id}"`, new Set());
     }
-  }
-  return undefined;
-};
-
-const resolveResponse = (
-  response: OnboardingFieldResponse,
-  registry: Map<string, { field: OnboardingField; section: OnboardingSection }>,
-): OnboardingSubmissionResolvedField => {
-  const meta = registry.get(response.fieldId);
-  const base: OnboardingSubmissionResolvedField = {
-    fieldId: response.fieldId,
-    label: meta?.field.label ?? response.fieldId,
-    type: meta?.field.type ?? "text",
-    value: response.value,
-    attachments: response.attachments?.map(enrichAttachment),
-  };
-  return base;
+  });
 };
 
-const responseToStrings = (value: string | string[] | null): string[] => {
-  if (value === null || value === undefined) {
-    return [];
+export const parseOnboardingFormSchema = (
+  document: unknown,
+): { form: OnboardingForm; schemaVersion: number; source?: OnboardingFormSchemaDocument["source"] } => {
+  if (!isRecord(document) || document.format !== ONBOARDING_FORM_SCHEMA_FORMAT) {
+    throw new Error("File is not an onboarding form schema");
   }
-  if (Array.isArray(value)) {
-    return value.filter((item) => typeof item === "string" && item.trim().length > 0);
+  const schemaVersion = ensureNumber(document.schemaVersion);
+  if (schemaVersion === undefined || schemaVersion < 1) {
+    throw new Error("Schema version is missing");
   }
-  if (typeof value === "string") {
-    return value.trim().length ? [value] : [];
+  if (schemaVersion > ONBOARDING_FORM_SCHEMA_VERSION) {
+    throw new Error(`Schema version ${schemaVersion} is newer than this deployment supports`);
   }
-  return [];
-};
 
-const matchesQuery = (submission: OnboardingSubmissionSummary, query: string): boolean => {
-  const lowered = query.toLowerCase();
-  const haystack: string[] = [];
-
-  if (submission.companyName) {
-    haystack.push(submission.companyName);
+  const form = document.form;
+  if (!isRecord(form) || !Array.isArray(form.sections)) {
+    throw new Error("Schema does not contain a form with sections");
   }
-  submission.responses.forEach((response) => {
-    responseToStrings(response.value).forEach((value) => haystack.push(value));
-    response.attachments?.forEach((attachment) => {
-      if (attachment.name) {
-        haystack.push(attachment.name);
-      }
-    });
-  });
 
-  return haystack.some((value) => value.toLowerCase().includes(lowered));
-};
+  const sectionIds = new Set<string>();
+  const fieldIds = new Set<string>();
+  form.sections.forEach((section, index) => {
+    if (!isRecord(section) || typeof section.id !== "string" || !section.id.trim()) {
+      throw new Error(`Section ${index + 1} is missing an id`);
+    }
+    if (typeof section.title !== "string") {
+      throw new Error(`Section "${section.id}" is missing a title`);
+    }
+    if (sectionIds.has(section.id)) {
+      throw new Error(`Section id "${section.id}" is used more than once`);
+    }
+    sectionIds.add(section.id);
+    assertSchemaFields(section.fields, `Section "${section.id}"`, fieldIds);
+  });
 
-const buildSubmissionSummary = (
-  record: OnboardingSubmission,
-  resolvedResponses: OnboardingSubmissionResolvedField[],
-  stageFieldMeta: OnboardingField | undefined,
-  stageFieldId: string | undefined,
-  nameFieldId: string | undefined,
-): OnboardingSubmissionSummary => {
-  const stageResponse = stageFieldId
-    ? resolvedResponses.find((response) => response.fieldId === stageFieldId)
-    : undefined;
-  const nameResponse = nameFieldId
-    ? resolvedResponses.find((response) => response.fieldId === nameFieldId)
-    : undefined;
+  if (form.scoring !== undefined) {
+    if (!isRecord(form.scoring) || (form.scoring.rules !== undefined && !Array.isArray(form.scoring.rules))) {
+      throw new Error("Schema scoring configuration is malformed");
+    }
+    (form.scoring.rules ?? []).forEach((rule: unknown, index: number) => {
+      if (!isRecord(rule)) {
+        throw new Error(`Scoring rule ${index + 1} is malformed`);
+      }
+      const conditions = Array.isArray(rule.conditions) && rule.conditions.length ? rule.conditions : [rule];
+      conditions.forEach((condition: unknown) => {
+        if (!isRecord(condition) || typeof condition.fieldId !== "string") {
+          throw new Error(`Scoring rule ${index + 1} is missing a field`);
+        }
+        if (!fieldIds.has(condition.fieldId)) {
+          throw new Error(`Scoring rule ${index + 1} references unknown field "${condition.fieldId}"`);
+        }
+      });
+    });
+  }
 
-  const stageValues = responseToStrings(stageResponse?.value ?? null);
-  const stageValue = stageValues[0];
-  const stageLabel = stageValue
-    ? stageFieldMeta?.options?.find((option: OnboardingFieldOption) => option.value === stageValue)?.label ?? stageValue
+  const source = isRecord(document.source)
+    ? (document.source as OnboardingFormSchemaDocument["source"])
     : undefined;
-  const companyName = responseToStrings(nameResponse?.value ?? null)[0];
-  const autoScore =
-    record.scoreAuto ?? (record.score && record.score.source !== "manual" ? record.score : undefined);
-  const manualScore =
-    record.scoreManual ?? (record.score && record.score.source === "manual" ? record.score : undefined);
-  const finalScore = manualScore ?? record.score ?? autoScore;
-  const status = finalScore?.status ?? "review";
 
   return {
-    id: record.id,
-    formId: record.formId,
-    userId: record.userId,
-    submittedAt: record.submittedAt,
-    score: finalScore,
-    scoreAuto: autoScore,
-    scoreManual: manualScore,
-    status,
-    companyName,
-    companyStage:
-      stageValue !== undefined
-        ? {
-            value: stageValue,
-            label: stageLabel,
-          }
-        : undefined,
-    responses: resolvedResponses,
+    form: normalizeConfig({
+      ...(form as unknown as OnboardingForm),
+      version: 1,
+      updatedAt: new Date().toISOString(),
+    }),
+    schemaVersion,
+    source,
   };
 };
 
-const createSubmissionSummaryContext = (form: OnboardingForm) => {
-  const registry = buildFieldRegistry(form);
-  const stageFieldId = guessStageFieldId(registry);
-  const nameFieldId = guessNameFieldId(registry);
-  const stageFieldMeta = stageFieldId ? registry.get(stageFieldId)?.field : undefined;
-
-  const summarize = (record: OnboardingSubmission) => {
-    const resolvedResponses = (record.responses ?? []).map((response) =>
-      resolveResponse(response, registry),
-    );
-    return buildSubmissionSummary(record, resolvedResponses, stageFieldMeta, stageFieldId, nameFieldId);
-  };
+export const previewOnboardingFormImport = async (
+  imported: ReturnType<typeof parseOnboardingFormSchema>,
+  programId: string = DEFAULT_PROGRAM_ID,
+): Promise<OnboardingFormImportPreview> => {
+  const current = await getOnboardingConfig(programId);
+  const form = normalizeConfig({
+    ...imported.form,
+    id: current.id,
+    version: current.version + 1,
+  });
 
   return {
-    summarize,
-    stageOptions: stageFieldMeta?.options ?? [],
-    stageFieldId,
+    form,
+    diff: diffOnboardingForms(current, form),
+    schemaVersion: imported.schemaVersion,
+    source: imported.source,
   };
 };
 
-export const summarizeOnboardingSubmission = (
-  form: OnboardingForm,
-  submission: OnboardingSubmission,
-): OnboardingSubmissionSummary => {
-  const context = createSubmissionSummaryContext(form);
-  return context.summarize(submission);
+type ProgramRow = {
+  id: string;
+  slug: string;
+  payload: Prisma.JsonValue;
+  createdAt: Date;
+  updatedAt: Date;
 };
 
-export const listOnboardingSubmissions = async (
-  form: OnboardingForm,
-  filters: OnboardingSubmissionFilters = {},
-) => {
-  const rows = await prisma.onboardingSubmissionRecord.findMany({
-    orderBy: { submittedAt: "desc" },
-  });
-  const summaryContext = createSubmissionSummaryContext(form);
-  const submissions: OnboardingSubmissionSummary[] = rows.map((row) =>
-    summaryContext.summarize(submissionRecordToSubmission(row)),
-  );
-
-  const stageOptions = summaryContext.stageOptions;
-  const stageFieldId = summaryContext.stageFieldId;
-
-  const minScoreFilter = filters.minScore;
-  const maxScoreFilter = filters.maxScore;
-  const queryFilter = filters.query?.trim().toLowerCase();
-  const statusFilter = filters.status;
-  const stageFilter = filters.stage?.trim();
+const slugifyProgram = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .substring(0, 60);
 
-  const filtered = submissions.filter((submission) => {
-    const awarded = submission.score?.awarded ?? 0;
+const normaliseReviewRubric = (rubric: Partial<OnboardingReviewRubric> | null | undefined) => {
+  if (!rubric || !Array.isArray(rubric.criteria)) {
+    return undefined;
+  }
+  const seen = new Set<string>();
+  const criteria = rubric.criteria
+    .map((criterion) => {
+      const weight = ensureNumber(criterion?.weight);
+      return {
+        id: criterion?.id?.trim() || randomUUID(),
+        label: criterion?.label?.trim() ?? "",
+        description: criterion?.description?.trim() || undefined,
+        weight: weight !== undefined && weight > 0 ? weight : 1,
+      };
+    })
+    .filter((criterion) => {
+      if (!criterion.label.length || seen.has(criterion.id)) return false;
+      seen.add(criterion.id);
+      return true;
+    });
+  const scaleMin = ensureNumber(rubric.scaleMin) ?? 1;
+  const scaleMax = ensureNumber(rubric.scaleMax) ?? 5;
+  const disagreementThreshold = ensureNumber(rubric.disagreementThreshold);
+  const outlierThreshold = ensureNumber(rubric.outlierThreshold);
+  return {
+    criteria,
+    scaleMin,
+    scaleMax,
+    aggregation:
+      rubric.aggregation && Object.hasOwn(PANEL_AGGREGATION_LABELS, rubric.aggregation)
+        ? (rubric.aggregation as OnboardingPanelAggregation)
+        : "mean",
+    disagreementThreshold:
+      disagreementThreshold !== undefined && disagreementThreshold > 0
+        ? disagreementThreshold
+        : Math.max((scaleMax - scaleMin) * 0.4, 1),
+    outlierThreshold:
+      outlierThreshold !== undefined && outlierThreshold > 0
+        ? outlierThreshold
+        : Math.max((scaleMax - scaleMin) * 0.3, 1),
+  } satisfies OnboardingReviewRubric;
+};
 
-    if (statusFilter && submission.status !== statusFilter) {
-      return false;
-    }
+const normaliseStringList = (values: unknown) =>
+  Array.isArray(values)
+    ? Array.from(
+        new Set(
+          values
+            .filter((value): value is string => typeof value === "string")
+            .map((value) => value.trim())
+            .filter((value) => value.length > 0),
+        ),
+      )
+    : [];
 
-    if (stageFilter && submission.companyStage?.value !== stageFilter) {
-      return false;
-    }
+const normaliseAssignmentSettings = (
+  settings: Partial<OnboardingAssignmentSettings> | null | undefined,
+): OnboardingAssignmentSettings | undefined => {
+  if (!settings) {
+    return undefined;
+  }
+  const reviewersPerSubmission = ensureNumber(settings.reviewersPerSubmission);
+  const dueDays = ensureNumber(settings.dueDays);
+  return {
+    strategy:
+      settings.strategy && Object.hasOwn(ASSIGNMENT_STRATEGY_LABELS, settings.strategy)
+        ? (settings.strategy as OnboardingAssignmentStrategy)
+        : "manual",
+    reviewersPerSubmission:
+      reviewersPerSubmission !== undefined && reviewersPerSubmission >= 1
+        ? Math.min(Math.round(reviewersPerSubmission), 10)
+        : 1,
+    dueDays: dueDays !== undefined && dueDays > 0 ? Math.round(dueDays) : 7,
+    expertise: (Array.isArray(settings.expertise) ? settings.expertise : [])
+      .filter((entry) => typeof entry?.reviewerId === "string" && entry.reviewerId.length > 0)
+      .map((entry) => ({
+        reviewerId: entry.reviewerId,
+        stages: normaliseStringList(entry.stages),
+        sectors: normaliseStringList(entry.sectors).map((sector) => sector.toLowerCase()),
+      }))
+      .filter((entry) => entry.stages.length > 0 || entry.sectors.length > 0),
+  };
+};
 
-    if (minScoreFilter !== undefined && awarded < minScoreFilter) {
-      return false;
-    }
+const normaliseLifecycle = (
+  lifecycle: Partial<OnboardingLifecycle> | null | undefined,
+): OnboardingLifecycle | undefined => {
+  if (!lifecycle || !Array.isArray(lifecycle.states)) {
+    return undefined;
+  }
+  const seen = new Set<string>();
+  const states = lifecycle.states
+    .map((state) => ({
+      id: state?.id?.trim() || slugifyProgram(state?.label ?? "").replace(/-/g, "_"),
+      label: state?.label?.trim() ?? "",
+      description: state?.description?.trim() || undefined,
+      terminal: state?.terminal === true,
+      next: normaliseStringList(state?.next),
+    }))
+    .filter((state) => {
+      if (!state.id.length || !state.label.length || seen.has(state.id)) return false;
+      seen.add(state.id);
+      return true;
+    })
+    .map((state) => ({
+      ...state,
+      next: state.terminal ? [] : state.next.filter((id) => id !== state.id && seen.has(id)),
+    }));
+  return {
+    states,
+    initialState:
+      lifecycle.initialState && seen.has(lifecycle.initialState) ? lifecycle.initialState : states[0]?.id ?? "",
+  };
+};
+
+const programRowToProgram = (row: ProgramRow): OnboardingProgram => {
+  const payload = (row.payload as Partial<OnboardingProgram> | null) ?? {};
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: payload.name?.trim() || row.slug,
+    summary: payload.summary?.trim() || undefined,
+    opensAt: normalizeIsoDate(payload.opensAt),
+    closesAt: normalizeIsoDate(payload.closesAt),
+    reviewerIds: Array.isArray(payload.reviewerIds)
+      ? payload.reviewerIds.filter((id): id is string => typeof id === "string" && id.length > 0)
+      : [],
+    chairId: typeof payload.chairId === "string" && payload.chairId.length ? payload.chairId : undefined,
+    rubric: normaliseReviewRubric(payload.rubric),
+    assignment: normaliseAssignmentSettings(payload.assignment),
+    lifecycle: normaliseLifecycle(payload.lifecycle),
+    archived: payload.archived === true,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+};
+
+const programToPayload = (program: OnboardingProgram) =>
+  ({
+    name: program.name,
+    summary: program.summary,
+    opensAt: program.opensAt,
+    closesAt: program.closesAt,
+    reviewerIds: program.reviewerIds,
+    chairId: program.chairId,
+    rubric: program.rubric,
+    assignment: program.assignment,
+    lifecycle: program.lifecycle,
+    archived: program.archived,
+  }) as unknown as Prisma.JsonObject;
+
+const applyProgramInput = (
+  program: OnboardingProgram,
+  input: OnboardingProgramInput,
+): OnboardingProgram => {
+  const next: OnboardingProgram = {
+    ...program,
+    slug: input.slug !== undefined ? slugifyProgram(input.slug) : program.slug,
+    name: input.name !== undefined ? input.name.trim() : program.name,
+    summary: input.summary !== undefined ? input.summary?.trim() || undefined : program.summary,
+    opensAt: input.opensAt !== undefined ? normalizeIsoDate(input.opensAt ?? undefined) : program.opensAt,
+    closesAt:
+      input.closesAt !== undefined ? normalizeIsoDate(input.closesAt ?? undefined) : program.closesAt,
+    reviewerIds: input.reviewerIds
+      ? Array.from(new Set(input.reviewerIds.map((id) => id.trim()).filter((id) => id.length > 0)))
+      : program.reviewerIds,
+    chairId: input.chairId !== undefined ? input.chairId?.trim() || undefined : program.chairId,
+    rubric: input.rubric !== undefined ? normaliseReviewRubric(input.rubric) : program.rubric,
+    assignment:
+      input.assignment !== undefined ? normaliseAssignmentSettings(input.assignment) : program.assignment,
+    lifecycle: input.lifecycle !== undefined ? normaliseLifecycle(input.lifecycle) : program.lifecycle,
+    archived: input.archived ?? program.archived,
+  };
+
+  if (!next.name.length) {
+    throw new Error("Program name is required");
+  }
+  if (!next.slug.length) {
+    throw new Error("Program slug is required");
+  }
+  if (next.opensAt && next.closesAt && next.closesAt < next.opensAt) {
+    throw new Error("Program closes before it opens");
+  }
+  if (next.chairId && next.reviewerIds.length && !next.reviewerIds.includes(next.chairId)) {
+    throw new Error("Panel chair must be in the reviewer pool");
+  }
+  if (next.rubric && !next.rubric.criteria.length) {
+    throw new Error("Rubric needs at least one criterion");
+  }
+  if (next.rubric && next.rubric.scaleMax <= next.rubric.scaleMin) {
+    throw new Error("Rubric scale maximum must exceed the minimum");
+  }
+  if (next.lifecycle && !next.lifecycle.states.length) {
+    throw new Error("Lifecycle needs at least one state");
+  }
+  return next;
+};
+
+// Programs are looked up by id before slug, so a slug may not name another program's id either. The default
+// program's id and slug stay reserved even before that program has been created.
+const ensureProgramSlugAvailable = async (slug: string, programId?: string) => {
+  if ((slug === DEFAULT_PROGRAM_ID || slug === DEFAULT_PROGRAM_SLUG) && programId !== DEFAULT_PROGRAM_ID) {
+    throw new Error("Program slug already in use");
+  }
+  const existing = await prisma.onboardingProgramRecord.findFirst({
+    where: { OR: [{ slug }, { id: slug }], NOT: programId ? { id: programId } : undefined },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new Error("Program slug already in use");
+  }
+};
+
+const ensureDefaultProgram = async (): Promise<OnboardingProgram> => {
+  const row = await prisma.onboardingProgramRecord.upsert({
+    where: { id: DEFAULT_PROGRAM_ID },
+    update: {},
+    create: {
+      id: DEFAULT_PROGRAM_ID,
+      slug: DEFAULT_PROGRAM_SLUG,
+      payload: { name: "Founders Intake", reviewerIds: [], archived: false },
+    },
+  });
+  return programRowToProgram(row);
+};
+
+export const listOnboardingPrograms = async (
+  options: { includeArchived?: boolean } = {},
+): Promise<OnboardingProgram[]> => {
+  await ensureDefaultProgram();
+  const rows = await prisma.onboardingProgramRecord.findMany({
+    orderBy: { createdAt: "asc" },
+  });
+  return rows
+    .map(programRowToProgram)
+    .filter((program) => options.includeArchived || !program.archived);
+};
+
+export const getOnboardingProgram = async (idOrSlug: string): Promise<OnboardingProgram | null> => {
+  const key = idOrSlug.trim();
+  if (key === DEFAULT_PROGRAM_ID || key === DEFAULT_PROGRAM_SLUG) {
+    await ensureDefaultProgram();
+  }
+  const row =
+    (await prisma.onboardingProgramRecord.findUnique({ where: { id: key } })) ??
+    (await prisma.onboardingProgramRecord.findUnique({ where: { slug: key } }));
+  return row ? programRowToProgram(row) : null;
+};
+
+export const createOnboardingProgram = async (
+  input: OnboardingProgramInput,
+  actor?: string,
+): Promise<OnboardingProgram> => {
+  const now = new Date().toISOString();
+  const program = applyProgramInput(
+    {
+      id: randomUUID(),
+      slug: "",
+      name: "",
+      reviewerIds: [],
+      archived: false,
+      createdAt: now,
+      updatedAt: now,
+    },
+    { ...input, slug: input.slug?.trim() || input.name || "" },
+  );
+  await ensureProgramSlugAvailable(program.slug);
+
+  const row = await prisma.onboardingProgramRecord.create({
+    data: {
+      id: program.id,
+      slug: program.slug,
+      payload: programToPayload(program),
+    },
+  });
+
+  await persistOnboardingConfig(
+    programConfigId(program.id),
+    {
+      ...buildDefaultForm(),
+      id: program.slug,
+      title: program.name,
+      summary: program.summary ?? "",
+    },
+    { createdBy: actor },
+  );
+
+  return programRowToProgram(row);
+};
+
+export const updateOnboardingProgram = async (
+  programId: string,
+  input: OnboardingProgramInput,
+): Promise<OnboardingProgram> => {
+  const current = await getOnboardingProgram(programId);
+  if (!current) {
+    throw new Error("Program not found");
+  }
+
+  const next = applyProgramInput(current, input);
+  if (next.slug !== current.slug) {
+    await ensureProgramSlugAvailable(next.slug, current.id);
+  }
+  if (current.id === DEFAULT_PROGRAM_ID && next.archived) {
+    throw new Error("The default program cannot be archived");
+  }
+
+  const row = await prisma.onboardingProgramRecord.update({
+    where: { id: current.id },
+    data: {
+      slug: next.slug,
+      payload: programToPayload(next),
+    },
+  });
+
+  return programRowToProgram(row);
+};
+
+export const getSubmissionProgram = async (submissionId: string): Promise<OnboardingProgram | null> => {
+  const row = await prisma.onboardingSubmissionRecord.findUnique({
+    where: { id: submissionId },
+    select: { programId: true },
+  });
+  if (!row) {
+    return null;
+  }
+  return getOnboardingProgram(row.programId ?? DEFAULT_PROGRAM_ID);
+};
+
+const generateStatusToken = () => randomBytes(24).toString("base64url");
+
+// Attachment hashes drive duplicate detection, so they are read from the object metadata recorded at upload
+// time rather than taken from the request.
+const withStoredAttachmentHashes = async (
+  responses: OnboardingFieldResponse[],
+): Promise<OnboardingFieldResponse[]> =>
+  Promise.all(
+    responses.map(async (response) => ({
+      ...response,
+      attachments: response.attachments
+        ? await Promise.all(
+            response.attachments.map(async (attachment) => ({
+              ...attachment,
+              sha256: (await headUploadedObject(attachment.key))?.Metadata?.sha256,
+            })),
+          )
+        : undefined,
+      entries: response.entries
+        ? await Promise.all(
+            response.entries.map(async (entry) => ({
+              ...entry,
+              responses: await withStoredAttachmentHashes(entry.responses),
+            })),
+          )
+        : undefined,
+    })),
+  );
+
+// With maxSubmissions set, the count and the insert run under a per-program lock so concurrent submits
+// cannot both take the last place.
+export const saveOnboardingSubmission = async (
+  submission: Omit<OnboardingSubmission, "id" | "submittedAt">,
+  options: { maxSubmissions?: number } = {},
+): Promise<OnboardingSubmission> => {
+  const id = randomUUID();
+  const submittedAt = new Date().toISOString();
+  const autoScore = submission.score
+    ? {
+        ...submission.score,
+        source: submission.score.source ?? "auto",
+        updatedAt: submittedAt,
+        updatedBy: submission.userId,
+      }
+    : undefined;
+
+  const record: OnboardingSubmission = {
+    id,
+    submittedAt,
+    ...submission,
+    responses: await withStoredAttachmentHashes(submission.responses),
+    score: autoScore,
+    scoreAuto: autoScore,
+    scoreManual: undefined,
+  };
+  const statusToken = generateStatusToken();
+  const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(record), record);
+
+  const programId = submission.programId ?? DEFAULT_PROGRAM_ID;
+
+  await prisma.$transaction(async (tx) => {
+    if (options.maxSubmissions !== undefined) {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`onboarding-submissions:${programId}`}))`;
+      const count = await tx.onboardingSubmissionRecord.count({ where: programSubmissionWhere(programId) });
+      if (count >= options.maxSubmissions) {
+        throw new Error("Application limit reached");
+      }
+    }
+    await tx.onboardingSubmissionRecord.create({
+      data: {
+        id,
+        userId: submission.userId,
+        programId,
+        formId: submission.formId,
+        submittedAt: new Date(submittedAt),
+        statusToken,
+        payload: record as unknown as Prisma.JsonObject,
+        createdAt: new Date(submittedAt),
+        ...submissionIndexColumns(summary),
+      },
+    });
+  });
+
+  return { ...record, statusToken };
+};
+
+export const countProgramSubmissions = async (programId: string): Promise<number> =>
+  prisma.onboardingSubmissionRecord.count({ where: programSubmissionWhere(programId) });
+
+export const getProgramApplicationWindow = async (
+  program: OnboardingProgram,
+  form?: OnboardingForm,
+): Promise<OnboardingApplicationWindow & { state: OnboardingWindowState; remaining?: number }> => {
+  const applicationWindow = resolveApplicationWindow(
+    program,
+    form ?? (await getOnboardingConfig(program.id)),
+  );
+  const submissionCount =
+    applicationWindow.maxSubmissions !== undefined ? await countProgramSubmissions(program.id) : 0;
+  return {
+    ...applicationWindow,
+    state: getApplicationWindowState(applicationWindow, submissionCount),
+    remaining:
+      applicationWindow.maxSubmissions !== undefined
+        ? Math.max(0, applicationWindow.maxSubmissions - submissionCount)
+        : undefined,
+  };
+};
+
+type WindowExtensionRow = {
+  id: string;
+  programId: string;
+  token: string;
+  payload: Prisma.JsonValue;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+};
+
+const windowExtensionRowToExtension = (row: WindowExtensionRow): OnboardingWindowExtension => {
+  const payload = (row.payload as Partial<OnboardingWindowExtension> | null) ?? {};
+  return {
+    id: row.id,
+    programId: row.programId,
+    token: row.token,
+    applicant: payload.applicant ?? "",
+    note: payload.note,
+    expiresAt: row.expiresAt.toISOString(),
+    createdBy: payload.createdBy,
+    createdAt: row.createdAt.toISOString(),
+    usedAt: row.usedAt?.toISOString(),
+    submissionId: payload.submissionId,
+  };
+};
+
+export const listOnboardingWindowExtensions = async (
+  programId: string,
+): Promise<OnboardingWindowExtension[]> => {
+  const rows = await prisma.onboardingWindowExtensionRecord.findMany({
+    where: { programId },
+    orderBy: { createdAt: "desc" },
+  });
+  return rows.map(windowExtensionRowToExtension);
+};
+
+export const createOnboardingWindowExtension = async (
+  programId: string,
+  input: OnboardingWindowExtensionInput,
+  actor?: string,
+): Promise<OnboardingWindowExtension> => {
+  const applicant = input.applicant?.trim().toLowerCase();
+  if (!applicant) {
+    throw new Error("Applicant is required");
+  }
+  if (!EMAIL_PATTERN.test(applicant)) {
+    throw new Error("Applicant email is invalid");
+  }
+  const expiresAt = normalizeIsoDate(input.expiresAt);
+  if (!expiresAt) {
+    throw new Error("Extension expiry is required");
+  }
+  if (new Date(expiresAt).getTime() <= Date.now()) {
+    throw new Error("Extension expiry must be in the future");
+  }
+
+  const row = await prisma.onboardingWindowExtensionRecord.create({
+    data: {
+      programId,
+      token: randomBytes(18).toString("base64url"),
+      expiresAt: new Date(expiresAt),
+      payload: {
+        applicant,
+        note: input.note?.trim() || undefined,
+        createdBy: actor,
+      } as unknown as Prisma.JsonObject,
+    },
+  });
+  return windowExtensionRowToExtension(row);
+};
+
+export const revokeOnboardingWindowExtension = async (programId: string, extensionId: string) => {
+  const row = await prisma.onboardingWindowExtensionRecord.findUnique({ where: { id: extensionId } });
+  if (!row || row.programId !== programId) {
+    throw new Error("Extension not found");
+  }
+  if (row.usedAt) {
+    throw new Error("Extension already used");
+  }
+  await prisma.onboardingWindowExtensionRecord.delete({ where: { id: extensionId } });
+};
+
+export const findUsableWindowExtension = async (
+  programId: string,
+  token: string,
+): Promise<OnboardingWindowExtension | null> => {
+  const row = await prisma.onboardingWindowExtensionRecord.findUnique({ where: { token } });
+  if (!row || row.programId !== programId || row.usedAt || row.expiresAt.getTime() < Date.now()) {
+    return null;
+  }
+  return windowExtensionRowToExtension(row);
+};
+
+// The link only works for the applicant it was issued to: their email must be the signed-in account's or
+// one of the emails given in the submission.
+export const windowExtensionMatchesApplicant = (
+  extension: OnboardingWindowExtension,
+  responses: OnboardingFieldResponse[],
+  accountEmail?: string,
+) => {
+  const applicant = extension.applicant.trim().toLowerCase();
+  const emails = [
+    ...(accountEmail ? [accountEmail] : []),
+    ...responses.flatMap((response) => [
+      ...responseToStrings(response.value),
+      ...(response.entries ?? []).flatMap((entry) => entry.responses.flatMap((entryResponse) => responseToStrings(entryResponse.value))),
+    ]),
+  ].map((value) => value.trim().toLowerCase());
+  return applicant.length > 0 && emails.includes(applicant);
+};
+
+// Claimed before the submission is saved, conditional on the link still being unused, so one link admits one
+// submission however many requests race for it.
+export const claimOnboardingWindowExtension = async (extensionId: string) => {
+  const claimed = await prisma.onboardingWindowExtensionRecord.updateMany({
+    where: { id: extensionId, usedAt: null, expiresAt: { gte: new Date() } },
+    data: { usedAt: new Date() },
+  });
+  if (!claimed.count) {
+    throw new Error("Extension link has already been used");
+  }
+};
+
+export const releaseOnboardingWindowExtension = async (extensionId: string) => {
+  await prisma.onboardingWindowExtensionRecord.update({ where: { id: extensionId }, data: { usedAt: null } });
+};
+
+export const redeemOnboardingWindowExtension = async (extensionId: string, submissionId: string) => {
+  const row = await prisma.onboardingWindowExtensionRecord.findUnique({ where: { id: extensionId } });
+  if (!row) {
+    return;
+  }
+  await prisma.onboardingWindowExtensionRecord.update({
+    where: { id: row.id },
+    data: {
+      usedAt: row.usedAt ?? new Date(),
+      payload: {
+        ...((row.payload as Prisma.JsonObject | null) ?? {}),
+        submissionId,
+      },
+    },
+  });
+};
+
+type DraftRow = {
+  id: string;
+  programId: string;
+  resumeToken: string;
+  payload: Prisma.JsonValue;
+  submittedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+const draftRowToDraft = (row: DraftRow): OnboardingDraft => {
+  const payload = (row.payload as Partial<OnboardingDraft> | null) ?? {};
+  return {
+    id: row.id,
+    programId: row.programId,
+    formId: payload.formId ?? "",
+    formVersion: ensureNumber(payload.formVersion),
+    applicantId: payload.applicantId ?? row.id,
+    resumeToken: row.resumeToken,
+    responses: (payload.responses ?? []) as OnboardingFieldResponse[],
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    submittedAt: row.submittedAt?.toISOString(),
+    submissionId: payload.submissionId,
+  };
+};
+
+export const saveOnboardingDraft = async (
+  programId: string,
+  input: OnboardingDraftInput,
+  resumeToken?: string,
+): Promise<OnboardingDraft> => {
+  const payload = {
+    formId: input.formId,
+    formVersion: input.formVersion,
+    applicantId: input.applicantId,
+    responses: input.responses.map(enrichResponse),
+  } as unknown as Prisma.JsonObject;
+
+  if (resumeToken) {
+    const existing = await prisma.onboardingDraftRecord.findUnique({ where: { resumeToken } });
+    if (!existing || existing.programId !== programId) {
+      throw new Error("Draft not found");
+    }
+    if (existing.submittedAt) {
+      throw new Error("Draft already submitted");
+    }
+    const row = await prisma.onboardingDraftRecord.update({
+      where: { id: existing.id },
+      data: { payload },
+    });
+    return draftRowToDraft(row);
+  }
+
+  const row = await prisma.onboardingDraftRecord.create({
+    data: {
+      programId,
+      resumeToken: randomBytes(24).toString("base64url"),
+      payload,
+    },
+  });
+  return draftRowToDraft(row);
+};
+
+export const getOnboardingDraft = async (resumeToken: string): Promise<OnboardingDraft | null> => {
+  const row = await prisma.onboardingDraftRecord.findUnique({ where: { resumeToken } });
+  return row ? draftRowToDraft(row) : null;
+};
+
+export const markOnboardingDraftSubmitted = async (resumeToken: string, submissionId: string) => {
+  const row = await prisma.onboardingDraftRecord.findUnique({ where: { resumeToken } });
+  if (!row || row.submittedAt) {
+    return;
+  }
+  await prisma.onboardingDraftRecord.update({
+    where: { id: row.id },
+    data: {
+      submittedAt: new Date(),
+      payload: {
+        ...((row.payload as Prisma.JsonObject | null) ?? {}),
+        submissionId,
+      },
+    },
+  });
+};
+
+export const listAbandonedOnboardingDrafts = async (
+  form: OnboardingForm,
+  programId: string,
+  idleHours = 24,
+): Promise<{ drafts: OnboardingAbandonedDraft[]; dropOff: OnboardingDraftDropOff[] }> => {
+  const cutoff = new Date(Date.now() - idleHours * 60 * 60 * 1000);
+  const rows = await prisma.onboardingDraftRecord.findMany({
+    where: { programId, submittedAt: null, updatedAt: { lt: cutoff } },
+    orderBy: { updatedAt: "desc" },
+  });
+
+  const nameFieldId = guessNameFieldId(buildFieldRegistry(form));
+  const fieldCount = countFormFields(form);
+  const reached = new Map<string, number>();
+  const stopped = new Map<string, number>();
+
+  const drafts = rows.map((row) => {
+    const draft = draftRowToDraft(row);
+    const answered = new Set(
+      draft.responses
+        .filter(
+          (response) =>
+            responseToStrings(response.value).length > 0 ||
+            (response.attachments?.length ?? 0) > 0 ||
+            (response.entries?.length ?? 0) > 0,
+        )
+        .map((response) => response.fieldId),
+    );
+
+    let lastIndex = 0;
+    form.sections.forEach((section, index) => {
+      if (section.fields.some((field) => answered.has(field.id))) {
+        lastIndex = index;
+      }
+    });
+    const lastSection = form.sections[lastIndex];
+    form.sections.slice(0, lastIndex + 1).forEach((section) => {
+      reached.set(section.id, (reached.get(section.id) ?? 0) + 1);
+    });
+    if (lastSection) {
+      stopped.set(lastSection.id, (stopped.get(lastSection.id) ?? 0) + 1);
+    }
+
+    const nameResponse = draft.responses.find((response) => response.fieldId === nameFieldId);
+
+    return {
+      id: draft.id,
+      formVersion: draft.formVersion,
+      companyName: responseToStrings(nameResponse?.value ?? null)[0],
+      lastSectionId: lastSection?.id,
+      lastSectionTitle: lastSection?.title,
+      answeredCount: answered.size,
+      fieldCount,
+      createdAt: draft.createdAt,
+      updatedAt: draft.updatedAt,
+    };
+  });
+
+  return {
+    drafts,
+    dropOff: form.sections.map((section) => ({
+      sectionId: section.id,
+      title: section.title,
+      reached: reached.get(section.id) ?? 0,
+      stoppedHere: stopped.get(section.id) ?? 0,
+    })),
+  };
+};
+
+const submissionRecordToSubmission = (row: {
+  id: string;
+  userId: string;
+  programId?: string | null;
+  formId: string;
+  submittedAt: Date;
+  statusToken?: string | null;
+  payload: Prisma.JsonValue | null;
+}): OnboardingSubmission => {
+  const payload = (row.payload as OnboardingSubmission | null) ?? ({} as OnboardingSubmission);
+  const normalizeScore = (
+    score: OnboardingSubmissionScore | undefined,
+    fallback: "auto" | "manual",
+  ): OnboardingSubmissionScore | undefined => {
+    if (!score) {
+      return undefined;
+    }
+    if (score.source) {
+      return { ...score };
+    }
+    return { ...score, source: fallback };
+  };
+
+  const storedScore = payload.score as OnboardingSubmissionScore | undefined;
+  const storedAuto = normalizeScore(
+    (payload.scoreAuto as OnboardingSubmissionScore | undefined) ?? undefined,
+    "auto",
+  );
+  const storedManual = normalizeScore(
+    (payload.scoreManual as OnboardingSubmissionScore | undefined) ?? undefined,
+    "manual",
+  );
+
+  let scoreAuto = storedAuto;
+  let scoreManual = storedManual;
+  let finalScore = storedScore ? normalizeScore(storedScore, storedManual ? "manual" : "auto") : undefined;
+
+  if (!scoreAuto && finalScore && finalScore.source !== "manual") {
+    scoreAuto = { ...finalScore };
+  }
+  if (!scoreManual && finalScore && finalScore.source === "manual") {
+    scoreManual = { ...finalScore };
+  }
+  if (!finalScore) {
+    finalScore = scoreManual ?? scoreAuto;
+  }
+
+  return {
+    id: payload.id ?? row.id,
+    userId: payload.userId ?? row.userId,
+    programId: payload.programId ?? row.programId ?? DEFAULT_PROGRAM_ID,
+    formId: payload.formId ?? row.formId,
+    formVersion: ensureNumber(payload.formVersion),
+    locale: payload.locale,
+    submittedAt: payload.submittedAt ?? row.submittedAt.toISOString(),
+    responses: (payload.responses ?? []) as OnboardingFieldResponse[],
+    score: finalScore,
+    scoreAuto,
+    scoreManual,
+    scorecards: Array.isArray(payload.scorecards) ? payload.scorecards : undefined,
+    panelDecision: payload.panelDecision,
+    assignments: Array.isArray(payload.assignments) ? payload.assignments : undefined,
+    conflicts: Array.isArray(payload.conflicts) ? payload.conflicts : undefined,
+    duplicateResolutions: Array.isArray(payload.duplicateResolutions) ? payload.duplicateResolutions : undefined,
+    mergedInto: payload.mergedInto || undefined,
+    lifecycleState: payload.lifecycleState || undefined,
+    lifecycleHistory: Array.isArray(payload.lifecycleHistory) ? payload.lifecycleHistory : undefined,
+    interviews: Array.isArray(payload.interviews) ? payload.interviews : undefined,
+    applicantFeedback: Array.isArray(payload.applicantFeedback) ? payload.applicantFeedback : undefined,
+    documentRequests: Array.isArray(payload.documentRequests) ? payload.documentRequests : undefined,
+    comments: Array.isArray(payload.comments) ? payload.comments : undefined,
+    admission: payload.admission,
+    statusToken: row.statusToken ?? undefined,
+  };
+};
+
+const ensureNumber = (value: unknown): number | undefined => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Number.parseFloat(value);
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+  return undefined;
+};
+
+const normaliseOperator = (operator: string): OnboardingScoreOperator =>
+  SCORE_OPERATORS.includes(operator as OnboardingScoreOperator)
+    ? (operator as OnboardingScoreOperator)
+    : "equals";
+
+const normaliseScoringMatch = (match: unknown): OnboardingScoringMatch =>
+  match === "any" || match === "weighted" ? match : "all";
+
+const normaliseCondition = (condition: OnboardingScoringCondition): OnboardingScoringCondition => {
+  const weight = ensureNumber(condition.weight);
+  const subFieldId = condition.subFieldId?.trim() || undefined;
+  return {
+    id: condition.id || randomUUID(),
+    fieldId: condition.fieldId?.trim() ?? "",
+    operator: normaliseOperator(condition.operator),
+    target: condition.target?.toString().trim() ?? "",
+    subFieldId,
+    entryMatch: subFieldId ? (condition.entryMatch === "all" ? "all" : "any") : undefined,
+    weight: weight !== undefined && weight > 0 ? weight : undefined,
+  };
+};
+
+const isConditionComplete = (condition: OnboardingScoringCondition) =>
+  Boolean(condition.fieldId) && (!scoreOperatorNeedsTarget(condition.operator) || condition.target.length > 0);
+
+const normaliseRule = (rule: OnboardingScoringRule): OnboardingScoringRule => {
+  const conditions = (rule.conditions ?? []).map(normaliseCondition).filter(isConditionComplete);
+  const base = {
+    ...rule,
+    id: rule.id || randomUUID(),
+    label: rule.label?.trim() || "Scoring rule",
+    description: rule.description?.trim() || undefined,
+    points: ensureNumber(rule.points) ?? 0,
+  };
+
+  if (conditions.length) {
+    return {
+      ...base,
+      fieldId: "",
+      operator: "equals",
+      target: "",
+      subFieldId: undefined,
+      entryMatch: undefined,
+      match: normaliseScoringMatch(rule.match),
+      conditions: conditions.map((condition) =>
+        rule.match === "weighted" ? condition : { ...condition, weight: undefined },
+      ),
+    };
+  }
+
+  const { id: _id, weight: _weight, ...condition } = normaliseCondition(rule);
+  return { ...base, ...condition, match: undefined, conditions: undefined };
+};
+
+const isRuleComplete = (rule: OnboardingScoringRule) =>
+  rule.points !== 0 && (Boolean(rule.conditions?.length) || isConditionComplete(rule));
+
+// Penalties (negative points) never raise the total that can be earned.
+const sumPositivePoints = (rules: Array<{ points: number }>) =>
+  rules.reduce((sum, rule) => (rule.points > 0 ? sum + rule.points : sum), 0);
+
+const normaliseScoring = (
+  scoring?: OnboardingScoringConfig,
+): OnboardingScoringConfig => {
+  const rules = (scoring?.rules ?? []).map(normaliseRule).filter(isRuleComplete);
+  const total = sumPositivePoints(rules);
+
+  const autoRejectBelow = ensureNumber(scoring?.autoRejectBelow);
+  const autoAdvanceAt = ensureNumber(scoring?.autoAdvanceAt);
+
+  return {
+    rules,
+    autoRejectBelow:
+      autoRejectBelow !== undefined && autoRejectBelow >= 0 ? autoRejectBelow : undefined,
+    autoAdvanceAt:
+      autoAdvanceAt !== undefined && autoAdvanceAt >= 0 ? autoAdvanceAt : undefined,
+    totalPoints: total,
+  };
+};
+
+const normaliseVisibilityRule = (
+  rule: OnboardingVisibilityRule | undefined,
+  knownFieldIds?: Set<string>,
+  ownFieldId?: string,
+): OnboardingVisibilityRule | undefined => {
+  if (!rule || !Array.isArray(rule.conditions)) {
+    return undefined;
+  }
+
+  const conditions = rule.conditions
+    .map((condition) => ({
+      id: condition.id || randomUUID(),
+      fieldId: condition.fieldId?.trim() ?? "",
+      operator: VISIBILITY_OPERATORS.includes(condition.operator) ? condition.operator : "equals",
+      values: (Array.isArray(condition.values) ? condition.values : [condition.values])
+        .map((value) => (value ?? "").toString().trim())
+        .filter((value) => value.length > 0),
+    }))
+    .filter(
+      (condition) =>
+        condition.fieldId.length > 0 &&
+        condition.fieldId !== ownFieldId &&
+        condition.values.length > 0 &&
+        (!knownFieldIds || knownFieldIds.has(condition.fieldId)),
+    );
+
+  if (!conditions.length) {
+    return undefined;
+  }
+
+  return {
+    match: rule.match === "any" ? "any" : "all",
+    conditions,
+  };
+};
+
+const normaliseFieldBounds = (field: OnboardingField) => {
+  if (field.type !== "number" && field.type !== "currency") {
+    return { min: undefined, max: undefined };
+  }
+  const min = ensureNumber(field.min);
+  const max = ensureNumber(field.max);
+  if (min !== undefined && max !== undefined && min > max) {
+    return { min: max, max: min };
+  }
+  return { min, max };
+};
+
+const normaliseGroupSettings = (field: OnboardingField) => {
+  if (field.type !== "group") {
+    return { fields: undefined, minEntries: undefined, maxEntries: undefined, entryLabel: undefined };
+  }
+  const min = ensureNumber(field.minEntries);
+  const max = ensureNumber(field.maxEntries);
+  const minEntries = min !== undefined && min >= 0 ? Math.floor(min) : undefined;
+  const maxEntries =
+    max !== undefined && max >= 1 ? Math.max(Math.floor(max), minEntries ?? 0) : undefined;
+  return {
+    fields: (field.fields ?? [])
+      .filter((subField) => subField.type !== "group")
+      .map((subField) => ({ ...normalizeField(subField), visibleWhen: undefined })),
+    minEntries,
+    maxEntries,
+    entryLabel: field.entryLabel?.trim() || undefined,
+  };
+};
+
+const compactTranslationText = (
+  values: Record<string, unknown> | undefined,
+  normaliseKey: (key: string) => string | undefined,
+): Record<string, string> | undefined => {
+  const entries = Object.entries(values ?? {})
+    .map(([key, value]) => [normaliseKey(key), typeof value === "string" ? value.trim() : ""] as const)
+    .filter((entry): entry is readonly [string, string] => Boolean(entry[0] && entry[1]));
+  return entries.length ? Object.fromEntries(entries) : undefined;
+};
+
+const normaliseTranslations = <T extends Record<string, string | undefined>>(
+  translations: Record<string, T> | undefined,
+): Record<string, T> | undefined => {
+  const entries = Object.entries(translations ?? {})
+    .map(([locale, translation]) => [
+      normalizeLocaleTag(locale),
+      compactTranslationText(translation, (key) => key) as T | undefined,
+    ] as const)
+    .filter((entry): entry is readonly [string, T] => Boolean(entry[0] && entry[1]));
+  return entries.length ? Object.fromEntries(entries) : undefined;
+};
+
+const normaliseLocales = (form: OnboardingForm) => {
+  const defaultLocale = normalizeLocaleTag(form.defaultLocale) ?? DEFAULT_FORM_LOCALE;
+  const locales = Array.from(
+    new Set(
+      (form.locales ?? [])
+        .map((locale) => normalizeLocaleTag(locale))
+        .filter((locale): locale is string => Boolean(locale) && locale !== defaultLocale),
+    ),
+  );
+  return { defaultLocale, locales: locales.length ? locales : undefined };
+};
+
+export const normalizeField = (field: OnboardingField): OnboardingField => ({
+  ...field,
+  description: field.description?.trim() || undefined,
+  placeholder: field.placeholder?.trim() || undefined,
+  options: fieldTypeHasOptions(field.type)
+    ? field.options?.map((option: OnboardingFieldOption) => ({
+        ...option,
+        label: option.label.trim(),
+        value: option.value.trim(),
+        translations: compactTranslationText(option.translations, normalizeLocaleTag),
+      })) ?? []
+    : undefined,
+  ...normaliseFieldBounds(field),
+  currency:
+    field.type === "currency" ? field.currency?.trim().toUpperCase() || "USD" : undefined,
+  multiple: field.type === "file" ? field.multiple : undefined,
+  ...normaliseGroupSettings(field),
+  visibleWhen: normaliseVisibilityRule(field.visibleWhen, undefined, field.id),
+  translations: normaliseTranslations(field.translations),
+});
+
+const normaliseMaxSubmissions = (value: unknown): number | undefined => {
+  const parsed = ensureNumber(value);
+  return parsed !== undefined && parsed >= 1 ? Math.floor(parsed) : undefined;
+};
+
+export const normalizeConfig = (form: OnboardingForm): OnboardingForm => {
+  const knownFieldIds = new Set(
+    form.sections.flatMap((section) => section.fields.map((field) => field.id)),
+  );
+
+  return {
+    ...form,
+    id: form.id?.trim() || "founders-intake",
+    version: Number.isFinite(form.version) ? form.version : 1,
+    title: form.title?.trim() || "Founders Intake",
+    summary: form.summary?.trim() || "",
+    updatedAt: form.updatedAt ?? new Date().toISOString(),
+    sections: form.sections.map((section) => ({
+      ...section,
+      title: section.title.trim(),
+      description: section.description?.trim() || undefined,
+      visibleWhen: normaliseVisibilityRule(section.visibleWhen, knownFieldIds),
+      translations: normaliseTranslations(section.translations),
+      fields: section.fields.map((field) => {
+        const normalized = normalizeField(field);
+        return {
+          ...normalized,
+          visibleWhen: normaliseVisibilityRule(normalized.visibleWhen, knownFieldIds, field.id),
+        };
+      }),
+    })),
+    scoring: normaliseScoring(form.scoring),
+    opensAt: normalizeIsoDate(form.opensAt),
+    closesAt: normalizeIsoDate(form.closesAt),
+    maxSubmissions: normaliseMaxSubmissions(form.maxSubmissions),
+    ...normaliseLocales(form),
+    translations: normaliseTranslations(form.translations),
+  };
+};
+
+export const pruneHiddenResponses = (
+  form: OnboardingForm,
+  responses: OnboardingFieldResponse[],
+): OnboardingFieldResponse[] => {
+  const { hiddenFieldIds } = resolveFormVisibility(form, responsesToValues(responses));
+  return responses.filter((response) => !hiddenFieldIds.has(response.fieldId));
+};
+
+const toValueArray = (value: string | string[] | null): string[] => {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map((entry) => (entry ?? "").toString().trim())
+      .filter((entry) => entry.length > 0);
+  }
+  const asString = value.toString().trim();
+  return asString.length ? [asString] : [];
+};
+
+const parseNumeric = (value: string): number | undefined => {
+  const cleaned = value.replace(/[^0-9.+-]/g, "");
+  if (!cleaned.length) {
+    return undefined;
+  }
+  const parsed = Number.parseFloat(cleaned);
+  if (Number.isFinite(parsed)) {
+    return parsed;
+  }
+  return undefined;
+};
+
+type ConditionOutcome = { matched: boolean; skipped?: boolean; reason?: string };
+
+const roundPoints = (value: number) => Number(value.toFixed(2));
+
+const evaluateConditionMatch = (
+  condition: OnboardingScoringCondition,
+  response?: OnboardingFieldResponse,
+  field?: OnboardingField,
+): ConditionOutcome => {
+  const values = toValueArray(response?.value ?? null);
+  const attachmentCount = response?.attachments?.length ?? 0;
+
+  switch (condition.operator) {
+    case "is_empty":
+      return values.length === 0 && attachmentCount === 0
+        ? { matched: true }
+        : { matched: false, reason: "Response provided" };
+    case "exists":
+      return values.length > 0 || attachmentCount > 0
+        ? { matched: true }
+        : { matched: false, reason: "No value provided" };
+    case "attachments_gte": {
+      const targetValue = ensureNumber(condition.target);
+      if (targetValue === undefined) {
+        return { matched: false, reason: "Rule threshold invalid" };
+      }
+      return attachmentCount >= targetValue
+        ? { matched: true }
+        : { matched: false, reason: `${attachmentCount} attachment${attachmentCount === 1 ? "" : "s"}, needs ${targetValue}` };
+    }
+    default:
+      break;
+  }
+
+  if (!response) {
+    return { matched: false, reason: "No response provided" };
+  }
+  if (values.length === 0) {
+    return { matched: false, reason: "No value provided" };
+  }
+
+  const target = condition.target.toLowerCase();
+  const toNumber = field && fieldTypeIsNumeric(field.type) ? parseFieldNumber : parseNumeric;
+  const numbers = values.map(toNumber).filter((item): item is number => item !== undefined);
+
+  switch (condition.operator) {
+    case "contains": {
+      const matched = values.some((value) => value.toLowerCase().includes(target));
+      return matched
+        ? { matched: true }
+        : { matched: false, reason: `Expected mention of “${condition.target}”` };
+    }
+    case "not_equals": {
+      const matched = values.every((value) => value.toLowerCase() !== target);
+      return matched ? { matched: true } : { matched: false, reason: `Was “${condition.target}”` };
+    }
+    case "in": {
+      const options = parseScoreTargetList(condition.target);
+      if (!options.length) {
+        return { matched: false, reason: "Rule values invalid" };
+      }
+      const lowered = options.map((option) => option.toLowerCase());
+      return values.some((value) => lowered.includes(value.toLowerCase()))
+        ? { matched: true }
+        : { matched: false, reason: `Expected one of ${options.join(", ")}` };
+    }
+    case "gte":
+    case "lte": {
+      const targetValue = ensureNumber(condition.target);
+      if (targetValue === undefined) {
+        return { matched: false, reason: "Rule threshold invalid" };
+      }
+      if (!numbers.length) {
+        return { matched: false, reason: "Response is not numeric" };
+      }
+      if (condition.operator === "gte") {
+        return numbers.some((value) => value >= targetValue)
+          ? { matched: true }
+          : { matched: false, reason: `Below ${targetValue}` };
+      }
+      return numbers.some((value) => value <= targetValue)
+        ? { matched: true }
+        : { matched: false, reason: `Above ${targetValue}` };
+    }
+    case "between": {
+      const range = parseScoreRange(condition.target);
+      if (!range) {
+        return { matched: false, reason: "Rule range invalid" };
+      }
+      if (!numbers.length) {
+        return { matched: false, reason: "Response is not numeric" };
+      }
+      return numbers.some((value) => value >= range.min && value <= range.max)
+        ? { matched: true }
+        : { matched: false, reason: `Outside ${range.min}–${range.max}` };
+    }
+    case "regex": {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(condition.target, "i");
+      } catch {
+        return { matched: false, reason: "Rule pattern invalid" };
+      }
+      return values.some((value) => pattern.test(value))
+        ? { matched: true }
+        : { matched: false, reason: `Does not match ${condition.target}` };
+    }
+    case "equals":
+    default: {
+      const matched = values.some((value) => value.toLowerCase() === target);
+      return matched
+        ? { matched: true }
+        : { matched: false, reason: `Expected “${condition.target}”` };
+    }
+  }
+};
+
+// Group conditions without a sub-field compare against the number of entries.
+const evaluateGroupConditionMatch = (
+  condition: OnboardingScoringCondition,
+  field: OnboardingField,
+  response?: OnboardingFieldResponse,
+): ConditionOutcome => {
+  const entries = response?.entries ?? [];
+  if (!condition.subFieldId) {
+    return evaluateConditionMatch(
+      condition,
+      {
+        fieldId: field.id,
+        value: entries.length || scoreOperatorNeedsTarget(condition.operator) ? String(entries.length) : null,
+      },
+      { ...field, type: "number" },
+    );
+  }
+
+  const subField = field.fields?.find((candidate) => candidate.id === condition.subFieldId);
+  if (!subField) {
+    return { matched: false, reason: "Group field no longer exists" };
+  }
+  if (!entries.length) {
+    return { matched: false, reason: "No entries provided" };
+  }
+
+  const results = entries.map((entry) =>
+    evaluateConditionMatch(
+      condition,
+      entry.responses.find((candidate) => candidate.fieldId === subField.id),
+      subField,
+    ),
+  );
+  if (condition.entryMatch === "all") {
+    const failed = results.find((result) => !result.matched);
+    return failed
+      ? { matched: false, reason: `Not every entry matched: ${failed.reason}` }
+      : { matched: true };
+  }
+  return results.some((result) => result.matched)
+    ? { matched: true }
+    : { matched: false, reason: results[0]?.reason };
+};
+
+type ScoringContext = {
+  registry: Map<string, { field: OnboardingField; section: OnboardingSection }>;
+  responses: OnboardingFieldResponse[];
+  hiddenFieldIds: Set<string>;
+};
+
+const evaluateScoringCondition = (
+  condition: OnboardingScoringCondition,
+  context: ScoringContext,
+): ConditionOutcome => {
+  if (context.hiddenFieldIds.has(condition.fieldId)) {
+    return { matched: false, skipped: true, reason: "Field hidden by form logic" };
+  }
+  const response = context.responses.find((entry) => entry.fieldId === condition.fieldId);
+  const field = context.registry.get(condition.fieldId)?.field;
+  return field?.type === "group"
+    ? evaluateGroupConditionMatch(condition, field, response)
+    : evaluateConditionMatch(condition, response, field);
+};
+
+const describeScoringCondition = (
+  condition: OnboardingScoringCondition,
+  registry: ScoringContext["registry"],
+) => {
+  const field = registry.get(condition.fieldId)?.field;
+  const subField = condition.subFieldId
+    ? field?.fields?.find((candidate) => candidate.id === condition.subFieldId)
+    : undefined;
+  const subject = [field?.label ?? condition.fieldId, subField?.label ?? condition.subFieldId]
+    .filter(Boolean)
+    .join(" › ");
+  const target = scoreOperatorNeedsTarget(condition.operator) ? ` “${condition.target}”` : "";
+  return `${subject} ${SCORE_OPERATOR_LABELS[condition.operator]}${target}`;
+};
+
+const evaluateCompoundRule = (
+  rule: OnboardingScoringRule,
+  context: ScoringContext,
+): OnboardingSubmissionScore["breakdown"][number] => {
+  const match = rule.match ?? "all";
+  const conditions: OnboardingScoreConditionResult[] = (rule.conditions ?? []).map((condition) => ({
+    conditionId: condition.id,
+    fieldId: condition.fieldId,
+    label: describeScoringCondition(condition, context.registry),
+    weight: match === "weighted" ? condition.weight ?? 1 : undefined,
+    ...evaluateScoringCondition(condition, context),
+  }));
+  const active = conditions.filter((condition) => !condition.skipped);
+  const entry = { ruleId: rule.id, label: rule.label, points: rule.points, match, conditions };
+
+  if (!active.length) {
+    return { ...entry, awarded: 0, matched: false, skipped: true, reason: "All conditions hidden by form logic" };
+  }
+
+  const matchedCount = active.filter((condition) => condition.matched).length;
+  const summary = `${matchedCount} of ${active.length} conditions met`;
+
+  if (match === "weighted") {
+    const totalWeight = active.reduce((sum, condition) => sum + (condition.weight ?? 1), 0);
+    const matchedWeight = active.reduce(
+      (sum, condition) => (condition.matched ? sum + (condition.weight ?? 1) : sum),
+      0,
+    );
+    const share = totalWeight > 0 ? matchedWeight / totalWeight : 0;
+    return {
+      ...entry,
+      awarded: roundPoints(rule.points * share),
+      matched: matchedWeight > 0,
+      reason: `${summary} (${Math.round(share * 100)}% of weight)`,
+    };
+  }
+
+  const matched = match === "any" ? matchedCount > 0 : matchedCount === active.length;
+  return {
+    ...entry,
+    awarded: matched ? rule.points : 0,
+    matched,
+    reason: match === "any" ? `${summary}; any one required` : `${summary}; all required`,
+  };
+};
+
+export const evaluateSubmissionScore = (
+  form: OnboardingForm,
+  responses: OnboardingFieldResponse[],
+): OnboardingSubmissionScore | undefined => {
+  const scoring = normaliseScoring(form.scoring);
+  const context: ScoringContext = {
+    registry: buildFieldRegistry(form),
+    responses,
+    hiddenFieldIds: resolveFormVisibility(form, responsesToValues(responses)).hiddenFieldIds,
+  };
+  const breakdown = scoring.rules.map((rule) => {
+    if (rule.conditions?.length) {
+      return evaluateCompoundRule(rule, context);
+    }
+    const result = evaluateScoringCondition(rule, context);
+    return {
+      ruleId: rule.id,
+      label: rule.label,
+      points: rule.points,
+      awarded: result.matched && !result.skipped ? rule.points : 0,
+      matched: result.matched,
+      skipped: result.skipped,
+      reason: result.reason,
+    };
+  });
+
+  const skippedPoints = sumPositivePoints(breakdown.filter((entry) => entry.skipped));
+  const total = (scoring.totalPoints ?? sumPositivePoints(breakdown)) - skippedPoints;
+
+  if (!breakdown.length && scoring.autoAdvanceAt === undefined && scoring.autoRejectBelow === undefined) {
+    return undefined;
+  }
+
+  const awarded = Math.max(
+    0,
+    roundPoints(breakdown.reduce((sum, entry) => sum + (entry.awarded ?? 0), 0)),
+  );
+
+  const percentage = total > 0 ? Number(((awarded / total) * 100).toFixed(2)) : 0;
+
+  let status: OnboardingSubmissionScore["status"] = "review";
+  if (scoring.autoRejectBelow !== undefined && awarded < scoring.autoRejectBelow) {
+    status = "reject";
+  } else if (scoring.autoAdvanceAt !== undefined && awarded >= scoring.autoAdvanceAt) {
+    status = "advance";
+  }
+
+  return {
+    total,
+    awarded,
+    percentage,
+    status,
+    thresholdAdvance: scoring.autoAdvanceAt,
+    thresholdReject: scoring.autoRejectBelow,
+    breakdown,
+    source: "auto",
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+const buildFieldRegistry = (form: OnboardingForm) => {
+  const registry = new Map<string, { field: OnboardingField; section: OnboardingSection }>();
+  form.sections.forEach((section) => {
+    section.fields.forEach((field: OnboardingField) => {
+      registry.set(field.id, { field, section });
+    });
+  });
+  return registry;
+};
+
+const guessStageFieldId = (registry: Map<string, { field: OnboardingField; section: OnboardingSection }>) => {
+  for (const [fieldId, meta] of registry.entries()) {
+    const { field } = meta;
+    if (field.type !== "select") {
+      continue;
+    }
+    if (fieldId.includes("stage")) {
+      return fieldId;
+    }
+    if (/stage/i.test(field.label)) {
+      return fieldId;
+    }
+  }
+  return undefined;
+};
+
+const guessSectorFieldId = (registry: Map<string, { field: OnboardingField; section: OnboardingSection }>) => {
+  for (const [fieldId, meta] of registry.entries()) {
+    if (/sector|industry|vertical/i.test(fieldId) || /sector|industry|vertical/i.test(meta.field.label)) {
+      return fieldId;
+    }
+  }
+  return undefined;
+};
+
+const guessNameFieldId = (registry: Map<string, { field: OnboardingField; section: OnboardingSection }>) => {
+  for (const [fieldId, meta] of registry.entries()) {
+    const { field } = meta;
+    if (field.type !== "text" && field.type !== "textarea") {
+      continue;
+    }
+    if (fieldId.includes("name")) {
+      return fieldId;
+    }
+    if (/company/i.test(field.label) && /name/i.test(field.label)) {
+      return fieldId;
+    }
+  }
+  return undefined;
+};
+
+const resolveResponse = (
+  response: OnboardingFieldResponse,
+  registry: Map<string, { field: OnboardingField; section: OnboardingSection }>,
+): OnboardingSubmissionResolvedField => {
+  const meta = registry.get(response.fieldId);
+  const base: OnboardingSubmissionResolvedField = {
+    fieldId: response.fieldId,
+    label: meta?.field.label ?? response.fieldId,
+    type: meta?.field.type ?? "text",
+    value: response.value,
+    attachments: response.attachments?.map(enrichAttachment),
+  };
+  if (response.entries?.length) {
+    const subFields = new Map((meta?.field.fields ?? []).map((field) => [field.id, field]));
+    base.entries = response.entries.map((entry) => ({
+      id: entry.id,
+      fields: entry.responses.map((entryResponse) => {
+        const subField = subFields.get(entryResponse.fieldId);
+        return {
+          fieldId: entryResponse.fieldId,
+          label: subField?.label ?? entryResponse.fieldId,
+          type: subField?.type ?? "text",
+          value: entryResponse.value,
+          attachments: entryResponse.attachments?.map(enrichAttachment),
+        };
+      }),
+    }));
+  }
+  return base;
+};
+
+const responseToStrings = (value: string | string[] | null): string[] => {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.filter((item) => typeof item === "string" && item.trim().length > 0);
+  }
+  if (typeof value === "string") {
+    return value.trim().length ? [value] : [];
+  }
+  return [];
+};
+
+const buildSubmissionSummary = (
+  record: OnboardingSubmission,
+  resolvedResponses: OnboardingSubmissionResolvedField[],
+  stageFieldMeta: OnboardingField | undefined,
+  stageFieldId: string | undefined,
+  nameFieldId: string | undefined,
+): OnboardingSubmissionSummary => {
+  const stageResponse = stageFieldId
+    ? resolvedResponses.find((response) => response.fieldId === stageFieldId)
+    : undefined;
+  const nameResponse = nameFieldId
+    ? resolvedResponses.find((response) => response.fieldId === nameFieldId)
+    : undefined;
+
+  const stageValues = responseToStrings(stageResponse?.value ?? null);
+  const stageValue = stageValues[0];
+  const stageLabel = stageValue
+    ? stageFieldMeta?.options?.find((option: OnboardingFieldOption) => option.value === stageValue)?.label ?? stageValue
+    : undefined;
+  const companyName = responseToStrings(nameResponse?.value ?? null)[0];
+  const autoScore =
+    record.scoreAuto ?? (record.score && record.score.source !== "manual" ? record.score : undefined);
+  const manualScore =
+    record.scoreManual ?? (record.score && record.score.source === "manual" ? record.score : undefined);
+  const finalScore = manualScore ?? record.score ?? autoScore;
+  const status = finalScore?.status ?? "review";
+
+  return {
+    id: record.id,
+    programId: record.programId ?? DEFAULT_PROGRAM_ID,
+    formId: record.formId,
+    formVersion: record.formVersion,
+    locale: record.locale,
+    userId: record.userId,
+    submittedAt: record.submittedAt,
+    score: finalScore,
+    scoreAuto: autoScore,
+    scoreManual: manualScore,
+    scorecards: record.scorecards,
+    panelDecision: record.panelDecision,
+    assignments: record.assignments,
+    conflicts: record.conflicts,
+    duplicateResolutions: record.duplicateResolutions,
+    mergedInto: record.mergedInto,
+    lifecycleState: record.lifecycleState,
+    lifecycleHistory: record.lifecycleHistory,
+    interviews: record.interviews,
+    applicantFeedback: record.applicantFeedback,
+    documentRequests: record.documentRequests,
+    statusToken: record.statusToken,
+    comments: record.comments,
+    admission: record.admission,
+    status,
+    companyName,
+    companyStage:
+      stageValue !== undefined
+        ? {
+            value: stageValue,
+            label: stageLabel,
+          }
+        : undefined,
+    responses: resolvedResponses,
+  };
+};
+
+const createSubmissionSummaryContext = (form: OnboardingForm) => {
+  const registry = buildFieldRegistry(form);
+  const stageFieldId = guessStageFieldId(registry);
+  const nameFieldId = guessNameFieldId(registry);
+  const stageFieldMeta = stageFieldId ? registry.get(stageFieldId)?.field : undefined;
+
+  const summarize = (record: OnboardingSubmission) => {
+    const resolvedResponses = (record.responses ?? []).map((response) =>
+      resolveResponse(response, registry),
+    );
+    return buildSubmissionSummary(record, resolvedResponses, stageFieldMeta, stageFieldId, nameFieldId);
+  };
+
+  return {
+    summarize,
+    stageOptions: stageFieldMeta?.options ?? [],
+    stageFieldId,
+  };
+};
+
+export const summarizeOnboardingSubmission = (
+  form: OnboardingForm,
+  submission: OnboardingSubmission,
+): OnboardingSubmissionSummary => {
+  const context = createSubmissionSummaryContext(form);
+  return context.summarize(submission);
+};
+
+type VersionedForm = {
+  version: number;
+  createdAt: number;
+  form: OnboardingForm;
+};
+
+const loadConfigVersionForms = async (programId: string): Promise<VersionedForm[]> => {
+  const rows = await prisma.onboardingConfigVersionRecord.findMany({
+    where: { configId: programConfigId(programId) },
+    orderBy: { version: "asc" },
+  });
+  return rows.map((row) => {
+    const { form } = configVersionRowToVersion(row);
+    return { version: row.version, createdAt: row.createdAt.getTime(), form };
+  });
+};
+
+const pickSubmissionFormVersion = (
+  submission: OnboardingSubmission,
+  versions: VersionedForm[],
+): VersionedForm | undefined => {
+  if (submission.formVersion !== undefined) {
+    return versions.find((entry) => entry.version === submission.formVersion);
+  }
+  const submittedAt = new Date(submission.submittedAt).getTime();
+  if (Number.isNaN(submittedAt)) {
+    return undefined;
+  }
+  let match: VersionedForm | undefined;
+  versions.forEach((entry) => {
+    if (entry.createdAt <= submittedAt) {
+      match = entry;
+    }
+  });
+  return match;
+};
+
+const createVersionedSummaryContext = async (form: OnboardingForm, programId: string) => {
+  const versions = await loadConfigVersionForms(programId);
+  const current = createSubmissionSummaryContext(form);
+  const contexts = new Map<number, ReturnType<typeof createSubmissionSummaryContext>>();
+
+  const summarize = (record: OnboardingSubmission): OnboardingSubmissionSummary => {
+    const pinned = pickSubmissionFormVersion(record, versions);
+    if (!pinned || pinned.version === form.version) {
+      return current.summarize(record);
+    }
+    let context = contexts.get(pinned.version);
+    if (!context) {
+      context = createSubmissionSummaryContext(pinned.form);
+      contexts.set(pinned.version, context);
+    }
+    const summary = context.summarize(record);
+    return { ...summary, formVersion: summary.formVersion ?? pinned.version };
+  };
+
+  return {
+    summarize,
+    stageOptions: current.stageOptions,
+    stageFieldId: current.stageFieldId,
+  };
+};
+
+export const resolveSubmissionForm = async (
+  submission: OnboardingSubmission,
+): Promise<OnboardingForm> => {
+  const programId = submission.programId ?? DEFAULT_PROGRAM_ID;
+  const [form, versions] = await Promise.all([
+    getOnboardingConfig(programId),
+    loadConfigVersionForms(programId),
+  ]);
+  return pickSubmissionFormVersion(submission, versions)?.form ?? form;
+};
+
+const programSubmissionWhere = (programId: string): Prisma.OnboardingSubmissionRecordWhereInput =>
+  programId === DEFAULT_PROGRAM_ID
+    ? { OR: [{ programId }, { programId: null }] }
+    : { programId };
+
+// The same program scope as programSubmissionWhere, for raw queries over the submission table aliased as "record".
+const programSubmissionSql = (programId: string) =>
+  programId === DEFAULT_PROGRAM_ID
+    ? Prisma.sql`(record."programId" = ${programId} OR record."programId" IS NULL)`
+    : Prisma.sql`record."programId" = ${programId}`;
+
+type ReviewerIdColumn = "assigneeIds" | "openAssigneeIds" | "conflictReviewerIds";
+
+// Grouped counts over an extracted reviewer id column, so reviewer load never needs submission payloads.
+const countReviewerIds = async (programId: string, column: ReviewerIdColumn) => {
+  const rows = await prisma.$queryRaw<Array<{ reviewerId: string; count: number }>>`
+    SELECT reviewer_id AS "reviewerId", count(*)::int AS "count"
+    FROM "lifecycle"."OnboardingSubmissionRecord" AS record, unnest(record.${Prisma.raw(`"${column}"`)}) AS reviewer_id
+    WHERE ${programSubmissionSql(programId)}
+    GROUP BY reviewer_id
+  `;
+  return new Map(rows.map((row) => [row.reviewerId, row.count]));
+};
+
+const commentThreadId = (comment: OnboardingSubmissionComment) => comment.parentId ?? comment.id;
+
+// A mention stays open until the thread it was made in is resolved.
+const openMentionIds = (comments: OnboardingSubmissionComment[] | undefined) => {
+  const threads = new Map(
+    (comments ?? []).filter((comment) => !comment.parentId).map((comment) => [comment.id, comment]),
+  );
+  return Array.from(
+    new Set(
+      (comments ?? [])
+        .filter((comment) => !threads.get(commentThreadId(comment))?.resolvedAt)
+        .flatMap((comment) => comment.mentions),
+    ),
+  );
+};
+
+const buildSearchText = (summary: OnboardingSubmissionSummary) => {
+  const haystack: string[] = summary.companyName ? [summary.companyName] : [];
+  const collect = (response: OnboardingSubmissionResolvedField) => {
+    responseToStrings(response.value).forEach((value) => haystack.push(value));
+    response.attachments?.forEach((attachment) => {
+      if (attachment.name) {
+        haystack.push(attachment.name);
+      }
+    });
+    response.entries?.forEach((entry) => entry.fields.forEach(collect));
+  };
+  summary.responses.forEach(collect);
+  return haystack.join("\n").toLowerCase();
+};
+
+// Bump when submissionIndexColumns gains or changes a column so the reindex job rewrites existing rows.
+const SUBMISSION_INDEX_VERSION = 2;
+
+const submissionIndexColumns = (summary: OnboardingSubmissionSummary) => ({
+  companyName: summary.companyName ?? null,
+  companyNameKey: summary.companyName ? normalizeCompanyName(summary.companyName) : "",
+  stage: summary.companyStage?.value ?? null,
+  scoreAwarded: summary.score?.awarded ?? 0,
+  scoreStatus: summary.status,
+  lifecycleState: summary.lifecycleState ?? null,
+  assigneeIds: (summary.assignments ?? []).map((assignment) => assignment.reviewerId),
+  openAssigneeIds: (summary.assignments ?? [])
+    .filter((assignment) => reviewAssignmentStatus(assignment, summary) !== "completed")
+    .map((assignment) => assignment.reviewerId),
+  conflictReviewerIds: (summary.conflicts ?? []).map((conflict) => conflict.reviewerId),
+  interviewerIds: Array.from(
+    new Set(
+      (summary.interviews ?? [])
+        .filter((interview) => interview.status === "scheduled")
+        .flatMap((interview) => interview.panel.map((member) => member.reviewerId)),
+    ),
+  ),
+  openMentionIds: openMentionIds(summary.comments),
+  duplicateKeys: duplicateLookupKeys(summary),
+  searchText: buildSearchText(summary),
+  indexedAt: new Date(),
+  indexVersion: SUBMISSION_INDEX_VERSION,
+});
+
+const INDEX_BATCH_SIZE = 200;
+
+const indexStaleSubmissions = async (
+  programId: string,
+  summarize: (record: OnboardingSubmission) => OnboardingSubmissionSummary,
+) => {
+  let indexed = 0;
+  for (;;) {
+    const rows = await prisma.onboardingSubmissionRecord.findMany({
+      where: { AND: [programSubmissionWhere(programId), { indexVersion: { lt: SUBMISSION_INDEX_VERSION } }] },
+      take: INDEX_BATCH_SIZE,
+    });
+    if (rows.length) {
+      await prisma.$transaction(
+        rows.map((row) =>
+          prisma.onboardingSubmissionRecord.update({
+            where: { id: row.id },
+            data: submissionIndexColumns(summarize(submissionRecordToSubmission(row))),
+          }),
+        ),
+      );
+      indexed += rows.length;
+    }
+    if (rows.length < INDEX_BATCH_SIZE) {
+      return indexed;
+    }
+  }
+};
+
+// Every write keeps the extracted columns current; this job only backfills rows indexed by an older
+// SUBMISSION_INDEX_VERSION, so listing never has to index anything.
+export const reindexOnboardingSubmissions = async (): Promise<number> => {
+  const programs = await listOnboardingPrograms({ includeArchived: true });
+  let indexed = 0;
+  for (const program of programs) {
+    const summaryContext = await createVersionedSummaryContext(await getOnboardingConfig(program.id), program.id);
+    indexed += await indexStaleSubmissions(program.id, summaryContext.summarize);
+  }
+  return indexed;
+};
+
+const submissionListWhere = (
+  programId: string,
+  filters: OnboardingSubmissionFilters,
+  lifecycle: OnboardingLifecycle,
+): Prisma.OnboardingSubmissionRecordWhereInput => {
+  const conditions: Prisma.OnboardingSubmissionRecordWhereInput[] = [programSubmissionWhere(programId)];
+  const query = filters.query?.trim().toLowerCase();
+  const stage = filters.stage?.trim();
+
+  if (filters.status) {
+    conditions.push(
+      filters.status === lifecycle.initialState
+        ? { OR: [{ lifecycleState: filters.status }, { lifecycleState: null }] }
+        : { lifecycleState: filters.status },
+    );
+  }
+  if (filters.recommendation) {
+    conditions.push({ scoreStatus: filters.recommendation });
+  }
+  if (stage) {
+    conditions.push({ stage });
+  }
+  if (filters.assignedTo) {
+    conditions.push({ assigneeIds: { has: filters.assignedTo } });
+  }
+  if (filters.mentioned) {
+    conditions.push({ openMentionIds: { has: filters.mentioned } });
+  }
+  if (filters.minScore !== undefined) {
+    conditions.push({ scoreAwarded: { gte: filters.minScore } });
+  }
+  if (filters.maxScore !== undefined) {
+    conditions.push({ scoreAwarded: { lte: filters.maxScore } });
+  }
+  if (query) {
+    conditions.push({ searchText: { contains: query } });
+  }
+  if (filters.visibleTo) {
+    conditions.push({
+      OR: [{ userId: filters.visibleTo.userId }, { id: { in: filters.visibleTo.submissionIds } }],
+    });
+  }
+
+  return { AND: conditions };
+};
+
+const SUBMISSION_SORT_ORDER: Record<
+  OnboardingSubmissionSort,
+  Prisma.OnboardingSubmissionRecordOrderByWithRelationInput[]
+> = {
+  submitted_desc: [{ submittedAt: "desc" }, { id: "desc" }],
+  submitted_asc: [{ submittedAt: "asc" }, { id: "asc" }],
+  score_desc: [{ scoreAwarded: "desc" }, { submittedAt: "desc" }, { id: "desc" }],
+  score_asc: [{ scoreAwarded: "asc" }, { submittedAt: "desc" }, { id: "desc" }],
+  company_asc: [{ companyNameKey: "asc" }, { id: "asc" }],
+  company_desc: [{ companyNameKey: "desc" }, { id: "desc" }],
+};
+
+export const SUBMISSION_PAGE_MAX = 200;
+
+// Duplicates are looked up for the page only: exact signals through the duplicateKeys index and company
+// names through the trigram index on companyNameKey, then the usual pairwise check runs on that set.
+const findPageDuplicates = async (
+  programId: string,
+  page: OnboardingSubmissionSummary[],
+  summarize: (record: OnboardingSubmission) => OnboardingSubmissionSummary,
+) => {
+  if (!page.length) {
+    return new Map<string, OnboardingDuplicateMatch[]>();
+  }
+  const pageIds = page.map((summary) => summary.id);
+  const names = page.map((summary) => summary.companyName).filter((name): name is string => Boolean(name));
+  const nameKeys = Array.from(new Set(names.map(normalizeCompanyName).filter((key) => key.length >= 3)));
+  const nameRows = nameKeys.length
+    ? await prisma.$queryRaw<Array<{ id: string; companyName: string | null }>>`
+        SELECT DISTINCT record."id", record."companyName"
+        FROM "lifecycle"."OnboardingSubmissionRecord" AS record
+        JOIN unnest(${nameKeys}::text[]) AS page_name(key) ON record."companyNameKey" % page_name.key
+        WHERE ${programSubmissionSql(programId)}
+          AND NOT (record."id" = ANY(${pageIds}::text[]))
+      `
+    : [];
+  const nameMatchIds = nameRows
+    .filter((row) => names.some((name) => companyNamesMatch(name, row.companyName ?? "")))
+    .map((row) => row.id);
+
+  const candidates = await prisma.onboardingSubmissionRecord.findMany({
+    where: {
+      AND: [
+        programSubmissionWhere(programId),
+        { id: { notIn: pageIds } },
+        {
+          OR: [
+            { duplicateKeys: { hasSome: page.flatMap(duplicateLookupKeys) } },
+            { id: { in: nameMatchIds } },
+          ],
+        },
+      ],
+    },
+  });
+  return detectDuplicateSubmissions([
+    ...page,
+    ...candidates.map((row) => {
+      const summary = summarize(submissionRecordToSubmission(row));
+      return { ...summary, lifecycleState: row.lifecycleState ?? undefined };
+    }),
+  ]);
+};
+
+export const listOnboardingSubmissions = async (
+  form: OnboardingForm,
+  filters: OnboardingSubmissionFilters = {},
+  page: OnboardingSubmissionPageInput = {},
+) => {
+  const programId = filters.programId ?? DEFAULT_PROGRAM_ID;
+  const [program, summaryContext] = await Promise.all([
+    getOnboardingProgram(programId),
+    createVersionedSummaryContext(form, programId),
+  ]);
+  const lifecycle = getProgramLifecycle(program);
+
+  const where = submissionListWhere(programId, filters, lifecycle);
+  const limit = page.limit ? Math.min(Math.max(1, Math.floor(page.limit)), SUBMISSION_PAGE_MAX) : undefined;
+  const [rows, total, scoreRange, stateGroups] = await Promise.all([
+    prisma.onboardingSubmissionRecord.findMany({
+      where,
+      orderBy: SUBMISSION_SORT_ORDER[page.sort ?? "submitted_desc"],
+      ...(limit ? { take: limit + 1 } : {}),
+      ...(limit && page.cursor ? { cursor: { id: page.cursor }, skip: 1 } : {}),
+    }),
+    prisma.onboardingSubmissionRecord.count({ where }),
+    prisma.onboardingSubmissionRecord.aggregate({
+      where,
+      _min: { scoreAwarded: true },
+      _max: { scoreAwarded: true },
+    }),
+    prisma.onboardingSubmissionRecord.groupBy({ by: ["lifecycleState"], where, _count: { _all: true } }),
+  ]);
+
+  const pageRows = limit ? rows.slice(0, limit) : rows;
+  const summaries = pageRows.map((row) => {
+    const summary = summaryContext.summarize(submissionRecordToSubmission(row));
+    return { ...summary, lifecycleState: submissionLifecycleState(summary, lifecycle) };
+  });
+  // Unpaged callers (exports, admin lookups) list whole programs and have no use for duplicate matches.
+  const duplicates = limit
+    ? await findPageDuplicates(programId, summaries, summaryContext.summarize)
+    : new Map<string, OnboardingDuplicateMatch[]>();
+
+  const stateCounts: Record<string, number> = {};
+  stateGroups.forEach((group) => {
+    const state = group.lifecycleState ?? lifecycle.initialState;
+    stateCounts[state] = (stateCounts[state] ?? 0) + group._count._all;
+  });
+
+  return {
+    entries: summaries.map((summary): OnboardingSubmissionSummary => ({
+      ...summary,
+      duplicates: duplicates.get(summary.id),
+    })),
+    total,
+    nextCursor: limit && rows.length > limit ? pageRows[pageRows.length - 1].id : undefined,
+    stageFieldId: summaryContext.stageFieldId,
+    stageOptions: summaryContext.stageOptions,
+    lifecycleStates: lifecycle.states,
+    stateCounts,
+    scoreRange: {
+      min: scoreRange._min.scoreAwarded ?? 0,
+      max: scoreRange._max.scoreAwarded ?? 0,
+    },
+  };
+};
+
+const formatExportResponse = (
+  response: OnboardingSubmissionResolvedField,
+  field: OnboardingField | undefined,
+): OnboardingExportCell => {
+  if (response.entries?.length) {
+    const subFields = new Map((field?.fields ?? []).map((subField) => [subField.id, subField]));
+    return response.entries
+      .map((entry) =>
+        entry.fields
+          .map(
+            (entryField) =>
+              `${entryField.label}: ${formatExportResponse(entryField, subFields.get(entryField.fieldId)) ?? ""}`,
+          )
+          .join(", "),
+      )
+      .join("\n");
+  }
+  if (
+    field &&
+    fieldTypeIsNumeric(field.type) &&
+    typeof response.value === "string" &&
+    response.value.trim() &&
+    Number.isFinite(Number(response.value))
+  ) {
+    return Number(response.value);
+  }
+  const values = responseToStrings(response.value).map(
+    (value) => field?.options?.find((option) => option.value === value)?.label ?? value,
+  );
+  const text = [values.join("; "), ...(response.attachments ?? []).map((attachment) => attachment.url ?? attachment.name)]
+    .filter(Boolean)
+    .join("\n");
+  return text || null;
+};
+
+export const exportOnboardingSubmissions = async (
+  form: OnboardingForm,
+  filters: OnboardingSubmissionFilters = {},
+  sort?: OnboardingSubmissionSort,
+): Promise<OnboardingExportTable> => {
+  const { entries, lifecycleStates } = await listOnboardingSubmissions(form, filters, { sort });
+  const fieldColumns: Array<{ fieldId: string; label: string; field?: OnboardingField }> = Array.from(
+    buildFieldRegistry(form).values(),
+  ).map(({ field }) => ({ fieldId: field.id, label: field.label, field }));
+
+  // Answers to fields dropped in a later form version keep their own columns at the end.
+  const knownFieldIds = new Set(fieldColumns.map((column) => column.fieldId));
+  entries.forEach((submission) =>
+    submission.responses.forEach((response) => {
+      if (!knownFieldIds.has(response.fieldId)) {
+        knownFieldIds.add(response.fieldId);
+        fieldColumns.push({ fieldId: response.fieldId, label: response.label });
+      }
+    }),
+  );
+
+  const stateLabels = new Map(lifecycleStates.map((state) => [state.id, state.label]));
+  return {
+    columns: [
+      "Submission ID",
+      "Submitted at",
+      "Company",
+      "Applicant",
+      "Status",
+      "Recommendation",
+      "Auto score",
+      "Manual score",
+      ...fieldColumns.map((column) => column.label),
+    ],
+    rows: entries.map((submission) => {
+      const responses = new Map(submission.responses.map((response) => [response.fieldId, response]));
+      return [
+        submission.id,
+        submission.submittedAt,
+        submission.companyName ?? null,
+        submission.userId,
+        (submission.lifecycleState && stateLabels.get(submission.lifecycleState)) ?? submission.lifecycleState ?? null,
+        submission.status,
+        submission.scoreAuto?.awarded ?? null,
+        submission.scoreManual?.awarded ?? null,
+        ...fieldColumns.map((column) => {
+          const response = responses.get(column.fieldId);
+          return response ? formatExportResponse(response, column.field) : null;
+        }),
+      ];
+    }),
+  };
+};
+
+const sanitizeFileName = (name: string) =>
+  name
+    .trim()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-zA-Z0-9._-]/g, "")
+    .substring(0, 120) || "document";
+
+const ensureChecklistStatus = (status: string | undefined): OnboardingChecklistStatus => {
+  switch (status) {
+    case "in_progress":
+    case "complete":
+      return status;
+    default:
+      return "pending";
+  }
+};
+
+const normalizeChecklistItem = (item: Partial<OnboardingChecklistItem>): OnboardingChecklistItem => {
+  const now = new Date().toISOString();
+  return {
+    id: item.id ?? randomUUID(),
+    title: item.title?.trim() || "Onboarding task",
+    description: item.description?.trim() || undefined,
+    status: ensureChecklistStatus(item.status as OnboardingChecklistStatus),
+    dueDate: item.dueDate ?? undefined,
+    updatedAt: item.updatedAt ?? now,
+    completedAt: item.completedAt ?? undefined,
+    templateItemId: item.templateItemId || undefined,
+    assignee:
+      item.assignee?.userId && (item.assignee.kind === "founder" || item.assignee.kind === "staff")
+        ? { kind: item.assignee.kind, userId: item.assignee.userId, name: item.assignee.name?.trim() || undefined }
+        : undefined,
+    blockedBy: item.blockedBy?.length ? Array.from(new Set(item.blockedBy)) : undefined,
+    evidence: item.evidence?.length
+      ? item.evidence
+          .map((evidence) => ({
+            id: evidence.id || randomUUID(),
+            label: evidence.label?.trim() ?? "",
+            documentKey: evidence.documentKey || undefined,
+          }))
+          .filter((evidence) => evidence.label.length > 0)
+      : undefined,
+  };
+};
+
+// Dependencies on items that no longer exist are dropped rather than leaving an item blocked forever.
+const normalizeChecklist = (startupId: string, checklist?: Partial<OnboardingChecklist>): OnboardingChecklist => {
+  const createdAt = checklist?.createdAt ?? new Date().toISOString();
+  const normalizedItems = (checklist?.items ?? []).map(normalizeChecklistItem);
+  const itemIds = new Set(normalizedItems.map((item) => item.id));
+  const items = normalizedItems.map((item) => {
+    const blockedBy = item.blockedBy?.filter((itemId) => itemId !== item.id && itemIds.has(itemId));
+    return { ...item, blockedBy: blockedBy?.length ? blockedBy : undefined };
+  });
+  return {
+    startupId,
+    createdAt,
+    updatedAt: checklist?.updatedAt ?? createdAt,
+    notes: checklist?.notes?.trim() || undefined,
+    items,
+    templateId: checklist?.templateId || undefined,
+    templateVersion: ensureNumber(checklist?.templateVersion),
+    anchorAt: checklist?.anchorAt || undefined,
+  };
+};
+
+export const getOnboardingSubmissionDetail = async (
+  submissionId: string,
+  userId: string,
+): Promise<OnboardingSubmissionSummary | null> => {
+  const row = await prisma.onboardingSubmissionRecord.findUnique({
+    where: { id: submissionId },
+  });
+
+  if (!row || row.userId !== userId) {
+    return null;
+  }
+
+  const record = submissionRecordToSubmission(row);
+  const programId = record.programId ?? DEFAULT_PROGRAM_ID;
+  const form = await getOnboardingConfig(programId);
+  const summaryContext = await createVersionedSummaryContext(form, programId);
+  return {
+    ...summaryContext.summarize(record),
+    scorecards: undefined,
+    assignments: undefined,
+    conflicts: undefined,
+    duplicateResolutions: undefined,
+    mergedInto: undefined,
+    lifecycleHistory: undefined,
+    interviews: undefined,
+    statusToken: undefined,
+    comments: undefined,
+  };
+};
+
+const loadSubmissionForUpdate = async (submissionId: string): Promise<OnboardingSubmission> => {
+  const row = await prisma.onboardingSubmissionRecord.findUnique({
+    where: { id: submissionId },
+  });
+
+  if (!row) {
+    throw new Error("Submission not found");
+  }
+
+  return submissionRecordToSubmission(row);
+};
+
+// With expectedUpdatedAt the write only lands if nobody else wrote the row since it was read.
+const writeSubmissionPayload = async (
+  submissionId: string,
+  next: OnboardingSubmission,
+  updatedAt: Date,
+  expectedUpdatedAt?: Date,
+): Promise<boolean> => {
+  const payload = { ...next } as Record<string, unknown>;
+  (
+    [
+      "score",
+      "scoreAuto",
+      "scoreManual",
+      "scorecards",
+      "panelDecision",
+      "assignments",
+      "conflicts",
+      "duplicateResolutions",
+      "mergedInto",
+      "lifecycleState",
+      "lifecycleHistory",
+      "interviews",
+      "applicantFeedback",
+      "documentRequests",
+      "comments",
+      "admission",
+    ] as const
+  ).forEach((key) => {
+    if (!payload[key]) {
+      delete payload[key];
+    }
+  });
+  delete payload.statusToken;
+
+  const data = {
+    payload: payload as unknown as Prisma.JsonObject,
+    updatedAt,
+    ...submissionIndexColumns(summarizeOnboardingSubmission(await resolveSubmissionForm(next), next)),
+  };
+  if (!expectedUpdatedAt) {
+    await prisma.onboardingSubmissionRecord.update({ where: { id: submissionId }, data });
+    return true;
+  }
+  const saved = await prisma.onboardingSubmissionRecord.updateMany({
+    where: { id: submissionId, updatedAt: expectedUpdatedAt },
+    data,
+  });
+  return saved.count > 0;
+};
+
+const SUBMISSION_UPDATE_ATTEMPTS = 3;
+
+// Read-modify-write for reviewer actions: apply runs against the stored submission and is re-run on a fresh copy
+// when another write lands first, so concurrent scorecards, assignments and comments do not overwrite each other.
+// Returning null from apply leaves the submission untouched.
+const updateSubmission = async (
+  submissionId: string,
+  apply: (existing: OnboardingSubmission, now: Date) => Promise<OnboardingSubmission | null>,
+): Promise<OnboardingSubmission> => {
+  for (let attempt = 0; attempt < SUBMISSION_UPDATE_ATTEMPTS; attempt += 1) {
+    const row = await prisma.onboardingSubmissionRecord.findUnique({ where: { id: submissionId } });
+    if (!row) {
+      throw new Error("Submission not found");
+    }
+    const existing = submissionRecordToSubmission(row);
+    const now = new Date();
+    const next = await apply(existing, now);
+    if (!next) {
+      return existing;
+    }
+    if (await writeSubmissionPayload(submissionId, next, now, row.updatedAt)) {
+      return next;
+    }
+  }
+  throw new Error("Submission was updated while the change was being saved");
+};
+
+const submissionAutoScore = (submission: OnboardingSubmission) =>
+  submission.scoreAuto ??
+  (submission.score && submission.score.source !== "manual" ? submission.score : undefined);
+
+const buildManualScore = (
+  existing: OnboardingSubmission,
+  reviewerId: string,
+  input: OnboardingSubmissionManualScoreInput,
+  nowIso: string,
+): OnboardingSubmissionScore => {
+  const baseline = existing.scoreManual ?? submissionAutoScore(existing) ?? existing.score;
+
+  const cleanTotalRaw =
+    input.total !== undefined ? ensureNumber(input.total) : baseline?.total ?? 0;
+  const cleanTotal = cleanTotalRaw !== undefined && cleanTotalRaw >= 0 ? cleanTotalRaw : 0;
+  const cleanAwardedRaw = ensureNumber(input.awarded);
+  const cleanAwarded = cleanAwardedRaw !== undefined && cleanAwardedRaw >= 0 ? cleanAwardedRaw : 0;
+  const percentageOverride =
+    input.percentage !== undefined ? ensureNumber(input.percentage) : undefined;
+  const percentage =
+    percentageOverride !== undefined && percentageOverride >= 0
+      ? Number(percentageOverride.toFixed(2))
+      : cleanTotal > 0
+        ? Number(((cleanAwarded / cleanTotal) * 100).toFixed(2))
+        : 0;
+
+  return {
+    total: cleanTotal,
+    awarded: cleanAwarded,
+    percentage,
+    status: input.status,
+    thresholdAdvance: baseline?.thresholdAdvance,
+    thresholdReject: baseline?.thresholdReject,
+    breakdown: input.breakdown ?? baseline?.breakdown ?? [],
+    source: "manual",
+    updatedAt: nowIso,
+    updatedBy: reviewerId,
+    note: input.note?.trim() || undefined,
+  };
+};
+
+export const setManualSubmissionScore = async (
+  submissionId: string,
+  reviewerId: string,
+  input: OnboardingSubmissionManualScoreInput,
+): Promise<OnboardingSubmission> =>
+  updateSubmission(submissionId, async (existing, now) => {
+    const manualScore = buildManualScore(existing, reviewerId, input, now.toISOString());
+    return {
+      ...existing,
+      score: manualScore,
+      scoreManual: manualScore,
+      scoreAuto: submissionAutoScore(existing),
+    };
+  });
+
+export const clearManualSubmissionScore = async (
+  submissionId: string,
+): Promise<OnboardingSubmission> =>
+  updateSubmission(submissionId, async (existing) => {
+    const autoScore = submissionAutoScore(existing);
+    return {
+      ...existing,
+      score: autoScore,
+      scoreManual: undefined,
+      scoreAuto: autoScore,
+    };
+  });
+
+const SCORE_STATUSES: OnboardingSubmissionScore["status"][] = ["advance", "review", "reject"];
+
+const toRescoreSnapshot = (score: OnboardingSubmissionScore | undefined): OnboardingRescoreSnapshot | undefined =>
+  score ? { status: score.status, awarded: score.awarded, total: score.total } : undefined;
+
+// Recomputes one submission's automatic score; next is null when the score did not change. Manual overrides and
+// panel decisions stay in place; only `scoreAuto` (and `score` when nothing overrides it) changes.
+export const rescoreSubmission = (form: OnboardingForm, submission: OnboardingSubmission, nowIso: string) => {
+  const before = toRescoreSnapshot(submissionAutoScore(submission));
+  const rescored = evaluateSubmissionScore(form, submission.responses);
+  const after = toRescoreSnapshot(rescored);
+  if (before?.status === after?.status && before?.awarded === after?.awarded && before?.total === after?.total) {
+    return { before, after, next: null };
+  }
+  const scoreAuto = rescored ? { ...rescored, updatedAt: nowIso } : undefined;
+  const next: OnboardingSubmission = { ...submission, scoreAuto, score: submission.scoreManual ?? scoreAuto };
+  return { before, after, next };
+};
+
+// Recomputes automatic scores against the live scoring rules. Each write re-reads the submission and
+// rescores the stored copy, so edits made while the run is in progress are kept.
+export const rescoreOnboardingSubmissions = async (
+  programId: string,
+  options: { dryRun: boolean; formVersion?: number },
+): Promise<OnboardingRescoreResult> => {
+  const form = await getOnboardingConfig(programId);
+  if (!options.dryRun && options.formVersion !== undefined && options.formVersion !== form.version) {
+    throw new Error("Scoring rules changed since the preview");
+  }
+
+  const rows = await prisma.onboardingSubmissionRecord.findMany({
+    where: programSubmissionWhere(programId),
+    orderBy: { submittedAt: "desc" },
+  });
+  const summaryContext = await createVersionedSummaryContext(form, programId);
+  const flips = new Map<string, OnboardingRescoreResult["flips"][number]>();
+  const result: OnboardingRescoreResult = {
+    programId,
+    formVersion: form.version,
+    dryRun: options.dryRun,
+    evaluated: rows.length,
+    changed: 0,
+    flips: [],
+    entries: [],
+  };
+  const nowIso = new Date().toISOString();
 
-    if (maxScoreFilter !== undefined && awarded > maxScoreFilter) {
-      return false;
+  for (const row of rows) {
+    let record = submissionRecordToSubmission(row);
+    let outcome = rescoreSubmission(form, record, nowIso);
+    if (!outcome.next) {
+      continue;
+    }
+    if (!options.dryRun) {
+      record = await updateSubmission(record.id, async (stored) => {
+        outcome = rescoreSubmission(form, stored, nowIso);
+        return outcome.next;
+      });
+      if (!outcome.next) {
+        continue;
+      }
+    }
+
+    const { before, after } = outcome;
+    const manualOverride = Boolean(record.scoreManual);
+    result.changed += 1;
+    result.entries.push({
+      submissionId: record.id,
+      companyName: summaryContext.summarize(record).companyName,
+      before,
+      after,
+      manualOverride,
+    });
+
+    const from = before?.status ?? "review";
+    const to = after?.status ?? "review";
+    if (from !== to) {
+      const key = `${from}:${to}`;
+      const flip = flips.get(key) ?? { from, to, count: 0 };
+      flip.count += 1;
+      flips.set(key, flip);
+    }
+  }
+
+  result.flips = Array.from(flips.values()).sort((a, b) => b.count - a.count);
+  return result;
+};
+
+const buildRubricScorecard = (
+  program: OnboardingProgram,
+  reviewer: { id: string; name?: string },
+  input: OnboardingScorecardInput,
+  previous: OnboardingReviewerScorecard | undefined,
+  nowIso: string,
+): OnboardingReviewerScorecard => {
+  const rubric = getProgramRubric(program);
+  const inputScores = Array.isArray(input.scores) ? input.scores : [];
+  const scores = rubric.criteria.map((criterion) => {
+    const entry = inputScores.find((score) => score?.criterionId === criterion.id);
+    const score = ensureNumber(entry?.score);
+    if (score === undefined) {
+      throw new Error("Every rubric criterion needs a score");
+    }
+    if (score < rubric.scaleMin || score > rubric.scaleMax) {
+      throw new Error("Rubric score out of range");
+    }
+    return { criterionId: criterion.id, score, comment: entry?.comment?.trim() || undefined };
+  });
+  if (input.recommendation !== undefined && !SCORE_STATUSES.includes(input.recommendation)) {
+    throw new Error("Unknown recommendation");
+  }
+
+  return {
+    reviewerId: reviewer.id,
+    reviewerName: reviewer.name?.trim() || undefined,
+    scores,
+    overall: scorecardOverall(rubric, scores) ?? rubric.scaleMin,
+    recommendation: input.recommendation,
+    comment: input.comment?.trim() || undefined,
+    submittedAt: previous?.submittedAt ?? nowIso,
+    updatedAt: nowIso,
+  };
+};
+
+export const saveReviewerScorecard = async (
+  submissionId: string,
+  program: OnboardingProgram,
+  reviewer: { id: string; name?: string },
+  input: OnboardingScorecardInput,
+): Promise<OnboardingSubmission> =>
+  updateSubmission(submissionId, async (existing, now) => {
+    if (existing.panelDecision) {
+      throw new Error("Panel decision already finalised");
+    }
+    if (existing.conflicts?.some((conflict) => conflict.reviewerId === reviewer.id)) {
+      throw new Error("Reviewer declared a conflict of interest");
+    }
+
+    const scorecard = buildRubricScorecard(
+      program,
+      reviewer,
+      input,
+      existing.scorecards?.find((entry) => entry.reviewerId === reviewer.id),
+      now.toISOString(),
+    );
+    return {
+      ...existing,
+      scorecards: [
+        ...(existing.scorecards ?? []).filter((entry) => entry.reviewerId !== reviewer.id),
+        scorecard,
+      ],
+    };
+  });
+
+export const withdrawReviewerScorecard = async (
+  submissionId: string,
+  reviewerId: string,
+): Promise<OnboardingSubmission> =>
+  updateSubmission(submissionId, async (existing) => {
+    if (existing.panelDecision) {
+      throw new Error("Panel decision already finalised");
+    }
+    return {
+      ...existing,
+      scorecards: (existing.scorecards ?? []).filter((entry) => entry.reviewerId !== reviewerId),
+    };
+  });
+
+// Finalising writes the panel consensus as the manual score so filters and status chips pick it up. The score is
+// rescaled from the rubric onto the automatic score's points so awarded points stay comparable across submissions;
+// the rubric-scale score is kept on the panel decision.
+export const finalizePanelDecision = async (
+  submissionId: string,
+  program: OnboardingProgram,
+  chair: { id: string; name?: string },
+  input: OnboardingPanelDecisionInput,
+): Promise<OnboardingSubmission> => {
+  if (!SCORE_STATUSES.includes(input.status)) {
+    throw new Error("Unknown decision status");
+  }
+  const rubric = getProgramRubric(program);
+  const note = input.note?.trim() || undefined;
+
+  return updateSubmission(submissionId, async (existing, now) => {
+    const scorecards = existing.scorecards ?? [];
+    if (!scorecards.length) {
+      throw new Error("No reviewer scorecards to finalise");
+    }
+
+    const panel = summarizeReviewPanel(rubric, scorecards);
+    const nowIso = now.toISOString();
+    const autoScore = submissionAutoScore(existing);
+    const total = autoScore?.total || 100;
+    const percentage = panel.percentage ?? 0;
+    const manualScore = buildManualScore(
+      existing,
+      chair.id,
+      {
+        status: input.status,
+        awarded: Number(((percentage / 100) * total).toFixed(2)),
+        total,
+        percentage,
+        breakdown: autoScore?.breakdown,
+        note,
+      },
+      nowIso,
+    );
+
+    return {
+      ...existing,
+      score: manualScore,
+      scoreManual: manualScore,
+      scoreAuto: autoScore,
+      panelDecision: {
+        status: input.status,
+        score: panel.score,
+        aggregation: panel.aggregation,
+        reviewerCount: panel.reviewerCount,
+        note,
+        decidedBy: chair.id,
+        decidedByName: chair.name?.trim() || undefined,
+        decidedAt: nowIso,
+      },
+    };
+  });
+};
+
+export const reopenPanelDecision = async (submissionId: string): Promise<OnboardingSubmission> =>
+  updateSubmission(submissionId, async (existing) => {
+    if (!existing.panelDecision) {
+      throw new Error("Panel decision not finalised");
+    }
+    const autoScore = submissionAutoScore(existing);
+    return {
+      ...existing,
+      score: autoScore,
+      scoreManual: undefined,
+      scoreAuto: autoScore,
+      panelDecision: undefined,
+    };
+  });
+
+const listProgramReviewers = async (program: OnboardingProgram): Promise<UserProfile[]> =>
+  (await listUserProfiles()).filter(
+    (user) =>
+      user.isActive &&
+      canReviewOnboarding(user) &&
+      (program.reviewerIds.length === 0 || program.reviewerIds.includes(user.id)),
+  );
+
+type AssignmentTarget = {
+  stage?: string;
+  sectors: string[];
+};
+
+// Experts are seated first, then the rest of the pool by lightest open workload, so a
+// submission is never left unassigned just because nobody matches its stage or sector.
+const pickReviewers = (
+  candidates: UserProfile[],
+  load: Map<string, number>,
+  settings: OnboardingAssignmentSettings,
+  target: AssignmentTarget,
+  exclude: Set<string>,
+  count: number,
+) => {
+  const available = candidates.filter((candidate) => !exclude.has(candidate.id));
+  const experts = available.filter((candidate) => {
+    const expertise = settings.expertise.find((entry) => entry.reviewerId === candidate.id);
+    if (!expertise) return false;
+    if (settings.strategy === "stage") {
+      return target.stage !== undefined && expertise.stages.includes(target.stage);
+    }
+    if (settings.strategy === "sector") {
+      return target.sectors.some((sector) => expertise.sectors.some((keyword) => sector.includes(keyword)));
+    }
+    return false;
+  });
+  const byLoad = (list: UserProfile[]) =>
+    [...list].sort((a, b) => (load.get(a.id) ?? 0) - (load.get(b.id) ?? 0));
+  return [...byLoad(experts), ...byLoad(available.filter((candidate) => !experts.includes(candidate)))].slice(
+    0,
+    count,
+  );
+};
+
+export const autoAssignOnboardingSubmissions = async (
+  program: OnboardingProgram,
+  submissionIds?: string[],
+): Promise<{ assigned: number }> => {
+  const settings = getAssignmentSettings(program);
+  if (settings.strategy === "manual") {
+    throw new Error("Automatic assignment is disabled for this program");
+  }
+
+  const [form, candidates, load, rows] = await Promise.all([
+    getOnboardingConfig(program.id),
+    listProgramReviewers(program),
+    countReviewerIds(program.id, "openAssigneeIds"),
+    prisma.onboardingSubmissionRecord.findMany({
+      where: {
+        AND: [programSubmissionWhere(program.id), ...(submissionIds ? [{ id: { in: submissionIds } }] : [])],
+      },
+      orderBy: { submittedAt: "asc" },
+      select: { id: true },
+    }),
+  ]);
+  if (!candidates.length) {
+    throw new Error("No reviewers available for assignment");
+  }
+
+  const registry = buildFieldRegistry(form);
+  const stageFieldId = guessStageFieldId(registry);
+  const sectorFieldId = guessSectorFieldId(registry);
+  const now = new Date();
+  const dueAt = new Date(now.getTime() + settings.dueDays * MILLISECONDS_IN_DAY).toISOString();
+  let assigned = 0;
+
+  for (const row of rows) {
+    let picked: UserProfile[] = [];
+    await updateSubmission(row.id, async (submission) => {
+      picked = [];
+      if (submission.panelDecision || submission.mergedInto) return null;
+
+      const current = submission.assignments ?? [];
+      const seats = settings.reviewersPerSubmission - current.length;
+      if (seats <= 0) return null;
+
+      const valueOf = (fieldId: string | undefined) =>
+        fieldId
+          ? responseToStrings(submission.responses.find((response) => response.fieldId === fieldId)?.value ?? null)
+          : [];
+      const exclude = new Set<string>([
+        submission.userId,
+        ...current.map((assignment) => assignment.reviewerId),
+        ...(submission.conflicts ?? []).map((conflict) => conflict.reviewerId),
+      ]);
+      picked = pickReviewers(
+        candidates,
+        load,
+        settings,
+        { stage: valueOf(stageFieldId)[0], sectors: valueOf(sectorFieldId).map((value) => value.toLowerCase()) },
+        exclude,
+        seats,
+      );
+      if (!picked.length) return null;
+
+      return {
+        ...submission,
+        assignments: [
+          ...current,
+          ...picked.map((reviewer) => ({
+            reviewerId: reviewer.id,
+            reviewerName: reviewer.name ?? reviewer.email,
+            assignedAt: now.toISOString(),
+            dueAt,
+            assignedBy: "auto",
+          })),
+        ],
+      };
+    });
+
+    picked.forEach((reviewer) => load.set(reviewer.id, (load.get(reviewer.id) ?? 0) + 1));
+    assigned += picked.length;
+  }
+
+  return { assigned };
+};
+
+export const setSubmissionAssignments = async (
+  submissionId: string,
+  program: OnboardingProgram,
+  reviewerIds: string[],
+  assignedBy: string,
+): Promise<OnboardingSubmission> => {
+  const candidates = await listProgramReviewers(program);
+  const requested = Array.from(new Set(reviewerIds));
+  if (requested.some((reviewerId) => !candidates.some((candidate) => candidate.id === reviewerId))) {
+    throw new Error("Reviewer is not in the program pool");
+  }
+
+  return updateSubmission(submissionId, async (existing, now) => {
+    if (requested.some((reviewerId) => existing.conflicts?.some((conflict) => conflict.reviewerId === reviewerId))) {
+      throw new Error("Reviewer declared a conflict of interest");
+    }
+
+    const dueAt = new Date(
+      now.getTime() + getAssignmentSettings(program).dueDays * MILLISECONDS_IN_DAY,
+    ).toISOString();
+    const assignments: OnboardingReviewAssignment[] = requested.map((reviewerId) => {
+      const previous = existing.assignments?.find((assignment) => assignment.reviewerId === reviewerId);
+      if (previous) {
+        return previous;
+      }
+      const reviewer = candidates.find((candidate) => candidate.id === reviewerId);
+      return {
+        reviewerId,
+        reviewerName: reviewer?.name ?? reviewer?.email,
+        assignedAt: now.toISOString(),
+        dueAt,
+        assignedBy,
+      };
+    });
+    return { ...existing, assignments: assignments.length ? assignments : undefined };
+  });
+};
+
+// Declaring a conflict drops the reviewer's assignment; automatic programs refill the seat.
+export const declareReviewerConflict = async (
+  submissionId: string,
+  program: OnboardingProgram,
+  reviewer: { id: string; name?: string },
+  reason?: string,
+): Promise<OnboardingSubmission> => {
+  const next = await updateSubmission(submissionId, async (existing, now) => {
+    if (existing.scorecards?.some((scorecard) => scorecard.reviewerId === reviewer.id)) {
+      throw new Error("Withdraw your scorecard before declaring a conflict");
+    }
+
+    const assignments = (existing.assignments ?? []).filter((assignment) => assignment.reviewerId !== reviewer.id);
+    return {
+      ...existing,
+      assignments: assignments.length ? assignments : undefined,
+      conflicts: [
+        ...(existing.conflicts ?? []).filter((conflict) => conflict.reviewerId !== reviewer.id),
+        {
+          reviewerId: reviewer.id,
+          reviewerName: reviewer.name?.trim() || undefined,
+          reason: reason?.trim() || undefined,
+          declaredAt: now.toISOString(),
+        },
+      ],
+    };
+  });
+
+  if (getAssignmentSettings(program).strategy !== "manual" && !next.panelDecision) {
+    try {
+      await autoAssignOnboardingSubmissions(program, [submissionId]);
+    } catch (error) {
+      console.error(`Reassigning submission ${submissionId} after a conflict failed`, error);
+    }
+    return loadSubmissionForUpdate(submissionId);
+  }
+  return next;
+};
+
+export const withdrawReviewerConflict = async (
+  submissionId: string,
+  reviewerId: string,
+): Promise<OnboardingSubmission> =>
+  updateSubmission(submissionId, async (existing) => {
+    const conflicts = (existing.conflicts ?? []).filter((conflict) => conflict.reviewerId !== reviewerId);
+    return { ...existing, conflicts: conflicts.length ? conflicts : undefined };
+  });
+
+const intervalsOverlap = (startA: string, endA: string, startB: string, endB: string) =>
+  new Date(startA).getTime() < new Date(endB).getTime() && new Date(startB).getTime() < new Date(endA).getTime();
+
+// Each proposed slot is tried in order; the first one where the panel is free and the
+// facilities service accepts the room booking becomes the interview.
+export const scheduleSubmissionInterview = async (
+  submissionId: string,
+  program: OnboardingProgram,
+  actor: { id: string; name?: string; email?: string },
+  input: OnboardingInterviewInput,
+): Promise<OnboardingSubmission> => {
+  const proposed = (Array.isArray(input.slots) ? input.slots : []).filter(
+    (slot) => typeof slot?.resourceId === "string" && slot.resourceId.length > 0,
+  );
+  if (!proposed.length) {
+    throw new Error("Propose at least one interview slot");
+  }
+  const panelIds = normaliseStringList(input.panelIds);
+  if (!panelIds.length) {
+    throw new Error("Interview panel needs at least one reviewer");
+  }
+
+  const [existing, candidates, resources, rows] = await Promise.all([
+    loadSubmissionForUpdate(submissionId),
+    listProgramReviewers(program),
+    listFacilityResources(),
+    prisma.onboardingSubmissionRecord.findMany({
+      where: { AND: [programSubmissionWhere(program.id), { interviewerIds: { hasSome: panelIds } }] },
+    }),
+  ]);
+  const panel = panelIds.map((reviewerId) => {
+    const candidate = candidates.find((entry) => entry.id === reviewerId);
+    if (!candidate) {
+      throw new Error("Interview panel must come from the reviewer pool");
     }
+    return { reviewerId, name: candidate.name ?? undefined, email: candidate.email };
+  });
+  if (existing.conflicts?.some((conflict) => panelIds.includes(conflict.reviewerId))) {
+    throw new Error("Conflicted reviewers cannot sit on the interview panel");
+  }
+
+  const busy = rows
+    .map(submissionRecordToSubmission)
+    .flatMap((submission) => submission.interviews ?? [])
+    .filter((interview) => interview.status === "scheduled");
+  const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(existing), existing);
+  const title = input.title?.trim() || `Interview: ${summary.companyName ?? "applicant"}`;
+  const interviewId = randomUUID();
+  const slots: OnboardingInterviewSlot[] = [];
+  let booking: FacilityBooking | undefined;
+  let bookedSlot: OnboardingInterviewSlot | undefined;
+
+  for (const candidate of proposed) {
+    const resource = resources.find((entry) => entry.id === candidate.resourceId);
+    const slot: OnboardingInterviewSlot = {
+      resourceId: candidate.resourceId,
+      resourceName: resource?.name,
+      startTime: candidate.startTime,
+      endTime: candidate.endTime,
+    };
+    slots.push(slot);
+    if (booking) continue;
 
-    if (queryFilter && !matchesQuery(submission, queryFilter)) {
-      return false;
+    if (!resource || resource.type !== "meeting_room") {
+      slot.unavailableReason = "Not a meeting room";
+      continue;
+    }
+    const clash = busy.find(
+      (interview) =>
+        intervalsOverlap(interview.startTime, interview.endTime, slot.startTime, slot.endTime) &&
+        interview.panel.some((member) => panelIds.includes(member.reviewerId)),
+    );
+    if (clash) {
+      const member = clash.panel.find((entry) => panelIds.includes(entry.reviewerId));
+      slot.unavailableReason = `${member?.name ?? member?.email ?? "A panelist"} has another interview`;
+      continue;
     }
+    try {
+      booking = await createFacilityBooking({
+        resourceId: slot.resourceId,
+        title,
+        description: `Onboarding interview for submission ${submissionId}`,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        participants: panel.map((member) => member.email ?? member.reviewerId),
+        metadata: { onboardingSubmissionId: submissionId, onboardingInterviewId: interviewId },
+        actor,
+      });
+      bookedSlot = slot;
+    } catch (error) {
+      slot.unavailableReason = error instanceof Error ? error.message : "Room unavailable";
+    }
+  }
 
-    return true;
-  });
+  if (!booking || !bookedSlot) {
+    throw new Error(
+      `No proposed slot is available: ${slots.map((slot) => slot.unavailableReason).join("; ")}`,
+    );
+  }
+
+  const now = new Date();
+  const interview: OnboardingInterview = {
+    id: interviewId,
+    title,
+    status: "scheduled",
+    slots,
+    resourceId: booking.resourceId,
+    resourceName: bookedSlot.resourceName,
+    startTime: booking.startTime,
+    endTime: booking.endTime,
+    bookingId: booking.id,
+    bookingStatus: booking.status === "pending" ? "pending" : "confirmed",
+    panel,
+    scheduledBy: actor.id,
+    scheduledByName: actor.name?.trim() || undefined,
+    scheduledAt: now.toISOString(),
+  };
+  const next: OnboardingSubmission = {
+    ...existing,
+    interviews: [...(existing.interviews ?? []), interview],
+  };
+  await writeSubmissionPayload(submissionId, next, now);
+  return next;
+};
+
+const findSubmissionInterview = (submission: OnboardingSubmission, interviewId: string) => {
+  const interview = submission.interviews?.find((entry) => entry.id === interviewId);
+  if (!interview) {
+    throw new Error("Interview not found");
+  }
+  return interview;
+};
+
+const replaceInterview = (submission: OnboardingSubmission, interview: OnboardingInterview): OnboardingSubmission => ({
+  ...submission,
+  interviews: (submission.interviews ?? []).map((entry) => (entry.id === interview.id ? interview : entry)),
+});
+
+export const cancelSubmissionInterview = async (
+  submissionId: string,
+  interviewId: string,
+  actor: { id: string; name?: string; email?: string },
+  reason?: string,
+): Promise<OnboardingSubmission> => {
+  const existing = await loadSubmissionForUpdate(submissionId);
+  const interview = findSubmissionInterview(existing, interviewId);
+  if (interview.status !== "scheduled") {
+    throw new Error("Only scheduled interviews can be cancelled");
+  }
 
-  filtered.sort((a, b) => {
-    const aDate = new Date(a.submittedAt).getTime();
-    const bDate = new Date(b.submittedAt).getTime();
-    return bDate - aDate;
+  await cancelFacilityBooking({ bookingId: interview.bookingId, reason: reason?.trim() || undefined, actor });
+  const now = new Date();
+  const next = replaceInterview(existing, {
+    ...interview,
+    status: "cancelled",
+    cancelledAt: now.toISOString(),
+    cancelReason: reason?.trim() || undefined,
   });
+  await writeSubmissionPayload(submissionId, next, now);
+  return next;
+};
 
-  const scoreValues = filtered.map((submission) => submission.score?.awarded ?? 0);
-  const scoreMin = scoreValues.length ? Math.min(...scoreValues) : 0;
-  const scoreMax = scoreValues.length ? Math.max(...scoreValues) : 0;
+export const saveInterviewScorecard = async (
+  submissionId: string,
+  interviewId: string,
+  program: OnboardingProgram,
+  interviewer: { id: string; name?: string },
+  input: OnboardingScorecardInput,
+): Promise<OnboardingSubmission> => {
+  const existing = await loadSubmissionForUpdate(submissionId);
+  const interview = findSubmissionInterview(existing, interviewId);
+  if (interview.status === "cancelled") {
+    throw new Error("Interview was cancelled");
+  }
+  if (!interview.panel.some((member) => member.reviewerId === interviewer.id)) {
+    throw new Error("Only panel members can score this interview");
+  }
+  const now = new Date();
+  if (new Date(interview.startTime).getTime() > now.getTime()) {
+    throw new Error("Interview has not taken place yet");
+  }
 
-  return {
-    entries: filtered,
-    total: filtered.length,
-    stageFieldId,
-    stageOptions,
-    scoreRange: {
-      min: scoreMin,
-      max: scoreMax,
-    },
-  };
+  const scorecard = buildRubricScorecard(
+    program,
+    interviewer,
+    input,
+    interview.scorecards?.find((entry) => entry.reviewerId === interviewer.id),
+    now.toISOString(),
+  );
+  const next = replaceInterview(existing, {
+    ...interview,
+    status: "completed",
+    completedAt: interview.completedAt ?? now.toISOString(),
+    scorecards: [
+      ...(interview.scorecards ?? []).filter((entry) => entry.reviewerId !== interviewer.id),
+      scorecard,
+    ],
+  });
+  await writeSubmissionPayload(submissionId, next, now);
+  return next;
 };
 
-const sanitizeFileName = (name: string) =>
-  name
-    .trim()
-    .replace(/\s+/g, "-")
-    .replace(/[^a-zA-Z0-9._-]/g, "")
-    .substring(0, 120) || "document";
+export const transitionSubmissionLifecycle = async (
+  submissionId: string,
+  program: OnboardingProgram,
+  actor: { id: string; name?: string },
+  input: OnboardingLifecycleTransitionInput,
+): Promise<OnboardingSubmission> => {
+  const lifecycle = getProgramLifecycle(program);
+  const target = findLifecycleState(lifecycle, input.to);
+  if (!target) {
+    throw new Error("Unknown lifecycle state");
+  }
 
-const ensureChecklistStatus = (status: string | undefined): OnboardingChecklistStatus => {
-  switch (status) {
-    case "in_progress":
-    case "complete":
-      return status;
-    default:
-      return "pending";
+  const existing = await loadSubmissionForUpdate(submissionId);
+  const from = submissionLifecycleState(existing, lifecycle);
+  if (from === target.id) {
+    throw new Error("Submission is already in that state");
+  }
+  if (!allowedLifecycleTransitions(lifecycle, from).some((state) => state.id === target.id)) {
+    throw new Error("Transition is not allowed from the current state");
   }
-};
 
-const normalizeChecklistItem = (item: Partial<OnboardingChecklistItem>): OnboardingChecklistItem => {
-  const now = new Date().toISOString();
-  return {
-    id: item.id ?? randomUUID(),
-    title: item.title?.trim() || "Onboarding task",
-    description: item.description?.trim() || undefined,
-    status: ensureChecklistStatus(item.status as OnboardingChecklistStatus),
-    dueDate: item.dueDate ?? undefined,
-    updatedAt: item.updatedAt ?? now,
-    completedAt: item.completedAt ?? undefined,
+  const now = new Date();
+  const next: OnboardingSubmission = {
+    ...existing,
+    lifecycleState: target.id,
+    lifecycleHistory: [
+      ...(existing.lifecycleHistory ?? []),
+      {
+        from,
+        to: target.id,
+        actorId: actor.id,
+        actorName: actor.name?.trim() || undefined,
+        at: now.toISOString(),
+        note: input.note?.trim() || undefined,
+      },
+    ],
   };
+  await writeSubmissionPayload(submissionId, next, now);
+  return next;
 };
 
-const normalizeChecklist = (startupId: string, checklist?: Partial<OnboardingChecklist>): OnboardingChecklist => {
-  const createdAt = checklist?.createdAt ?? new Date().toISOString();
-  const items = (checklist?.items ?? []).map(normalizeChecklistItem);
+const withoutDuplicateResolution = (submission: OnboardingSubmission, otherId: string): OnboardingSubmission => {
+  const resolutions = (submission.duplicateResolutions ?? []).filter(
+    (resolution) => resolution.submissionId !== otherId,
+  );
   return {
-    startupId,
-    createdAt,
-    updatedAt: checklist?.updatedAt ?? createdAt,
-    notes: checklist?.notes?.trim() || undefined,
-    items,
+    ...submission,
+    duplicateResolutions: resolutions.length ? resolutions : undefined,
+    mergedInto: submission.mergedInto === otherId ? undefined : submission.mergedInto,
   };
 };
 
-const checklistTemplate = (startupId: string): OnboardingChecklist => {
+// Merging always folds the later application into the earlier one, whichever side the reviewer acted from.
+export const resolveDuplicateFlag = async (
+  submissionId: string,
+  otherId: string,
+  action: OnboardingDuplicateResolution["action"],
+  reviewer: { id: string; name?: string },
+): Promise<OnboardingSubmission> => {
+  if (submissionId === otherId) {
+    throw new Error("A submission cannot duplicate itself");
+  }
+  const [existing, other] = await Promise.all([
+    loadSubmissionForUpdate(submissionId),
+    loadSubmissionForUpdate(otherId),
+  ]);
+  if ((existing.programId ?? DEFAULT_PROGRAM_ID) !== (other.programId ?? DEFAULT_PROGRAM_ID)) {
+    throw new Error("Duplicate submissions must belong to the same program");
+  }
+
   const now = new Date();
-  const iso = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
-  return normalizeChecklist(startupId, {
-    startupId,
-    createdAt: now.toISOString(),
-    updatedAt: now.toISOString(),
-    items: [
-      {
-        id: randomUUID(),
-        title: "Schedule onboarding kickoff call",
-        description: "Align with founders on expectations, milestones, and support structure.",
-        status: "pending",
-        dueDate: iso(3),
-        updatedAt: now.toISOString(),
-      },
-      {
-        id: randomUUID(),
-        title: "Upload incorporation documents",
-        description: "Certificate of incorporation and board resolution for incubator participation.",
-        status: "pending",
-        dueDate: iso(5),
-        updatedAt: now.toISOString(),
-      },
-      {
-        id: randomUUID(),
-        title: "Submit founders KYC",
-        description: "Government ID and address proof for all founders and key signatories.",
-        status: "pending",
-        dueDate: iso(7),
-        updatedAt: now.toISOString(),
-      },
-      {
-        id: randomUUID(),
-        title: "Share banking details",
-        description: "Provide cancelled cheque and bank account information for disbursements.",
-        status: "pending",
-        dueDate: iso(10),
-        updatedAt: now.toISOString(),
-      },
+  const base = withoutDuplicateResolution(existing, otherId);
+  let next: OnboardingSubmission = {
+    ...base,
+    duplicateResolutions: [
+      ...(base.duplicateResolutions ?? []),
       {
-        id: randomUUID(),
-        title: "Upload latest pitch deck",
-        description: "Ensure mentors and investors access the most recent narrative.",
-        status: "pending",
-        dueDate: iso(14),
-        updatedAt: now.toISOString(),
+        submissionId: otherId,
+        action,
+        resolvedBy: reviewer.id,
+        resolvedByName: reviewer.name?.trim() || undefined,
+        resolvedAt: now.toISOString(),
       },
     ],
+  };
+  let counterpart = withoutDuplicateResolution(other, submissionId);
+
+  if (action === "merged") {
+    const existingIsLater =
+      new Date(existing.submittedAt).getTime() >= new Date(other.submittedAt).getTime();
+    if (existingIsLater) {
+      if (next.panelDecision) {
+        throw new Error("Reopen the panel decision before merging this submission");
+      }
+      next = { ...next, mergedInto: otherId, assignments: undefined };
+    } else {
+      if (counterpart.panelDecision) {
+        throw new Error("Reopen the panel decision before merging this submission");
+      }
+      counterpart = { ...counterpart, mergedInto: submissionId, assignments: undefined };
+    }
+  }
+
+  await writeSubmissionPayload(submissionId, next, now);
+  await writeSubmissionPayload(otherId, counterpart, now);
+  return next;
+};
+
+export const clearDuplicateResolution = async (
+  submissionId: string,
+  otherId: string,
+): Promise<OnboardingSubmission> => {
+  const [existing, other] = await Promise.all([
+    loadSubmissionForUpdate(submissionId),
+    loadSubmissionForUpdate(otherId),
+  ]);
+  const now = new Date();
+  const next = withoutDuplicateResolution(existing, otherId);
+  await writeSubmissionPayload(submissionId, next, now);
+  await writeSubmissionPayload(otherId, withoutDuplicateResolution(other, submissionId), now);
+  return next;
+};
+
+const normaliseCommentMentions = async (program: OnboardingProgram, mentionIds: string[] | undefined) => {
+  const ids = Array.from(new Set((mentionIds ?? []).filter((id) => typeof id === "string" && id)));
+  if (!ids.length) {
+    return [];
+  }
+  const reviewerIds = new Set((await listProgramReviewers(program)).map((reviewer) => reviewer.id));
+  if (ids.some((id) => !reviewerIds.has(id))) {
+    throw new Error("Only program reviewers can be mentioned");
+  }
+  return ids;
+};
+
+export const addSubmissionComment = async (
+  submissionId: string,
+  program: OnboardingProgram,
+  actor: { id: string; name?: string },
+  input: OnboardingCommentInput,
+): Promise<OnboardingSubmission> => {
+  const body = typeof input.body === "string" ? input.body.trim() : "";
+  if (!body) {
+    throw new Error("Comment cannot be empty");
+  }
+  const mentions = await normaliseCommentMentions(program, input.mentionIds);
+  const commentId = randomUUID();
+
+  return updateSubmission(submissionId, async (existing, now) => {
+    const comments = existing.comments ?? [];
+    let parentId: string | undefined;
+    let fieldId = input.fieldId || undefined;
+    if (input.parentId) {
+      const parent = comments.find((comment) => comment.id === input.parentId);
+      if (!parent) {
+        throw new Error("Comment not found");
+      }
+      parentId = commentThreadId(parent);
+      fieldId = comments.find((comment) => comment.id === parentId)?.fieldId;
+    } else if (fieldId && !existing.responses.some((response) => response.fieldId === fieldId)) {
+      throw new Error("Unknown field");
+    }
+
+    return {
+      ...existing,
+      comments: [
+        ...comments,
+        {
+          id: commentId,
+          parentId,
+          fieldId,
+          body,
+          mentions,
+          authorId: actor.id,
+          authorName: actor.name?.trim() || undefined,
+          createdAt: now.toISOString(),
+        },
+      ],
+    };
   });
 };
 
-export const getOnboardingSubmissionDetail = async (
-  form: OnboardingForm,
+export const editSubmissionComment = async (
   submissionId: string,
-  userId: string,
-): Promise<OnboardingSubmissionSummary | null> => {
+  program: OnboardingProgram,
+  actorId: string,
+  commentId: string,
+  input: Pick<OnboardingCommentInput, "body" | "mentionIds">,
+): Promise<OnboardingSubmission> => {
+  const body = typeof input.body === "string" ? input.body.trim() : "";
+  if (!body) {
+    throw new Error("Comment cannot be empty");
+  }
+  const mentions = await normaliseCommentMentions(program, input.mentionIds);
+
+  return updateSubmission(submissionId, async (existing, now) => {
+    const comment = existing.comments?.find((entry) => entry.id === commentId);
+    if (!comment) {
+      throw new Error("Comment not found");
+    }
+    if (comment.authorId !== actorId) {
+      throw new Error("Only the author can edit a comment");
+    }
+    if (body === comment.body && mentions.join() === comment.mentions.join()) {
+      return null;
+    }
+
+    return {
+      ...existing,
+      comments: (existing.comments ?? []).map((entry) =>
+        entry.id === commentId
+          ? {
+              ...entry,
+              body,
+              mentions,
+              updatedAt: now.toISOString(),
+              edits: [
+                ...(entry.edits ?? []),
+                { body: entry.body, mentions: entry.mentions, editedAt: now.toISOString() },
+              ],
+            }
+          : entry,
+      ),
+    };
+  });
+};
+
+export const setCommentThreadResolved = async (
+  submissionId: string,
+  actor: { id: string; name?: string },
+  commentId: string,
+  resolved: boolean,
+): Promise<OnboardingSubmission> =>
+  updateSubmission(submissionId, async (existing, now) => {
+    const comment = existing.comments?.find((entry) => entry.id === commentId);
+    if (!comment) {
+      throw new Error("Comment not found");
+    }
+    const threadId = commentThreadId(comment);
+    return {
+      ...existing,
+      comments: (existing.comments ?? []).map((entry) => {
+        if (entry.id !== threadId) {
+          return entry;
+        }
+        if (!resolved) {
+          const { resolvedAt: _resolvedAt, resolvedBy: _resolvedBy, resolvedByName: _resolvedByName, ...open } = entry;
+          return open;
+        }
+        return {
+          ...entry,
+          resolvedBy: actor.id,
+          resolvedByName: actor.name?.trim() || undefined,
+          resolvedAt: now.toISOString(),
+        };
+      }),
+    };
+  });
+
+export const issueApplicantStatusToken = async (submissionId: string): Promise<string> => {
   const row = await prisma.onboardingSubmissionRecord.findUnique({
     where: { id: submissionId },
+    select: { id: true },
   });
+  if (!row) {
+    throw new Error("Submission not found");
+  }
+  const statusToken = generateStatusToken();
+  await prisma.onboardingSubmissionRecord.update({ where: { id: submissionId }, data: { statusToken } });
+  return statusToken;
+};
 
-  if (!row || row.userId !== userId) {
-    return null;
+export const shareApplicantFeedback = async (
+  submissionId: string,
+  actor: { id: string; name?: string },
+  message: string,
+): Promise<OnboardingSubmission> => {
+  const trimmed = message.trim();
+  if (!trimmed) {
+    throw new Error("Feedback message is required");
   }
+  const existing = await loadSubmissionForUpdate(submissionId);
+  const now = new Date();
+  const next: OnboardingSubmission = {
+    ...existing,
+    applicantFeedback: [
+      ...(existing.applicantFeedback ?? []),
+      {
+        id: randomUUID(),
+        message: trimmed,
+        sharedBy: actor.id,
+        sharedByName: actor.name?.trim() || undefined,
+        sharedAt: now.toISOString(),
+      },
+    ],
+  };
+  await writeSubmissionPayload(submissionId, next, now);
+  return next;
+};
 
-  const summaryContext = createSubmissionSummaryContext(form);
-  const record = submissionRecordToSubmission(row);
-  return summaryContext.summarize(record);
+export const withdrawApplicantFeedback = async (
+  submissionId: string,
+  feedbackId: string,
+): Promise<OnboardingSubmission> => {
+  const existing = await loadSubmissionForUpdate(submissionId);
+  const feedback = (existing.applicantFeedback ?? []).filter((entry) => entry.id !== feedbackId);
+  const next: OnboardingSubmission = { ...existing, applicantFeedback: feedback.length ? feedback : undefined };
+  await writeSubmissionPayload(submissionId, next, new Date());
+  return next;
 };
 
-export const setManualSubmissionScore = async (
+export const requestApplicantDocuments = async (
   submissionId: string,
-  reviewerId: string,
-  input: OnboardingSubmissionManualScoreInput,
+  actor: { id: string; name?: string },
+  input: OnboardingDocumentRequestInput,
 ): Promise<OnboardingSubmission> => {
-  const row = await prisma.onboardingSubmissionRecord.findUnique({
-    where: { id: submissionId },
-  });
+  const title = typeof input.title === "string" ? input.title.trim() : "";
+  if (!title) {
+    throw new Error("Document request needs a title");
+  }
+  const existing = await loadSubmissionForUpdate(submissionId);
+  const now = new Date();
+  const next: OnboardingSubmission = {
+    ...existing,
+    documentRequests: [
+      ...(existing.documentRequests ?? []),
+      {
+        id: randomUUID(),
+        title,
+        description: input.description?.trim() || undefined,
+        dueAt: normalizeIsoDate(input.dueAt),
+        status: "open",
+        requestedBy: actor.id,
+        requestedByName: actor.name?.trim() || undefined,
+        requestedAt: now.toISOString(),
+      },
+    ],
+  };
+  await writeSubmissionPayload(submissionId, next, now);
+  return next;
+};
+
+export const cancelDocumentRequest = async (
+  submissionId: string,
+  requestId: string,
+): Promise<OnboardingSubmission> => {
+  const existing = await loadSubmissionForUpdate(submissionId);
+  const request = existing.documentRequests?.find((entry) => entry.id === requestId);
+  if (!request) {
+    throw new Error("Document request not found");
+  }
+  if (request.status === "fulfilled") {
+    throw new Error("Fulfilled requests cannot be cancelled");
+  }
+  const next: OnboardingSubmission = {
+    ...existing,
+    documentRequests: (existing.documentRequests ?? []).map((entry) =>
+      entry.id === requestId ? { ...entry, status: "cancelled" } : entry,
+    ),
+  };
+  await writeSubmissionPayload(submissionId, next, new Date());
+  return next;
+};
+
+// The applicant view leaves out scores, reviewer identities and internal notes.
+const buildApplicantStatus = async (record: OnboardingSubmission): Promise<OnboardingApplicantStatus> => {
+  const [program, form] = await Promise.all([
+    getOnboardingProgram(record.programId ?? DEFAULT_PROGRAM_ID),
+    resolveSubmissionForm(record),
+  ]);
+  const lifecycle = getProgramLifecycle(program);
+  const stateId = submissionLifecycleState(record, lifecycle);
+  const state = findLifecycleState(lifecycle, stateId);
+  const history = [
+    { state: lifecycle.initialState, at: record.submittedAt },
+    ...(record.lifecycleHistory ?? []).map((transition) => ({ state: transition.to, at: transition.at })),
+  ].map((entry) => ({ ...entry, label: findLifecycleState(lifecycle, entry.state)?.label ?? entry.state }));
+
+  return {
+    submissionId: record.id,
+    programName: program?.name ?? "Onboarding",
+    companyName: summarizeOnboardingSubmission(form, record).companyName,
+    submittedAt: record.submittedAt,
+    stage: { id: stateId, label: state?.label ?? stateId, terminal: state?.terminal ?? false },
+    history,
+    decision: state?.terminal
+      ? { label: state.label, decidedAt: history[history.length - 1].at }
+      : undefined,
+    feedback: (record.applicantFeedback ?? []).map(({ id, message, sharedAt }) => ({ id, message, sharedAt })),
+    documentRequests: (record.documentRequests ?? [])
+      .filter((request) => request.status !== "cancelled")
+      .map(({ requestedBy: _requestedBy, requestedByName: _requestedByName, ...request }) => request),
+    interviews: (record.interviews ?? [])
+      .filter((interview) => interview.status !== "cancelled")
+      .map(({ id, startTime, endTime, resourceName, status }) => ({ id, startTime, endTime, resourceName, status })),
+  };
+};
+
+const loadSubmissionByStatusToken = async (statusToken: string): Promise<OnboardingSubmission | null> => {
+  const row = await prisma.onboardingSubmissionRecord.findUnique({ where: { statusToken } });
+  return row ? submissionRecordToSubmission(row) : null;
+};
+
+export const getApplicantStatus = async (statusToken: string): Promise<OnboardingApplicantStatus | null> => {
+  const record = await loadSubmissionByStatusToken(statusToken);
+  return record ? buildApplicantStatus(record) : null;
+};
+
+const submissionUploadPrefix = (submissionId: string) => `${UPLOADS_PREFIX}${submissionId}/`;
+
+export const getDocumentUploadPrefix = async (statusToken: string): Promise<string> => {
+  const existing = await loadSubmissionByStatusToken(statusToken);
+  if (!existing) {
+    throw new Error("Submission not found");
+  }
+  return submissionUploadPrefix(existing.id);
+};
+
+// Only files uploaded through this submission's status link can be attached, and they must exist in the bucket;
+// size and type are taken from the stored object rather than the request.
+const verifySubmissionUploads = async (
+  submissionId: string,
+  attachments: OnboardingAttachment[],
+): Promise<OnboardingAttachment[]> => {
+  const prefix = submissionUploadPrefix(submissionId);
+  return Promise.all(
+    attachments.map(async (attachment) => {
+      const key = attachment.key;
+      if (!key.startsWith(prefix) || key.includes("..")) {
+        throw new Error("Attachments must be uploaded for this application");
+      }
+      const head = await headUploadedObject(key);
+      if (!head) {
+        throw new Error("Uploaded file not found");
+      }
+      return enrichAttachment({
+        key,
+        name: head.Metadata?.originalname ?? (attachment.name || key.substring(key.lastIndexOf("/") + 1)),
+        size: Number(head.ContentLength ?? 0),
+        contentType: head.ContentType ?? "application/octet-stream",
+        sha256: head.Metadata?.sha256,
+      });
+    }),
+  );
+};
+
+export const fulfilDocumentRequest = async (
+  statusToken: string,
+  requestId: string,
+  attachments: OnboardingAttachment[],
+): Promise<OnboardingApplicantStatus> => {
+  const existing = await loadSubmissionByStatusToken(statusToken);
+  if (!existing) {
+    throw new Error("Submission not found");
+  }
+  const request = existing.documentRequests?.find((entry) => entry.id === requestId);
+  if (!request) {
+    throw new Error("Document request not found");
+  }
+  if (request.status !== "open") {
+    throw new Error("Document request is no longer open");
+  }
+  const files = attachments.filter((attachment) => typeof attachment?.key === "string" && attachment.key.length > 0);
+  if (!files.length) {
+    throw new Error("Attach at least one file");
+  }
+  const verified = await verifySubmissionUploads(existing.id, files);
+
+  const now = new Date();
+  const next: OnboardingSubmission = {
+    ...existing,
+    documentRequests: (existing.documentRequests ?? []).map((entry) =>
+      entry.id === requestId
+        ? {
+            ...entry,
+            status: "fulfilled",
+            attachments: verified,
+            fulfilledAt: now.toISOString(),
+          }
+        : entry,
+    ),
+  };
+  await writeSubmissionPayload(existing.id, next, now);
+  return buildApplicantStatus(next);
+};
 
-  if (!row) {
-    throw new Error("Submission not found");
-  }
+// Totals come from grouped counts; only submissions with open assignments are loaded, to split them by due date.
+export const getReviewerWorkload = async (program: OnboardingProgram): Promise<OnboardingReviewerWorkload[]> => {
+  const [candidates, assignedCounts, openCounts, conflictCounts, openRows] = await Promise.all([
+    listProgramReviewers(program),
+    countReviewerIds(program.id, "assigneeIds"),
+    countReviewerIds(program.id, "openAssigneeIds"),
+    countReviewerIds(program.id, "conflictReviewerIds"),
+    prisma.onboardingSubmissionRecord.findMany({
+      where: { AND: [programSubmissionWhere(program.id), { openAssigneeIds: { isEmpty: false } }] },
+    }),
+  ]);
+  const now = new Date();
+  const overdueCounts = new Map<string, number>();
+  const names = new Map<string, string>(candidates.map((candidate) => [candidate.id, candidate.name ?? candidate.email]));
+  openRows.map(submissionRecordToSubmission).forEach((submission) => {
+    submission.assignments?.forEach((assignment) => {
+      if (!names.has(assignment.reviewerId) && assignment.reviewerName) {
+        names.set(assignment.reviewerId, assignment.reviewerName);
+      }
+      if (reviewAssignmentStatus(assignment, submission, now) === "overdue") {
+        overdueCounts.set(assignment.reviewerId, (overdueCounts.get(assignment.reviewerId) ?? 0) + 1);
+      }
+    });
+  });
 
-  const existing = submissionRecordToSubmission(row);
-  const autoScore =
-    existing.scoreAuto ?? (existing.score && existing.score.source !== "manual" ? existing.score : undefined);
-  const baseline = existing.scoreManual ?? autoScore ?? existing.score;
+  const reviewerIds = new Set([...names.keys(), ...assignedCounts.keys(), ...conflictCounts.keys()]);
+  return Array.from(reviewerIds)
+    .map((reviewerId): OnboardingReviewerWorkload => {
+      const assigned = assignedCounts.get(reviewerId) ?? 0;
+      const open = openCounts.get(reviewerId) ?? 0;
+      const overdue = overdueCounts.get(reviewerId) ?? 0;
+      return {
+        reviewerId,
+        name: names.get(reviewerId) ?? reviewerId,
+        assigned,
+        pending: open - overdue,
+        completed: assigned - open,
+        overdue,
+        conflicts: conflictCounts.get(reviewerId) ?? 0,
+      };
+    })
+    .sort((a, b) => b.pending + b.overdue - (a.pending + a.overdue));
+};
 
-  const cleanTotalRaw =
-    input.total !== undefined ? ensureNumber(input.total) : baseline?.total ?? 0;
-  const cleanTotal = cleanTotalRaw !== undefined && cleanTotalRaw >= 0 ? cleanTotalRaw : 0;
-  const cleanAwardedRaw = ensureNumber(input.awarded);
-  const cleanAwarded = cleanAwardedRaw !== undefined && cleanAwardedRaw >= 0 ? cleanAwardedRaw : 0;
-  const percentageOverride =
-    input.percentage !== undefined ? ensureNumber(input.percentage) : undefined;
-  const percentage =
-    percentageOverride !== undefined && percentageOverride >= 0
-      ? Number(percentageOverride.toFixed(2))
-      : cleanTotal > 0
-        ? Number(((cleanAwarded / cleanTotal) * 100).toFixed(2))
-        : 0;
+const normaliseTemplateScope = (values: unknown): string[] =>
+  Array.isArray(values)
+    ? Array.from(
+        new Set(
+          values
+            .filter((value): value is string => typeof value === "string")
+            .map((value) => value.trim())
+            .filter((value) => value.length > 0),
+        ),
+      )
+    : [];
 
-  const breakdown = input.breakdown ?? baseline?.breakdown ?? [];
-  const nowIso = new Date().toISOString();
+const normaliseChecklistTemplateItems = (
+  items: Array<Partial<OnboardingChecklistTemplateItem>> | undefined,
+): OnboardingChecklistTemplateItem[] => {
+  const seen = new Set<string>();
+  return (items ?? [])
+    .map((item) => {
+      const offset = ensureNumber(item.dueOffsetDays);
+      return {
+        id: item.id?.trim() || randomUUID(),
+        title: item.title?.trim() ?? "",
+        description: item.description?.trim() || undefined,
+        dueOffsetDays: offset !== undefined ? Math.max(0, Math.round(offset)) : undefined,
+      };
+    })
+    .filter((item) => {
+      if (!item.title.length || seen.has(item.id)) return false;
+      seen.add(item.id);
+      return true;
+    });
+};
 
-  const manualScore: OnboardingSubmissionScore = {
-    total: cleanTotal,
-    awarded: cleanAwarded,
-    percentage,
-    status: input.status,
-    thresholdAdvance: baseline?.thresholdAdvance,
-    thresholdReject: baseline?.thresholdReject,
-    breakdown,
-    source: "manual",
-    updatedAt: nowIso,
-    updatedBy: reviewerId,
-    note: input.note?.trim() || undefined,
+const checklistTemplateRowToTemplate = (row: {
+  id: string;
+  payload: Prisma.JsonValue;
+  createdAt: Date;
+  updatedAt: Date;
+}): OnboardingChecklistTemplate => {
+  const payload = (row.payload as Partial<OnboardingChecklistTemplate> | null) ?? {};
+  return {
+    id: row.id,
+    name: payload.name?.trim() || "Untitled template",
+    description: payload.description?.trim() || undefined,
+    programIds: normaliseTemplateScope(payload.programIds),
+    stages: normaliseTemplateScope(payload.stages),
+    cohorts: normaliseTemplateScope(payload.cohorts),
+    isDefault: payload.isDefault === true,
+    items: normaliseChecklistTemplateItems(payload.items),
+    version: ensureNumber(payload.version) ?? 1,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
   };
+};
 
-  const next: OnboardingSubmission = {
-    ...existing,
-    score: manualScore,
-    scoreManual: manualScore,
-    scoreAuto: autoScore,
+const checklistTemplateToPayload = (template: OnboardingChecklistTemplate) =>
+  ({
+    name: template.name,
+    description: template.description,
+    programIds: template.programIds,
+    stages: template.stages,
+    cohorts: template.cohorts,
+    isDefault: template.isDefault,
+    items: template.items,
+    version: template.version,
+  }) as unknown as Prisma.JsonObject;
+
+const applyChecklistTemplateInput = (
+  template: OnboardingChecklistTemplate,
+  input: OnboardingChecklistTemplateInput,
+): OnboardingChecklistTemplate => {
+  const next: OnboardingChecklistTemplate = {
+    ...template,
+    name: input.name !== undefined ? input.name.trim() : template.name,
+    description:
+      input.description !== undefined ? input.description?.trim() || undefined : template.description,
+    programIds: input.programIds !== undefined ? normaliseTemplateScope(input.programIds) : template.programIds,
+    stages: input.stages !== undefined ? normaliseTemplateScope(input.stages) : template.stages,
+    cohorts: input.cohorts !== undefined ? normaliseTemplateScope(input.cohorts) : template.cohorts,
+    isDefault: input.isDefault ?? template.isDefault,
+    items: input.items !== undefined ? normaliseChecklistTemplateItems(input.items) : template.items,
   };
-
-  const payload = { ...next } as Record<string, unknown>;
-  if (!payload.scoreAuto) {
-    delete payload.scoreAuto;
+  if (!next.name.length) {
+    throw new Error("Template name is required");
   }
-  if (!payload.scoreManual) {
-    delete payload.scoreManual;
+  if (!next.items.length) {
+    throw new Error("Template needs at least one item");
   }
-  if (!payload.score) {
-    delete payload.score;
+  return next;
+};
+
+// Only one stored template can be the default at a time.
+const clearOtherDefaultTemplates = async (templateId: string) => {
+  const rows = await prisma.onboardingChecklistTemplateRecord.findMany();
+  const others = rows
+    .map(checklistTemplateRowToTemplate)
+    .filter((template) => template.id !== templateId && template.isDefault);
+  for (const template of others) {
+    await prisma.onboardingChecklistTemplateRecord.update({
+      where: { id: template.id },
+      data: { payload: checklistTemplateToPayload({ ...template, isDefault: false }) },
+    });
   }
+};
 
-  await prisma.onboardingSubmissionRecord.update({
-    where: { id: submissionId },
-    data: {
-      payload: payload as unknown as Prisma.JsonObject,
-      updatedAt: new Date(nowIso),
-    },
-  });
+export const listChecklistTemplates = async (): Promise<OnboardingChecklistTemplate[]> => {
+  const rows = await prisma.onboardingChecklistTemplateRecord.findMany({ orderBy: { createdAt: "asc" } });
+  return rows.map(checklistTemplateRowToTemplate);
+};
 
-  return next;
+const getChecklistTemplate = async (templateId: string): Promise<OnboardingChecklistTemplate> => {
+  const row = await prisma.onboardingChecklistTemplateRecord.findUnique({ where: { id: templateId } });
+  if (!row) {
+    throw new Error("Checklist template not found");
+  }
+  return checklistTemplateRowToTemplate(row);
 };
 
-export const clearManualSubmissionScore = async (
-  submissionId: string,
-): Promise<OnboardingSubmission> => {
-  const row = await prisma.onboardingSubmissionRecord.findUnique({
-    where: { id: submissionId },
+export const createChecklistTemplate = async (
+  input: OnboardingChecklistTemplateInput,
+): Promise<OnboardingChecklistTemplate> => {
+  const now = new Date().toISOString();
+  const template = applyChecklistTemplateInput(
+    {
+      id: randomUUID(),
+      name: "",
+      programIds: [],
+      stages: [],
+      cohorts: [],
+      isDefault: false,
+      items: [],
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    },
+    input,
+  );
+  const row = await prisma.onboardingChecklistTemplateRecord.create({
+    data: { id: template.id, payload: checklistTemplateToPayload(template) },
   });
+  if (template.isDefault) {
+    await clearOtherDefaultTemplates(template.id);
+  }
+  return checklistTemplateRowToTemplate(row);
+};
 
-  if (!row) {
-    throw new Error("Submission not found");
+export const updateChecklistTemplate = async (
+  templateId: string,
+  input: OnboardingChecklistTemplateInput,
+): Promise<OnboardingChecklistTemplate> => {
+  const current = await getChecklistTemplate(templateId);
+  const next = applyChecklistTemplateInput(current, input);
+  const row = await prisma.onboardingChecklistTemplateRecord.update({
+    where: { id: templateId },
+    data: { payload: checklistTemplateToPayload({ ...next, version: current.version + 1 }) },
+  });
+  if (next.isDefault && !current.isDefault) {
+    await clearOtherDefaultTemplates(templateId);
   }
+  return checklistTemplateRowToTemplate(row);
+};
 
-  const existing = submissionRecordToSubmission(row);
-  const autoScore =
-    existing.scoreAuto ?? (existing.score && existing.score.source !== "manual" ? existing.score : undefined);
+// Checklists already created from the template keep working; they just stop receiving its updates.
+export const deleteChecklistTemplate = async (templateId: string): Promise<void> => {
+  await getChecklistTemplate(templateId);
+  await prisma.onboardingChecklistTemplateRecord.delete({ where: { id: templateId } });
+};
 
-  const next: OnboardingSubmission = {
-    ...existing,
-    score: autoScore,
-    scoreManual: undefined,
-    scoreAuto: autoScore,
+const checklistTemplateContext = async (startupId: string): Promise<OnboardingChecklistTemplateContext> => {
+  const [submission, alumni] = await Promise.all([
+    prisma.onboardingSubmissionRecord.findUnique({
+      where: { id: startupId },
+      select: { programId: true, stage: true },
+    }),
+    prisma.onboardingAlumniRecordStorage.findUnique({ where: { startupId }, select: { payload: true } }),
+  ]);
+  return {
+    programId: submission ? submission.programId ?? DEFAULT_PROGRAM_ID : undefined,
+    stage: submission?.stage ?? undefined,
+    cohort: (alumni?.payload as Partial<OnboardingAlumniRecord> | null)?.cohort?.trim() || undefined,
   };
+};
 
-  const payload = { ...next } as Record<string, unknown>;
-  if (!payload.scoreManual) {
-    delete payload.scoreManual;
-  }
-  if (!payload.scoreAuto) {
-    delete payload.scoreAuto;
-  }
-  if (!payload.score) {
-    delete payload.score;
+const resolveStartupChecklistTemplate = async (startupId: string): Promise<OnboardingChecklistTemplate> =>
+  resolveChecklistTemplate(await listChecklistTemplates(), await checklistTemplateContext(startupId));
+
+const checklistFromTemplate = (
+  startupId: string,
+  template: OnboardingChecklistTemplate,
+  anchorAt: string,
+): OnboardingChecklist =>
+  mergeChecklistTemplate(
+    normalizeChecklist(startupId, { startupId, createdAt: anchorAt, updatedAt: anchorAt, anchorAt, items: [] }),
+    template,
+    anchorAt,
+  );
+
+const CHECKLIST_MERGE_ATTEMPTS = 3;
+
+// Merges the template into the stored checklist with a write conditional on updatedAt, re-reading and retrying
+// when the checklist was saved in between. Returns null when the startup has no checklist yet, or when it no
+// longer follows the given templateId.
+const remergeChecklist = async (
+  startupId: string,
+  template: OnboardingChecklistTemplate,
+  { anchorAt, templateId }: { anchorAt?: string; templateId?: string } = {},
+): Promise<OnboardingChecklist | null> => {
+  for (let attempt = 0; attempt < CHECKLIST_MERGE_ATTEMPTS; attempt += 1) {
+    const record = await prisma.onboardingChecklistRecord.findUnique({ where: { startupId } });
+    if (!record) {
+      return null;
+    }
+    const checklist = normalizeChecklist(startupId, record.payload as OnboardingChecklist);
+    if (templateId && checklist.templateId !== templateId) {
+      return null;
+    }
+    const merged = mergeChecklistTemplate(
+      anchorAt ? { ...checklist, anchorAt } : checklist,
+      template,
+      new Date().toISOString(),
+    );
+    const saved = await prisma.onboardingChecklistRecord.updateMany({
+      where: { startupId, updatedAt: record.updatedAt },
+      data: { payload: merged as unknown as Prisma.JsonObject },
+    });
+    if (saved.count) {
+      return merged;
+    }
   }
+  throw new Error("Checklist was updated while the template was being applied");
+};
 
-  await prisma.onboardingSubmissionRecord.update({
-    where: { id: submissionId },
-    data: {
-      payload: payload as unknown as Prisma.JsonObject,
-      updatedAt: new Date(),
-    },
+// Pushes the current template to every checklist created from it and returns how many were updated.
+export const syncChecklistTemplate = async (templateId: string): Promise<number> => {
+  const template = await getChecklistTemplate(templateId);
+  const rows = await prisma.onboardingChecklistRecord.findMany({
+    where: { payload: { path: ["templateId"], equals: templateId } },
+    select: { startupId: true },
   });
-
-  return next;
+  let updated = 0;
+  for (const row of rows) {
+    if (await remergeChecklist(row.startupId, template, { templateId })) {
+      updated += 1;
+    }
+  }
+  return updated;
 };
 
+export const listChecklistAssignees = async (startupId: string): Promise<OnboardingChecklistAssignee[]> =>
+  (await listUserProfiles())
+    .filter((user) => user.isActive && (user.startupIds.includes(startupId) || canReviewOnboarding(user)))
+    .map((user) => ({
+      kind: user.startupIds.includes(startupId) ? ("founder" as const) : ("staff" as const),
+      userId: user.id,
+      name: user.name ?? user.email,
+    }))
+    .sort((a, b) => a.kind.localeCompare(b.kind) || (a.name ?? "").localeCompare(b.name ?? ""));
+
 export const getOnboardingChecklist = async (
   startupId: string,
 ): Promise<OnboardingChecklist> => {
@@ -1052,7 +4788,11 @@ export const getOnboardingChecklist = async (
   });
 
   if (!record) {
-    const template = checklistTemplate(startupId);
+    const template = checklistFromTemplate(
+      startupId,
+      await resolveStartupChecklistTemplate(startupId),
+      new Date().toISOString(),
+    );
     await prisma.onboardingChecklistRecord.create({
       data: {
         startupId,
@@ -1067,16 +4807,74 @@ export const getOnboardingChecklist = async (
   return normalizeChecklist(startupId, record.payload as OnboardingChecklist);
 };
 
+// Admission re-applies the template now that the cohort is known and dates its items from the admission,
+// replacing the anchor of a checklist that was opened before the startup was admitted.
+const anchorOnboardingChecklist = async (startupId: string, anchorAt: string): Promise<OnboardingChecklist> => {
+  const template = await resolveStartupChecklistTemplate(startupId);
+  const merged = await remergeChecklist(startupId, template, { anchorAt });
+  if (merged) {
+    return merged;
+  }
+  const created = checklistFromTemplate(startupId, template, anchorAt);
+  try {
+    await prisma.onboardingChecklistRecord.create({
+      data: {
+        startupId,
+        payload: created as unknown as Prisma.JsonObject,
+        createdAt: new Date(created.createdAt),
+        updatedAt: new Date(created.updatedAt),
+      },
+    });
+    return created;
+  } catch (error) {
+    if (!isUniqueConstraintError(error)) {
+      throw error;
+    }
+    return (await remergeChecklist(startupId, template, { anchorAt })) ?? created;
+  }
+};
+
+// Refuses dependency cycles and items newly marked complete while blocked or missing evidence. Without
+// canEditRequirements the stored evidence, blockers and template anchoring are kept.
 export const saveOnboardingChecklist = async (
   startupId: string,
   checklist: OnboardingChecklist,
+  options: { canEditRequirements?: boolean } = {},
 ): Promise<OnboardingChecklist> => {
-  const normalized = normalizeChecklist(startupId, {
+  const submitted = normalizeChecklist(startupId, {
     ...checklist,
     startupId,
     updatedAt: new Date().toISOString(),
   });
 
+  const [previous, documents] = await Promise.all([
+    prisma.onboardingChecklistRecord.findUnique({ where: { startupId } }),
+    prisma.onboardingDocumentRecord.findMany({ where: { startupId }, select: { key: true } }),
+  ]);
+  const previousChecklist = previous
+    ? normalizeChecklist(startupId, previous.payload as OnboardingChecklist)
+    : undefined;
+  const normalized = options.canEditRequirements
+    ? submitted
+    : preserveChecklistRequirements(submitted, previousChecklist);
+
+  if (checklistHasDependencyCycle(normalized.items)) {
+    throw new Error("Checklist dependencies cannot form a cycle");
+  }
+  const itemIds = new Set(normalized.items.map((item) => item.id));
+  if (normalized.items.some((item) => item.blockedBy?.some((itemId) => !itemIds.has(itemId)))) {
+    throw new Error("Only staff can remove items that other items depend on");
+  }
+
+  const completionError = checklistCompletionError(
+    normalized.items,
+    previousChecklist?.items ?? [],
+    new Set(documents.map((document) => document.key)),
+  );
+  if (completionError) {
+    throw new Error(completionError);
+  }
+
   await prisma.onboardingChecklistRecord.upsert({
     where: { startupId },
     update: {
@@ -1219,6 +5017,8 @@ const normalizeMilestone = (
   };
 };
 
+const MILESTONE_NOTIFICATION_HISTORY = 200;
+
 type RawMilestonePlan = Partial<Omit<OnboardingMilestonePlan, "milestones" | "logs">> & {
   milestones?: Array<Partial<OnboardingMilestone>>;
   logs?: Array<Partial<OnboardingMilestoneLog>>;
@@ -1250,11 +5050,17 @@ const normalizeMilestonePlan = (
     .filter((entry) => milestones.some((milestone) => milestone.id === entry.milestoneId))
     .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
+  const notifications = (plan?.notifications ?? [])
+    .filter((entry) => milestones.some((milestone) => milestone.id === entry.milestoneId))
+    .sort((a, b) => new Date(b.sentAt).getTime() - new Date(a.sentAt).getTime())
+    .slice(0, MILESTONE_NOTIFICATION_HISTORY);
+
   return {
     startupId,
     updatedAt: plan?.updatedAt ?? new Date().toISOString(),
     milestones,
     logs,
+    notifications,
   };
 };
 
@@ -1311,94 +5117,6 @@ const milestoneTemplate = (startupId: string): OnboardingMilestonePlan => {
   });
 };
 
-const computeMilestoneSignals = (
-  milestone: OnboardingMilestone,
-): OnboardingMilestoneSignals => {
-  const now = Date.now();
-  let dueInDays: number | undefined;
-  let overdueByDays: number | undefined;
-  let isOverdue = false;
-
-  if (milestone.dueDate) {
-    const dueTime = new Date(milestone.dueDate).getTime();
-    if (!Number.isNaN(dueTime)) {
-      const diffDays = (dueTime - now) / MILLISECONDS_IN_DAY;
-      if (diffDays >= 0) {
-        dueInDays = Math.floor(diffDays);
-      } else {
-        overdueByDays = Math.abs(Math.floor(diffDays));
-        isOverdue = overdueByDays > 0;
-      }
-    }
-  }
-
-  const cadenceDays = milestone.reminderCadenceDays ?? 7;
-  const leadDays = milestone.reminderLeadDays ?? 2;
-  const escalationAfter = milestone.escalationAfterDays ?? 3;
-
-  const lastReminderAt = milestone.lastReminderAt
-    ? new Date(milestone.lastReminderAt).getTime()
-    : undefined;
-  const lastEscalationAt = milestone.lastEscalationAt
-    ? new Date(milestone.lastEscalationAt).getTime()
-    : undefined;
-
-  let needsReminder = false;
-  if (milestone.status !== "completed") {
-    if (overdueByDays !== undefined) {
-      if (!lastReminderAt || now - lastReminderAt >= cadenceDays * MILLISECONDS_IN_DAY) {
-        needsReminder = true;
-      }
-    } else if (dueInDays !== undefined && dueInDays <= leadDays) {
-      if (!lastReminderAt || now - lastReminderAt >= leadDays * MILLISECONDS_IN_DAY) {
-        needsReminder = true;
-      }
-    } else if (!milestone.dueDate && !lastReminderAt) {
-      needsReminder = true;
-    }
-  }
-
-  const nextReminderAt = milestone.status === "completed"
-    ? undefined
-    : lastReminderAt
-    ? new Date(lastReminderAt + cadenceDays * MILLISECONDS_IN_DAY).toISOString()
-    : milestone.dueDate
-    ? new Date(new Date(milestone.dueDate).getTime() - leadDays * MILLISECONDS_IN_DAY).toISOString()
-    : undefined;
-
-  let needsEscalation = false;
-  if (
-    milestone.status !== "completed" &&
-    overdueByDays !== undefined &&
-    overdueByDays >= escalationAfter &&
-    milestone.escalateTo
-  ) {
-    if (!lastEscalationAt || now - lastEscalationAt >= escalationAfter * MILLISECONDS_IN_DAY) {
-      needsEscalation = true;
-    }
-  }
-
-  const summaryParts: string[] = [];
-  if (dueInDays !== undefined) {
-    summaryParts.push(`Due in ${dueInDays} day${dueInDays === 1 ? "" : "s"}`);
-  }
-  if (overdueByDays !== undefined) {
-    summaryParts.push(`Overdue by ${overdueByDays} day${overdueByDays === 1 ? "" : "s"}`);
-  }
-  summaryParts.push(`${milestone.progress}% complete`);
-
-  return {
-    needsReminder,
-    needsEscalation,
-    dueInDays,
-    overdueByDays,
-    nextReminderAt,
-    escalationTarget: milestone.escalateTo,
-    isOverdue,
-    summary: summaryParts.filter(Boolean).join(" · ") || undefined,
-  };
-};
-
 const buildMilestoneSnapshot = (
   plan: OnboardingMilestonePlan,
 ): OnboardingMilestonePlanSnapshot => ({
@@ -1409,6 +5127,7 @@ const buildMilestoneSnapshot = (
     signals: computeMilestoneSignals(milestone),
   })),
   logs: plan.logs,
+  notifications: plan.notifications ?? [],
 });
 
 const getMilestonePlanInternal = async (
@@ -1689,6 +5408,152 @@ export const deleteOnboardingMilestone = async (
   return buildMilestoneSnapshot(stored);
 };
 
+const MILESTONE_NOTIFICATION_AUTHOR = "Milestone notifications";
+const MILESTONE_PLAN_SAVE_ATTEMPTS = 3;
+
+// A run first claims everything it is about to send by stamping lastReminderAt/lastEscalationAt, conditional on the
+// plan row being unchanged since it was read, so overlapping runs never send the same notice twice. Sends that fail
+// release their claim so the next run retries them.
+export const dispatchMilestoneNotifications = async (
+  options: { transport?: MailTransport; now?: Date; dryRun?: boolean } = {},
+): Promise<OnboardingMilestoneDispatchResult> => {
+  const transport = options.transport ?? getMailTransport();
+  const now = options.now ?? new Date();
+  const nowIso = now.toISOString();
+
+  const records = await prisma.onboardingMilestonePlanRecord.findMany({
+    select: { startupId: true, payload: true, updatedAt: true },
+  });
+  const result: OnboardingMilestoneDispatchResult = {
+    scannedPlans: records.length,
+    sent: 0,
+    failed: 0,
+    skipped: 0,
+    notifications: [],
+  };
+  if (!records.length) {
+    return result;
+  }
+
+  const [users, submissions] = await Promise.all([
+    listUserProfiles(),
+    prisma.onboardingSubmissionRecord.findMany({
+      where: { id: { in: records.map((record) => record.startupId) } },
+      select: { id: true, companyName: true },
+    }),
+  ]);
+
+  for (const record of records) {
+    const { startupId } = record;
+    const plan = normalizeMilestonePlan(startupId, record.payload as RawMilestonePlan);
+    const companyName =
+      submissions.find((submission) => submission.id === startupId)?.companyName?.trim() || "your startup";
+
+    const { pending, skipped } = collectMilestoneNotifications(plan, companyName, users, now);
+    result.skipped += skipped;
+
+    if (!pending.length) {
+      continue;
+    }
+
+    if (options.dryRun) {
+      pending.forEach((entry) => {
+        result.notifications.push({
+          id: randomUUID(),
+          startupId,
+          milestoneId: entry.milestoneId,
+          kind: entry.kind,
+          recipients: entry.recipients,
+          subject: entry.subject,
+          sentAt: nowIso,
+        });
+      });
+      continue;
+    }
+
+    pending.forEach((entry) => {
+      const milestone = plan.milestones.find((item) => item.id === entry.milestoneId)!;
+      if (entry.kind === "reminder") {
+        milestone.lastReminderAt = nowIso;
+      } else {
+        milestone.lastEscalationAt = nowIso;
+      }
+    });
+    const claimed = await prisma.onboardingMilestonePlanRecord.updateMany({
+      where: { startupId, updatedAt: record.updatedAt },
+      data: { payload: plan as unknown as Prisma.JsonObject },
+    });
+    if (!claimed.count) {
+      result.skipped += pending.length;
+      continue;
+    }
+
+    const notifications = await sendMilestoneNotifications(transport, startupId, pending, nowIso);
+    notifications.forEach((notification) => {
+      if (notification.error) {
+        result.failed += 1;
+      } else {
+        result.sent += 1;
+      }
+      result.notifications.push({ ...notification, startupId });
+    });
+
+    // Sending can take a while, so the outcome is recorded on a fresh copy of the plan with a conditional write.
+    for (let attempt = 1; attempt <= MILESTONE_PLAN_SAVE_ATTEMPTS; attempt += 1) {
+      const stored = await prisma.onboardingMilestonePlanRecord.findUnique({ where: { startupId } });
+      if (!stored) {
+        break;
+      }
+      const latest = normalizeMilestonePlan(startupId, stored.payload as RawMilestonePlan);
+      notifications.forEach((notification) => {
+        const milestone = latest.milestones.find((item) => item.id === notification.milestoneId);
+        if (!milestone) {
+          return;
+        }
+        if (notification.error) {
+          const previousSentAt = pending.find(
+            (entry) => entry.milestoneId === notification.milestoneId && entry.kind === notification.kind,
+          )?.previousSentAt;
+          if (notification.kind === "reminder" && milestone.lastReminderAt === nowIso) {
+            milestone.lastReminderAt = previousSentAt;
+          } else if (notification.kind === "escalation" && milestone.lastEscalationAt === nowIso) {
+            milestone.lastEscalationAt = previousSentAt;
+          }
+          return;
+        }
+        const log = normalizeMilestoneLog(
+          {
+            milestoneId: milestone.id,
+            timestamp: nowIso,
+            author: MILESTONE_NOTIFICATION_AUTHOR,
+            note: `${notification.kind === "reminder" ? "Reminder" : "Escalation"} sent to ${notification.recipients.join(", ")}`,
+          },
+          milestone.id,
+        );
+        if (log) {
+          latest.logs.unshift(log);
+        }
+      });
+      latest.notifications = [...notifications, ...(latest.notifications ?? [])].slice(
+        0,
+        MILESTONE_NOTIFICATION_HISTORY,
+      );
+      const saved = await prisma.onboardingMilestonePlanRecord.updateMany({
+        where: { startupId, updatedAt: stored.updatedAt },
+        data: { payload: normalizeMilestonePlan(startupId, latest) as unknown as Prisma.JsonObject },
+      });
+      if (saved.count) {
+        break;
+      }
+      if (attempt === MILESTONE_PLAN_SAVE_ATTEMPTS) {
+        console.error(`Recording milestone notifications for startup ${startupId} failed: the plan kept changing`);
+      }
+    }
+  }
+
+  return result;
+};
+
 const CHECKIN_SOON_WINDOW_DAYS = 7;
 const DEFAULT_CHECKIN_GAP_DAYS = 60;
 
@@ -2154,6 +6019,154 @@ export const appendOnboardingAlumniTouchpoint = async (
   return buildAlumniSnapshot(stored);
 };
 
+const FOUNDER_PERMISSIONS: AppPermission[] = ["onboarding:view_self", "grants:view_self"];
+
+const defaultWelcomeMessage = (program: OnboardingProgram, cohort: string) =>
+  `Welcome to ${program.name}! You have been admitted to the ${cohort} cohort. ` +
+  "Sign in with this email address to find your onboarding checklist and milestone plan.";
+
+// A failed send is recorded on the admission instead of undoing it; the notice also stays on the status page.
+const sendWelcomeEmail = async (
+  email: string,
+  program: OnboardingProgram,
+  message: string,
+  sentAt: string,
+): Promise<OnboardingAdmissionEmail> => {
+  try {
+    const receipt = await getMailTransport().send({
+      to: [email],
+      subject: `Welcome to ${program.name}`,
+      text: message,
+    });
+    return { sentAt, messageId: receipt.messageId };
+  } catch (error) {
+    console.error(`Welcome email to ${email} for ${program.id} failed`, error);
+    return { sentAt, error: error instanceof Error ? error.message : "Unable to send welcome email" };
+  }
+};
+
+// Permissions and startup links are merged into an existing account so admitting never narrows a user's access.
+// Staff accounts are refused so a founder email can never hand someone a staff login.
+const provisionFounder = async (email: string, name: string | undefined, startupId: string) => {
+  const existingUser = await getUserByEmail(email);
+  const existing = existingUser ? await getUserProfile(existingUser.id) : null;
+  if (existing && (canReviewOnboarding(existing) || canConfigureOnboarding(existing) || canManageUsers(existing))) {
+    throw new Error("Founder email belongs to a staff account");
+  }
+  const founder = await upsertUserProfile({
+    email,
+    name: existing?.name ? undefined : name,
+    role: existing?.role ?? "incubatee",
+    permissions: Array.from(new Set([...(existing?.permissions ?? []), ...FOUNDER_PERMISSIONS])),
+    startupIds: Array.from(new Set([...(existing?.startupIds ?? []), startupId])),
+  });
+  return { founder, invited: !existing };
+};
+
+// Accepts the submission if it is not already accepted, provisions the founder account and the startup workspace,
+// then emails the welcome notice to the founder. The admission is recorded last so a failed step can be retried.
+export const admitStartup = async (
+  submissionId: string,
+  program: OnboardingProgram,
+  actor: { id: string; name?: string },
+  input: OnboardingAdmissionInput,
+): Promise<OnboardingSubmission> => {
+  const cohort = input.cohort.trim();
+  if (!cohort) {
+    throw new Error("Cohort is required");
+  }
+
+  const existing = await loadSubmissionForUpdate(submissionId);
+  if (existing.admission) {
+    throw new Error("Startup has already been admitted");
+  }
+
+  const lifecycle = getProgramLifecycle(program);
+  const from = submissionLifecycleState(existing, lifecycle);
+  if (
+    from !== ACCEPTED_LIFECYCLE_STATE &&
+    !allowedLifecycleTransitions(lifecycle, from).some((state) => state.id === ACCEPTED_LIFECYCLE_STATE)
+  ) {
+    throw new Error("Submission cannot be accepted from its current state");
+  }
+
+  const summary = summarizeOnboardingSubmission(await resolveSubmissionForm(existing), existing);
+  // The founder email is always confirmed by the admin; the form's email answers are never trusted on their own.
+  const founderEmail = input.founderEmail.trim().toLowerCase();
+  if (!founderEmail) {
+    throw new Error("Founder email is required");
+  }
+  if (!EMAIL_PATTERN.test(founderEmail)) {
+    throw new Error("Founder email is invalid");
+  }
+
+  const { founder, invited } = await provisionFounder(
+    founderEmail,
+    input.founderName?.trim() || summary.companyName,
+    submissionId,
+  );
+
+  const alumni = await getAlumniRecordInternal(submissionId);
+  const now = new Date();
+  await saveAlumniRecord(submissionId, {
+    ...alumni,
+    status: "in_program",
+    cohort,
+    programStartAt: normalizeIsoDate(input.programStartAt) ?? alumni.programStartAt ?? now.toISOString(),
+    updatedAt: now.toISOString(),
+  });
+  await anchorOnboardingChecklist(submissionId, now.toISOString());
+  await getMilestonePlanInternal(submissionId);
+
+  const welcomeMessage = input.welcomeMessage?.trim() || defaultWelcomeMessage(program, cohort);
+  const welcomeEmail = await sendWelcomeEmail(founderEmail, program, welcomeMessage, now.toISOString());
+
+  const actorName = actor.name?.trim() || undefined;
+  const next: OnboardingSubmission = {
+    ...existing,
+    lifecycleState: ACCEPTED_LIFECYCLE_STATE,
+    lifecycleHistory:
+      from === ACCEPTED_LIFECYCLE_STATE
+        ? existing.lifecycleHistory
+        : [
+            ...(existing.lifecycleHistory ?? []),
+            {
+              from,
+              to: ACCEPTED_LIFECYCLE_STATE,
+              actorId: actor.id,
+              actorName,
+              at: now.toISOString(),
+              note: `Admitted to the ${cohort} cohort`,
+            },
+          ],
+    applicantFeedback: [
+      ...(existing.applicantFeedback ?? []),
+      {
+        id: randomUUID(),
+        message: welcomeMessage,
+        sharedBy: actor.id,
+        sharedByName: actorName,
+        sharedAt: now.toISOString(),
+      },
+    ],
+    admission: {
+      cohort,
+      founderUserId: founder.id,
+      founderEmail,
+      invited,
+      admittedBy: actor.id,
+      admittedByName: actorName,
+      admittedAt: now.toISOString(),
+      welcomeEmail,
+    },
+  };
+  await writeSubmissionPayload(submissionId, next, now);
+  if (!existing.statusToken) {
+    next.statusToken = await issueApplicantStatusToken(submissionId);
+  }
+  return next;
+};
+
 const GRANT_DEADLINE_SOON_DAYS = 14;
 
 const ensureGrantStatus = (
@@ -2872,6 +6885,18 @@ export const uploadOnboardingDocument = async (
   );
 };
 
+export const enrichResponse = (response: OnboardingFieldResponse): OnboardingFieldResponse => ({
+  fieldId: response.fieldId,
+  value: response.value ?? null,
+  attachments: response.attachments?.map(enrichAttachment),
+  entries: Array.isArray(response.entries)
+    ? response.entries.map((entry) => ({
+        id: entry?.id || randomUUID(),
+        responses: Array.isArray(entry?.responses) ? entry.responses.map(enrichResponse) : [],
+      }))
+    : undefined,
+});
+
 export const enrichAttachment = (attachment: OnboardingAttachment): OnboardingAttachment => {
   const endpoint =
     process.env.S3_PUBLIC_ENDPOINT ??
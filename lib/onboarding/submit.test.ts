@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { getApplicationWindowState, resolveApplicationWindow } from "./programs";
+import { windowExtensionMatchesApplicant } from "./service";
+import { parseSubmissionPayload } from "./submit";
+import type { OnboardingFieldResponse, OnboardingWindowExtension } from "./types";
+
+const NOW = new Date("2026-05-20T09:00:00.000Z");
+
+const deck = { key: "uploads/deck.pdf", name: "deck.pdf", size: 10, contentType: "application/pdf" };
+
+describe("parseSubmissionPayload", () => {
+  test("keeps a well-formed payload and trims its identifiers", () => {
+    const { payload, error } = parseSubmissionPayload({
+      program: " spring ",
+      formId: "form-1",
+      formVersion: 3,
+      responses: [
+        { fieldId: "company", value: "Acme" },
+        { fieldId: "markets", value: ["de", "fr"] },
+        { fieldId: "deck", value: null, attachments: [deck] },
+        { fieldId: "founders", value: null, entries: [{ id: "e1", responses: [{ fieldId: "name", value: "Ada" }] }] },
+      ],
+      applicantId: "",
+      extensionToken: " token ",
+    });
+
+    assert.equal(error, undefined);
+    assert.equal(payload?.program, "spring");
+    assert.equal(payload?.formVersion, 3);
+    assert.equal(payload?.applicantId, undefined);
+    assert.equal(payload?.extensionToken, "token");
+    assert.deepEqual(payload?.responses[2].attachments, [{ ...deck, url: undefined, sha256: undefined }]);
+    assert.equal(payload?.responses[3].entries?.[0].responses[0].value, "Ada");
+  });
+
+  test("rejects a body without a form or responses", () => {
+    assert.equal(parseSubmissionPayload(null).error, "Invalid JSON payload");
+    assert.equal(parseSubmissionPayload({ responses: [] }).error, "Form ID missing");
+    assert.equal(parseSubmissionPayload({ formId: "form-1", responses: {} }).error, "Responses missing");
+    assert.equal(
+      parseSubmissionPayload({ formId: "form-1", responses: [], formVersion: "3" }).error,
+      "Form version must be a number",
+    );
+  });
+
+  test("rejects malformed answers instead of passing them on", () => {
+    const malformed = [
+      null,
+      { value: "no field" },
+      { fieldId: "company" },
+      { fieldId: "company", value: 42 },
+      { fieldId: "company", value: { text: "Acme" } },
+      { fieldId: "markets", value: ["de", 1] },
+      { fieldId: "deck", value: null, attachments: deck },
+      { fieldId: "deck", value: null, attachments: [{ key: "uploads/deck.pdf" }] },
+      { fieldId: "founders", value: null, entries: [{ id: "e1" }] },
+      { fieldId: "founders", value: null, entries: [{ id: 1, responses: [] }] },
+      { fieldId: "founders", value: null, entries: [{ responses: [{ fieldId: "name", value: 1 }] }] },
+    ];
+
+    malformed.forEach((response) => {
+      assert.match(
+        parseSubmissionPayload({ formId: "form-1", responses: [response] }).error ?? "",
+        /^Responses must be a list/,
+        JSON.stringify(response),
+      );
+    });
+  });
+});
+
+describe("application window", () => {
+  test("prefers the form's dates over the program's", () => {
+    assert.deepEqual(
+      resolveApplicationWindow(
+        { opensAt: "2026-05-01T00:00:00.000Z", closesAt: "2026-05-31T00:00:00.000Z" },
+        { closesAt: "2026-05-15T00:00:00.000Z", maxSubmissions: 50 },
+      ),
+      { opensAt: "2026-05-01T00:00:00.000Z", closesAt: "2026-05-15T00:00:00.000Z", maxSubmissions: 50 },
+    );
+  });
+
+  test("is upcoming, closed or full outside its dates and limit", () => {
+    const window = { opensAt: "2026-05-01T00:00:00.000Z", closesAt: "2026-05-31T00:00:00.000Z", maxSubmissions: 2 };
+
+    assert.equal(getApplicationWindowState(window, 1, NOW), "open");
+    assert.equal(getApplicationWindowState(window, 2, NOW), "full");
+    assert.equal(getApplicationWindowState(window, 0, new Date("2026-04-30T23:59:59.000Z")), "upcoming");
+    assert.equal(getApplicationWindowState(window, 0, new Date("2026-06-01T00:00:00.000Z")), "closed");
+    assert.equal(getApplicationWindowState({}, 1000, NOW), "open");
+  });
+});
+
+describe("windowExtensionMatchesApplicant", () => {
+  const extension: OnboardingWindowExtension = {
+    id: "extension-1",
+    programId: "spring",
+    token: "token",
+    applicant: " Ada@Startup.io ",
+    expiresAt: "2026-06-01T00:00:00.000Z",
+    createdAt: "2026-05-01T00:00:00.000Z",
+  };
+  const responses = (email: string): OnboardingFieldResponse[] => [
+    { fieldId: "company", value: "Acme" },
+    { fieldId: "email", value: email },
+  ];
+
+  test("matches the signed-in account or an email given in the answers, ignoring case", () => {
+    assert.equal(windowExtensionMatchesApplicant(extension, responses(""), "ada@startup.io"), true);
+    assert.equal(windowExtensionMatchesApplicant(extension, responses("ADA@startup.io ")), true);
+    assert.equal(
+      windowExtensionMatchesApplicant(extension, [
+        {
+          fieldId: "founders",
+          value: null,
+          entries: [{ id: "e1", responses: [{ fieldId: "founder-email", value: "ada@startup.io" }] }],
+        },
+      ]),
+      true,
+    );
+  });
+
+  test("refuses anyone else and a link without an applicant", () => {
+    assert.equal(windowExtensionMatchesApplicant(extension, responses("grace@startup.io"), "grace@startup.io"), false);
+    assert.equal(windowExtensionMatchesApplicant({ ...extension, applicant: " " }, responses("")), false);
+  });
+});
@@ -0,0 +1,274 @@
+import { getAssignmentSettings } from "./assignments";
+import { localizeForm, resolveFormLocale } from "./locales";
+import { APPLICATION_WINDOW_MESSAGES, DEFAULT_PROGRAM_ID, type OnboardingWindowState } from "./programs";
+import {
+  autoAssignOnboardingSubmissions,
+  claimOnboardingWindowExtension,
+  enrichResponse,
+  evaluateSubmissionScore,
+  findUsableWindowExtension,
+  getOnboardingConfig,
+  getOnboardingProgram,
+  getProgramApplicationWindow,
+  pruneHiddenResponses,
+  redeemOnboardingWindowExtension,
+  releaseOnboardingWindowExtension,
+  saveOnboardingSubmission,
+  windowExtensionMatchesApplicant,
+} from "./service";
+import type {
+  OnboardingAttachment,
+  OnboardingFieldError,
+  OnboardingFieldResponse,
+  OnboardingGroupEntry,
+  OnboardingSubmission,
+} from "./types";
+import { validateSubmissionResponses } from "./validation";
+
+export type OnboardingSubmitPayload = {
+  program?: string;
+  formId: string;
+  formVersion?: number;
+  responses: OnboardingFieldResponse[];
+  applicantId?: string;
+  draftToken?: string;
+  extensionToken?: string;
+  locale?: string;
+};
+
+export type OnboardingSubmitApplicant = {
+  userId: string;
+  // The signed-in account's email, which an extension link may have been issued to.
+  email?: string;
+};
+
+type OnboardingSubmitRejection = {
+  ok: false;
+  error: string;
+  windowState?: OnboardingWindowState;
+  formVersion?: number;
+  fieldErrors?: OnboardingFieldError[];
+};
+
+export type OnboardingSubmitOutcome =
+  | { status: 200; body: { ok: true; submission: OnboardingSubmission } }
+  | { status: 400 | 403 | 404 | 409; body: OnboardingSubmitRejection };
+
+const MALFORMED_RESPONSES = "Responses must be a list of { fieldId, value } answers";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" && value.trim().length ? value.trim() : undefined;
+
+const parseAttachment = (value: unknown): OnboardingAttachment | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.key !== "string" ||
+    typeof value.name !== "string" ||
+    typeof value.size !== "number" ||
+    typeof value.contentType !== "string"
+  ) {
+    return null;
+  }
+  return {
+    key: value.key,
+    name: value.name,
+    size: value.size,
+    contentType: value.contentType,
+    url: typeof value.url === "string" ? value.url : undefined,
+    sha256: typeof value.sha256 === "string" ? value.sha256 : undefined,
+  };
+};
+
+const parseResponses = (value: unknown): OnboardingFieldResponse[] | null => {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const responses = value.map(parseResponse);
+  return responses.every((response): response is OnboardingFieldResponse => response !== null) ? responses : null;
+};
+
+const parseResponse = (value: unknown): OnboardingFieldResponse | null => {
+  if (!isRecord(value) || typeof value.fieldId !== "string" || !value.fieldId) {
+    return null;
+  }
+  const answer = value.value;
+  if (
+    answer !== null &&
+    typeof answer !== "string" &&
+    !(Array.isArray(answer) && answer.every((item) => typeof item === "string"))
+  ) {
+    return null;
+  }
+
+  let attachments: OnboardingAttachment[] | undefined;
+  if (value.attachments !== undefined) {
+    if (!Array.isArray(value.attachments)) {
+      return null;
+    }
+    attachments = value.attachments.map(parseAttachment).filter((item): item is OnboardingAttachment => !!item);
+    if (attachments.length !== value.attachments.length) {
+      return null;
+    }
+  }
+
+  let entries: OnboardingGroupEntry[] | undefined;
+  if (value.entries !== undefined && value.entries !== null) {
+    if (!Array.isArray(value.entries)) {
+      return null;
+    }
+    entries = [];
+    for (const entry of value.entries) {
+      const entryResponses = isRecord(entry) ? parseResponses(entry.responses) : null;
+      if (!entryResponses || (entry.id !== undefined && typeof entry.id !== "string")) {
+        return null;
+      }
+      entries.push({ id: (entry.id as string | undefined) ?? "", responses: entryResponses });
+    }
+  }
+
+  return { fieldId: value.fieldId, value: answer, attachments, entries };
+};
+
+// Checks the shape of a submit request body so nothing further down has to guard against a malformed answer.
+export const parseSubmissionPayload = (
+  body: unknown,
+): { payload: OnboardingSubmitPayload; error?: undefined } | { payload?: undefined; error: string } => {
+  if (!isRecord(body)) {
+    return { error: "Invalid JSON payload" };
+  }
+  const formId = optionalString(body.formId);
+  if (!formId) {
+    return { error: "Form ID missing" };
+  }
+  if (!Array.isArray(body.responses)) {
+    return { error: "Responses missing" };
+  }
+  const responses = parseResponses(body.responses);
+  if (!responses) {
+    return { error: MALFORMED_RESPONSES };
+  }
+  if (body.formVersion !== undefined && body.formVersion !== null && typeof body.formVersion !== "number") {
+    return { error: "Form version must be a number" };
+  }
+
+  return {
+    payload: {
+      program: optionalString(body.program),
+      formId,
+      formVersion: typeof body.formVersion === "number" ? body.formVersion : undefined,
+      responses,
+      applicantId: optionalString(body.applicantId),
+      draftToken: optionalString(body.draftToken),
+      extensionToken: optionalString(body.extensionToken),
+      locale: optionalString(body.locale),
+    },
+  };
+};
+
+const rejected = (
+  status: 400 | 403 | 404 | 409,
+  error: string,
+  details: Omit<OnboardingSubmitRejection, "ok" | "error"> = {},
+): OnboardingSubmitOutcome => ({ status, body: { ok: false, error, ...details } });
+
+// Shared by the public and signed-in submit routes: checks the application window (or an extension link that
+// reopens it), validates against the active form, saves and scores the submission and queues auto-assignment.
+// Unexpected failures are thrown for the route to log.
+export const submitOnboardingApplication = async (
+  payload: OnboardingSubmitPayload,
+  applicant: OnboardingSubmitApplicant,
+  logLabel: string,
+): Promise<OnboardingSubmitOutcome> => {
+  const enrichedResponses = payload.responses.map(enrichResponse);
+
+  const program = await getOnboardingProgram(payload.program ?? DEFAULT_PROGRAM_ID);
+  if (!program || program.archived) {
+    return rejected(404, "Program not found");
+  }
+
+  const form = await getOnboardingConfig(program.id);
+  const applicationWindow = await getProgramApplicationWindow(program, form);
+  const extension =
+    applicationWindow.state !== "open" && payload.extensionToken
+      ? await findUsableWindowExtension(program.id, payload.extensionToken)
+      : null;
+  if (applicationWindow.state !== "open" && !extension) {
+    return rejected(403, APPLICATION_WINDOW_MESSAGES[applicationWindow.state], {
+      windowState: applicationWindow.state,
+    });
+  }
+
+  // Submissions are always checked and scored against the active form; the client's version is only compared.
+  if (payload.formVersion !== undefined && payload.formVersion !== form.version) {
+    return rejected(
+      409,
+      "The onboarding form has been updated. Please review the latest version and submit again.",
+      { formVersion: form.version },
+    );
+  }
+  if (form.id !== payload.formId) {
+    return rejected(400, "Form ID does not match the active onboarding form");
+  }
+
+  const locale = payload.locale ? resolveFormLocale(form, [payload.locale]) : undefined;
+  const fieldErrors = validateSubmissionResponses(locale ? localizeForm(form, locale) : form, enrichedResponses);
+  if (fieldErrors.length) {
+    return rejected(400, "Some responses need attention", { fieldErrors });
+  }
+
+  if (extension && !windowExtensionMatchesApplicant(extension, enrichedResponses, applicant.email)) {
+    return rejected(403, "This extension link was issued to a different applicant");
+  }
+
+  const visibleResponses = pruneHiddenResponses(form, enrichedResponses);
+  const score = evaluateSubmissionScore(form, visibleResponses);
+
+  let record: OnboardingSubmission;
+  try {
+    if (extension) {
+      await claimOnboardingWindowExtension(extension.id);
+    }
+    try {
+      record = await saveOnboardingSubmission(
+        {
+          userId: applicant.userId,
+          programId: program.id,
+          formId: form.id,
+          formVersion: form.version,
+          locale,
+          responses: visibleResponses,
+          score,
+        },
+        { maxSubmissions: extension ? undefined : applicationWindow.maxSubmissions },
+      );
+    } catch (error) {
+      if (extension) {
+        await releaseOnboardingWindowExtension(extension.id);
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof Error && error.message === "Extension link has already been used") {
+      return rejected(409, error.message);
+    }
+    if (error instanceof Error && error.message === "Application limit reached") {
+      return rejected(403, APPLICATION_WINDOW_MESSAGES.full, { windowState: "full" });
+    }
+    throw error;
+  }
+
+  if (extension) {
+    await redeemOnboardingWindowExtension(extension.id, record.id);
+  }
+
+  if (getAssignmentSettings(program).strategy !== "manual") {
+    await autoAssignOnboardingSubmissions(program, [record.id]).catch((error) =>
+      console.error(`${logLabel} auto-assignment failed`, error),
+    );
+  }
+
+  return { status: 200, body: { ok: true, submission: record } };
+};
@@ -1,9 +1,38 @@
-export type OnboardingFieldType = "text" | "textarea" | "date" | "select" | "file";
+export type OnboardingFieldType =
+  | "text"
+  | "textarea"
+  | "date"
+  | "select"
+  | "file"
+  | "number"
+  | "currency"
+  | "email"
+  | "url"
+  | "phone"
+  | "checkbox"
+  | "multiselect"
+  | "rating"
+  | "group";
 
 export type OnboardingFieldOption = {
   id: string;
   label: string;
   value: string;
+  translations?: Record<string, string>;
+};
+
+export type OnboardingVisibilityOperator = "equals" | "contains" | "in";
+
+export type OnboardingVisibilityCondition = {
+  id: string;
+  fieldId: string;
+  operator: OnboardingVisibilityOperator;
+  values: string[];
+};
+
+export type OnboardingVisibilityRule = {
+  match: "all" | "any";
+  conditions: OnboardingVisibilityCondition[];
 };
 
 export type OnboardingField = {
@@ -15,6 +44,22 @@ export type OnboardingField = {
   placeholder?: string;
   multiple?: boolean;
   options?: OnboardingFieldOption[];
+  min?: number;
+  max?: number;
+  currency?: string;
+  fields?: OnboardingField[];
+  minEntries?: number;
+  maxEntries?: number;
+  entryLabel?: string;
+  visibleWhen?: OnboardingVisibilityRule;
+  translations?: Record<string, OnboardingFieldTranslation>;
+};
+
+export type OnboardingFieldTranslation = {
+  label?: string;
+  description?: string;
+  placeholder?: string;
+  entryLabel?: string;
 };
 
 export type OnboardingSection = {
@@ -22,6 +67,13 @@ export type OnboardingSection = {
   title: string;
   description?: string;
   fields: OnboardingField[];
+  visibleWhen?: OnboardingVisibilityRule;
+  translations?: Record<string, OnboardingSectionTranslation>;
+};
+
+export type OnboardingSectionTranslation = {
+  title?: string;
+  description?: string;
 };
 
 export type OnboardingSubmissionScoreSource = "auto" | "manual";
@@ -37,8 +89,12 @@ export type OnboardingSubmissionScore = {
     ruleId: string;
     label: string;
     points: number;
+    awarded?: number;
     matched: boolean;
+    skipped?: boolean;
     reason?: string;
+    match?: OnboardingScoringMatch;
+    conditions?: OnboardingScoreConditionResult[];
   }[];
   source?: OnboardingSubmissionScoreSource;
   updatedAt?: string;
@@ -49,12 +105,168 @@ export type OnboardingSubmissionScore = {
 export type OnboardingSubmission = {
   id: string;
   userId: string;
+  programId?: string;
   formId: string;
+  formVersion?: number;
+  locale?: string;
   submittedAt: string;
   responses: OnboardingFieldResponse[];
   score?: OnboardingSubmissionScore;
   scoreAuto?: OnboardingSubmissionScore;
   scoreManual?: OnboardingSubmissionScore;
+  scorecards?: OnboardingReviewerScorecard[];
+  panelDecision?: OnboardingPanelDecision;
+  assignments?: OnboardingReviewAssignment[];
+  conflicts?: OnboardingConflictOfInterest[];
+  duplicateResolutions?: OnboardingDuplicateResolution[];
+  mergedInto?: string;
+  lifecycleState?: string;
+  lifecycleHistory?: OnboardingLifecycleTransition[];
+  interviews?: OnboardingInterview[];
+  applicantFeedback?: OnboardingApplicantFeedback[];
+  documentRequests?: OnboardingDocumentRequest[];
+  statusToken?: string;
+  comments?: OnboardingSubmissionComment[];
+  admission?: OnboardingAdmission;
+};
+
+// Workspace provisioning done when an accepted startup is admitted; invited marks a newly created founder account.
+export type OnboardingAdmission = {
+  cohort: string;
+  founderUserId: string;
+  founderEmail: string;
+  invited: boolean;
+  admittedBy: string;
+  admittedByName?: string;
+  admittedAt: string;
+  welcomeEmail?: OnboardingAdmissionEmail;
+};
+
+export type OnboardingAdmissionEmail = {
+  sentAt: string;
+  messageId?: string;
+  error?: string;
+};
+
+export type OnboardingAdmissionInput = {
+  cohort: string;
+  founderEmail: string;
+  founderName?: string;
+  programStartAt?: string;
+  welcomeMessage?: string;
+};
+
+export type OnboardingApplicantFeedback = {
+  id: string;
+  message: string;
+  sharedBy: string;
+  sharedByName?: string;
+  sharedAt: string;
+};
+
+// The text a comment had before the edit made at editedAt.
+export type OnboardingCommentEdit = {
+  body: string;
+  mentions: string[];
+  editedAt: string;
+};
+
+// Internal reviewer discussion; replies point at the thread's first comment through parentId.
+export type OnboardingSubmissionComment = {
+  id: string;
+  parentId?: string;
+  fieldId?: string;
+  body: string;
+  mentions: string[];
+  authorId: string;
+  authorName?: string;
+  createdAt: string;
+  updatedAt?: string;
+  edits?: OnboardingCommentEdit[];
+  resolvedBy?: string;
+  resolvedByName?: string;
+  resolvedAt?: string;
+};
+
+export type OnboardingCommentInput = {
+  body: string;
+  parentId?: string;
+  fieldId?: string;
+  mentionIds?: string[];
+};
+
+export type OnboardingDocumentRequestStatus = "open" | "fulfilled" | "cancelled";
+
+export type OnboardingDocumentRequest = {
+  id: string;
+  title: string;
+  description?: string;
+  dueAt?: string;
+  status: OnboardingDocumentRequestStatus;
+  requestedBy: string;
+  requestedByName?: string;
+  requestedAt: string;
+  attachments?: OnboardingAttachment[];
+  fulfilledAt?: string;
+};
+
+export type OnboardingDocumentRequestInput = {
+  title: string;
+  description?: string;
+  dueAt?: string;
+};
+
+export type OnboardingApplicantStatus = {
+  submissionId: string;
+  programName: string;
+  companyName?: string;
+  submittedAt: string;
+  stage: { id: string; label: string; terminal: boolean };
+  history: Array<{ state: string; label: string; at: string }>;
+  decision?: { label: string; decidedAt: string };
+  feedback: Array<Pick<OnboardingApplicantFeedback, "id" | "message" | "sharedAt">>;
+  documentRequests: Array<Omit<OnboardingDocumentRequest, "requestedBy" | "requestedByName">>;
+  interviews: Array<Pick<OnboardingInterview, "id" | "startTime" | "endTime" | "resourceName" | "status">>;
+};
+
+export type OnboardingDraft = {
+  id: string;
+  programId: string;
+  formId: string;
+  formVersion?: number;
+  applicantId: string;
+  resumeToken: string;
+  responses: OnboardingFieldResponse[];
+  createdAt: string;
+  updatedAt: string;
+  submittedAt?: string;
+  submissionId?: string;
+};
+
+export type OnboardingDraftInput = {
+  formId: string;
+  formVersion?: number;
+  applicantId: string;
+  responses: OnboardingFieldResponse[];
+};
+
+export type OnboardingAbandonedDraft = {
+  id: string;
+  formVersion?: number;
+  companyName?: string;
+  lastSectionId?: string;
+  lastSectionTitle?: string;
+  answeredCount: number;
+  fieldCount: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type OnboardingDraftDropOff = {
+  sectionId: string;
+  title: string;
+  reached: number;
+  stoppedHere: number;
 };
 
 export type OnboardingSubmissionManualScoreInput = {
@@ -65,6 +277,170 @@ export type OnboardingSubmissionManualScoreInput = {
   breakdown?: OnboardingSubmissionScore["breakdown"];
   note?: string;
 };
+
+export type OnboardingPanelAggregation = "mean" | "median" | "trimmed_mean";
+
+export type OnboardingRubricCriterion = {
+  id: string;
+  label: string;
+  description?: string;
+  weight: number;
+};
+
+export type OnboardingReviewRubric = {
+  criteria: OnboardingRubricCriterion[];
+  scaleMin: number;
+  scaleMax: number;
+  aggregation: OnboardingPanelAggregation;
+  disagreementThreshold: number;
+  outlierThreshold: number;
+};
+
+export type OnboardingScorecardCriterionScore = {
+  criterionId: string;
+  score: number;
+  comment?: string;
+};
+
+export type OnboardingReviewerScorecard = {
+  reviewerId: string;
+  reviewerName?: string;
+  scores: OnboardingScorecardCriterionScore[];
+  overall: number;
+  recommendation?: OnboardingSubmissionScore["status"];
+  comment?: string;
+  submittedAt: string;
+  updatedAt: string;
+};
+
+export type OnboardingScorecardInput = {
+  scores: OnboardingScorecardCriterionScore[];
+  recommendation?: OnboardingSubmissionScore["status"];
+  comment?: string;
+};
+
+export type OnboardingInterviewStatus = "scheduled" | "completed" | "cancelled";
+
+export type OnboardingInterviewSlot = {
+  resourceId: string;
+  resourceName?: string;
+  startTime: string;
+  endTime: string;
+  unavailableReason?: string;
+};
+
+export type OnboardingInterviewPanelist = {
+  reviewerId: string;
+  name?: string;
+  email?: string;
+};
+
+export type OnboardingInterview = {
+  id: string;
+  title: string;
+  status: OnboardingInterviewStatus;
+  slots: OnboardingInterviewSlot[];
+  resourceId: string;
+  resourceName?: string;
+  startTime: string;
+  endTime: string;
+  bookingId: string;
+  bookingStatus: "pending" | "confirmed";
+  panel: OnboardingInterviewPanelist[];
+  scorecards?: OnboardingReviewerScorecard[];
+  scheduledBy: string;
+  scheduledByName?: string;
+  scheduledAt: string;
+  completedAt?: string;
+  cancelledAt?: string;
+  cancelReason?: string;
+};
+
+export type OnboardingInterviewInput = {
+  title?: string;
+  panelIds: string[];
+  slots: Array<Pick<OnboardingInterviewSlot, "resourceId" | "startTime" | "endTime">>;
+};
+
+export type OnboardingPanelCriterionSummary = {
+  criterionId: string;
+  label: string;
+  score?: number;
+  min?: number;
+  max?: number;
+  disagreement: boolean;
+};
+
+export type OnboardingPanelSummary = {
+  aggregation: OnboardingPanelAggregation;
+  reviewerCount: number;
+  score?: number;
+  percentage?: number;
+  spread: number;
+  disagreement: boolean;
+  outlierReviewerIds: string[];
+  criteria: OnboardingPanelCriterionSummary[];
+  recommendations: Record<OnboardingSubmissionScore["status"], number>;
+};
+
+export type OnboardingPanelDecision = {
+  status: OnboardingSubmissionScore["status"];
+  score?: number;
+  aggregation: OnboardingPanelAggregation;
+  reviewerCount: number;
+  note?: string;
+  decidedBy: string;
+  decidedByName?: string;
+  decidedAt: string;
+};
+
+export type OnboardingPanelDecisionInput = {
+  status: OnboardingSubmissionScore["status"];
+  note?: string;
+};
+
+export type OnboardingAssignmentStrategy = "manual" | "round_robin" | "stage" | "sector";
+
+export type OnboardingReviewerExpertise = {
+  reviewerId: string;
+  stages: string[];
+  sectors: string[];
+};
+
+export type OnboardingAssignmentSettings = {
+  strategy: OnboardingAssignmentStrategy;
+  reviewersPerSubmission: number;
+  dueDays: number;
+  expertise: OnboardingReviewerExpertise[];
+};
+
+export type OnboardingReviewAssignment = {
+  reviewerId: string;
+  reviewerName?: string;
+  assignedAt: string;
+  dueAt: string;
+  assignedBy: string;
+};
+
+export type OnboardingReviewAssignmentStatus = "pending" | "completed" | "overdue";
+
+export type OnboardingConflictOfInterest = {
+  reviewerId: string;
+  reviewerName?: string;
+  reason?: string;
+  declaredAt: string;
+};
+
+export type OnboardingReviewerWorkload = {
+  reviewerId: string;
+  name: string;
+  assigned: number;
+  pending: number;
+  completed: number;
+  overdue: number;
+  conflicts: number;
+};
+
 export type OnboardingForm = {
   id: string;
   version: number;
@@ -73,6 +449,174 @@ export type OnboardingForm = {
   sections: OnboardingSection[];
   updatedAt: string;
   scoring?: OnboardingScoringConfig;
+  opensAt?: string;
+  closesAt?: string;
+  maxSubmissions?: number;
+  defaultLocale?: string;
+  locales?: string[];
+  translations?: Record<string, OnboardingFormTranslation>;
+};
+
+export type OnboardingFormTranslation = {
+  title?: string;
+  summary?: string;
+};
+
+export type OnboardingMissingTranslation = {
+  locale: string;
+  kind: "form" | "section" | "field" | "option";
+  id: string;
+  label: string;
+  sectionId?: string;
+  properties: string[];
+};
+
+export type OnboardingWindowExtension = {
+  id: string;
+  programId: string;
+  token: string;
+  applicant: string;
+  note?: string;
+  expiresAt: string;
+  createdBy?: string;
+  createdAt: string;
+  usedAt?: string;
+  submissionId?: string;
+};
+
+export type OnboardingWindowExtensionInput = {
+  applicant: string;
+  expiresAt: string;
+  note?: string;
+};
+
+export type OnboardingLifecycleState = {
+  id: string;
+  label: string;
+  description?: string;
+  terminal: boolean;
+  next: string[];
+};
+
+export type OnboardingLifecycle = {
+  states: OnboardingLifecycleState[];
+  initialState: string;
+};
+
+export type OnboardingLifecycleTransition = {
+  from: string;
+  to: string;
+  actorId: string;
+  actorName?: string;
+  at: string;
+  note?: string;
+};
+
+export type OnboardingLifecycleTransitionInput = {
+  to: string;
+  note?: string;
+};
+
+export type OnboardingProgram = {
+  id: string;
+  slug: string;
+  name: string;
+  summary?: string;
+  opensAt?: string;
+  closesAt?: string;
+  reviewerIds: string[];
+  chairId?: string;
+  rubric?: OnboardingReviewRubric;
+  assignment?: OnboardingAssignmentSettings;
+  lifecycle?: OnboardingLifecycle;
+  archived: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type OnboardingProgramInput = {
+  slug?: string;
+  name?: string;
+  summary?: string | null;
+  opensAt?: string | null;
+  closesAt?: string | null;
+  reviewerIds?: string[];
+  chairId?: string | null;
+  rubric?: OnboardingReviewRubric | null;
+  assignment?: OnboardingAssignmentSettings | null;
+  lifecycle?: OnboardingLifecycle | null;
+  archived?: boolean;
+};
+
+export type OnboardingFormVersionSummary = {
+  version: number;
+  title: string;
+  createdAt: string;
+  createdBy?: string;
+  restoredFrom?: number;
+  sectionCount: number;
+  fieldCount: number;
+  ruleCount: number;
+  isCurrent: boolean;
+};
+
+export type OnboardingFormVersion = OnboardingFormVersionSummary & {
+  form: OnboardingForm;
+};
+
+export type OnboardingFormChangeKind = "added" | "removed" | "changed";
+
+export type OnboardingFormSectionChange = {
+  sectionId: string;
+  title: string;
+  kind: OnboardingFormChangeKind;
+  changes: string[];
+};
+
+export type OnboardingFormFieldChange = {
+  fieldId: string;
+  sectionId: string;
+  label: string;
+  kind: OnboardingFormChangeKind;
+  changes: string[];
+};
+
+export type OnboardingFormRuleChange = {
+  ruleId: string;
+  label: string;
+  kind: OnboardingFormChangeKind;
+  changes: string[];
+};
+
+export type OnboardingFormDiff = {
+  fromVersion: number;
+  toVersion: number;
+  form: string[];
+  sections: OnboardingFormSectionChange[];
+  fields: OnboardingFormFieldChange[];
+  rules: OnboardingFormRuleChange[];
+  scoring: string[];
+  hasChanges: boolean;
+};
+
+export type OnboardingFormSchemaDocument = {
+  format: "onboarding-form";
+  schemaVersion: number;
+  exportedAt: string;
+  source?: {
+    programId: string;
+    programSlug: string;
+    programName: string;
+    formVersion: number;
+  };
+  form: Omit<OnboardingForm, "version" | "updatedAt">;
+};
+
+export type OnboardingFormImportPreview = {
+  form: OnboardingForm;
+  diff: OnboardingFormDiff;
+  schemaVersion: number;
+  source?: OnboardingFormSchemaDocument["source"];
 };
 
 export type OnboardingAttachment = {
@@ -81,16 +625,52 @@ export type OnboardingAttachment = {
   size: number;
   contentType: string;
   url?: string;
+  sha256?: string;
 };
 
 export type OnboardingFieldResponse = {
   fieldId: string;
   value: string | string[] | null;
   attachments?: OnboardingAttachment[];
+  entries?: OnboardingGroupEntry[];
 };
 
-export type OnboardingScoreOperator = "equals" | "contains" | "gte" | "lte";
+export type OnboardingGroupEntry = {
+  id: string;
+  responses: OnboardingFieldResponse[];
+};
+
+export type OnboardingFieldError = {
+  fieldId: string;
+  message: string;
+};
+
+export type OnboardingScoreOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "in"
+  | "gte"
+  | "lte"
+  | "between"
+  | "regex"
+  | "is_empty"
+  | "exists"
+  | "attachments_gte";
+
+export type OnboardingScoringMatch = "all" | "any" | "weighted";
+
+export type OnboardingScoringCondition = {
+  id: string;
+  fieldId: string;
+  operator: OnboardingScoreOperator;
+  target: string;
+  subFieldId?: string;
+  entryMatch?: "any" | "all";
+  weight?: number;
+};
 
+// A rule with conditions is a compound rule; its own field/operator/target are unused.
 export type OnboardingScoringRule = {
   id: string;
   fieldId: string;
@@ -99,6 +679,20 @@ export type OnboardingScoringRule = {
   points: number;
   label: string;
   description?: string;
+  subFieldId?: string;
+  entryMatch?: "any" | "all";
+  match?: OnboardingScoringMatch;
+  conditions?: OnboardingScoringCondition[];
+};
+
+export type OnboardingScoreConditionResult = {
+  conditionId: string;
+  fieldId: string;
+  label: string;
+  matched: boolean;
+  skipped?: boolean;
+  reason?: string;
+  weight?: number;
 };
 
 export type OnboardingScoringConfig = {
@@ -114,18 +708,42 @@ export type OnboardingSubmissionResolvedField = {
   type: OnboardingFieldType;
   value: string | string[] | null;
   attachments?: OnboardingAttachment[];
+  entries?: OnboardingSubmissionResolvedEntry[];
+};
+
+export type OnboardingSubmissionResolvedEntry = {
+  id: string;
+  fields: OnboardingSubmissionResolvedField[];
 };
 
 export type OnboardingSubmissionSummaryStatus = OnboardingSubmissionScore["status"] | "review";
 
 export type OnboardingSubmissionSummary = {
   id: string;
+  programId?: string;
   formId: string;
+  formVersion?: number;
+  locale?: string;
   userId: string;
   submittedAt: string;
   score?: OnboardingSubmissionScore;
   scoreAuto?: OnboardingSubmissionScore;
   scoreManual?: OnboardingSubmissionScore;
+  scorecards?: OnboardingReviewerScorecard[];
+  panelDecision?: OnboardingPanelDecision;
+  assignments?: OnboardingReviewAssignment[];
+  conflicts?: OnboardingConflictOfInterest[];
+  duplicateResolutions?: OnboardingDuplicateResolution[];
+  mergedInto?: string;
+  duplicates?: OnboardingDuplicateMatch[];
+  lifecycleState?: string;
+  lifecycleHistory?: OnboardingLifecycleTransition[];
+  interviews?: OnboardingInterview[];
+  applicantFeedback?: OnboardingApplicantFeedback[];
+  documentRequests?: OnboardingDocumentRequest[];
+  statusToken?: string;
+  comments?: OnboardingSubmissionComment[];
+  admission?: OnboardingAdmission;
   status: OnboardingSubmissionSummaryStatus;
   companyName?: string;
   companyStage?: {
@@ -135,12 +753,92 @@ export type OnboardingSubmissionSummary = {
   responses: OnboardingSubmissionResolvedField[];
 };
 
+export type OnboardingDuplicateSignal = "company_name" | "website" | "email" | "applicant" | "attachment";
+
+export type OnboardingDuplicateResolution = {
+  submissionId: string;
+  action: "dismissed" | "merged";
+  resolvedBy: string;
+  resolvedByName?: string;
+  resolvedAt: string;
+};
+
+export type OnboardingDuplicateMatch = {
+  submissionId: string;
+  companyName?: string;
+  submittedAt: string;
+  relation: "earlier" | "later";
+  status: OnboardingSubmissionSummaryStatus;
+  lifecycleState?: string;
+  decision?: OnboardingSubmissionScore["status"];
+  signals: OnboardingDuplicateSignal[];
+  nameSimilarity?: number;
+  resolution?: OnboardingDuplicateResolution["action"];
+};
+
 export type OnboardingSubmissionFilters = {
-  status?: OnboardingSubmissionScore["status"];
+  programId?: string;
+  status?: string;
+  recommendation?: OnboardingSubmissionScore["status"];
   stage?: string;
   minScore?: number;
   maxScore?: number;
   query?: string;
+  assignedTo?: string;
+  mentioned?: string;
+  // Restricts the list to an applicant's own submissions plus those they were granted access to.
+  visibleTo?: { userId: string; submissionIds: string[] };
+};
+
+export type OnboardingSubmissionSort =
+  | "submitted_desc"
+  | "submitted_asc"
+  | "score_desc"
+  | "score_asc"
+  | "company_asc"
+  | "company_desc";
+
+export type OnboardingSubmissionPageInput = {
+  sort?: OnboardingSubmissionSort;
+  cursor?: string;
+  limit?: number;
+};
+
+export type OnboardingExportFormat = "csv" | "xlsx";
+
+export type OnboardingExportCell = string | number | null;
+
+export type OnboardingExportTable = {
+  columns: string[];
+  rows: OnboardingExportCell[][];
+};
+
+export type OnboardingRescoreSnapshot = {
+  status: OnboardingSubmissionScore["status"];
+  awarded: number;
+  total: number;
+};
+
+export type OnboardingRescoreEntry = {
+  submissionId: string;
+  companyName?: string;
+  before?: OnboardingRescoreSnapshot;
+  after?: OnboardingRescoreSnapshot;
+  manualOverride: boolean;
+};
+
+export type OnboardingRescoreResult = {
+  programId: string;
+  formVersion: number;
+  dryRun: boolean;
+  evaluated: number;
+  changed: number;
+  flips: {
+    from: OnboardingSubmissionScore["status"];
+    to: OnboardingSubmissionScore["status"];
+    count: number;
+  }[];
+  entries: OnboardingRescoreEntry[];
 };
 
 export type OnboardingChecklistStatus = "pending" | "in_progress" | "complete";
@@ -153,14 +851,75 @@ export type OnboardingChecklistItem = {
   dueDate?: string;
   updatedAt: string;
   completedAt?: string;
+  templateItemId?: string;
+  assignee?: OnboardingChecklistAssignee;
+  blockedBy?: string[];
+  evidence?: OnboardingChecklistEvidence[];
 };
 
+export type OnboardingChecklistAssigneeKind = "founder" | "staff";
+
+export type OnboardingChecklistAssignee = {
+  kind: OnboardingChecklistAssigneeKind;
+  userId: string;
+  name?: string;
+};
+
+// A piece of evidence the item needs; it is satisfied once documentKey points at an uploaded startup document.
+export type OnboardingChecklistEvidence = {
+  id: string;
+  label: string;
+  documentKey?: string;
+};
+
+// anchorAt is the admit date that template due offsets count from.
 export type OnboardingChecklist = {
   startupId: string;
   createdAt: string;
   updatedAt: string;
   notes?: string;
   items: OnboardingChecklistItem[];
+  templateId?: string;
+  templateVersion?: number;
+  anchorAt?: string;
+};
+
+export type OnboardingChecklistTemplateItem = {
+  id: string;
+  title: string;
+  description?: string;
+  dueOffsetDays?: number;
+};
+
+// Empty scope lists match everything; the template matching the most scopes wins.
+export type OnboardingChecklistTemplate = {
+  id: string;
+  name: string;
+  description?: string;
+  programIds: string[];
+  stages: string[];
+  cohorts: string[];
+  isDefault: boolean;
+  items: OnboardingChecklistTemplateItem[];
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type OnboardingChecklistTemplateInput = {
+  name?: string;
+  description?: string | null;
+  programIds?: string[];
+  stages?: string[];
+  cohorts?: string[];
+  isDefault?: boolean;
+  items?: Array<Partial<OnboardingChecklistTemplateItem>>;
+};
+
+export type OnboardingChecklistTemplateContext = {
+  programId?: string;
+  stage?: string;
+  cohort?: string;
 };
 
 export type OnboardingDocument = {
@@ -229,11 +988,25 @@ export type OnboardingMilestoneSignals = {
   summary?: string;
 };
 
+export type OnboardingMilestoneNotificationKind = "reminder" | "escalation";
+
+export type OnboardingMilestoneNotification = {
+  id: string;
+  milestoneId: string;
+  kind: OnboardingMilestoneNotificationKind;
+  recipients: string[];
+  subject: string;
+  sentAt: string;
+  messageId?: string;
+  error?: string;
+};
+
 export type OnboardingMilestonePlan = {
   startupId: string;
   updatedAt: string;
   milestones: OnboardingMilestone[];
   logs: OnboardingMilestoneLog[];
+  notifications?: OnboardingMilestoneNotification[];
 };
 
 export type OnboardingMilestonePlanSnapshot = {
@@ -241,6 +1014,15 @@ export type OnboardingMilestonePlanSnapshot = {
   updatedAt: string;
   milestones: Array<OnboardingMilestone & { signals: OnboardingMilestoneSignals }>;
   logs: OnboardingMilestoneLog[];
+  notifications: OnboardingMilestoneNotification[];
+};
+
+export type OnboardingMilestoneDispatchResult = {
+  scannedPlans: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  notifications: Array<OnboardingMilestoneNotification & { startupId: string }>;
 };
 
 export type OnboardingMilestoneUpdateInput = {
@@ -0,0 +1,205 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { parseFieldNumber, toFieldErrorMap, validateFieldValue, validateSubmissionResponses } from "./validation";
+import type { OnboardingField, OnboardingFieldResponse, OnboardingForm } from "./types";
+
+const field = (type: OnboardingField["type"], overrides: Partial<OnboardingField> = {}): OnboardingField => ({
+  id: type,
+  label: type,
+  type,
+  required: false,
+  ...overrides,
+});
+
+describe("validateFieldValue", () => {
+  test("accepts emails with a domain and rejects the rest", () => {
+    const email = field("email");
+    assert.equal(validateFieldValue(email, " ada@startup.io "), undefined);
+    assert.equal(validateFieldValue(email, "ada+intake@mail.startup.io"), undefined);
+    ["ada", "ada@startup", "ada @startup.io", "@startup.io", "ada@@startup.io"].forEach((value) =>
+      assert.equal(validateFieldValue(email, value), "Enter a valid email address", value),
+    );
+  });
+
+  test("accepts only http and https URLs", () => {
+    const url = field("url");
+    assert.equal(validateFieldValue(url, "https://acme.io/about?ref=1"), undefined);
+    assert.equal(validateFieldValue(url, "http://localhost:3000"), undefined);
+    ["acme.io", "ftp://acme.io", "javascript:alert(1)", "https://"].forEach((value) =>
+      assert.equal(validateFieldValue(url, value), "Enter a valid URL starting with http:// or https://", value),
+    );
+  });
+
+  test("reads numbers with separators and enforces the field's range inclusively", () => {
+    const equity = field("number", { min: 0, max: 100 });
+    assert.equal(parseFieldNumber("1,250.5"), 1250.5);
+    assert.equal(parseFieldNumber(" "), undefined);
+    assert.equal(validateFieldValue(equity, "0"), undefined);
+    assert.equal(validateFieldValue(equity, "100"), undefined);
+    assert.equal(validateFieldValue(equity, "-0.5"), "Must be at least 0");
+    assert.equal(validateFieldValue(equity, "100.01"), "Must be at most 100");
+    assert.equal(validateFieldValue(equity, "12%"), "Enter a number");
+    assert.equal(validateFieldValue(field("currency", { min: 1000 }), "1 000"), undefined);
+    assert.equal(validateFieldValue(field("number"), "1e9"), undefined);
+  });
+
+  test("limits ratings to whole numbers from 1 to 5 regardless of min and max", () => {
+    const rating = field("rating", { min: 0, max: 10 });
+    assert.equal(validateFieldValue(rating, "5"), undefined);
+    ["0", "6", "2.5"].forEach((value) =>
+      assert.equal(validateFieldValue(rating, value), "Choose a rating between 1 and 5", value),
+    );
+  });
+
+  test("accepts real calendar dates in YYYY-MM-DD only", () => {
+    const date = field("date");
+    assert.equal(validateFieldValue(date, "2024-02-29"), undefined);
+    ["2023-02-29", "2026-13-01", "2026-04-31", "2026-4-1", "01/04/2026", "2026-04-01T00:00"].forEach((value) =>
+      assert.equal(validateFieldValue(date, value), "Enter a valid date (YYYY-MM-DD)", value),
+    );
+  });
+
+  test("checks options, yes/no answers and phone numbers", () => {
+    const options = [
+      { id: "seed", value: "seed", label: "Seed" },
+      { id: "growth", value: "growth", label: "Growth" },
+    ];
+    assert.equal(validateFieldValue(field("select", { options }), "seed"), undefined);
+    assert.equal(validateFieldValue(field("select", { options }), "series-z"), "Unknown option: series-z");
+    assert.equal(validateFieldValue(field("multiselect", { options }), ["seed", "growth"]), undefined);
+    assert.equal(validateFieldValue(field("multiselect", { options }), ["seed", "pre"]), "Unknown option: pre");
+    assert.equal(validateFieldValue(field("multiselect", { options }), "seed"), "Select one or more options");
+    assert.equal(validateFieldValue(field("checkbox"), "yes"), undefined);
+    assert.equal(validateFieldValue(field("checkbox"), "true"), "Answer yes or no");
+    assert.equal(validateFieldValue(field("phone"), "+49 (30) 1234-567"), undefined);
+    assert.equal(validateFieldValue(field("phone"), "call me"), "Enter a valid phone number");
+  });
+
+  test("leaves blank values to the required check and rejects values of the wrong shape", () => {
+    assert.equal(validateFieldValue(field("email"), "   "), undefined);
+    assert.equal(validateFieldValue(field("number"), null), undefined);
+    assert.equal(validateFieldValue(field("text"), ["a", "b"]), "Expected a single value");
+    assert.equal(validateFieldValue(field("file"), ["uploads/deck.pdf"]), undefined);
+    assert.equal(validateFieldValue(field("text"), 42 as unknown as string), "Expected a text value");
+  });
+});
+
+describe("validateSubmissionResponses", () => {
+  const deck = { key: "uploads/deck.pdf", name: "deck.pdf", size: 10, contentType: "application/pdf" };
+  const form: OnboardingForm = {
+    id: "form-1",
+    version: 1,
+    title: "Intake",
+    summary: "",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    sections: [
+      {
+        id: "main",
+        title: "Main",
+        fields: [
+          field("email", { id: "contact", required: true }),
+          field("file", { id: "deck", required: true }),
+          field("checkbox", { id: "raised" }),
+          field("currency", {
+            id: "amount",
+            required: true,
+            min: 1,
+            visibleWhen: {
+              match: "all",
+              conditions: [{ id: "v1", fieldId: "raised", operator: "equals", values: ["yes"] }],
+            },
+          }),
+          field("group", {
+            id: "founders",
+            entryLabel: "Founder",
+            minEntries: 2,
+            maxEntries: 3,
+            fields: [field("text", { id: "name", required: true }), field("url", { id: "linkedin" })],
+          }),
+        ],
+      },
+    ],
+  };
+  const founder = (id: string, name: string, linkedin = "") => ({
+    id,
+    responses: [
+      { fieldId: "name", value: name },
+      { fieldId: "linkedin", value: linkedin },
+    ],
+  });
+  const valid = (overrides: OnboardingFieldResponse[] = []): OnboardingFieldResponse[] => {
+    const base: OnboardingFieldResponse[] = [
+      { fieldId: "contact", value: "ada@startup.io" },
+      { fieldId: "deck", value: null, attachments: [deck] },
+      { fieldId: "raised", value: "no" },
+    ];
+    return [...base.filter((response) => !overrides.some((entry) => entry.fieldId === response.fieldId)), ...overrides];
+  };
+
+  test("accepts a complete submission and an optional group left empty", () => {
+    assert.deepEqual(validateSubmissionResponses(form, valid()), []);
+    assert.deepEqual(
+      validateSubmissionResponses(form, valid([{ fieldId: "founders", value: null, entries: [] }])),
+      [],
+    );
+  });
+
+  test("requires a file field to carry an attachment", () => {
+    assert.deepEqual(validateSubmissionResponses(form, valid([{ fieldId: "deck", value: null, attachments: [] }])), [
+      { fieldId: "deck", message: "This field is required" },
+    ]);
+    assert.deepEqual(validateSubmissionResponses(form, valid([{ fieldId: "deck", value: "deck.pdf" }])), [
+      { fieldId: "deck", message: "This field is required" },
+    ]);
+  });
+
+  test("checks and requires a field only while it is shown", () => {
+    assert.deepEqual(validateSubmissionResponses(form, valid([{ fieldId: "amount", value: "0" }])), []);
+    assert.deepEqual(validateSubmissionResponses(form, valid([{ fieldId: "raised", value: "yes" }])), [
+      { fieldId: "amount", message: "This field is required" },
+    ]);
+    assert.deepEqual(
+      validateSubmissionResponses(
+        form,
+        valid([
+          { fieldId: "raised", value: "yes" },
+          { fieldId: "amount", value: "0" },
+        ]),
+      ),
+      [{ fieldId: "amount", message: "Must be at least 1" }],
+    );
+  });
+
+  test("reports unknown and repeated answers and reports each field once", () => {
+    const errors = validateSubmissionResponses(form, [
+      { fieldId: "contact", value: "not-an-email" },
+      { fieldId: "contact", value: "ada@startup.io" },
+      { fieldId: "website", value: "https://acme.io" },
+      { fieldId: "deck", value: null, attachments: [deck] },
+    ]);
+    assert.deepEqual(errors, [
+      { fieldId: "contact", message: "Enter a valid email address" },
+      { fieldId: "contact", message: "Answered more than once" },
+      { fieldId: "website", message: "Unknown field" },
+    ]);
+    assert.deepEqual(toFieldErrorMap(errors), {
+      contact: "Enter a valid email address",
+      website: "Unknown field",
+    });
+  });
+
+  test("enforces group entry counts and validates each entry's answers", () => {
+    const founders = (...entries: ReturnType<typeof founder>[]) =>
+      validateSubmissionResponses(form, valid([{ fieldId: "founders", value: null, entries }]));
+
+    assert.deepEqual(founders(founder("a", "Ada")), [{ fieldId: "founders", message: "Add at least 2 founders" }]);
+    assert.deepEqual(
+      founders(founder("a", "Ada"), founder("b", "Grace"), founder("c", "Linus"), founder("d", "Joan")),
+      [{ fieldId: "founders", message: "Add no more than 3 founders" }],
+    );
+    assert.deepEqual(founders(founder("a", "Ada", "linkedin.com/in/ada"), founder("b", "  ")), [
+      { fieldId: "founders[a].linkedin", message: "Enter a valid URL starting with http:// or https://" },
+      { fieldId: "founders[b].name", message: "This field is required" },
+    ]);
+  });
+});
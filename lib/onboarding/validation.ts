@@ -0,0 +1,276 @@
+import type {
+  OnboardingField,
+  OnboardingFieldError,
+  OnboardingFieldResponse,
+  OnboardingFieldType,
+  OnboardingForm,
+} from "./types";
+import { resolveFormVisibility, responsesToValues } from "./visibility";
+
+export const RATING_MIN = 1;
+export const RATING_MAX = 5;
+
+export const CHECKBOX_VALUES = ["yes", "no"] as const;
+
+export const FIELD_TYPE_LABELS: Record<OnboardingFieldType, string> = {
+  text: "Short text",
+  textarea: "Long answer",
+  date: "Date",
+  select: "Dropdown",
+  multiselect: "Multi-select",
+  file: "File upload",
+  number: "Number",
+  currency: "Currency",
+  email: "Email",
+  url: "URL",
+  phone: "Phone",
+  checkbox: "Yes / No",
+  rating: "Rating (1–5)",
+  group: "Repeatable group",
+};
+
+export const FIELD_TYPES = Object.keys(FIELD_TYPE_LABELS) as OnboardingFieldType[];
+
+export const GROUP_ENTRY_FIELD_TYPES = FIELD_TYPES.filter((type) => type !== "group");
+
+export const groupEntryErrorKey = (groupId: string, entryId: string, fieldId: string) =>
+  `${groupId}[${entryId}].${fieldId}`;
+
+export const fieldTypeHasOptions = (type: OnboardingFieldType) =>
+  type === "select" || type === "multiselect";
+
+export const fieldTypeIsNumeric = (type: OnboardingFieldType) =>
+  type === "number" || type === "currency" || type === "rating";
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9\s().-]{6,20}$/;
+
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+export const parseFieldNumber = (value: string): number | undefined => {
+  const cleaned = value.replace(/[\s,]/g, "");
+  if (!cleaned.length) {
+    return undefined;
+  }
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const isValidDate = (value: string) => {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+  );
+};
+
+const validateNumeric = (field: OnboardingField, value: string): string | undefined => {
+  const parsed = parseFieldNumber(value);
+  if (parsed === undefined) {
+    return "Enter a number";
+  }
+  if (field.type === "rating") {
+    if (!Number.isInteger(parsed) || parsed < RATING_MIN || parsed > RATING_MAX) {
+      return `Choose a rating between ${RATING_MIN} and ${RATING_MAX}`;
+    }
+    return undefined;
+  }
+  if (field.min !== undefined && parsed < field.min) {
+    return `Must be at least ${field.min}`;
+  }
+  if (field.max !== undefined && parsed > field.max) {
+    return `Must be at most ${field.max}`;
+  }
+  return undefined;
+};
+
+export const validateFieldValue = (
+  field: OnboardingField,
+  value: string | string[] | null | undefined,
+): string | undefined => {
+  if (value === null || value === undefined || field.type === "group") {
+    return undefined;
+  }
+
+  if (field.type === "multiselect") {
+    if (!Array.isArray(value)) {
+      return "Select one or more options";
+    }
+    const allowed = new Set((field.options ?? []).map((option) => option.value));
+    const unknown = value.filter((entry) => !allowed.has(entry));
+    return unknown.length ? `Unknown option: ${unknown.join(", ")}` : undefined;
+  }
+
+  if (Array.isArray(value)) {
+    return field.type === "file" ? undefined : "Expected a single value";
+  }
+
+  if (typeof value !== "string") {
+    return "Expected a text value";
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed.length) {
+    return undefined;
+  }
+
+  switch (field.type) {
+    case "select":
+      return (field.options ?? []).some((option) => option.value === trimmed)
+        ? undefined
+        : `Unknown option: ${trimmed}`;
+    case "date":
+      return isValidDate(trimmed) ? undefined : "Enter a valid date (YYYY-MM-DD)";
+    case "number":
+    case "currency":
+    case "rating":
+      return validateNumeric(field, trimmed);
+    case "email":
+      return EMAIL_PATTERN.test(trimmed) ? undefined : "Enter a valid email address";
+    case "url":
+      return isValidUrl(trimmed) ? undefined : "Enter a valid URL starting with http:// or https://";
+    case "phone":
+      return PHONE_PATTERN.test(trimmed) ? undefined : "Enter a valid phone number";
+    case "checkbox":
+      return (CHECKBOX_VALUES as readonly string[]).includes(trimmed) ? undefined : "Answer yes or no";
+    default:
+      return undefined;
+  }
+};
+
+export const isResponseAnswered = (
+  field: OnboardingField,
+  response?: Pick<OnboardingFieldResponse, "value" | "attachments" | "entries">,
+) => {
+  if (field.type === "group") {
+    return (response?.entries?.length ?? 0) > 0;
+  }
+  if (field.type === "file") {
+    return (response?.attachments?.length ?? 0) > 0;
+  }
+  const value = response?.value;
+  if (Array.isArray(value)) {
+    return value.some((entry) => typeof entry === "string" && entry.trim().length > 0);
+  }
+  return typeof value === "string" && value.trim().length > 0;
+};
+
+const validateGroupEntries = (
+  field: OnboardingField,
+  response: OnboardingFieldResponse,
+  errors: OnboardingFieldError[],
+) => {
+  const entries = Array.isArray(response.entries) ? response.entries : [];
+  const label = (field.entryLabel || "entry").toLowerCase();
+  if (field.minEntries !== undefined && entries.length > 0 && entries.length < field.minEntries) {
+    errors.push({
+      fieldId: field.id,
+      message: `Add at least ${field.minEntries} ${label}${field.minEntries === 1 ? "" : "s"}`,
+    });
+  }
+  if (field.maxEntries !== undefined && entries.length > field.maxEntries) {
+    errors.push({
+      fieldId: field.id,
+      message: `Add no more than ${field.maxEntries} ${label}${field.maxEntries === 1 ? "" : "s"}`,
+    });
+  }
+
+  const subFields = new Map((field.fields ?? []).map((subField) => [subField.id, subField] as const));
+  entries.forEach((entry) => {
+    const entryId = typeof entry?.id === "string" ? entry.id : "";
+    const entryResponses = Array.isArray(entry?.responses) ? entry.responses : [];
+    const answered = new Map<string, OnboardingFieldResponse>();
+    entryResponses.forEach((entryResponse) => {
+      const subField = subFields.get(entryResponse?.fieldId);
+      const key = groupEntryErrorKey(field.id, entryId, entryResponse?.fieldId ?? "");
+      if (!subField) {
+        errors.push({ fieldId: key, message: "Unknown field" });
+        return;
+      }
+      answered.set(subField.id, entryResponse);
+      const message = validateFieldValue(subField, entryResponse.value);
+      if (message) {
+        errors.push({ fieldId: key, message });
+      }
+    });
+    subFields.forEach((subField) => {
+      if (subField.required && !isResponseAnswered(subField, answered.get(subField.id))) {
+        errors.push({
+          fieldId: groupEntryErrorKey(field.id, entryId, subField.id),
+          message: "This field is required",
+        });
+      }
+    });
+  });
+};
+
+export const validateSubmissionResponses = (
+  form: OnboardingForm,
+  responses: OnboardingFieldResponse[],
+): OnboardingFieldError[] => {
+  const fields = new Map(
+    form.sections.flatMap((section) => section.fields.map((field) => [field.id, field] as const)),
+  );
+  const { hiddenFieldIds } = resolveFormVisibility(form, responsesToValues(responses));
+  const errors: OnboardingFieldError[] = [];
+  const answered = new Map<string, OnboardingFieldResponse>();
+
+  responses.forEach((response) => {
+    const fieldId = typeof response?.fieldId === "string" ? response.fieldId : "";
+    const field = fields.get(fieldId);
+    if (!field) {
+      errors.push({ fieldId, message: "Unknown field" });
+      return;
+    }
+    if (answered.has(fieldId)) {
+      errors.push({ fieldId, message: "Answered more than once" });
+      return;
+    }
+    answered.set(fieldId, response);
+    if (hiddenFieldIds.has(fieldId)) {
+      return;
+    }
+    if (field.type === "group") {
+      validateGroupEntries(field, response, errors);
+      return;
+    }
+    const message = validateFieldValue(field, response.value);
+    if (message) {
+      errors.push({ fieldId, message });
+    }
+  });
+
+  fields.forEach((field) => {
+    if (!field.required || hiddenFieldIds.has(field.id)) {
+      return;
+    }
+    if (errors.some((error) => error.fieldId === field.id)) {
+      return;
+    }
+    if (!isResponseAnswered(field, answered.get(field.id))) {
+      errors.push({ fieldId: field.id, message: "This field is required" });
+    }
+  });
+
+  return errors;
+};
+
+export const toFieldErrorMap = (errors: OnboardingFieldError[]): Record<string, string> =>
+  errors.reduce<Record<string, string>>((map, error) => {
+    if (!map[error.fieldId]) {
+      map[error.fieldId] = error.message;
+    }
+    return map;
+  }, {});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { OnboardingField, OnboardingSection, OnboardingVisibilityRule } from "./types";
+import { evaluateVisibilityRule, resolveFormVisibility } from "./visibility";
+
+const rule = (
+  match: OnboardingVisibilityRule["match"],
+  ...conditions: Array<[string, OnboardingVisibilityRule["conditions"][number]["operator"], string[]]>
+): OnboardingVisibilityRule => ({
+  match,
+  conditions: conditions.map(([fieldId, operator, values], index) => ({
+    id: `condition-${index}`,
+    fieldId,
+    operator,
+    values,
+  })),
+});
+
+const field = (id: string, visibleWhen?: OnboardingVisibilityRule): OnboardingField => ({
+  id,
+  label: id,
+  type: "text",
+  required: false,
+  visibleWhen,
+});
+
+const section = (id: string, fields: OnboardingField[], visibleWhen?: OnboardingVisibilityRule): OnboardingSection => ({
+  id,
+  title: id,
+  fields,
+  visibleWhen,
+});
+
+describe("evaluateVisibilityRule", () => {
+  test("shows anything without conditions", () => {
+    assert.equal(evaluateVisibilityRule(undefined, {}), true);
+    assert.equal(evaluateVisibilityRule({ match: "all", conditions: [] }, {}), true);
+  });
+
+  test("compares answers case-insensitively and ignores surrounding whitespace", () => {
+    assert.equal(evaluateVisibilityRule(rule("all", ["stage", "equals", ["Seed"]]), { stage: " seed " }), true);
+    assert.equal(evaluateVisibilityRule(rule("all", ["stage", "equals", ["Seed"]]), { stage: "pre-seed" }), false);
+  });
+
+  test("supports contains and in against multi-select answers", () => {
+    const values = { sectors: ["Climate Tech", "Energy"] };
+    assert.equal(evaluateVisibilityRule(rule("all", ["sectors", "contains", ["climate"]]), values), true);
+    assert.equal(evaluateVisibilityRule(rule("all", ["sectors", "in", ["health", "energy"]]), values), true);
+    assert.equal(evaluateVisibilityRule(rule("all", ["sectors", "in", ["health"]]), values), false);
+  });
+
+  test("treats unanswered fields as not matching", () => {
+    assert.equal(evaluateVisibilityRule(rule("all", ["stage", "equals", ["seed"]]), { stage: null }), false);
+    assert.equal(evaluateVisibilityRule(rule("all", ["stage", "equals", ["seed"]]), {}), false);
+  });
+
+  test("combines conditions with all or any", () => {
+    const values = { stage: "seed", country: "de" };
+    const conditions: Array<[string, "equals", string[]]> = [
+      ["stage", "equals", ["seed"]],
+      ["country", "equals", ["fr"]],
+    ];
+    assert.equal(evaluateVisibilityRule(rule("all", ...conditions), values), false);
+    assert.equal(evaluateVisibilityRule(rule("any", ...conditions), values), true);
+  });
+});
+
+describe("resolveFormVisibility", () => {
+  test("hides every field of a hidden section", () => {
+    const form = {
+      sections: [
+        section("basics", [field("stage")]),
+        section("funding", [field("raised"), field("investors")], rule("all", ["stage", "equals", ["seed"]])),
+      ],
+    };
+
+    const hidden = resolveFormVisibility(form, { stage: "idea" });
+    assert.deepEqual([...hidden.hiddenSectionIds], ["funding"]);
+    assert.deepEqual([...hidden.hiddenFieldIds].sort(), ["investors", "raised"]);
+
+    const shown = resolveFormVisibility(form, { stage: "seed" });
+    assert.equal(shown.hiddenSectionIds.size, 0);
+    assert.equal(shown.hiddenFieldIds.size, 0);
+  });
+
+  test("ignores answers to hidden fields when resolving later rules", () => {
+    const form = {
+      sections: [
+        section("basics", [
+          field("has-revenue"),
+          field("revenue-model", rule("all", ["has-revenue", "equals", ["yes"]])),
+          field("pricing", rule("all", ["revenue-model", "equals", ["subscription"]])),
+        ]),
+      ],
+    };
+
+    const visibility = resolveFormVisibility(form, { "has-revenue": "no", "revenue-model": "subscription" });
+    assert.deepEqual([...visibility.hiddenFieldIds].sort(), ["pricing", "revenue-model"]);
+  });
+
+  test("ignores answers to fields in hidden sections", () => {
+    const form = {
+      sections: [
+        section("basics", [field("incorporated")]),
+        section("company", [field("entity-type")], rule("all", ["incorporated", "equals", ["yes"]])),
+        section("tax", [field("vat-id")], rule("all", ["entity-type", "equals", ["gmbh"]])),
+      ],
+    };
+
+    const visibility = resolveFormVisibility(form, { incorporated: "no", "entity-type": "gmbh" });
+    assert.deepEqual([...visibility.hiddenSectionIds].sort(), ["company", "tax"]);
+  });
+});
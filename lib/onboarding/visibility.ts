@@ -0,0 +1,113 @@
+import type {
+  OnboardingField,
+  OnboardingFieldResponse,
+  OnboardingForm,
+  OnboardingSection,
+  OnboardingVisibilityCondition,
+  OnboardingVisibilityOperator,
+  OnboardingVisibilityRule,
+} from "./types";
+
+export type OnboardingResponseValues = Record<string, string | string[] | null | undefined>;
+
+export const VISIBILITY_OPERATORS: OnboardingVisibilityOperator[] = ["equals", "contains", "in"];
+
+const toComparableValues = (value: string | string[] | null | undefined): string[] => {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  const entries = Array.isArray(value) ? value : [value];
+  return entries
+    .map((entry) => (entry ?? "").toString().trim().toLowerCase())
+    .filter((entry) => entry.length > 0);
+};
+
+const matchesCondition = (
+  condition: OnboardingVisibilityCondition,
+  values: OnboardingResponseValues,
+): boolean => {
+  const actual = toComparableValues(values[condition.fieldId]);
+  const targets = toComparableValues(condition.values);
+  if (!actual.length || !targets.length) {
+    return false;
+  }
+
+  switch (condition.operator) {
+    case "contains":
+      return actual.some((value) => targets.some((target) => value.includes(target)));
+    case "in":
+      return actual.some((value) => targets.includes(value));
+    case "equals":
+    default:
+      return actual.some((value) => value === targets[0]);
+  }
+};
+
+export const evaluateVisibilityRule = (
+  rule: OnboardingVisibilityRule | undefined,
+  values: OnboardingResponseValues,
+): boolean => {
+  if (!rule || !rule.conditions.length) {
+    return true;
+  }
+  return rule.match === "any"
+    ? rule.conditions.some((condition) => matchesCondition(condition, values))
+    : rule.conditions.every((condition) => matchesCondition(condition, values));
+};
+
+export const responsesToValues = (responses: OnboardingFieldResponse[]): OnboardingResponseValues => {
+  const values: OnboardingResponseValues = {};
+  responses.forEach((response) => {
+    values[response.fieldId] = response.value;
+  });
+  return values;
+};
+
+export type OnboardingFormVisibility = {
+  hiddenSectionIds: Set<string>;
+  hiddenFieldIds: Set<string>;
+};
+
+export const resolveFormVisibility = (
+  form: Pick<OnboardingForm, "sections">,
+  values: OnboardingResponseValues,
+): OnboardingFormVisibility => {
+  const fieldCount = form.sections.reduce((sum, section) => sum + section.fields.length, 0);
+  let hiddenSectionIds = new Set<string>();
+  let hiddenFieldIds = new Set<string>();
+
+  // Answers to hidden fields must not reveal other fields, so iterate until the hidden set settles.
+  for (let pass = 0; pass <= fieldCount; pass += 1) {
+    const visibleValues: OnboardingResponseValues = {};
+    Object.entries(values).forEach(([fieldId, value]) => {
+      if (!hiddenFieldIds.has(fieldId)) {
+        visibleValues[fieldId] = value;
+      }
+    });
+
+    const nextSections = new Set<string>();
+    const nextFields = new Set<string>();
+    form.sections.forEach((section: OnboardingSection) => {
+      const sectionVisible = evaluateVisibilityRule(section.visibleWhen, visibleValues);
+      if (!sectionVisible) {
+        nextSections.add(section.id);
+      }
+      section.fields.forEach((field: OnboardingField) => {
+        if (!sectionVisible || !evaluateVisibilityRule(field.visibleWhen, visibleValues)) {
+          nextFields.add(field.id);
+        }
+      });
+    });
+
+    const settled =
+      nextFields.size === hiddenFieldIds.size &&
+      Array.from(nextFields).every((fieldId) => hiddenFieldIds.has(fieldId));
+    hiddenSectionIds = nextSections;
+    hiddenFieldIds = nextFields;
+    if (settled) {
+      break;
+    }
+  }
+
+  return { hiddenSectionIds, hiddenFieldIds };
+};
@@ -1,4 +1,5 @@
 import { Prisma, PrismaClient } from "@prisma/client";
+import { reindexOnboardingSubmissions } from "../lib/onboarding/service";
 
 const prisma = new PrismaClient();
 
@@ -193,6 +194,33 @@ const seedOnboardingConfig = async () => {
       createdAt: new Date(),
     },
   });
+  await prisma.onboardingConfigVersionRecord.upsert({
+    where: {
+      configId_version: {
+        configId: "startup-onboarding-config",
+        version: payload.version,
+      },
+    },
+    update: {
+      payload: payload as Prisma.InputJsonValue,
+    },
+    create: {
+      configId: "startup-onboarding-config",
+      version: payload.version,
+      payload: payload as Prisma.InputJsonValue,
+      createdBy: "user-admin",
+      createdAt: new Date(payload.updatedAt),
+    },
+  });
+  await prisma.onboardingProgramRecord.upsert({
+    where: { id: "default" },
+    update: {},
+    create: {
+      id: "default",
+      slug: "founders-intake",
+      payload: { name: "Founders Intake", reviewerIds: [], archived: false },
+    },
+  });
 };
 
 const seedOnboardingSubmissions = async () => {
@@ -226,12 +254,15 @@ const seedOnboardingSubmissions = async () => {
     {
       id: "submission-aeroedge-001",
       userId: "user-admin",
+      programId: "default",
       formId: "founders-intake",
       submittedAt: isoDaysFromNow(-14),
       payload: {
         id: "submission-aeroedge-001",
         userId: "user-admin",
+        programId: "default",
         formId: "founders-intake",
+        formVersion: 1,
         submittedAt: isoDaysFromNow(-14),
         companyName: "AeroEdge Labs",
         responses: [
@@ -251,12 +282,15 @@ const seedOnboardingSubmissions = async () => {
     {
       id: "submission-biopulse-001",
       userId: "user-program-manager",
+      programId: "default",
       formId: "founders-intake",
       submittedAt: isoDaysFromNow(-10),
       payload: {
         id: "submission-biopulse-001",
         userId: "user-program-manager",
+        programId: "default",
         formId: "founders-intake",
+        formVersion: 1,
         submittedAt: isoDaysFromNow(-10),
         companyName: "BioPulse Analytics",
         responses: [
@@ -289,13 +323,16 @@ const seedOnboardingSubmissions = async () => {
       where: { id: submission.id },
       update: {
         userId: submission.userId,
+        programId: submission.programId,
         formId: submission.formId,
         submittedAt: new Date(submission.submittedAt),
         payload: submission.payload as Prisma.InputJsonValue,
+        indexVersion: 0,
       },
       create: {
         id: submission.id,
         userId: submission.userId,
+        programId: submission.programId,
         formId: submission.formId,
         submittedAt: new Date(submission.submittedAt),
         payload: submission.payload as Prisma.InputJsonValue,
@@ -819,6 +856,7 @@ const main = async () => {
   await seedUsers();
   await seedOnboardingConfig();
   await seedOnboardingSubmissions();
+  await reindexOnboardingSubmissions();
   await seedOnboardingChecklists();
   await seedMilestonePlans();
   await seedAlumniRecords();